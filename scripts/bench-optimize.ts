@@ -0,0 +1,109 @@
+/**
+ * Time screenshot optimization on text-mode and graphical console frames,
+ * through the RGBA entry point (`optimizeImage`) and end to end from PNG to
+ * PNG (`optimizeForLlm`), and fail when a case exceeds its threshold.
+ *
+ * The thresholds are ceilings for a single slow core, about 3x the times
+ * measured there, meant to catch regressions such as per-pixel allocations
+ * rather than to rank machines. The per-pixel implementation this replaced
+ * took 0.5-0.6 s (RGBA) and 2.1-2.3 s (PNG to PNG) on the 1920x1080 cases.
+ *
+ * Usage: bun run bench:optimize
+ */
+
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { type OptimizeOptions, optimizeForLlm, optimizeImage } from "../src/kvm/optimize.js";
+import { encodePng } from "../src/screen/image.js";
+import type { RgbaImage } from "../src/screen/types.js";
+import { renderTextScreen } from "../test/helpers/text-screen.js";
+
+const FIXTURES = join(import.meta.dir, "../test/fixtures/ocr");
+const RUNS = 5;
+
+interface Case {
+	readonly name: string;
+	readonly frame: RgbaImage;
+	readonly options?: OptimizeOptions;
+	/** Ceilings of the median RGBA and PNG-to-PNG times in ms */
+	readonly limits: readonly [rgba: number, endToEnd: number];
+}
+
+function fixture(name: string): string[] {
+	return readFileSync(join(FIXTURES, `${name}.txt`), "utf8").trimEnd().split("\n");
+}
+
+/** A UEFI-setup-like frame: a gradient background, flat panels and compression noise. */
+function graphicalFrame(width: number, height: number): RgbaImage {
+	const pixels = new Uint8Array(width * height * 4);
+	let seed = 1;
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+			const noise = (seed >>> 29) - 4;
+			const panel = x > width / 8 && x < (width * 7) / 8 && y > height / 6 && y < (height * 5) / 6;
+			const base = panel ? 40 : Math.round((y / height) * 60);
+			pixels.set([base + noise, base + 10 + noise, (panel ? 120 : base + 30) + noise, 255], (y * width + x) * 4);
+		}
+	}
+	return { width, height, pixels };
+}
+
+const cases: Case[] = [
+	{
+		name: "text 720x400, 2x auto",
+		frame: renderTextScreen(fixture("kernel-panic"), { cellWidth: 9 }),
+		limits: [30, 150],
+	},
+	{
+		name: "text 800x600, 2x auto",
+		frame: renderTextScreen(fixture("fsck-prompt"), { columns: 100, rows: 37, width: 800, height: 600 }),
+		limits: [30, 200],
+	},
+	{ name: "graphical 1024x768, 2x auto", frame: graphicalFrame(1024, 768), limits: [40, 450] },
+	{
+		name: "graphical 1920x1080, 3x brightness 3",
+		frame: graphicalFrame(1920, 1080),
+		options: { scale: 3, brightness: 3 },
+		limits: [150, 1200],
+	},
+	{
+		name: "graphical 1920x1080, 3x auto",
+		frame: graphicalFrame(1920, 1080),
+		options: { scale: 3, brightness: "auto" },
+		limits: [300, 1000],
+	},
+];
+
+/** Median time of `RUNS` calls in ms, after a warm-up call. */
+function median(run: () => unknown): number {
+	run();
+	const times: number[] = [];
+	for (let i = 0; i < RUNS; i++) {
+		const start = performance.now();
+		run();
+		times.push(performance.now() - start);
+	}
+	times.sort((a, b) => a - b);
+	return times[RUNS >> 1];
+}
+
+let failed = false;
+const rows: string[][] = [["case", "RGBA ms", "PNG→PNG ms", "limits ms", ""]];
+for (const { name, frame, options, limits } of cases) {
+	const png = encodePng(frame);
+	const rgba = median(() => optimizeImage(frame, options));
+	const endToEnd = median(() => optimizeForLlm(png, options));
+	const ok = rgba <= limits[0] && endToEnd <= limits[1];
+	failed ||= !ok;
+	rows.push([name, rgba.toFixed(1), endToEnd.toFixed(1), limits.join(" / "), ok ? "ok" : "SLOW"]);
+}
+
+const widths = rows[0].map((_, c) => Math.max(...rows.map((row) => row[c].length)));
+for (const row of rows) {
+	console.log(row.map((cell, c) => (c === 0 ? cell.padEnd(widths[c]) : cell.padStart(widths[c]))).join("  "));
+}
+if (failed) {
+	console.error("Some cases exceeded their threshold");
+	process.exit(1);
+}
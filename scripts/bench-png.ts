@@ -0,0 +1,62 @@
+/**
+ * Compare PNG sizes and encode times of text-mode console frames:
+ * 32-bit RGBA (the previous encoding) against palette-indexed PNGs,
+ * for clean frames and for frames with KVM-like compression noise.
+ *
+ * Usage: bun run bench:png
+ */
+
+import { readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { PNG } from "pngjs";
+import { encodeFramePng } from "../src/screen/image.js";
+import type { RgbaImage } from "../src/screen/types.js";
+import { renderTextScreen } from "../test/helpers/text-screen.js";
+
+const FIXTURES = join(import.meta.dir, "../test/fixtures/ocr");
+const RUNS = 10;
+
+function rgbaPng(image: RgbaImage): Buffer {
+	const png = new PNG({ width: image.width, height: image.height });
+	png.data = Buffer.from(image.pixels);
+	return PNG.sync.write(png);
+}
+
+/** Median time of `RUNS` calls in ms, and the last result. */
+function time(encode: () => Buffer): { ms: number; data: Buffer } {
+	let data = encode();
+	const times: number[] = [];
+	for (let i = 0; i < RUNS; i++) {
+		const start = performance.now();
+		data = encode();
+		times.push(performance.now() - start);
+	}
+	times.sort((a, b) => a - b);
+	return { ms: times[RUNS >> 1], data };
+}
+
+const rows: string[][] = [["frame", "RGBA bytes", "indexed bytes", "ratio", "RGBA ms", "indexed ms"]];
+for (const file of readdirSync(FIXTURES).filter((f) => f.endsWith(".txt"))) {
+	const lines = readFileSync(join(FIXTURES, file), "utf8").trimEnd().split("\n");
+	// The fsck screen is a 100x37 framebuffer console at 800x600
+	const size = lines.length > 25 ? { columns: 100, rows: 37, width: 800, height: 600 } : {};
+
+	for (const noise of [0, 6]) {
+		const frame = renderTextScreen(lines, { ...size, noise });
+		const rgba = time(() => rgbaPng(frame));
+		const indexed = time(() => encodeFramePng(frame));
+		rows.push([
+			`${file.replace(".txt", "")}${noise ? " (noisy)" : ""}`,
+			String(rgba.data.length),
+			String(indexed.data.length),
+			`${(rgba.data.length / indexed.data.length).toFixed(1)}x`,
+			rgba.ms.toFixed(1),
+			indexed.ms.toFixed(1),
+		]);
+	}
+}
+
+const widths = rows[0].map((_, c) => Math.max(...rows.map((row) => row[c].length)));
+for (const row of rows) {
+	console.log(row.map((cell, c) => (c === 0 ? cell.padEnd(widths[c]) : cell.padStart(widths[c]))).join("  "));
+}
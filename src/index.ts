@@ -11,6 +11,13 @@ import { OvhProvider } from "./providers/ovh/provider.js";
 import type { OvhConfig } from "./providers/ovh/types.js";
 
 const PORT = Number(process.env.PORT) || 3001;
+/** Seconds before an unused KVM session is closed (unset: provider default). */
+const KVM_IDLE_TIMEOUT = Number(process.env.KVM_IDLE_TIMEOUT) || undefined;
+/** Servers the power tool may reboot, comma-separated; "*" for all (unset: none). */
+const POWER_ALLOWED_SERVERS = (process.env.POWER_ALLOWED_SERVERS ?? "")
+	.split(",")
+	.map((id) => id.trim())
+	.filter(Boolean);
 
 function loadOvhConfig(): OvhConfig {
 	const endpoint = process.env.OVH_ENDPOINT || "eu";
@@ -29,14 +36,16 @@ function loadOvhConfig(): OvhConfig {
 
 async function main(): Promise<void> {
 	const ovhConfig = loadOvhConfig();
-	const provider = new OvhProvider(ovhConfig);
+	const provider = new OvhProvider(ovhConfig, {
+		sessionIdleTimeout: KVM_IDLE_TIMEOUT && KVM_IDLE_TIMEOUT * 1000,
+	});
 
 	// Store active transports per session for proper lifecycle
 	const transports = new Map<string, WebStandardStreamableHTTPServerTransport>();
 
 	const httpServer = Bun.serve({
 		port: PORT,
-		idleTimeout: 255, // max allowed — screenshot capture can take 30-120s
+		idleTimeout: 255, // max allowed — the first capture for a server can take 30-120s
 		routes: {
 			"/health": () => new Response("ok", { status: 200 }),
 			"/mcp": async (req) => {
@@ -49,7 +58,9 @@ async function main(): Promise<void> {
 					}
 
 					// Each session gets its own McpServer instance
-					const mcpServer = createMcpServer(provider);
+					const mcpServer = createMcpServer(provider, {
+						power: { allowList: POWER_ALLOWED_SERVERS },
+					});
 
 					const transport = new WebStandardStreamableHTTPServerTransport({
 						sessionIdGenerator: () => crypto.randomUUID(),
@@ -82,6 +93,15 @@ async function main(): Promise<void> {
 	});
 
 	console.log(`ikvm-mcp server listening on http://localhost:${httpServer.port}/mcp`);
+
+	// Release BMC KVM slots held by pooled sessions on shutdown
+	for (const signal of ["SIGINT", "SIGTERM"] as const) {
+		process.on(signal, () => {
+			provider.close();
+			httpServer.stop();
+			process.exit(0);
+		});
+	}
 }
 
 main().catch((err) => {
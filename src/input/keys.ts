@@ -0,0 +1,188 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Key name parsing for console input.
+ *
+ * Accepts human-friendly key names ("Enter", "Esc", "F2", "Up") and
+ * chords joined with "+" ("Ctrl+Alt+Del", "Shift+Tab"). Names are
+ * case-insensitive. Single characters map to their key on a US keyboard
+ * without Shift — use text typing for anything layout-dependent.
+ */
+
+import type { KeyStroke, Modifier } from "./types.js";
+
+/** All physical keys that can be sent, as `KeyboardEvent.code` values. */
+export const KEY_CODES: ReadonlySet<string> = new Set([
+	..."ABCDEFGHIJKLMNOPQRSTUVWXYZ".split("").map((c) => `Key${c}`),
+	..."0123456789".split("").map((d) => `Digit${d}`),
+	"Enter",
+	"Escape",
+	"Backspace",
+	"Tab",
+	"Space",
+	"Minus",
+	"Equal",
+	"BracketLeft",
+	"BracketRight",
+	"Backslash",
+	"IntlBackslash",
+	"Semicolon",
+	"Quote",
+	"Backquote",
+	"Comma",
+	"Period",
+	"Slash",
+	"CapsLock",
+	...Array.from({ length: 12 }, (_, i) => `F${i + 1}`),
+	"PrintScreen",
+	"ScrollLock",
+	"Pause",
+	"Insert",
+	"Home",
+	"PageUp",
+	"Delete",
+	"End",
+	"PageDown",
+	"ArrowRight",
+	"ArrowLeft",
+	"ArrowDown",
+	"ArrowUp",
+	"NumLock",
+	"NumpadDivide",
+	"NumpadMultiply",
+	"NumpadSubtract",
+	"NumpadAdd",
+	"NumpadEnter",
+	..."0123456789".split("").map((d) => `Numpad${d}`),
+	"NumpadDecimal",
+	"ContextMenu",
+	"ControlLeft",
+	"ShiftLeft",
+	"AltLeft",
+	"MetaLeft",
+	"ControlRight",
+	"ShiftRight",
+	"AltRight",
+	"MetaRight",
+]);
+
+/** Friendly key names (lowercase) → `KeyboardEvent.code`. */
+const KEY_ALIASES: Record<string, string> = {
+	enter: "Enter",
+	return: "Enter",
+	esc: "Escape",
+	escape: "Escape",
+	tab: "Tab",
+	space: "Space",
+	spacebar: "Space",
+	backspace: "Backspace",
+	bksp: "Backspace",
+	delete: "Delete",
+	del: "Delete",
+	insert: "Insert",
+	ins: "Insert",
+	home: "Home",
+	end: "End",
+	pageup: "PageUp",
+	pgup: "PageUp",
+	pagedown: "PageDown",
+	pgdn: "PageDown",
+	pgdown: "PageDown",
+	up: "ArrowUp",
+	down: "ArrowDown",
+	left: "ArrowLeft",
+	right: "ArrowRight",
+	printscreen: "PrintScreen",
+	prtsc: "PrintScreen",
+	sysrq: "PrintScreen",
+	pause: "Pause",
+	break: "Pause",
+	capslock: "CapsLock",
+	numlock: "NumLock",
+	scrolllock: "ScrollLock",
+	menu: "ContextMenu",
+	ctrl: "ControlLeft",
+	control: "ControlLeft",
+	shift: "ShiftLeft",
+	alt: "AltLeft",
+	altgr: "AltRight",
+	meta: "MetaLeft",
+	win: "MetaLeft",
+	super: "MetaLeft",
+	cmd: "MetaLeft",
+};
+
+/** Unshifted US keyboard characters → `KeyboardEvent.code`. */
+const CHAR_CODES: Record<string, string> = {
+	"-": "Minus",
+	"=": "Equal",
+	"[": "BracketLeft",
+	"]": "BracketRight",
+	"\\": "Backslash",
+	";": "Semicolon",
+	"'": "Quote",
+	"`": "Backquote",
+	",": "Comma",
+	".": "Period",
+	"/": "Slash",
+};
+
+/** Modifier names (lowercase) accepted before the final key of a chord. */
+const MODIFIER_ALIASES: Record<string, Modifier> = {
+	ctrl: "ctrl",
+	control: "ctrl",
+	shift: "shift",
+	alt: "alt",
+	altgr: "altgr",
+	meta: "meta",
+	win: "meta",
+	super: "meta",
+	cmd: "meta",
+};
+
+/**
+ * Parse a single key name or chord, e.g. "Enter", "F2", "Ctrl+Alt+Del".
+ * Throws if the key or a modifier is not recognised.
+ */
+export function parseKeyChord(spec: string): KeyStroke {
+	const parts = spec.split("+").map((p) => p.trim());
+	const keyName = parts.pop() ?? "";
+	if (!keyName) {
+		throw new Error(`Invalid key "${spec}": missing key name`);
+	}
+
+	const modifiers: Modifier[] = [];
+	for (const part of parts) {
+		const modifier = MODIFIER_ALIASES[part.toLowerCase()];
+		if (!modifier) {
+			throw new Error(`Unknown modifier "${part}" in "${spec}"`);
+		}
+		if (!modifiers.includes(modifier)) modifiers.push(modifier);
+	}
+
+	const code = resolveKeyCode(keyName);
+	if (!code) {
+		throw new Error(`Unknown key "${keyName}" in "${spec}"`);
+	}
+
+	return { code, modifiers };
+}
+
+/** Parse a list of key names or chords, validating all of them before returning. */
+export function parseKeys(specs: readonly string[]): KeyStroke[] {
+	return specs.map(parseKeyChord);
+}
+
+function resolveKeyCode(name: string): string | undefined {
+	if (KEY_CODES.has(name)) return name;
+
+	const lower = name.toLowerCase();
+	const alias = KEY_ALIASES[lower];
+	if (alias) return alias;
+
+	if (/^f([1-9]|1[0-2])$/.test(lower)) return lower.toUpperCase();
+	if (/^[a-z]$/.test(lower)) return `Key${lower.toUpperCase()}`;
+	if (/^[0-9]$/.test(name)) return `Digit${name}`;
+	return CHAR_CODES[name];
+}
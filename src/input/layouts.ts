@@ -0,0 +1,252 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Keyboard layouts for typing text on a remote console.
+ *
+ * The KVM sends physical key positions, so typing "a" on a French AZERTY
+ * console means pressing the key a US keyboard labels "Q". Each layout maps
+ * the characters it can produce to the physical keys (and modifiers) that
+ * produce them on the console. Dead keys (^ and ¨ on AZERTY, ^ ´ ` on QWERTZ)
+ * are followed by Space to type the accent itself, or by a letter to
+ * compose an accented character.
+ */
+
+import type { KeyStroke, Modifier } from "./types.js";
+
+/** Supported console keyboard layouts. */
+export const KEYBOARD_LAYOUTS = ["us", "uk", "fr", "de"] as const;
+export type KeyboardLayout = (typeof KEYBOARD_LAYOUTS)[number];
+
+/** A physical key and the characters it produces: [code, plain, shift, altgr]. */
+type KeyDef = readonly [code: string, plain?: string, shift?: string, altgr?: string];
+
+interface LayoutDef {
+	readonly keys: readonly KeyDef[];
+	/** Characters produced by dead keys; they compose with the next key press. */
+	readonly deadKeys?: readonly string[];
+}
+
+/** Letter keys that produce the same letter as their code name. */
+function letters(codes: string): KeyDef[] {
+	return codes.split("").map((c) => [`Key${c}`, c.toLowerCase(), c] as const satisfies KeyDef);
+}
+
+const US_LAYOUT: LayoutDef = {
+	keys: [
+		...letters("ABCDEFGHIJKLMNOPQRSTUVWXYZ"),
+		["Backquote", "`", "~"],
+		["Digit1", "1", "!"],
+		["Digit2", "2", "@"],
+		["Digit3", "3", "#"],
+		["Digit4", "4", "$"],
+		["Digit5", "5", "%"],
+		["Digit6", "6", "^"],
+		["Digit7", "7", "&"],
+		["Digit8", "8", "*"],
+		["Digit9", "9", "("],
+		["Digit0", "0", ")"],
+		["Minus", "-", "_"],
+		["Equal", "=", "+"],
+		["BracketLeft", "[", "{"],
+		["BracketRight", "]", "}"],
+		["Backslash", "\\", "|"],
+		["Semicolon", ";", ":"],
+		["Quote", "'", '"'],
+		["Comma", ",", "<"],
+		["Period", ".", ">"],
+		["Slash", "/", "?"],
+	],
+};
+
+const UK_LAYOUT: LayoutDef = {
+	keys: [
+		...letters("ABCDEFGHIJKLMNOPQRSTUVWXYZ"),
+		["Backquote", "`", "¬", "¦"],
+		["Digit1", "1", "!"],
+		["Digit2", "2", '"'],
+		["Digit3", "3", "£"],
+		["Digit4", "4", "$", "€"],
+		["Digit5", "5", "%"],
+		["Digit6", "6", "^"],
+		["Digit7", "7", "&"],
+		["Digit8", "8", "*"],
+		["Digit9", "9", "("],
+		["Digit0", "0", ")"],
+		["Minus", "-", "_"],
+		["Equal", "=", "+"],
+		["BracketLeft", "[", "{"],
+		["BracketRight", "]", "}"],
+		["Backslash", "#", "~"],
+		["IntlBackslash", "\\", "|"],
+		["Semicolon", ";", ":"],
+		["Quote", "'", "@"],
+		["Comma", ",", "<"],
+		["Period", ".", ">"],
+		["Slash", "/", "?"],
+	],
+};
+
+const FR_LAYOUT: LayoutDef = {
+	keys: [
+		...letters("BCDFGHIJKLNOPRSTUVXY"),
+		["KeyQ", "a", "A"],
+		["KeyW", "z", "Z"],
+		["KeyE", "e", "E", "€"],
+		["KeyA", "q", "Q"],
+		["KeyZ", "w", "W"],
+		["Semicolon", "m", "M"],
+		["KeyM", ",", "?"],
+		["Comma", ";", "."],
+		["Period", ":", "/"],
+		["Slash", "!", "§"],
+		["Backquote", "²"],
+		["Digit1", "&", "1"],
+		["Digit2", "é", "2", "~"],
+		["Digit3", '"', "3", "#"],
+		["Digit4", "'", "4", "{"],
+		["Digit5", "(", "5", "["],
+		["Digit6", "-", "6", "|"],
+		["Digit7", "è", "7", "`"],
+		["Digit8", "_", "8", "\\"],
+		["Digit9", "ç", "9", "^"],
+		["Digit0", "à", "0", "@"],
+		["Minus", ")", "°", "]"],
+		["Equal", "=", "+", "}"],
+		["BracketLeft", "^", "¨"],
+		["BracketRight", "$", "£", "¤"],
+		["Quote", "ù", "%"],
+		["Backslash", "*", "µ"],
+		["IntlBackslash", "<", ">"],
+	],
+	deadKeys: ["^", "¨"],
+};
+
+const DE_LAYOUT: LayoutDef = {
+	keys: [
+		...letters("ABCDFGHIJKLNOPRSTUVWX"),
+		["KeyQ", "q", "Q", "@"],
+		["KeyE", "e", "E", "€"],
+		["KeyM", "m", "M", "µ"],
+		["KeyY", "z", "Z"],
+		["KeyZ", "y", "Y"],
+		["Backquote", "^", "°"],
+		["Digit1", "1", "!"],
+		["Digit2", "2", '"', "²"],
+		["Digit3", "3", "§", "³"],
+		["Digit4", "4", "$"],
+		["Digit5", "5", "%"],
+		["Digit6", "6", "&"],
+		["Digit7", "7", "/", "{"],
+		["Digit8", "8", "(", "["],
+		["Digit9", "9", ")", "]"],
+		["Digit0", "0", "=", "}"],
+		["Minus", "ß", "?", "\\"],
+		["Equal", "´", "`"],
+		["BracketLeft", "ü", "Ü"],
+		["BracketRight", "+", "*", "~"],
+		["Semicolon", "ö", "Ö"],
+		["Quote", "ä", "Ä"],
+		["Backslash", "#", "'"],
+		["IntlBackslash", "<", ">", "|"],
+		["Comma", ",", ";"],
+		["Period", ".", ":"],
+		["Slash", "-", "_"],
+	],
+	deadKeys: ["^", "´", "`"],
+};
+
+const LAYOUTS: Record<KeyboardLayout, LayoutDef> = {
+	us: US_LAYOUT,
+	uk: UK_LAYOUT,
+	fr: FR_LAYOUT,
+	de: DE_LAYOUT,
+};
+
+/** Accented characters produced by a dead key followed by a base letter. */
+const COMPOSE: Record<string, Record<string, string>> = {
+	"^": { a: "â", e: "ê", i: "î", o: "ô", u: "û", A: "Â", E: "Ê", I: "Î", O: "Ô", U: "Û" },
+	"¨": { a: "ä", e: "ë", i: "ï", o: "ö", u: "ü", y: "ÿ", A: "Ä", E: "Ë", I: "Ï", O: "Ö", U: "Ü" },
+	"´": { a: "á", e: "é", i: "í", o: "ó", u: "ú", A: "Á", E: "É", I: "Í", O: "Ó", U: "Ú" },
+	"`": { a: "à", e: "è", i: "ì", o: "ò", u: "ù", A: "À", E: "È", I: "Ì", O: "Ò", U: "Ù" },
+};
+
+/** Characters typed the same way on every layout. */
+const COMMON_KEYS: Record<string, KeyStroke[]> = {
+	" ": [{ code: "Space", modifiers: [] }],
+	"\n": [{ code: "Enter", modifiers: [] }],
+	"\t": [{ code: "Tab", modifiers: [] }],
+};
+
+const charMapCache = new Map<KeyboardLayout, Map<string, KeyStroke[]>>();
+
+/** Build (and cache) the character → key sequence table for a layout. */
+function charMap(layout: KeyboardLayout): Map<string, KeyStroke[]> {
+	const cached = charMapCache.get(layout);
+	if (cached) return cached;
+
+	const def = LAYOUTS[layout];
+	const deadKeys = new Set(def.deadKeys ?? []);
+	const map = new Map<string, KeyStroke[]>(Object.entries(COMMON_KEYS));
+	const dead = new Map<string, KeyStroke>();
+
+	const modifierSets: Modifier[][] = [[], ["shift"], ["altgr"]];
+	for (const [code, ...chars] of def.keys) {
+		chars.forEach((char, i) => {
+			if (!char) return;
+			const stroke: KeyStroke = { code, modifiers: modifierSets[i] };
+			if (deadKeys.has(char)) {
+				dead.set(char, stroke);
+			} else if (!map.has(char)) {
+				map.set(char, [stroke]);
+			}
+		});
+	}
+
+	for (const [accent, stroke] of dead) {
+		map.set(accent, [stroke, { code: "Space", modifiers: [] }]);
+		for (const [base, composed] of Object.entries(COMPOSE[accent] ?? {})) {
+			const baseKeys = map.get(base);
+			if (baseKeys && baseKeys.length === 1 && !map.has(composed)) {
+				map.set(composed, [stroke, baseKeys[0]]);
+			}
+		}
+	}
+
+	charMapCache.set(layout, map);
+	return map;
+}
+
+/** Characters of `text` that cannot be typed on the given layout, in order of appearance. */
+export function unsupportedCharacters(text: string, layout: KeyboardLayout): string[] {
+	const map = charMap(layout);
+	const missing = new Set<string>();
+	for (const char of normalizeText(text)) {
+		if (!map.has(char)) missing.add(char);
+	}
+	return [...missing];
+}
+
+/**
+ * Translate text into the key strokes that type it on a console using `layout`.
+ * Throws before producing anything if a character cannot be typed on that layout.
+ */
+export function textToKeyStrokes(text: string, layout: KeyboardLayout): KeyStroke[] {
+	const missing = unsupportedCharacters(text, layout);
+	if (missing.length > 0) {
+		const list = missing.map((c) => JSON.stringify(c)).join(", ");
+		throw new Error(`Cannot type ${list} with the "${layout}" keyboard layout`);
+	}
+
+	const map = charMap(layout);
+	const strokes: KeyStroke[] = [];
+	for (const char of normalizeText(text)) {
+		strokes.push(...(map.get(char) ?? []));
+	}
+	return strokes;
+}
+
+/** Normalize line endings and composed forms so each character maps to one table entry. */
+function normalizeText(text: string): string {
+	return text.replace(/\r\n?/g, "\n").normalize("NFC");
+}
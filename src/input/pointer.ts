@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Pointer actions → sequences of pointer states.
+ *
+ * Consoles only understand "the pointer is at (x, y) with these buttons
+ * down". Clicks, double-clicks and drags are expanded into the state
+ * changes a real mouse would produce; the protocol layers (IUSB mouse
+ * reports, RFB PointerEvent) send one message per state.
+ */
+
+import type { PointerAction, PointerState } from "./types.js";
+
+/** Intermediate positions sent while dragging, so targets see the motion. */
+const DRAG_STEPS = 8;
+
+/** Expand a pointer action into the pointer states to send, in order. */
+export function pointerActionToStates(action: PointerAction): PointerState[] {
+	const { x, y } = action;
+	const at = (px: number, py: number, down: boolean): PointerState => ({
+		x: px,
+		y: py,
+		buttons: down && action.type !== "move" ? [action.button] : [],
+	});
+
+	switch (action.type) {
+		case "move":
+			return [at(x, y, false)];
+
+		case "click":
+			return [at(x, y, false), at(x, y, true), at(x, y, false)];
+
+		case "double_click":
+			return [at(x, y, false), at(x, y, true), at(x, y, false), at(x, y, true), at(x, y, false)];
+
+		case "drag": {
+			const states = [at(x, y, false), at(x, y, true)];
+			for (let i = 1; i <= DRAG_STEPS; i++) {
+				const t = i / DRAG_STEPS;
+				states.push(
+					at(Math.round(x + (action.toX - x) * t), Math.round(y + (action.toY - y) * t), true),
+				);
+			}
+			states.push(at(action.toX, action.toY, false));
+			return states;
+		}
+	}
+}
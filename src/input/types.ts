@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Provider-neutral console input types.
+ */
+
+/** Modifier keys that can be held while a key is pressed. */
+export type Modifier = "ctrl" | "shift" | "alt" | "altgr" | "meta";
+
+/**
+ * A single key press on the console keyboard.
+ *
+ * `code` names the physical key using W3C `KeyboardEvent.code` values
+ * (e.g. "KeyA", "Enter", "F2", "ArrowUp"), i.e. the key's position on a
+ * US QWERTY keyboard regardless of the layout the console uses.
+ */
+export interface KeyStroke {
+	readonly code: string;
+	readonly modifiers: readonly Modifier[];
+}
+
+/** Mouse buttons that can be pressed. */
+export type PointerButton = "left" | "middle" | "right";
+
+/** Pointer position in screen pixels and the buttons held down there. */
+export interface PointerState {
+	readonly x: number;
+	readonly y: number;
+	readonly buttons: readonly PointerButton[];
+}
+
+/** A mouse action at absolute screen coordinates. */
+export type PointerAction =
+	| { readonly type: "move"; readonly x: number; readonly y: number }
+	| {
+			readonly type: "click" | "double_click";
+			readonly x: number;
+			readonly y: number;
+			readonly button: PointerButton;
+	  }
+	| {
+			readonly type: "drag";
+			readonly x: number;
+			readonly y: number;
+			readonly toX: number;
+			readonly toY: number;
+			readonly button: PointerButton;
+	  };
@@ -0,0 +1,206 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * USB HID input packets for AMI/ASRockRack KVM consoles.
+ *
+ * The BMC emulates a USB keyboard towards the host. The KVM client sends
+ * input as IUSB packets (AMI's USB redirection framing): a 32-byte IUSB
+ * header followed by a standard 8-byte boot keyboard report
+ * (modifier bitmap, reserved byte, up to six key usage codes).
+ * Pointer input uses the BMC's absolute-positioning mouse: a 6-byte
+ * report with the button bitmap, X and Y scaled to 0..32767, and wheel.
+ */
+
+import type { KeyStroke, Modifier, PointerButton, PointerState } from "../input/types.js";
+
+/** IUSB framing constants (from AMI firmware). */
+export const IUSB = {
+	HDR_SIZE: 32,
+	SIGNATURE: "IUSB    ",
+	MAJOR: 1,
+	MINOR: 0,
+	DEVICE_KEYBOARD: 0x30,
+	DEVICE_MOUSE: 0x31,
+	PROTO_KEYBOARD_DATA: 0x10,
+	PROTO_MOUSE_DATA: 0x20,
+	DIR_FROM_REMOTE: 0x80,
+	KEYBOARD_REPORT_SIZE: 8,
+	MOUSE_REPORT_SIZE: 6,
+	MOUSE_ABSOLUTE_MAX: 32767,
+} as const;
+
+/** Button bits in the first byte of a mouse report. */
+const BUTTON_BITS: Record<PointerButton, number> = {
+	left: 0x01,
+	right: 0x02,
+	middle: 0x04,
+};
+
+/** Modifier bits in the first byte of a boot keyboard report. */
+const MODIFIER_BITS: Record<Modifier, number> = {
+	ctrl: 0x01,
+	shift: 0x02,
+	alt: 0x04,
+	meta: 0x08,
+	altgr: 0x40,
+};
+
+/** `KeyboardEvent.code` → USB HID usage ID (keyboard/keypad page 0x07). */
+export const HID_USAGE: Record<string, number> = {
+	Enter: 0x28,
+	Escape: 0x29,
+	Backspace: 0x2a,
+	Tab: 0x2b,
+	Space: 0x2c,
+	Minus: 0x2d,
+	Equal: 0x2e,
+	BracketLeft: 0x2f,
+	BracketRight: 0x30,
+	Backslash: 0x31,
+	Semicolon: 0x33,
+	Quote: 0x34,
+	Backquote: 0x35,
+	Comma: 0x36,
+	Period: 0x37,
+	Slash: 0x38,
+	CapsLock: 0x39,
+	PrintScreen: 0x46,
+	ScrollLock: 0x47,
+	Pause: 0x48,
+	Insert: 0x49,
+	Home: 0x4a,
+	PageUp: 0x4b,
+	Delete: 0x4c,
+	End: 0x4d,
+	PageDown: 0x4e,
+	ArrowRight: 0x4f,
+	ArrowLeft: 0x50,
+	ArrowDown: 0x51,
+	ArrowUp: 0x52,
+	NumLock: 0x53,
+	NumpadDivide: 0x54,
+	NumpadMultiply: 0x55,
+	NumpadSubtract: 0x56,
+	NumpadAdd: 0x57,
+	NumpadEnter: 0x58,
+	NumpadDecimal: 0x63,
+	IntlBackslash: 0x64,
+	ContextMenu: 0x65,
+	ControlLeft: 0xe0,
+	ShiftLeft: 0xe1,
+	AltLeft: 0xe2,
+	MetaLeft: 0xe3,
+	ControlRight: 0xe4,
+	ShiftRight: 0xe5,
+	AltRight: 0xe6,
+	MetaRight: 0xe7,
+};
+
+for (let i = 0; i < 26; i++) {
+	HID_USAGE[`Key${String.fromCharCode(65 + i)}`] = 0x04 + i;
+}
+for (let i = 1; i <= 9; i++) {
+	HID_USAGE[`Digit${i}`] = 0x1d + i;
+	HID_USAGE[`Numpad${i}`] = 0x58 + i;
+}
+HID_USAGE.Digit0 = 0x27;
+HID_USAGE.Numpad0 = 0x62;
+for (let i = 1; i <= 12; i++) {
+	HID_USAGE[`F${i}`] = 0x39 + i;
+}
+
+/** First and last usage IDs of the modifier keys (LeftControl..RightGUI). */
+const USAGE_MODIFIER_FIRST = 0xe0;
+const USAGE_MODIFIER_LAST = 0xe7;
+
+/**
+ * Build the press and release boot keyboard reports for a key stroke.
+ * Modifier keys pressed on their own are reported through the modifier bitmap.
+ */
+export function keyStrokeToReports(stroke: KeyStroke): [Uint8Array, Uint8Array] {
+	const usage = HID_USAGE[stroke.code];
+	if (usage === undefined) {
+		throw new Error(`Key "${stroke.code}" has no USB HID usage`);
+	}
+
+	let modifiers = 0;
+	for (const modifier of stroke.modifiers) {
+		modifiers |= MODIFIER_BITS[modifier];
+	}
+
+	const press = new Uint8Array(IUSB.KEYBOARD_REPORT_SIZE);
+	if (usage >= USAGE_MODIFIER_FIRST && usage <= USAGE_MODIFIER_LAST) {
+		modifiers |= 1 << (usage - USAGE_MODIFIER_FIRST);
+	} else {
+		press[2] = usage;
+	}
+	press[0] = modifiers;
+
+	return [press, new Uint8Array(IUSB.KEYBOARD_REPORT_SIZE)];
+}
+
+/**
+ * Build the absolute mouse report for a pointer state on a `width`×`height` screen.
+ * Coordinates are clamped to the screen and scaled to the 0..32767 logical range.
+ */
+export function pointerStateToReport(
+	state: PointerState,
+	width: number,
+	height: number,
+): Uint8Array {
+	const scale = (v: number, size: number): number => {
+		const clamped = Math.min(Math.max(v, 0), size - 1);
+		return size > 1 ? Math.round((clamped * IUSB.MOUSE_ABSOLUTE_MAX) / (size - 1)) : 0;
+	};
+
+	let buttons = 0;
+	for (const button of state.buttons) {
+		buttons |= BUTTON_BITS[button];
+	}
+
+	const report = new Uint8Array(IUSB.MOUSE_REPORT_SIZE);
+	const view = new DataView(report.buffer);
+	report[0] = buttons;
+	view.setUint16(1, scale(state.x, width), true);
+	view.setUint16(3, scale(state.y, height), true);
+	// byte 5: wheel (unused)
+	return report;
+}
+
+/**
+ * Wrap a HID report in an IUSB packet (32-byte header + report data).
+ * The header checksum makes the header bytes sum to zero (mod 256).
+ */
+export function buildIusbPacket(
+	deviceType: number,
+	protocol: number,
+	data: Uint8Array,
+	sequence: number,
+): Uint8Array {
+	const packet = new Uint8Array(IUSB.HDR_SIZE + data.length);
+	const view = new DataView(packet.buffer);
+
+	packet.set(new TextEncoder().encode(IUSB.SIGNATURE), 0);
+	packet[8] = IUSB.MAJOR;
+	packet[9] = IUSB.MINOR;
+	packet[10] = IUSB.HDR_SIZE;
+	// byte 11: header checksum (filled in below)
+	view.setUint32(12, data.length, true);
+	// byte 16: server capabilities
+	packet[17] = deviceType;
+	packet[18] = protocol;
+	packet[19] = IUSB.DIR_FROM_REMOTE;
+	// bytes 20-23: device number, interface number, client data, instance
+	view.setUint32(24, sequence, true);
+	// bytes 28-31: key (unused)
+
+	let sum = 0;
+	for (let i = 0; i < IUSB.HDR_SIZE; i++) {
+		sum += packet[i];
+	}
+	packet[11] = -sum & 0xff;
+
+	packet.set(data, IUSB.HDR_SIZE);
+	return packet;
+}
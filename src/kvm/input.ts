@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Keyboard and mouse input injection for AMI/ASRockRack KVM consoles.
+ *
+ * Opens the same IVTP session used for screenshots, sends USB HID
+ * keyboard or mouse reports and optionally captures the screen afterwards.
+ * The `*Client*` variants work on an already connected (e.g. pooled) client.
+ */
+
+import { pointerActionToStates } from "../input/pointer.js";
+import type { KeyStroke, PointerAction } from "../input/types.js";
+import { type KvmClient, openKvmClient } from "./kvm-client.js";
+import { captureClientScreenshot } from "./screenshot.js";
+import type { KvmInputOptions, KvmScreenshotResult } from "./types.js";
+
+const DEFAULT_SETTLE_DELAY = 500;
+
+/**
+ * Send key strokes to an AMI/ASRockRack KVM console.
+ *
+ * @param viewerUrl - The OVH IPMI viewer URL (redirect page)
+ * @param keys - Key strokes to press and release in order
+ * @param options - Timeouts, pacing and post-input screenshot options
+ * @returns The post-input screenshot when `options.screenshot` is set
+ */
+export async function sendKvmKeys(
+	viewerUrl: string,
+	keys: readonly KeyStroke[],
+	options?: KvmInputOptions,
+): Promise<KvmScreenshotResult | undefined> {
+	const client = await openKvmClient(viewerUrl, options);
+	try {
+		return await sendClientKeys(client, keys, options);
+	} finally {
+		client.disconnect();
+	}
+}
+
+/**
+ * Perform a mouse action on an AMI/ASRockRack KVM console.
+ *
+ * @param viewerUrl - The OVH IPMI viewer URL (redirect page)
+ * @param action - Pointer action in screen pixel coordinates
+ * @param options - Timeouts, pacing and post-input screenshot options
+ * @returns The post-input screenshot when `options.screenshot` is set
+ */
+export async function sendKvmPointer(
+	viewerUrl: string,
+	action: PointerAction,
+	options?: KvmInputOptions,
+): Promise<KvmScreenshotResult | undefined> {
+	const client = await openKvmClient(viewerUrl, options);
+	try {
+		return await sendClientPointer(client, action, options);
+	} finally {
+		client.disconnect();
+	}
+}
+
+/**
+ * Send key strokes through a connected KVM client.
+ *
+ * @param client - Connected KVM client (left open)
+ * @param keys - Key strokes to press and release in order
+ * @param options - Pacing and post-input screenshot options
+ * @returns The post-input screenshot when `options.screenshot` is set
+ */
+export async function sendClientKeys(
+	client: KvmClient,
+	keys: readonly KeyStroke[],
+	options?: KvmInputOptions,
+): Promise<KvmScreenshotResult | undefined> {
+	await client.sendKeys(keys, options?.keyDelay);
+	return settleAndCapture(client, options);
+}
+
+/**
+ * Perform a mouse action through a connected KVM client.
+ *
+ * A frame is captured first: the BMC's absolute mouse needs the current
+ * screen resolution to map pixel coordinates.
+ *
+ * @param client - Connected KVM client (left open)
+ * @param action - Pointer action in screen pixel coordinates
+ * @param options - Pacing and post-input screenshot options
+ * @returns The post-input screenshot when `options.screenshot` is set
+ */
+export async function sendClientPointer(
+	client: KvmClient,
+	action: PointerAction,
+	options?: KvmInputOptions,
+): Promise<KvmScreenshotResult | undefined> {
+	const screen = await client.captureFrame();
+	await client.sendPointer(
+		pointerActionToStates(action),
+		screen.width,
+		screen.height,
+		options?.pointerDelay,
+	);
+	return settleAndCapture(client, options);
+}
+
+/** Wait for the screen to settle and capture it, when `options.screenshot` is set. */
+async function settleAndCapture(
+	client: KvmClient,
+	options?: KvmInputOptions,
+): Promise<KvmScreenshotResult | undefined> {
+	if (!options?.screenshot) return undefined;
+
+	const settleDelay = options.settleDelay ?? DEFAULT_SETTLE_DELAY;
+	await new Promise((resolve) => setTimeout(resolve, settleDelay));
+	return captureClientScreenshot(client);
+}
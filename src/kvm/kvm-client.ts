@@ -0,0 +1,486 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * KVM client for the AMI/ASRockRack IVTP WebSocket protocol.
+ *
+ * Implements the IVTP (Intelligent Video Transport Protocol) handshake:
+ * 1. Connect WebSocket with session cookie, origin, and binary protocol
+ * 2. Wait for CMD_CONNECTION_ALLOWED
+ * 3. Send combined packet: CONNECTION_COMPLETE + VALIDATE_VIDEO_SESSION + RESUME_REDIRECTION
+ * 4. Wait for CMD_VALIDATED_VIDEO_SESSION (success)
+ * 5. Send CMD_POWER_STATUS, then CMD_RESUME_REDIRECTION once it is answered
+ *
+ * Once connected, the client can request full-screen frames
+ * (CMD_GET_FULL_SCREEN → CMD_VIDEO_PACKETS fragments) and send keyboard
+ * and mouse input as USB HID reports wrapped in CMD_HID_PKT.
+ */
+
+import type { KeyStroke, PointerState } from "../input/types.js";
+import { establishBmcSession } from "./bmc-session.js";
+import { buildIusbPacket, IUSB, keyStrokeToReports, pointerStateToReport } from "./hid.js";
+import type { BmcSession, KvmScreenshotOptions, VideoFrame } from "./types.js";
+
+const DEFAULT_CONNECT_TIMEOUT = 10_000;
+const DEFAULT_FRAME_TIMEOUT = 15_000;
+const DEFAULT_KEY_DELAY = 50;
+const DEFAULT_POINTER_DELAY = 20;
+
+/** IVTP protocol constants (from AMI BMC firmware). */
+const IVTP = {
+	HDR_SIZE: 8,
+	VIDEO_PACKET_SIZE: 373,
+	SSI_HASH_SIZE: 129,
+	CLINET_OWN_IP_LENGTH: 65,
+	CLIENT_USERNAME_LENGTH: 129,
+	CLINET_OWN_MAC_LENGTH: 49,
+
+	CMD_HID_PKT: 0x01,
+	CMD_RESUME_REDIRECTION: 0x06,
+	CMD_GET_FULL_SCREEN: 0x0b,
+	CMD_VALIDATE_VIDEO_SESSION: 0x12,
+	CMD_VALIDATED_VIDEO_SESSION: 0x13,
+	CMD_CONNECTION_ALLOWED: 0x17,
+	CMD_VIDEO_PACKETS: 0x19,
+	CMD_POWER_STATUS: 0x22,
+	CMD_CONNECTION_COMPLETE_PKT: 0x3a,
+} as const;
+
+/** Fragment number prefix on every CMD_VIDEO_PACKETS payload. */
+const FRAG_SIZE = 2;
+
+/** A frame capture waiting for its video packets. */
+interface PendingFrame {
+	readonly resolve: (frame: VideoFrame) => void;
+	readonly reject: (err: Error) => void;
+	readonly timer: ReturnType<typeof setTimeout>;
+	headerBytes: Buffer | null;
+	width: number;
+	height: number;
+	compressSize: number;
+	readonly compressedChunks: Buffer[];
+	receivedBytes: number;
+}
+
+/**
+ * Establish a BMC session from an IPMI viewer URL and open a connected KVM client.
+ *
+ * @param viewerUrl - The OVH IPMI viewer URL (redirect page)
+ * @param options - Timeout options
+ */
+export async function openKvmClient(
+	viewerUrl: string,
+	options?: KvmScreenshotOptions,
+): Promise<KvmClient> {
+	const session = await establishBmcSession(viewerUrl);
+
+	const wsProto = new URL(viewerUrl).protocol === "https:" ? "wss" : "ws";
+	const client = new KvmClient(`${wsProto}://${session.host}/kvm`, session, options);
+	await client.connect();
+	return client;
+}
+
+export class KvmClient {
+	/** Authenticated BMC session this client connects with. */
+	readonly session: BmcSession;
+	/** HTTP protocol of the BMC web interface ("https:" or "http:"). */
+	readonly protocol: string;
+	private readonly wsUrl: string;
+	private readonly options: KvmScreenshotOptions;
+
+	// biome-ignore lint/suspicious/noExplicitAny: Bun's WebSocket supports headers option (non-standard)
+	private ws: any = null;
+	private recvBuf: Buffer = Buffer.alloc(0);
+	private ready = false;
+	private hidSequence = 0;
+	private handshake: { resolve: () => void; reject: (err: Error) => void } | null = null;
+	private pendingFrame: PendingFrame | null = null;
+
+	constructor(wsUrl: string, session: BmcSession, options: KvmScreenshotOptions = {}) {
+		this.wsUrl = wsUrl;
+		this.session = session;
+		this.options = options;
+		this.protocol = new URL(wsUrl).protocol === "wss:" ? "https:" : "http:";
+	}
+
+	/** Whether the IVTP handshake has completed and the WebSocket is still open. */
+	get connected(): boolean {
+		return this.ready && this.ws !== null;
+	}
+
+	/**
+	 * Open the KVM WebSocket and complete the IVTP handshake.
+	 * Can be called again after the connection dropped to reconnect with the same BMC session.
+	 */
+	connect(): Promise<void> {
+		if (this.ws) {
+			return Promise.reject(new Error("KVM client is already connected"));
+		}
+		this.recvBuf = Buffer.alloc(0);
+
+		const connectTimeout = this.options.connectTimeout ?? DEFAULT_CONNECT_TIMEOUT;
+		const handshakeTimeout = this.options.frameTimeout ?? DEFAULT_FRAME_TIMEOUT;
+
+		return new Promise<void>((resolve, reject) => {
+			let opened = false;
+
+			const connectTimer = setTimeout(() => {
+				if (!opened)
+					this.fail(new Error(`KVM WebSocket connection timed out after ${connectTimeout}ms`));
+			}, connectTimeout);
+
+			const handshakeTimer = setTimeout(() => {
+				this.fail(new Error(`KVM handshake not completed within ${handshakeTimeout}ms`));
+			}, handshakeTimeout);
+
+			this.handshake = {
+				resolve: () => {
+					clearTimeout(connectTimer);
+					clearTimeout(handshakeTimer);
+					resolve();
+				},
+				reject: (err) => {
+					clearTimeout(connectTimer);
+					clearTimeout(handshakeTimer);
+					reject(err);
+				},
+			};
+
+			// biome-ignore lint/suspicious/noExplicitAny: Bun's WebSocket supports headers option (non-standard)
+			const ws = new (WebSocket as any)(this.wsUrl, {
+				headers: {
+					Cookie: `QSESSIONID=${this.session.sessionCookie}`,
+					Origin: `https://${this.session.host}`,
+					"Sec-WebSocket-Protocol": "binary, base64",
+				},
+			});
+			ws.binaryType = "arraybuffer";
+
+			ws.onopen = (): void => {
+				opened = true;
+				clearTimeout(connectTimer);
+			};
+
+			ws.onmessage = (event: MessageEvent): void => {
+				this.handleData(event.data);
+			};
+
+			ws.onerror = (): void => {
+				this.fail(new Error("KVM WebSocket connection error"));
+			};
+
+			ws.onclose = (event: CloseEvent): void => {
+				const stage = this.ready ? "before frame received" : "during handshake";
+				this.fail(new Error(`KVM WebSocket closed ${stage} (code: ${event.code})`));
+			};
+
+			this.ws = ws;
+		});
+	}
+
+	/**
+	 * Request a full-screen update and receive the complete (compressed) video frame.
+	 * On timeout the connection is closed: fragments of the abandoned frame may
+	 * still arrive and would be mixed into the next capture.
+	 */
+	captureFrame(): Promise<VideoFrame> {
+		if (!this.connected) {
+			return Promise.reject(new Error("Not connected — call connect() first"));
+		}
+		if (this.pendingFrame) {
+			return Promise.reject(new Error("A frame capture is already in progress"));
+		}
+
+		const frameTimeout = this.options.frameTimeout ?? DEFAULT_FRAME_TIMEOUT;
+
+		return new Promise<VideoFrame>((resolve, reject) => {
+			const timer = setTimeout(() => {
+				this.fail(new Error(`No complete video frame received within ${frameTimeout}ms`));
+			}, frameTimeout);
+
+			this.pendingFrame = {
+				resolve,
+				reject,
+				timer,
+				headerBytes: null,
+				width: 0,
+				height: 0,
+				compressSize: 0,
+				compressedChunks: [],
+				receivedBytes: 0,
+			};
+			this.send(createIvtpHeader(IVTP.CMD_GET_FULL_SCREEN, 0, 0));
+		});
+	}
+
+	/**
+	 * Press and release each key stroke in order, waiting `keyDelay` ms between strokes.
+	 */
+	async sendKeys(keys: readonly KeyStroke[], keyDelay = DEFAULT_KEY_DELAY): Promise<void> {
+		if (!this.connected) {
+			throw new Error("Not connected — call connect() first");
+		}
+
+		const reports = keys.map(keyStrokeToReports);
+		for (let i = 0; i < reports.length; i++) {
+			if (i > 0 && keyDelay > 0) {
+				await new Promise((resolve) => setTimeout(resolve, keyDelay));
+			}
+			const [press, release] = reports[i];
+			this.sendHid(IUSB.DEVICE_KEYBOARD, IUSB.PROTO_KEYBOARD_DATA, press);
+			this.sendHid(IUSB.DEVICE_KEYBOARD, IUSB.PROTO_KEYBOARD_DATA, release);
+		}
+	}
+
+	/**
+	 * Move the absolute pointer through each state in order, waiting `delay` ms between them.
+	 * The BMC scales positions by the screen size, so pass the current frame dimensions.
+	 */
+	async sendPointer(
+		states: readonly PointerState[],
+		width: number,
+		height: number,
+		delay = DEFAULT_POINTER_DELAY,
+	): Promise<void> {
+		if (!this.connected) {
+			throw new Error("Not connected — call connect() first");
+		}
+
+		for (let i = 0; i < states.length; i++) {
+			if (i > 0 && delay > 0) {
+				await new Promise((resolve) => setTimeout(resolve, delay));
+			}
+			const report = pointerStateToReport(states[i], width, height);
+			this.sendHid(IUSB.DEVICE_MOUSE, IUSB.PROTO_MOUSE_DATA, report);
+		}
+	}
+
+	/**
+	 * Send a keep-alive so the BMC does not time out an idle session.
+	 * Uses the power status query, which every firmware answers.
+	 */
+	keepAlive(): void {
+		if (!this.connected) {
+			throw new Error("Not connected — call connect() first");
+		}
+		this.send(createIvtpHeader(IVTP.CMD_POWER_STATUS, 0, 0));
+	}
+
+	/** Close the WebSocket. Pending operations are rejected. */
+	disconnect(): void {
+		this.fail(new Error("KVM client disconnected"));
+	}
+
+	// --- Internals ---
+
+	/** Tear down the connection and reject whatever is waiting on it. */
+	private fail(err: Error): void {
+		const handshake = this.handshake;
+		const pending = this.pendingFrame;
+		this.handshake = null;
+		this.pendingFrame = null;
+		this.ready = false;
+
+		if (pending) clearTimeout(pending.timer);
+
+		const ws = this.ws;
+		this.ws = null;
+		if (ws) {
+			ws.onmessage = null;
+			ws.onerror = null;
+			ws.onclose = null;
+			try {
+				ws.close();
+			} catch {
+				// ignore
+			}
+		}
+
+		handshake?.reject(err);
+		pending?.reject(err);
+	}
+
+	private send(data: ArrayBuffer | Uint8Array): void {
+		if (!this.ws) throw new Error("KVM WebSocket not connected");
+		this.ws.send(data);
+	}
+
+	/** Send a HID report wrapped in IUSB framing inside a CMD_HID_PKT. */
+	private sendHid(deviceType: number, protocol: number, report: Uint8Array): void {
+		const iusb = buildIusbPacket(deviceType, protocol, report, this.hidSequence++);
+		const packet = new Uint8Array(IVTP.HDR_SIZE + iusb.length);
+		packet.set(new Uint8Array(createIvtpHeader(IVTP.CMD_HID_PKT, iusb.length, 0)), 0);
+		packet.set(iusb, IVTP.HDR_SIZE);
+		this.send(packet);
+	}
+
+	private handleData(data: unknown): void {
+		let chunk: Buffer;
+		if (data instanceof ArrayBuffer) {
+			chunk = Buffer.from(data);
+		} else if (typeof data === "string") {
+			chunk = Buffer.from(data, "base64");
+		} else {
+			return;
+		}
+		this.recvBuf = Buffer.concat([this.recvBuf, chunk]);
+
+		while (this.recvBuf.length >= IVTP.HDR_SIZE) {
+			const hdr = parseIvtpHeader(this.recvBuf);
+			const totalLen = IVTP.HDR_SIZE + hdr.pktsize;
+			if (this.recvBuf.length < totalLen) break;
+			const payload = Buffer.from(this.recvBuf.subarray(IVTP.HDR_SIZE, totalLen));
+			this.recvBuf = Buffer.from(this.recvBuf.subarray(totalLen));
+			this.handleMessage(hdr.type, payload);
+		}
+	}
+
+	private handleMessage(type: number, payload: Buffer): void {
+		switch (type) {
+			case IVTP.CMD_CONNECTION_ALLOWED:
+				this.send(buildAuthPacket(this.session));
+				break;
+
+			case IVTP.CMD_VALIDATED_VIDEO_SESSION: {
+				const result = payload.length > 0 ? payload[0] : 0;
+				if (result === 1) {
+					this.send(createIvtpHeader(IVTP.CMD_POWER_STATUS, 0, 0));
+				} else {
+					this.fail(new Error(`KVM session validation failed (code: ${result})`));
+				}
+				break;
+			}
+
+			case IVTP.CMD_POWER_STATUS:
+				if (!this.ready) {
+					this.ready = true;
+					this.send(createIvtpHeader(IVTP.CMD_RESUME_REDIRECTION, 0, 0));
+					const handshake = this.handshake;
+					this.handshake = null;
+					handshake?.resolve();
+				}
+				break;
+
+			case IVTP.CMD_VIDEO_PACKETS:
+				this.handleVideoPacket(payload);
+				break;
+
+			default:
+				break;
+		}
+	}
+
+	private handleVideoPacket(payload: Buffer): void {
+		const pending = this.pendingFrame;
+		if (!pending || payload.length < 4) return;
+
+		if (!pending.headerBytes) {
+			// First packet: fragment(2) + header(headerLen) + compressed data
+			const dv = new DataView(payload.buffer, payload.byteOffset);
+			const headerLen = dv.getUint16(4, true); // wHeaderLen at offset 4 of payload
+			pending.width = dv.getUint16(6, true);
+			pending.height = dv.getUint16(8, true);
+			pending.compressSize = dv.getUint32(71, true);
+			pending.headerBytes = Buffer.from(payload.subarray(FRAG_SIZE, FRAG_SIZE + headerLen));
+
+			const dataStart = FRAG_SIZE + headerLen;
+			if (payload.length > dataStart) {
+				const chunk = Buffer.from(payload.subarray(dataStart));
+				pending.compressedChunks.push(chunk);
+				pending.receivedBytes += chunk.length;
+			}
+		} else if (payload.length > FRAG_SIZE) {
+			// Subsequent packets: fragment(2) + compressed data
+			const chunk = Buffer.from(payload.subarray(FRAG_SIZE));
+			pending.compressedChunks.push(chunk);
+			pending.receivedBytes += chunk.length;
+		}
+
+		// Check if we've received the complete frame
+		if (pending.compressSize > 0 && pending.receivedBytes >= pending.compressSize) {
+			clearTimeout(pending.timer);
+			this.pendingFrame = null;
+			pending.resolve({
+				width: pending.width,
+				height: pending.height,
+				headerBytes: pending.headerBytes,
+				compressedChunks: pending.compressedChunks,
+				compressSize: pending.compressSize,
+			});
+		}
+	}
+}
+
+/** Create an IVTP packet header (8 bytes). */
+function createIvtpHeader(type: number, pktsize: number, status: number): ArrayBuffer {
+	const buf = new ArrayBuffer(IVTP.HDR_SIZE);
+	const view = new DataView(buf);
+	view.setUint16(0, type, true);
+	view.setUint32(2, pktsize, true);
+	view.setUint16(6, status, true);
+	return buf;
+}
+
+/** Parse an IVTP packet header from a buffer. */
+function parseIvtpHeader(data: Uint8Array): { type: number; pktsize: number; status: number } {
+	const view = new DataView(data.buffer, data.byteOffset, IVTP.HDR_SIZE);
+	return {
+		type: view.getUint16(0, true),
+		pktsize: view.getUint32(2, true),
+		status: view.getUint16(6, true),
+	};
+}
+
+/** Write a null-terminated, zero-padded C string into a buffer. */
+function writeCString(buf: Uint8Array, offset: number, str: string, maxLen: number): void {
+	const bytes = new TextEncoder().encode(str);
+	buf.set(bytes.subarray(0, Math.min(bytes.length, maxLen - 1)), offset);
+}
+
+/**
+ * Build the combined authentication packet sent after CMD_CONNECTION_ALLOWED.
+ */
+function buildAuthPacket(session: BmcSession): ArrayBuffer {
+	const totalSize = IVTP.HDR_SIZE + IVTP.HDR_SIZE + IVTP.VIDEO_PACKET_SIZE + IVTP.HDR_SIZE;
+	const buf = new ArrayBuffer(totalSize);
+	const view = new DataView(buf);
+	let pos = 0;
+
+	// 1. CMD_CONNECTION_COMPLETE_PKT (type=0x3a, pktsize=0, status=1)
+	view.setUint16(pos, IVTP.CMD_CONNECTION_COMPLETE_PKT, true);
+	pos += 2;
+	view.setUint32(pos, 0, true);
+	pos += 4;
+	view.setUint16(pos, 1, true);
+	pos += 2;
+
+	// 2. CMD_VALIDATE_VIDEO_SESSION (type=0x12, pktsize=373, status=1)
+	view.setUint16(pos, IVTP.CMD_VALIDATE_VIDEO_SESSION, true);
+	pos += 2;
+	view.setUint32(pos, IVTP.VIDEO_PACKET_SIZE, true);
+	pos += 4;
+	view.setUint16(pos, 1, true);
+	pos += 2;
+
+	const authData = new Uint8Array(buf, pos, IVTP.VIDEO_PACKET_SIZE);
+	let authOffset = 0;
+	authData[authOffset] = 0;
+	authOffset += 1;
+	writeCString(authData, authOffset, session.kvmToken, IVTP.SSI_HASH_SIZE);
+	authOffset += IVTP.SSI_HASH_SIZE;
+	writeCString(authData, authOffset, session.clientIp, IVTP.CLINET_OWN_IP_LENGTH);
+	authOffset += IVTP.CLINET_OWN_IP_LENGTH;
+	writeCString(authData, authOffset, "domain/username", IVTP.CLIENT_USERNAME_LENGTH);
+	authOffset += IVTP.CLIENT_USERNAME_LENGTH;
+	writeCString(authData, authOffset, "00-00-00-00-00-00", IVTP.CLINET_OWN_MAC_LENGTH);
+	pos += IVTP.VIDEO_PACKET_SIZE;
+
+	// 3. CMD_RESUME_REDIRECTION (type=0x06, pktsize=0, status=0)
+	view.setUint16(pos, IVTP.CMD_RESUME_REDIRECTION, true);
+	pos += 2;
+	view.setUint32(pos, 0, true);
+	pos += 4;
+	view.setUint16(pos, 0, true);
+
+	return buf;
+}
@@ -7,48 +7,359 @@
  * Default: 2x nearest-neighbor upscale + 3x brightness boost.
  * This transforms the typically dark, tiny 800x600 BMC output into
  * something Claude's vision can actually read.
+ *
+ * The processing is a pipeline of filter steps, each a function from image
+ * to image, built from `OptimizeOptions` in a fixed order: grayscale,
+ * contrast stretch, brightness (or automatic exposure), gamma, invert,
+ * threshold, upscale.
+ *
+ * Screenshots of 1920x1080 graphical consoles upscaled 3x have 18 million
+ * pixels, and this runs on the event loop that serves every MCP session, so
+ * the steps avoid per-pixel work they can share: per-channel mappings are
+ * lookup tables (adjacent ones merged into one), the upscale copies whole
+ * 32-bit pixels and replicates finished rows, and `optimizeImage` takes
+ * RGBA straight from a frame decoder without a PNG round trip.
  */
 
-import { PNG } from "pngjs";
+import { decodePng, encodePng, pixelWords } from "../screen/image.js";
+import type { RgbaImage } from "../screen/types.js";
 
 export interface OptimizeOptions {
 	/** Upscale factor (default: 2) */
 	readonly scale?: number;
-	/** Brightness multiplier (default: 3) */
-	readonly brightness?: number;
+	/** Brightness multiplier, or "auto" to adapt the exposure to the screen's content (default: 3) */
+	readonly brightness?: number | "auto";
+	/** Gamma correction; values above 1 brighten dark tones (default: 1) */
+	readonly gamma?: number;
+	/** Stretch contrast so the darkest and brightest 1% of pixels become black and white */
+	readonly contrast?: boolean;
+	/** Convert to gray */
+	readonly grayscale?: boolean;
+	/** Invert colors (light text on dark screens becomes dark on light) */
+	readonly invert?: boolean;
+	/** Binarize: luminance at or above this level becomes white, the rest black */
+	readonly threshold?: number;
 }
 
-const DEFAULT_SCALE = 2;
+/** One processing step of the pipeline; returns a new image. */
+export type FilterStep = (image: RgbaImage) => RgbaImage;
+
+/** Upscale factor applied by default; positions in optimized images divide by it to give console pixels. */
+export const DEFAULT_SCALE = 2;
 const DEFAULT_BRIGHTNESS = 3;
+/** Share of pixels ignored at each end of the luminance range by the contrast stretch */
+const STRETCH_CLIP = 0.01;
+/** Tiles per side that automatic exposure sets levels for */
+const EXPOSURE_TILES = 8;
+/** Largest gain of automatic exposure, so flat dark areas do not turn into amplified noise */
+const MAX_EXPOSURE_GAIN = 4;
+/** Share of a tile's pixels that must be at least as dark or bright as its levels */
+const EXPOSURE_CLIP = 0.002;
+/** Narrowest luminance range treated as content rather than compression noise */
+const MIN_EXPOSURE_RANGE = 16;
 
 /**
  * Upscale and brighten a PNG buffer for LLM vision readability.
  */
 export function optimizeForLlm(pngBuffer: Buffer, options?: OptimizeOptions): Buffer {
+	return encodePng(optimizeImage(decodePng(pngBuffer), options));
+}
+
+/**
+ * Upscale and brighten a decoded image, e.g. straight from a frame decoder,
+ * for callers that encode it themselves.
+ */
+export function optimizeImage(image: RgbaImage, options?: OptimizeOptions): RgbaImage {
+	return applyFilters(image, buildPipeline(options));
+}
+
+/** Build the filter steps for a set of options, skipping those that would not change the image. */
+export function buildPipeline(options?: OptimizeOptions): FilterStep[] {
 	const scale = options?.scale ?? DEFAULT_SCALE;
-	const brightness = options?.brightness ?? DEFAULT_BRIGHTNESS;
-
-	const src = PNG.sync.read(pngBuffer);
-	const dst = new PNG({ width: src.width * scale, height: src.height * scale });
-
-	for (let y = 0; y < src.height; y++) {
-		for (let x = 0; x < src.width; x++) {
-			const si = (y * src.width + x) * 4;
-			const r = Math.min(Math.round(src.data[si] * brightness), 255);
-			const g = Math.min(Math.round(src.data[si + 1] * brightness), 255);
-			const b = Math.min(Math.round(src.data[si + 2] * brightness), 255);
-
-			for (let dy = 0; dy < scale; dy++) {
-				for (let dx = 0; dx < scale; dx++) {
-					const di = ((y * scale + dy) * dst.width + (x * scale + dx)) * 4;
-					dst.data[di] = r;
-					dst.data[di + 1] = g;
-					dst.data[di + 2] = b;
-					dst.data[di + 3] = 255;
-				}
+	const brightnessFactor = options?.brightness ?? DEFAULT_BRIGHTNESS;
+	const gammaValue = options?.gamma ?? 1;
+
+	const steps: FilterStep[] = [];
+	if (options?.grayscale) steps.push(grayscale());
+	if (options?.contrast) steps.push(contrastStretch());
+	if (brightnessFactor === "auto") steps.push(autoExposure());
+
+	// Fixed brightness, gamma and invert run as one merged lookup table
+	const tables: Uint8Array[] = [];
+	if (brightnessFactor !== "auto" && brightnessFactor !== 1) {
+		tables.push(brightnessTable(brightnessFactor));
+	}
+	if (gammaValue !== 1) tables.push(gammaTable(gammaValue));
+	if (options?.invert) tables.push(invertTable());
+	if (tables.length > 0) {
+		steps.push(applyTable(tables.reduce((merged, next) => merged.map((v) => next[v]))));
+	}
+
+	if (options?.threshold !== undefined) steps.push(threshold(options.threshold));
+	if (scale !== 1) steps.push(upscale(scale));
+	return steps;
+}
+
+/** Run an image through filter steps in order; the result is always opaque. */
+export function applyFilters(image: RgbaImage, steps: readonly FilterStep[]): RgbaImage {
+	const result = steps.reduce((current, step) => step(current), image);
+	const pixels = result === image ? image.pixels.slice() : result.pixels;
+	const words = pixelWords(pixels);
+	for (let i = 0; i < words.length; i++) {
+		words[i] |= 0xff000000;
+	}
+	return {
+		width: result.width,
+		height: result.height,
+		pixels: words.buffer === pixels.buffer ? pixels : new Uint8Array(words.buffer),
+	};
+}
+
+/** Multiply every channel by `factor`, capped at 255. */
+export function brightness(factor: number): FilterStep {
+	return applyTable(brightnessTable(factor));
+}
+
+/** Gamma-correct every channel; values above 1 brighten dark tones. */
+export function gamma(value: number): FilterStep {
+	return applyTable(gammaTable(value));
+}
+
+/** Turn colors into their negatives. */
+export function invert(): FilterStep {
+	return applyTable(invertTable());
+}
+
+/** Convert to gray using the luminance of each pixel. */
+export function grayscale(): FilterStep {
+	return (image) => {
+		const pixels = new Uint8Array(image.pixels.length);
+		for (let i = 0; i < pixels.length; i += 4) {
+			const gray = Math.round(luminance(image.pixels, i));
+			pixels[i] = gray;
+			pixels[i + 1] = gray;
+			pixels[i + 2] = gray;
+			pixels[i + 3] = image.pixels[i + 3];
+		}
+		return { width: image.width, height: image.height, pixels };
+	};
+}
+
+/**
+ * Stretch the luminance range linearly over 0–255, applying the same mapping
+ * to every channel. The darkest and brightest 1% of pixels are ignored so a
+ * few outliers (a cursor, compression noise) cannot pin the range.
+ */
+export function contrastStretch(): FilterStep {
+	return (image) => {
+		const histogram = new Uint32Array(256);
+		for (let i = 0; i < image.pixels.length; i += 4) {
+			histogram[Math.round(luminance(image.pixels, i))]++;
+		}
+
+		const clip = Math.floor((image.pixels.length / 4) * STRETCH_CLIP);
+		let low = 0;
+		for (let seen = histogram[0]; seen <= clip && low < 255; seen += histogram[low]) low++;
+		let high = 255;
+		for (let seen = histogram[255]; seen <= clip && high > 0; seen += histogram[high]) high--;
+
+		if (high <= low) {
+			return image;
+		}
+		return applyTable(lookupTable((v) => ((v - low) * 255) / (high - low)))(image);
+	};
+}
+
+/**
+ * Adapt the exposure to the screen, CLAHE-style: the image is split into
+ * tiles, each tile's luminance histogram gives its darkest and brightest
+ * levels, and those are stretched towards black and white with a limited
+ * gain. Gains are interpolated between tile centers so no seams show.
+ * Dim text on a dark console is brightened, while light installer screens
+ * keep their background instead of clipping to white.
+ */
+export function autoExposure(): FilterStep {
+	return (image) => {
+		const { width, height } = image;
+		const tileWidth = Math.ceil(width / EXPOSURE_TILES);
+		const tileHeight = Math.ceil(height / EXPOSURE_TILES);
+		const columns = Math.ceil(width / tileWidth);
+		const rows = Math.ceil(height / tileHeight);
+
+		const histograms = new Uint32Array(columns * rows * 256);
+		const source = image.pixels;
+		for (let y = 0; y < height; y++) {
+			const tileRow = Math.floor(y / tileHeight) * columns;
+			for (let x = 0, i = y * width * 4; x < width; x++, i += 4) {
+				const tile = tileRow + Math.floor(x / tileWidth);
+				histograms[tile * 256 + fastLuminance(source[i], source[i + 1], source[i + 2])]++;
 			}
 		}
+
+		// Tiles without content (a blank area, a flat background) take the whole screen's levels
+		const screen = new Uint32Array(256);
+		for (let i = 0; i < histograms.length; i++) screen[i % 256] += histograms[i];
+		const [screenGain, screenOffset] = exposureLevels(screen) ?? [1, 0];
+
+		const gains = new Float64Array(columns * rows);
+		const offsets = new Float64Array(columns * rows);
+		for (let tile = 0; tile < columns * rows; tile++) {
+			const levels = exposureLevels(histograms.subarray(tile * 256, tile * 256 + 256));
+			gains[tile] = levels?.[0] ?? screenGain;
+			offsets[tile] = levels?.[1] ?? screenOffset;
+		}
+
+		// Neighboring tile columns and weights for each x, from the tile centers
+		const left = new Uint32Array(width);
+		const right = new Uint32Array(width);
+		const weightX = new Float64Array(width);
+		for (let x = 0; x < width; x++) {
+			[left[x], right[x], weightX[x]] = neighbors((x + 0.5) / tileWidth - 0.5, columns);
+		}
+
+		// The clamped array rounds and clamps each channel on assignment
+		const pixels = new Uint8ClampedArray(source.length);
+		const rowGains = new Float64Array(columns);
+		const rowOffsets = new Float64Array(columns);
+		for (let y = 0; y < height; y++) {
+			// Interpolate between tile rows once per row, then only along x per pixel
+			const [top, bottom, weightY] = neighbors((y + 0.5) / tileHeight - 0.5, rows);
+			for (let column = 0; column < columns; column++) {
+				const a = top * columns + column;
+				const b = bottom * columns + column;
+				rowGains[column] = gains[a] + (gains[b] - gains[a]) * weightY;
+				rowOffsets[column] = offsets[a] + (offsets[b] - offsets[a]) * weightY;
+			}
+
+			for (let x = 0, i = y * width * 4; x < width; x++, i += 4) {
+				const l = left[x];
+				const r = right[x];
+				const w = weightX[x];
+				const gain = rowGains[l] + (rowGains[r] - rowGains[l]) * w;
+				const offset = rowOffsets[l] + (rowOffsets[r] - rowOffsets[l]) * w;
+				pixels[i] = source[i] * gain + offset;
+				pixels[i + 1] = source[i + 1] * gain + offset;
+				pixels[i + 2] = source[i + 2] * gain + offset;
+				pixels[i + 3] = source[i + 3];
+			}
+		}
+
+		return { width, height, pixels: new Uint8Array(pixels.buffer) };
+	};
+}
+
+/** Binarize: pixels whose luminance is at or above `level` become white, the rest black. */
+export function threshold(level: number): FilterStep {
+	return (image) => {
+		const pixels = new Uint8Array(image.pixels.length);
+		for (let i = 0; i < pixels.length; i += 4) {
+			const value = luminance(image.pixels, i) >= level ? 255 : 0;
+			pixels[i] = value;
+			pixels[i + 1] = value;
+			pixels[i + 2] = value;
+			pixels[i + 3] = image.pixels[i + 3];
+		}
+		return { width: image.width, height: image.height, pixels };
+	};
+}
+
+/** Nearest-neighbor upscale by an integer factor. */
+export function upscale(scale: number): FilterStep {
+	return (image) => {
+		const width = image.width * scale;
+		const source = pixelWords(image.pixels);
+		const words = new Uint32Array(width * image.height * scale);
+
+		for (let y = 0; y < image.height; y++) {
+			// Build one scaled row, then repeat it `scale` times
+			const rowStart = y * scale * width;
+			let o = rowStart;
+			for (let x = 0, s = y * image.width; x < image.width; x++, s++) {
+				const pixel = source[s];
+				for (let dx = 0; dx < scale; dx++) words[o++] = pixel;
+			}
+			for (let dy = 1; dy < scale; dy++) {
+				words.copyWithin(rowStart + dy * width, rowStart, rowStart + width);
+			}
+		}
+
+		return { width, height: image.height * scale, pixels: new Uint8Array(words.buffer) };
+	};
+}
+
+/**
+ * Gain and offset that stretch a luminance range towards 0–255, or null when
+ * the range is too narrow to hold content. The stretched range keeps its
+ * relative position, so a dark area stays dark and a light one light.
+ */
+function exposureLevels(histogram: Uint32Array): [gain: number, offset: number] | null {
+	const total = histogram.reduce((sum, count) => sum + count, 0);
+	const clip = Math.max(Math.ceil(total * EXPOSURE_CLIP), 1);
+
+	let low = 0;
+	for (let seen = histogram[0]; seen < clip && low < 255; seen += histogram[low]) low++;
+	let high = 255;
+	for (let seen = histogram[255]; seen < clip && high > 0; seen += histogram[high]) high--;
+
+	const range = high - low;
+	if (range < MIN_EXPOSURE_RANGE) {
+		return null;
+	}
+	const gain = Math.min(255 / range, MAX_EXPOSURE_GAIN);
+	const stretched = range * gain;
+	const newLow = stretched >= 255 ? 0 : (low * (255 - stretched)) / (255 - range);
+	return [gain, newLow - low * gain];
+}
+
+/** The two tiles around a position in tile units, and the weight of the second. */
+function neighbors(position: number, count: number): [number, number, number] {
+	const first = Math.min(Math.max(Math.floor(position), 0), count - 1);
+	const second = Math.min(first + 1, count - 1);
+	const weight = Math.min(Math.max(position - first, 0), 1);
+	return [first, second, weight];
+}
+
+/** Lookup table of a per-channel mapping, rounded and clamped to 0–255. */
+function lookupTable(map: (value: number) => number): Uint8Array {
+	const table = new Uint8Array(256);
+	for (let v = 0; v < 256; v++) {
+		table[v] = Math.min(Math.max(Math.round(map(v)), 0), 255);
 	}
+	return table;
+}
+
+function brightnessTable(factor: number): Uint8Array {
+	return lookupTable((v) => v * factor);
+}
+
+function gammaTable(value: number): Uint8Array {
+	return lookupTable((v) => 255 * (v / 255) ** (1 / value));
+}
+
+function invertTable(): Uint8Array {
+	return lookupTable((v) => 255 - v);
+}
+
+/** Map the color channels through a lookup table; alpha is kept. */
+function applyTable(table: Uint8Array): FilterStep {
+	return (image) => {
+		const pixels = new Uint8Array(image.pixels.length);
+		for (let i = 0; i < pixels.length; i += 4) {
+			pixels[i] = table[image.pixels[i]];
+			pixels[i + 1] = table[image.pixels[i + 1]];
+			pixels[i + 2] = table[image.pixels[i + 2]];
+			pixels[i + 3] = image.pixels[i + 3];
+		}
+		return { width: image.width, height: image.height, pixels };
+	};
+}
+
+/** Rec. 601 luminance of the pixel at byte offset `i`. */
+function luminance(pixels: Uint8Array, i: number): number {
+	return pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114;
+}
 
-	return PNG.sync.write(dst);
+/** Rec. 601 luminance rounded to an integer, in 16-bit fixed point. */
+function fastLuminance(r: number, g: number, b: number): number {
+	return (r * 19595 + g * 38470 + b * 7471 + 32768) >> 16;
 }
@@ -0,0 +1,174 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Pool of persistent KVM sessions, one per server.
+ *
+ * Opening a KVM console is slow: the provider has to grant IPMI access,
+ * then the BMC session and IVTP handshake follow. The pool keeps each
+ * server's authenticated WebSocket open between tool calls:
+ * - operations on the same server run one at a time on its client
+ * - idle connections get periodic keep-alives
+ * - a dropped connection is re-opened with the same BMC session, falling
+ *   back to a new session from the viewer URL, and to a new viewer URL if
+ *   the BMC refuses that one too
+ * - sessions unused for `idleTimeout` are closed so the BMC's KVM slot is freed
+ */
+
+import { type KvmClient, openKvmClient } from "./kvm-client.js";
+import type { KvmScreenshotOptions } from "./types.js";
+
+const DEFAULT_IDLE_TIMEOUT = 5 * 60_000;
+const DEFAULT_KEEP_ALIVE_INTERVAL = 30_000;
+
+/** Options for a KVM session pool. */
+export interface KvmSessionPoolOptions extends KvmScreenshotOptions {
+	/** Close a session after this long without use, in ms (default: 300000) */
+	readonly idleTimeout?: number;
+	/** Interval between keep-alives on idle sessions, in ms (default: 30000) */
+	readonly keepAliveInterval?: number;
+}
+
+/**
+ * Returns a viewer URL for opening a new BMC session. When the BMC refused
+ * the previous URL, it is passed back so the resolver can request a new one.
+ */
+export type ViewerUrlResolver = (rejectedUrl?: string) => Promise<string>;
+
+/** A pooled session and the timers that keep it alive or expire it. */
+interface PoolEntry {
+	client: KvmClient | null;
+	/** Tail of the operation queue; each operation chains onto it. */
+	queue: Promise<unknown>;
+	busy: number;
+	idleTimer: ReturnType<typeof setTimeout> | null;
+	readonly keepAliveTimer: ReturnType<typeof setInterval>;
+}
+
+export class KvmSessionPool {
+	private readonly options: KvmSessionPoolOptions;
+	private readonly entries = new Map<string, PoolEntry>();
+
+	constructor(options: KvmSessionPoolOptions = {}) {
+		this.options = options;
+	}
+
+	/** Number of servers with a pooled session. */
+	get size(): number {
+		return this.entries.size;
+	}
+
+	/**
+	 * Run `operation` with a connected client for `serverId`.
+	 *
+	 * Reuses the pooled connection when there is one. Otherwise it reconnects
+	 * with the pooled BMC session, or opens a new session from the URL
+	 * returned by `resolveViewerUrl`. Operations for the same server are serialized.
+	 */
+	run<T>(
+		serverId: string,
+		resolveViewerUrl: ViewerUrlResolver,
+		operation: (client: KvmClient) => Promise<T>,
+	): Promise<T> {
+		const entry = this.entries.get(serverId) ?? this.createEntry(serverId);
+		entry.busy++;
+		if (entry.idleTimer) {
+			clearTimeout(entry.idleTimer);
+			entry.idleTimer = null;
+		}
+
+		const result = entry.queue.then(async () => {
+			const client = await this.connect(entry, resolveViewerUrl);
+			return operation(client);
+		});
+
+		entry.queue = result
+			.catch(() => {})
+			.finally(() => {
+				entry.busy--;
+				if (this.entries.get(serverId) !== entry) {
+					// Closed while the operation ran — don't leave its connection behind
+					entry.client?.disconnect();
+					entry.client = null;
+				} else if (entry.busy === 0) {
+					this.scheduleIdleClose(serverId, entry);
+				}
+			});
+
+		return result;
+	}
+
+	/** Close the session for one server. */
+	close(serverId: string): void {
+		const entry = this.entries.get(serverId);
+		if (!entry) return;
+
+		this.entries.delete(serverId);
+		clearInterval(entry.keepAliveTimer);
+		if (entry.idleTimer) clearTimeout(entry.idleTimer);
+		entry.client?.disconnect();
+		entry.client = null;
+	}
+
+	/** Close every pooled session. */
+	closeAll(): void {
+		for (const serverId of [...this.entries.keys()]) {
+			this.close(serverId);
+		}
+	}
+
+	// --- Internals ---
+
+	private createEntry(serverId: string): PoolEntry {
+		const interval = this.options.keepAliveInterval ?? DEFAULT_KEEP_ALIVE_INTERVAL;
+		const entry: PoolEntry = {
+			client: null,
+			queue: Promise.resolve(),
+			busy: 0,
+			idleTimer: null,
+			keepAliveTimer: setInterval(() => {
+				if (entry.busy === 0 && entry.client?.connected) {
+					entry.client.keepAlive();
+				}
+			}, interval),
+		};
+		entry.keepAliveTimer.unref();
+
+		this.entries.set(serverId, entry);
+		return entry;
+	}
+
+	/** Return the entry's connected client, reconnecting or opening a new session as needed. */
+	private async connect(entry: PoolEntry, resolveViewerUrl: ViewerUrlResolver): Promise<KvmClient> {
+		if (entry.client?.connected) {
+			return entry.client;
+		}
+
+		if (entry.client) {
+			try {
+				await entry.client.connect();
+				return entry.client;
+			} catch {
+				// The BMC session expired — start over from a viewer URL
+				entry.client = null;
+			}
+		}
+
+		const viewerUrl = await resolveViewerUrl();
+		try {
+			entry.client = await openKvmClient(viewerUrl, this.options);
+		} catch {
+			// The BMC refused the viewer URL — retry once with a new one
+			entry.client = await openKvmClient(await resolveViewerUrl(viewerUrl), this.options);
+		}
+		return entry.client;
+	}
+
+	private scheduleIdleClose(serverId: string, entry: PoolEntry): void {
+		entry.idleTimer = setTimeout(
+			() => this.close(serverId),
+			this.options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT,
+		);
+		entry.idleTimer.unref();
+	}
+}
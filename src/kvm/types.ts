@@ -31,3 +31,24 @@ export interface KvmScreenshotResult {
 	/** Image height in pixels */
 	readonly height: number;
 }
+
+/** Options for sending input through a KVM session. */
+export interface KvmInputOptions extends KvmScreenshotOptions {
+	/** Delay between keystrokes in ms (default: 50) */
+	readonly keyDelay?: number;
+	/** Delay between pointer movements in ms (default: 20) */
+	readonly pointerDelay?: number;
+	/** Capture a screenshot after the input has been sent (default: false) */
+	readonly screenshot?: boolean;
+	/** Time to let the screen settle before the screenshot in ms (default: 500) */
+	readonly settleDelay?: number;
+}
+
+/** Video frame data: header info + compressed tile data chunks. */
+export interface VideoFrame {
+	readonly width: number;
+	readonly height: number;
+	readonly headerBytes: Buffer;
+	readonly compressedChunks: Buffer[];
+	readonly compressSize: number;
+}
@@ -0,0 +1,265 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Tools that restart servers: power actions, and rebooting into rescue mode.
+ *
+ * Both drop whatever the server is doing, so two guards stand in front of
+ * the provider. Only servers on the allow-list can be controlled at all, and
+ * every action is confirmed first: by the user through MCP elicitation when
+ * the client supports it, otherwise by calling the tool a second time with a
+ * single-use token from the first call's answer.
+ */
+
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod/v4";
+import type { BootChange, BootOption, PowerAction, Provider } from "../providers/types.js";
+
+export interface PowerToolOptions {
+	/** Server ids the power tools may control; "*" allows all (default: none) */
+	allowList?: readonly string[];
+	/** How long a confirmation token stays valid, in ms (default: 2 minutes) */
+	confirmationTtl?: number;
+}
+
+const DEFAULT_CONFIRMATION_TTL = 2 * 60_000;
+
+const ACTION_NAMES: Record<PowerAction, string> = {
+	reboot: "hard reboot",
+	on: "power on",
+	off: "power off",
+	cycle: "power cycle",
+};
+
+/** An action waiting for its confirming call. */
+interface PendingConfirmation {
+	readonly tool: string;
+	readonly serverId: string;
+	/** The arguments the token confirms, serialized */
+	readonly action: string;
+	readonly expiresAt: number;
+}
+
+/** An action a tool asks confirmation for. */
+interface ConfirmationRequest {
+	readonly tool: string;
+	readonly serverId: string;
+	readonly action: string;
+	/** E.g. "hard reboot of ns1234567.ip-1-2-3.eu" */
+	readonly description: string;
+	readonly token?: string;
+}
+
+export function registerPowerTools(
+	server: McpServer,
+	provider: Provider,
+	options: PowerToolOptions = {},
+): void {
+	const allowList = options.allowList ?? [];
+	const ttl = options.confirmationTtl ?? DEFAULT_CONFIRMATION_TTL;
+	const pending = new Map<string, PendingConfirmation>();
+
+	const checkAllowed = (serverId: string) => {
+		if (!allowList.includes("*") && !allowList.includes(serverId)) {
+			throw new Error(
+				`Power control is not allowed for ${serverId}; add it to the POWER_ALLOWED_SERVERS allow-list`,
+			);
+		}
+	};
+
+	/**
+	 * Get the action confirmed. Returns null once it is, or the answer to give
+	 * instead of acting: the token request, or the user's refusal.
+	 */
+	const confirm = async (request: ConfirmationRequest): Promise<CallToolResult | null> => {
+		const { tool, serverId, action, description, token } = request;
+		if (server.server.getClientCapabilities()?.elicitation?.form) {
+			const answer = await server.server.elicitInput({
+				message: `Confirm the ${description}? Anything running on the server is interrupted without a shutdown.`,
+				requestedSchema: { type: "object", properties: {} },
+			});
+			if (answer.action === "accept") return null;
+			return {
+				content: [{ type: "text", text: `The ${description} was not confirmed; nothing was done` }],
+			};
+		}
+
+		if (!token) {
+			const issued = crypto.randomUUID();
+			for (const [key, stale] of pending) {
+				if (Date.now() > stale.expiresAt) pending.delete(key);
+			}
+			pending.set(issued, { tool, serverId, action, expiresAt: Date.now() + ttl });
+			return {
+				content: [
+					{
+						type: "text",
+						text: `The ${description} needs confirmation. Anything running on the server is interrupted without a shutdown. Once the user agrees, call ${tool} again with the same arguments and confirmationToken="${issued}" within ${Math.round(ttl / 1000)}s.`,
+					},
+				],
+			};
+		}
+
+		const confirmation = pending.get(token);
+		pending.delete(token);
+		if (
+			confirmation?.tool !== tool ||
+			confirmation.serverId !== serverId ||
+			confirmation.action !== action ||
+			Date.now() > confirmation.expiresAt
+		) {
+			throw new Error(
+				`Invalid or expired confirmation token for the ${description}; call ${tool} without a token to get a new one`,
+			);
+		}
+		return null;
+	};
+
+	server.tool(
+		"power",
+		"Hard reboot, power on, power off or power cycle a server, e.g. when its console shows a hard hang that keyboard input cannot get out of. This cuts power or resets the machine without shutting the operating system down, so unsaved data is lost. Only allow-listed servers can be controlled, and every action must be confirmed: the user is asked directly when the client supports it; otherwise the first call returns a confirmation token, to be passed back in a second call once the user agreed. Returns when the provider reports the action done.",
+		{
+			serverId: z.string().describe("Server identifier (e.g., 'ns1234567.ip-1-2-3.eu')"),
+			action: z
+				.enum(["reboot", "on", "off", "cycle"])
+				.describe("Hard reboot (reset), power on, power off, or power off then on"),
+			confirmationToken: z
+				.string()
+				.optional()
+				.describe("Token from the previous call's answer, to confirm the same action"),
+		},
+		async ({ serverId, action, confirmationToken }) => {
+			if (!provider.power) {
+				throw new Error(`Provider "${provider.name}" does not support power control`);
+			}
+			if (!provider.powerActions?.includes(action)) {
+				const supported = provider.powerActions?.join(", ") || "none";
+				throw new Error(
+					`Provider "${provider.name}" does not support power action "${action}" (supported: ${supported})`,
+				);
+			}
+			checkAllowed(serverId);
+
+			const description = `${ACTION_NAMES[action]} of ${serverId}`;
+			const answer = await confirm({
+				tool: "power",
+				serverId,
+				action,
+				description,
+				token: confirmationToken,
+			});
+			if (answer) return answer;
+
+			const result = await provider.power(serverId, action);
+			const task = result.taskId !== undefined ? ` (task ${result.taskId})` : "";
+			return {
+				content: [
+					{
+						type: "text",
+						text: `The ${description} is done${task} after ${(result.elapsed / 1000).toFixed(1)}s. Follow the boot with wait_for_text or get_screenshot.`,
+					},
+				],
+			};
+		},
+	);
+
+	server.tool(
+		"boot_rescue",
+		"Reboot a server into its provider's rescue system (a network-booted Linux for repairing disks, boot loaders and configuration) and back. action='list' shows the server's boot options and the current one. action='rescue' switches the boot to the standard rescue system, or to the rescue boot bootId, and reboots; the boot used before is remembered while this MCP server runs. action='restore' switches back to it, or to the disks when none was remembered (the answer says so), and reboots. Set reboot=false to only change the boot for the next restart. Switching is allow-listed and confirmed like the power tool.",
+		{
+			serverId: z.string().describe("Server identifier (e.g., 'ns1234567.ip-1-2-3.eu')"),
+			action: z
+				.enum(["list", "rescue", "restore"])
+				.describe("List the boot options, boot into rescue, or restore the previous boot"),
+			bootId: z
+				.number()
+				.int()
+				.optional()
+				.describe("Rescue boot to switch to with action='rescue', from action='list'"),
+			reboot: z.boolean().optional().default(true).describe("Reboot into the new boot right away"),
+			confirmationToken: z
+				.string()
+				.optional()
+				.describe("Token from the previous call's answer, to confirm the same switch"),
+		},
+		async ({ serverId, action, bootId, reboot, confirmationToken }) => {
+			if (!provider.getBootConfig || !provider.bootRescue || !provider.restoreBoot) {
+				throw new Error(`Provider "${provider.name}" does not support rescue boots`);
+			}
+
+			if (action === "list") {
+				const config = await provider.getBootConfig(serverId);
+				const lines = config.options.map(
+					(option) =>
+						`${option.id === config.current.id ? "*" : " "} ${option.id}: ${describeBoot(option)}`,
+				);
+				return {
+					content: [
+						{
+							type: "text",
+							text: `Boot options of ${serverId} (* = current):\n${lines.join("\n")}`,
+						},
+					],
+				};
+			}
+
+			checkAllowed(serverId);
+			const target =
+				action === "restore"
+					? "previous boot"
+					: `rescue boot${bootId !== undefined ? ` ${bootId}` : ""}`;
+			const answer = await confirm({
+				tool: "boot_rescue",
+				serverId,
+				action: JSON.stringify([action, bootId, reboot]),
+				description: `switch of ${serverId} to the ${target}${reboot ? " with a hard reboot" : ""}`,
+				token: confirmationToken,
+			});
+			if (answer) return answer;
+
+			const change =
+				action === "rescue"
+					? await provider.bootRescue(serverId, { bootId, reboot })
+					: await provider.restoreBoot(serverId, { reboot });
+			return { content: [{ type: "text", text: describeBootChange(serverId, change, action) }] };
+		},
+	);
+}
+
+function describeBoot(option: BootOption): string {
+	return `${option.name} (${option.type}) — ${option.description}`;
+}
+
+function describeBootChange(
+	serverId: string,
+	change: BootChange,
+	action: "rescue" | "restore",
+): string {
+	const lines = [
+		change.current.id === change.previous.id
+			? `${serverId} already boots ${describeBoot(change.current)}`
+			: `${serverId} now boots ${describeBoot(change.current)}, instead of ${describeBoot(change.previous)}`,
+	];
+	if (change.fallback) {
+		lines.push(
+			"No boot was remembered from the switch to rescue (the MCP server may have restarted since), so the disk boot was chosen; check action='list' if the server booted differently before.",
+		);
+	}
+	if (change.reboot) {
+		const task = change.reboot.taskId !== undefined ? ` (task ${change.reboot.taskId})` : "";
+		lines.push(
+			`Rebooted${task} after ${(change.reboot.elapsed / 1000).toFixed(1)}s. Follow the boot with wait_for_text or get_screenshot.`,
+		);
+	} else if (change.current.id === change.previous.id && action === "restore") {
+		lines.push("Not rebooted, since the boot did not change.");
+	} else {
+		lines.push("Not rebooted; the new boot applies from the next restart.");
+	}
+	if (action === "rescue") {
+		lines.push(
+			"When done, call boot_rescue with action='restore' to boot the server normally again.",
+		);
+	}
+	return lines.join("\n");
+}
@@ -0,0 +1,181 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * MCP prompt templates for common bare-metal triage workflows.
+ *
+ * Each prompt takes a server id and pre-loads what the first steps would
+ * fetch anyway — the server's details, its IPMI status, the console text and
+ * a screenshot — followed by step-by-step guidance that names this server's tools.
+ */
+
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod/v4";
+import { DEFAULT_SCALE, optimizeImage } from "../kvm/optimize.js";
+import type { Provider } from "../providers/types.js";
+import { decodePng, encodePng } from "../screen/image.js";
+import { extractText } from "../screen/ocr.js";
+
+interface TriagePrompt {
+	readonly name: string;
+	readonly title: string;
+	readonly description: string;
+	/** What the assistant is asked to do, before the context */
+	readonly task: string;
+	readonly steps: readonly string[];
+}
+
+const TRIAGE_PROMPTS: readonly TriagePrompt[] = [
+	{
+		name: "diagnose_boot",
+		title: "Diagnose a server that won't boot",
+		description:
+			"Find out where and why a server's boot stops, starting from its current console screen",
+		task: "Find out why this server does not boot.",
+		steps: [
+			"From the screenshot and console text above, name the stage the boot stopped in: firmware (POST, RAID controller, PXE), boot loader, kernel, initramfs, or the operating system.",
+			"If the screen looks idle, call `wait_for_change` (timeout 60000) to see whether something is still happening. If the server reboots in a loop, call `record_console` for one cycle and read its contact sheet — that catches messages that flash past.",
+			'Firmware: a "No bootable device" or PXE timeout points at the boot order or a failed disk. Reboot with `send_keys` ["Ctrl+Alt+Del"], then `wait_for_text` for "/Press .*(F2|DEL)/" and enter setup with `send_keys` ["F2"] or ["Delete"] to check the boot order and the disks.',
+			'Boot loader: read the menu with `get_screenshot` format="text". Pick another entry (an older kernel, recovery mode) with `send_keys` ["Down"] and ["Enter"], or press `e` to inspect the kernel command line.',
+			"Kernel or initramfs: quote the last lines of the console text. A panic is best captured with the collect_panic_trace prompt; an emergency or dracut shell can be inspected with `type_text` (e.g. `journalctl -xb --no-pager | tail -50` followed by a newline).",
+			"Report the stage, the evidence (quote the screen text), the likely cause, and the next action. Ask before changing boot order, disks or boot loader configuration.",
+		],
+	},
+	{
+		name: "fsck_walkthrough",
+		title: "Walk through a filesystem check",
+		description:
+			"Guide a server through an interrupted boot that asks for a manual fsck or shows fsck questions",
+		task: "Walk this server through the filesystem check its boot is waiting on.",
+		steps: [
+			'Read the console text above and identify the device and what fsck is asking: a repair question (e.g. "Fix<y>?"), "UNEXPECTED INCONSISTENCY; RUN fsck MANUALLY", or an emergency shell asking for the root password.',
+			"Never guess a root password. If the shell asks for one, ask the user and type it with `type_text`.",
+			"Before answering a repair question or running fsck, explain what the repair will change and get the user's go-ahead. Answering yes to everything (`fsck -y`) can discard data.",
+			'To run the check by hand from the shell, use `type_text` with e.g. "fsck -f /dev/sda2" and a trailing newline. Follow the progress with `wait_for_text` for ["Fix<y>?", "/FILE SYSTEM WAS MODIFIED|clean,/", "# "] and answer each question with `send_keys` ["y"] or ["n"].',
+			'When fsck reports the file system clean or modified, reboot with `type_text` "reboot" and a newline, then `wait_for_text` ["login:"] (timeout 120000) to confirm the server comes back.',
+			"Summarize the device, what was repaired, and whether the boot completed.",
+		],
+	},
+	{
+		name: "collect_panic_trace",
+		title: "Collect a kernel panic trace",
+		description: "Capture and interpret the kernel panic on a server's console",
+		task: "Collect the kernel panic trace shown on this server's console and explain it.",
+		steps: [
+			'Read the panic with `get_screenshot` format="text" — the text is read locally and exactly, so quote it rather than the image. Most kernels ignore the keyboard after a panic, so what is on screen is all there is.',
+			'If the start of the panic scrolled off, and the server panics again after a reboot (`send_keys` ["Ctrl+Alt+Del"]), call `record_console` with fps 10 over the boot and use its keyframes to read the lines before the panic.',
+			'Extract the panic reason ("Kernel panic - not syncing: …"), the kernel version and taint flags (the "CPU: … Comm: … Tainted:" line), the faulting function ("RIP:"), the call trace, and "Modules linked in".',
+			'Give the trace verbatim in a code block, then explain it: for example, "VFS: Unable to mount root fs" points at a missing initramfs or a wrong root= parameter, and a trace through a single driver module points at that driver or its hardware.',
+			"Suggest the next step — booting an older kernel from the boot loader menu, or the rescue system — and ask before rebooting the server.",
+		],
+	},
+];
+
+/** Register the triage prompts on an MCP server. */
+export function registerTriagePrompts(server: McpServer, provider: Provider): void {
+	const serverIdArg = completable(
+		z.string().describe("Server identifier (e.g., 'ns1234567.ip-1-2-3.eu')"),
+		async (value) => {
+			const servers = await provider.listServers();
+			return servers.map((s) => s.id).filter((id) => id.startsWith(value));
+		},
+	);
+
+	for (const prompt of TRIAGE_PROMPTS) {
+		server.registerPrompt(
+			prompt.name,
+			{
+				title: prompt.title,
+				description: prompt.description,
+				argsSchema: { serverId: serverIdArg },
+			},
+			({ serverId }) => buildPrompt(provider, prompt, serverId),
+		);
+	}
+}
+
+async function buildPrompt(
+	provider: Provider,
+	prompt: TriagePrompt,
+	serverId: string,
+): Promise<GetPromptResult> {
+	const servers = await provider.listServers();
+	const server = servers.find((s) => s.id === serverId);
+	if (!server) {
+		throw new Error(`Unknown server "${serverId}"`);
+	}
+
+	const sections = [
+		`${prompt.task}\n\nServer:\n${JSON.stringify(server, null, 2)}`,
+		`IPMI: ${await describeIpmi(provider, serverId)}`,
+	];
+
+	let screenshot: Buffer | null = null;
+	try {
+		const image = decodePng(await provider.getScreenshot(serverId));
+		screenshot = encodePng(optimizeImage(image, { brightness: "auto" }));
+		const screen = extractText(image);
+		sections.push(
+			screen
+				? `Console text (${screen.columns}x${screen.rows}):\n${screen.text}`
+				: "Console text: none (graphical screen)",
+		);
+		sections.push(
+			`The current console screenshot is attached, upscaled ${DEFAULT_SCALE}x like all screenshots from this server; \`pointer\` takes console coordinates, i.e. positions in it divided by ${DEFAULT_SCALE}.`,
+		);
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		sections.push(`Console: screenshot failed (${message}). Retry with \`get_screenshot\`.`);
+	}
+
+	const unavailable = unavailableTools(provider);
+	const steps = prompt.steps.map((step, i) => `${i + 1}. ${step}`).join("\n");
+	sections.push(`Steps:\n${steps}`);
+	if (unavailable.length > 0) {
+		sections.push(
+			`This provider does not support ${unavailable.map((t) => `\`${t}\``).join(", ")}. Skip those calls and tell the user what to do by hand instead.`,
+		);
+	}
+
+	const messages: GetPromptResult["messages"] = [
+		{ role: "user", content: { type: "text", text: sections.join("\n\n") } },
+	];
+	if (screenshot) {
+		messages.push({
+			role: "user",
+			content: { type: "image", data: screenshot.toString("base64"), mimeType: "image/png" },
+		});
+	}
+
+	return { description: `${prompt.title}: ${server.name}`, messages };
+}
+
+async function describeIpmi(provider: Provider, serverId: string): Promise<string> {
+	if (!provider.getIpmiStatus) {
+		return "status not available from this provider";
+	}
+
+	try {
+		const status = await provider.getIpmiStatus(serverId);
+		if (!status.activated) {
+			return "not activated — the console tools will fail until IPMI is enabled";
+		}
+		const features = status.features.length > 0 ? status.features.join(", ") : "none reported";
+		return `activated; supported features: ${features}`;
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		return `status query failed (${message})`;
+	}
+}
+
+/** Console tools whose provider method is missing. */
+function unavailableTools(provider: Provider): string[] {
+	const tools: string[] = [];
+	if (!provider.sendKeys) tools.push("send_keys", "type_text");
+	if (!provider.sendPointer) tools.push("pointer");
+	if (!provider.waitForChange) tools.push("wait_for_change");
+	if (!provider.recordConsole) tools.push("record_console");
+	return tools;
+}
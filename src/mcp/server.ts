@@ -2,20 +2,66 @@
 // SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
 
 /**
- * MCP server setup with tool definitions.
+ * MCP server setup with tool and resource definitions.
  */
 
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import {
+	type ReadResourceResult,
+	SubscribeRequestSchema,
+	UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod/v4";
-import { optimizeForLlm } from "../kvm/optimize.js";
+import { parseKeys } from "../input/keys.js";
+import { KEYBOARD_LAYOUTS, textToKeyStrokes } from "../input/layouts.js";
+import type { PointerAction } from "../input/types.js";
+import { DEFAULT_SCALE, type OptimizeOptions, optimizeImage } from "../kvm/optimize.js";
 import type { Provider } from "../providers/types.js";
+import { compareImages, describeChange } from "../screen/diff.js";
+import { encodeScreenshot } from "../screen/encode.js";
+import { ScreenshotHistory } from "../screen/history.js";
+import { clipRegion, cropImage, decodePng, encodePng } from "../screen/image.js";
+import { extractText } from "../screen/ocr.js";
+import { drawGrid } from "../screen/overlay.js";
+import { contactSheet } from "../screen/record.js";
+import type { EncodedImage, RgbaImage, TextScreen } from "../screen/types.js";
+import { parsePattern, waitForText } from "../screen/wait.js";
+import { ScreenWatcher } from "../screen/watcher.js";
+import { type PowerToolOptions, registerPowerTools } from "./power.js";
+import { registerTriagePrompts } from "./prompts.js";
 
-export function createMcpServer(provider: Provider): McpServer {
+/** Console resource URIs: ikvm://{provider}/{serverId}/screen and …/text. */
+const CONSOLE_URI = /^ikvm:\/\/([^/]+)\/([^/]+)\/(screen|text)$/;
+
+export interface McpServerOptions {
+	/** Time between background captures of consoles with resource subscriptions, in ms (default: 2000) */
+	watchInterval?: number;
+	/** Stop background captures of a console after this long without a change, in ms (default: 300000) */
+	watchIdleTimeout?: number;
+	/** Screenshots kept per server for compare_screenshots (default: 20) */
+	historySize?: number;
+	/** Allow-list and confirmation of the power and boot_rescue tools */
+	power?: PowerToolOptions;
+}
+
+/** Largest side of a zoomed get_screenshot image, in pixels. */
+const MAX_ZOOMED_SIZE = 4096;
+
+/** Changed regions listed in compare_screenshots output; all of them are outlined in the image. */
+const MAX_LISTED_REGIONS = 10;
+
+export function createMcpServer(provider: Provider, options: McpServerOptions = {}): McpServer {
 	const server = new McpServer({
 		name: "ikvm-mcp",
 		version: "0.1.0",
 	});
 
+	registerConsoleResources(server, provider, options);
+	registerTriagePrompts(server, provider);
+	registerPowerTools(server, provider, options.power);
+	const history = new ScreenshotHistory(options.historySize);
+
 	server.tool(
 		"list_servers",
 		"List all available bare metal servers with iKVM/IPMI access",
@@ -35,7 +81,7 @@ export function createMcpServer(provider: Provider): McpServer {
 
 	server.tool(
 		"get_screenshot",
-		"Capture a screenshot of a server's iKVM/IPMI console screen. Returns a PNG image optimized for LLM vision (2x upscale + brightness boost). Set raw=true to get the original unprocessed image.",
+		"Capture a screenshot of a server's iKVM/IPMI console screen. Returns an image optimized for LLM vision (2x upscale + automatic exposure). Set raw=true to get the original unprocessed image. Set region to crop the screen to a rectangle in console pixels (those of the raw image, i.e. screenshot pixels divided by 2) and zoom to magnify it, e.g. to read small BIOS text, a stack trace or a status line. The optimization runs grayscale, contrast stretch, brightness (automatic exposure by default), gamma, invert, threshold and zoom in that order; adjust them when a screen is still hard to read. Set format='text' or 'both' to read the text of text-mode screens (BIOS, boot loaders, kernel panics, rescue shells) locally; graphical screens fall back to the image. Set imageFormat, quality, maxDimension and maxBytes to save context in long sessions; the final dimensions and size are reported. Set overlay='grid' to draw gridlines every gridSpacing console pixels, labelled in console pixels: use them directly as region and pointer coordinates. Every screenshot gets a capture id for compare_screenshots.",
 		{
 			serverId: z.string().describe("Server identifier (e.g., 'ns1234567.ip-1-2-3.eu')"),
 			raw: z
@@ -43,17 +89,668 @@ export function createMcpServer(provider: Provider): McpServer {
 				.optional()
 				.default(false)
 				.describe("Return the raw screenshot without LLM optimization"),
+			format: z
+				.enum(["image", "text", "both"])
+				.optional()
+				.default("image")
+				.describe("Return the image, the screen text, or the text followed by the image"),
+			region: z
+				.object({
+					x: z.number().int().min(0),
+					y: z.number().int().min(0),
+					width: z.number().int().min(1),
+					height: z.number().int().min(1),
+				})
+				.optional()
+				.describe("Crop to this rectangle, in console pixels (default: whole screen)"),
+			zoom: z
+				.number()
+				.int()
+				.min(1)
+				.max(8)
+				.optional()
+				.default(DEFAULT_SCALE)
+				.describe(
+					`Upscale factor of the optimized image, lowered to stay within ${MAX_ZOOMED_SIZE} pixels per side; ignored with raw=true`,
+				),
+			brightness: z
+				.union([z.literal("auto"), z.number().min(0.1).max(10)])
+				.optional()
+				.default("auto")
+				.describe(
+					"'auto' adapts the exposure to the screen (brightens dim console text without clipping light screens to white), or a fixed multiplier such as 3",
+				),
+			gamma: z
+				.number()
+				.min(0.1)
+				.max(10)
+				.optional()
+				.default(1)
+				.describe("Gamma correction; above 1 brightens dark tones, below 1 darkens them"),
+			contrast: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe(
+					"Stretch contrast so the darkest and brightest 1% of pixels become black and white (best with brightness=1)",
+				),
+			grayscale: z.boolean().optional().default(false).describe("Convert to gray"),
+			invert: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe("Invert colors, e.g. for dark text on a light background"),
+			threshold: z
+				.number()
+				.int()
+				.min(0)
+				.max(255)
+				.optional()
+				.describe(
+					"Binarize: pixels at least this bright (luminance 0-255, after the other filters) become white, the rest black",
+				),
+			imageFormat: z
+				.enum(["png", "jpeg", "webp"])
+				.optional()
+				.default("png")
+				.describe(
+					"Image encoding: lossless PNG, JPEG (smallest for graphical screens) or lossless WebP (usually smaller than PNG, especially for text screens)",
+				),
+			quality: z
+				.number()
+				.int()
+				.min(1)
+				.max(100)
+				.optional()
+				.default(80)
+				.describe("JPEG quality; ignored for PNG and WebP"),
+			maxDimension: z
+				.number()
+				.int()
+				.min(64)
+				.optional()
+				.describe("Downscale (area averaging) so neither side exceeds this many pixels"),
+			maxBytes: z
+				.number()
+				.int()
+				.min(1024)
+				.optional()
+				.describe(
+					"Byte budget of the encoded image: JPEG quality is lowered to 40, then the image is downscaled until it fits",
+				),
+			overlay: z
+				.enum(["none", "grid"])
+				.optional()
+				.default("none")
+				.describe(
+					"Draw labelled gridlines over the image, after the optimization, to locate things on screen",
+				),
+			gridSpacing: z
+				.number()
+				.int()
+				.min(10)
+				.max(1000)
+				.optional()
+				.default(100)
+				.describe("Distance between gridlines with overlay='grid', in console pixels"),
 		},
-		async ({ serverId, raw }) => {
+		async ({
+			serverId,
+			raw,
+			format,
+			region,
+			zoom,
+			imageFormat,
+			quality,
+			maxDimension,
+			maxBytes,
+			overlay,
+			gridSpacing,
+			...filters
+		}) => {
 			const png = await provider.getScreenshot(serverId);
-			const outputPng = raw ? png : optimizeForLlm(png);
+			const captureId = history.add(serverId, png).id;
+			const content: Array<
+				{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }
+			> = [];
+
+			const screen = decodePng(png);
+			let view = screen;
+			let origin = { x: 0, y: 0 };
+			let scale = zoom;
+			if (region || zoom !== DEFAULT_SCALE) {
+				const area = clipRegion(
+					region ?? { x: 0, y: 0, width: screen.width, height: screen.height },
+					screen,
+				);
+				if (area.width === 0 || area.height === 0) {
+					throw new Error(
+						`Region at (${region?.x}, ${region?.y}) is outside the ${screen.width}x${screen.height} console`,
+					);
+				}
+				if (region) {
+					view = cropImage(screen, area);
+					origin = { x: area.x, y: area.y };
+				}
+				scale = Math.max(
+					Math.min(zoom, Math.floor(MAX_ZOOMED_SIZE / Math.max(area.width, area.height))),
+					1,
+				);
+				content.push({
+					type: "text",
+					text: `Region ${area.width}x${area.height} at (${area.x}, ${area.y}) of the ${screen.width}x${screen.height} console, zoomed ${raw ? 1 : scale}x`,
+				});
+			}
+
+			// The image and its size report, which goes with the capture id at the end
+			const encodeView = () => {
+				let processed = raw ? view : optimizeImage(view, { scale, ...filters });
+				if (overlay === "grid") {
+					processed = drawGrid(processed, {
+						spacing: gridSpacing,
+						scale: raw ? 1 : scale,
+						origin,
+					});
+				}
+				const encoded = encodeScreenshot(processed, {
+					format: imageFormat,
+					quality,
+					maxDimension,
+					maxBytes,
+				});
+				return {
+					image: {
+						type: "image" as const,
+						data: encoded.data.toString("base64"),
+						mimeType: encoded.mimeType,
+					},
+					capture: {
+						type: "text" as const,
+						text: `${describeEncoding(encoded, processed, maxBytes)}\nCapture id: ${captureId}`,
+					},
+				};
+			};
+
+			if (format === "image") {
+				const { image, capture } = encodeView();
+				return { content: [...content, image, capture] };
+			}
+
+			const text = extractText(view);
+			if (!text) {
+				const { image, capture } = encodeView();
+				content.push({ type: "text", text: "No text-mode screen detected" }, image, capture);
+				return { content };
+			}
+
+			content.push({
+				type: "text",
+				text: `Screen text (${text.columns}x${text.rows}):\n${text.text}`,
+			});
+			if (format === "both") {
+				const { image, capture } = encodeView();
+				content.push(image, capture);
+			} else {
+				content.push({ type: "text", text: `Capture id: ${captureId}` });
+			}
+			return { content };
+		},
+	);
+
+	server.tool(
+		"compare_screenshots",
+		`Compare two screenshots taken with get_screenshot, e.g. before and after a fix, to show whether and where the screen changed. Returns the changed-pixel percentage, boxes around the changed regions in console pixels (like get_screenshot's region, grid labels and pointer coordinates) and a diff image of the newer screenshot in gray with changed pixels in red and the regions outlined in yellow. Only the most recent screenshots of each server are kept.`,
+		{
+			before: z.number().int().min(1).describe("Capture id of the earlier screenshot"),
+			after: z.number().int().min(1).describe("Capture id of the later screenshot"),
+			tolerance: z
+				.number()
+				.int()
+				.min(0)
+				.max(255)
+				.optional()
+				.default(16)
+				.describe("Largest per-channel difference still treated as unchanged"),
+			raw: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe("Return the diff image at console resolution without LLM optimization"),
+		},
+		async ({ before, after, tolerance, raw }) => {
+			const [older, newer] = [before, after].map((id) => {
+				const screenshot = history.get(id);
+				if (!screenshot) {
+					throw new Error(
+						`Unknown capture id ${id}; only the last ${history.capacity} screenshots of each server are kept`,
+					);
+				}
+				return screenshot;
+			});
+
+			const beforeImage = decodePng(older.png);
+			const afterImage = decodePng(newer.png);
+			const { diff, regions, image } = compareImages(beforeImage, afterImage, { tolerance });
+
+			const seconds = ((newer.capturedAt - older.capturedAt) / 1000).toFixed(1);
+			const subject =
+				older.serverId === newer.serverId
+					? `Capture ${older.id} → capture ${newer.id} of ${newer.serverId} (${seconds}s apart)`
+					: `Capture ${older.id} of ${older.serverId} → capture ${newer.id} of ${newer.serverId}`;
+			const lines: string[] = [];
+			if (diff.changedPixels === 0) {
+				lines.push(`${subject}: no pixels changed`);
+			} else {
+				const percent = ((diff.changedPixels / diff.comparedPixels) * 100).toFixed(2);
+				lines.push(
+					`${subject}: ${diff.changedPixels} pixels changed (${percent}% of the screen) in ${regions.length} region(s):`,
+				);
+				for (const [i, r] of regions.slice(0, MAX_LISTED_REGIONS).entries()) {
+					lines.push(
+						`${i + 1}. ${r.width}x${r.height} at (${r.x}, ${r.y}), ${r.changedPixels} pixels`,
+					);
+				}
+				if (regions.length > MAX_LISTED_REGIONS) {
+					lines.push(`…and ${regions.length - MAX_LISTED_REGIONS} smaller region(s)`);
+				}
+			}
+			if (beforeImage.width !== afterImage.width || beforeImage.height !== afterImage.height) {
+				lines.push(
+					`The resolution changed from ${beforeImage.width}x${beforeImage.height} to ${afterImage.width}x${afterImage.height}, so the whole screen counts as changed.`,
+				);
+			}
+
+			return {
+				content: [
+					{ type: "text", text: lines.join("\n") },
+					{
+						type: "image",
+						data: encodePng(raw ? image : optimizeImage(image, { brightness: 1 })).toString(
+							"base64",
+						),
+						mimeType: "image/png",
+					},
+				],
+			};
+		},
+	);
+
+	server.tool(
+		"send_keys",
+		"Send keyboard input to a server's iKVM/IPMI console. Each entry is a named key (Enter, Esc, Tab, F2, Up, Down, Left, Right, PageUp, Delete, a, 1) or a chord joined with '+' (Ctrl+Alt+Del, Shift+Tab, Alt+F2). Keys are pressed and released in order. Returns a screenshot taken after the input unless screenshot=false.",
+		{
+			serverId: z.string().describe("Server identifier (e.g., 'ns1234567.ip-1-2-3.eu')"),
+			keys: z
+				.array(z.string())
+				.min(1)
+				.describe("Keys or chords to press in order, e.g. ['Down', 'Down', 'Enter']"),
+			screenshot: z
+				.boolean()
+				.optional()
+				.default(true)
+				.describe("Capture an LLM-optimized screenshot after the keys were sent"),
+		},
+		async ({ serverId, keys, screenshot }) => {
+			if (!provider.sendKeys) {
+				throw new Error(`Provider "${provider.name}" does not support keyboard input`);
+			}
+
+			const strokes = parseKeys(keys);
+			const png = await provider.sendKeys(serverId, strokes, { screenshot });
+
+			const content: Array<
+				{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }
+			> = [{ type: "text", text: `Sent ${strokes.length} key(s) to ${serverId}` }];
+			if (png) {
+				content.push({
+					type: "image",
+					data: optimizeScreenshot(decodePng(png)).toString("base64"),
+					mimeType: "image/png",
+				});
+			}
+			return { content };
+		},
+	);
+
+	server.tool(
+		"type_text",
+		"Type a string on a server's iKVM/IPMI console. The text is translated into key presses for the console's keyboard layout (us, uk, fr for AZERTY, de for QWERTZ); newlines press Enter. Text containing characters the layout cannot type is rejected before anything is sent. Returns a screenshot taken after typing unless screenshot=false.",
+		{
+			serverId: z.string().describe("Server identifier (e.g., 'ns1234567.ip-1-2-3.eu')"),
+			text: z.string().min(1).describe("Text to type, e.g. 'systemctl status nginx\\n'"),
+			layout: z
+				.enum(KEYBOARD_LAYOUTS)
+				.optional()
+				.default("us")
+				.describe("Keyboard layout configured on the server console"),
+			keyDelay: z
+				.number()
+				.int()
+				.min(0)
+				.max(1000)
+				.optional()
+				.default(50)
+				.describe("Delay between key presses in milliseconds"),
+			screenshot: z
+				.boolean()
+				.optional()
+				.default(true)
+				.describe("Capture an LLM-optimized screenshot after the text was typed"),
+		},
+		async ({ serverId, text, layout, keyDelay, screenshot }) => {
+			if (!provider.sendKeys) {
+				throw new Error(`Provider "${provider.name}" does not support keyboard input`);
+			}
+
+			const strokes = textToKeyStrokes(text, layout);
+			const png = await provider.sendKeys(serverId, strokes, { keyDelay, screenshot });
+
+			const content: Array<
+				{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }
+			> = [
+				{
+					type: "text",
+					text: `Typed ${[...text].length} character(s) (${strokes.length} key(s), ${layout} layout) on ${serverId}`,
+				},
+			];
+			if (png) {
+				content.push({
+					type: "image",
+					data: optimizeScreenshot(decodePng(png)).toString("base64"),
+					mimeType: "image/png",
+				});
+			}
+			return { content };
+		},
+	);
+
+	server.tool(
+		"pointer",
+		`Move, click, double-click or drag the mouse on a server's iKVM/IPMI console, for BIOS setup screens and graphical installers. Coordinates are console pixels from the top-left corner, the same as get_screenshot's region and grid labels: pixels of a raw screenshot, or of an optimized one divided by its zoom (${DEFAULT_SCALE} by default) plus the region's origin. A drag presses at (x, y) and releases at (toX, toY). Returns a screenshot taken after the action unless screenshot=false.`,
+		{
+			serverId: z.string().describe("Server identifier (e.g., 'ns1234567.ip-1-2-3.eu')"),
+			action: z.enum(["move", "click", "double_click", "drag"]).describe("Pointer action"),
+			x: z.number().int().min(0).describe("X coordinate in console pixels"),
+			y: z.number().int().min(0).describe("Y coordinate in console pixels"),
+			toX: z.number().int().min(0).optional().describe("Drag end X coordinate (drag only)"),
+			toY: z.number().int().min(0).optional().describe("Drag end Y coordinate (drag only)"),
+			button: z
+				.enum(["left", "middle", "right"])
+				.optional()
+				.default("left")
+				.describe("Mouse button for click, double_click and drag"),
+			screenshot: z
+				.boolean()
+				.optional()
+				.default(true)
+				.describe("Capture an LLM-optimized screenshot after the action"),
+		},
+		async ({ serverId, action, x, y, toX, toY, button, screenshot }) => {
+			if (!provider.sendPointer) {
+				throw new Error(`Provider "${provider.name}" does not support pointer input`);
+			}
+
+			let pointerAction: PointerAction;
+			if (action === "move") {
+				pointerAction = { type: action, x, y };
+			} else if (action === "drag") {
+				if (toX === undefined || toY === undefined) {
+					throw new Error("The drag action requires toX and toY");
+				}
+				pointerAction = { type: action, x, y, toX, toY, button };
+			} else {
+				pointerAction = { type: action, x, y, button };
+			}
+
+			const png = await provider.sendPointer(serverId, pointerAction, { screenshot });
+
+			const target = action === "drag" ? `(${x}, ${y}) → (${toX}, ${toY})` : `(${x}, ${y})`;
+			const content: Array<
+				{ type: "text"; text: string } | { type: "image"; data: string; mimeType: string }
+			> = [{ type: "text", text: `Pointer ${action} at ${target} on ${serverId}` }];
+			if (png) {
+				content.push({
+					type: "image",
+					data: optimizeScreenshot(decodePng(png)).toString("base64"),
+					mimeType: "image/png",
+				});
+			}
+			return { content };
+		},
+	);
+
+	server.tool(
+		"wait_for_change",
+		`Wait until a server's iKVM/IPMI console screen changes (a reboot progresses, a command prints output), instead of polling get_screenshot. The screen at call time is the baseline; returns as soon as at least minChangedPixels pixels differ from it, or when the timeout expires, with a description of the changed area and the latest screenshot. Coordinates are console pixels, like get_screenshot's region, grid labels and pointer coordinates.`,
+		{
+			serverId: z.string().describe("Server identifier (e.g., 'ns1234567.ip-1-2-3.eu')"),
+			timeout: z
+				.number()
+				.int()
+				.min(1000)
+				.max(120_000)
+				.optional()
+				.default(30_000)
+				.describe("Maximum time to wait in milliseconds"),
+			interval: z
+				.number()
+				.int()
+				.min(100)
+				.max(10_000)
+				.optional()
+				.default(1000)
+				.describe("Time between screen checks in milliseconds"),
+			minChangedPixels: z
+				.number()
+				.int()
+				.min(1)
+				.optional()
+				.default(50)
+				.describe("Console pixels that must change; the default ignores a blinking cursor"),
+			region: z
+				.object({
+					x: z.number().int().min(0),
+					y: z.number().int().min(0),
+					width: z.number().int().min(1),
+					height: z.number().int().min(1),
+				})
+				.optional()
+				.describe("Only watch this rectangle, in console pixels (default: whole screen)"),
+			raw: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe("Return the raw screenshot without LLM optimization"),
+		},
+		async ({ serverId, timeout, interval, minChangedPixels, region, raw }) => {
+			if (!provider.waitForChange) {
+				throw new Error(`Provider "${provider.name}" does not support waiting for screen changes`);
+			}
+
+			const result = await provider.waitForChange(serverId, {
+				timeout,
+				interval,
+				minChangedPixels,
+				region,
+			});
+
+			const seconds = (result.elapsed / 1000).toFixed(1);
+			const change = describeChange(result.diff, result);
+			let text: string;
+			if (result.changed) {
+				text = `Screen of ${serverId} changed after ${seconds}s: ${change}`;
+			} else if (result.diff.bounds) {
+				text = `Screen of ${serverId} did not change within ${seconds}s (${change}, below the threshold)`;
+			} else {
+				text = `Screen of ${serverId} did not change within ${seconds}s`;
+			}
+
+			const png = raw ? result.png : optimizeScreenshot(decodePng(result.png));
+			return {
+				content: [
+					{ type: "text", text },
+					{ type: "image", data: png.toString("base64"), mimeType: "image/png" },
+				],
+			};
+		},
+	);
+
+	server.tool(
+		"wait_for_text",
+		"Wait until text appears on a server's iKVM/IPMI console, e.g. 'login:' after a reboot, or whichever of 'Kernel panic' and 'Reached target' comes first. The screen is captured repeatedly and read with local text-mode OCR. Patterns are plain substrings, or regular expressions written as /source/flags; paths with several segments such as /dev/sda stay text, but /boot/ is the regex boot, so write /\\/boot\\// for that path. Returns which pattern matched, the screen text and the latest screenshot; on timeout, says so and returns the last frame.",
+		{
+			serverId: z.string().describe("Server identifier (e.g., 'ns1234567.ip-1-2-3.eu')"),
+			patterns: z
+				.array(z.string().min(1))
+				.min(1)
+				.describe("Text to look for, e.g. ['login:'] or ['Kernel panic', '/Reached target .+/']"),
+			timeout: z
+				.number()
+				.int()
+				.min(1000)
+				.max(120_000)
+				.optional()
+				.default(60_000)
+				.describe("Maximum time to wait in milliseconds"),
+			interval: z
+				.number()
+				.int()
+				.min(100)
+				.max(10_000)
+				.optional()
+				.default(1000)
+				.describe("Time between screen checks in milliseconds"),
+			raw: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe("Return the raw screenshot without LLM optimization"),
+		},
+		async ({ serverId, patterns, timeout, interval, raw }) => {
+			const parsed = patterns.map(parsePattern);
+			let lastPng: Buffer = Buffer.alloc(0);
+			let lastImage: RgbaImage | null = null;
+			const capture = async () => {
+				lastPng = await provider.getScreenshot(serverId);
+				lastImage = decodePng(lastPng);
+				return lastImage;
+			};
+			const { match, screen, elapsed } = await waitForText(capture, parsed, { timeout, interval });
+
+			const seconds = (elapsed / 1000).toFixed(1);
+			let summary = `None of the patterns appeared on ${serverId} within ${seconds}s`;
+			if (match) {
+				// Name the pattern when it differs from the text it matched
+				const pattern =
+					typeof parsed[match.pattern] === "string" ? "" : ` (pattern ${patterns[match.pattern]})`;
+				summary = `Found "${match.text}"${pattern} on row ${match.row} of ${serverId} after ${seconds}s`;
+			}
+			const text = screen
+				? `${summary}\n\nScreen text (${screen.columns}x${screen.rows}):\n${screen.text}`
+				: `${summary}\n\nNo text-mode screen detected`;
+
+			return {
+				content: [
+					{ type: "text", text },
+					{
+						type: "image",
+						data: (raw || !lastImage ? lastPng : optimizeScreenshot(lastImage)).toString("base64"),
+						mimeType: "image/png",
+					},
+				],
+			};
+		},
+	);
+
+	server.tool(
+		"record_console",
+		"Record a server's iKVM/IPMI console for a few seconds, to catch boot messages that flash past too fast for get_screenshot (a panic before a reboot, a firmware error). Frames are captured at the given rate, duplicates are dropped, and the distinct frames are encoded as an animated PNG or GIF. Returns a summary, a contact sheet of keyframes (the first and last frames and the biggest changes, each labeled with its time) that you can look at, and the animation itself as an embedded resource.",
+		{
+			serverId: z.string().describe("Server identifier (e.g., 'ns1234567.ip-1-2-3.eu')"),
+			duration: z
+				.number()
+				.int()
+				.min(1000)
+				.max(120_000)
+				.optional()
+				.default(10_000)
+				.describe("Recording length in milliseconds"),
+			fps: z
+				.number()
+				.min(0.2)
+				.max(10)
+				.optional()
+				.default(4)
+				.describe("Frames captured per second; the console may deliver fewer"),
+			format: z
+				.enum(["apng", "gif"])
+				.optional()
+				.default("apng")
+				.describe("Animated PNG keeps exact colors; GIF is smaller and plays everywhere"),
+			maxFrames: z
+				.number()
+				.int()
+				.min(1)
+				.max(600)
+				.optional()
+				.default(150)
+				.describe("Stop after this many distinct frames"),
+			maxBytes: z
+				.number()
+				.int()
+				.min(64 * 1024)
+				.max(16 * 1024 * 1024)
+				.optional()
+				.default(4 * 1024 * 1024)
+				.describe("Stop before the animation grows past this many bytes"),
+			raw: z
+				.boolean()
+				.optional()
+				.default(false)
+				.describe("Return the contact sheet without automatic exposure"),
+		},
+		async ({ serverId, duration, fps, format, maxFrames, maxBytes, raw }) => {
+			if (!provider.recordConsole) {
+				throw new Error(`Provider "${provider.name}" does not support console recording`);
+			}
+
+			const recording = await provider.recordConsole(serverId, {
+				duration,
+				fps,
+				format,
+				maxFrames,
+				maxBytes,
+			});
+
+			const size = (recording.animation.length / 1024).toFixed(0);
+			let text = `Recorded ${serverId} for ${(recording.elapsed / 1000).toFixed(1)}s: ${recording.frames} distinct frame(s) out of ${recording.captured} captured, ${format.toUpperCase()} ${recording.width}x${recording.height}, ${size} KB`;
+			if (recording.truncated === "frames") {
+				text += `\nStopped early at the limit of ${maxFrames} frames`;
+			} else if (recording.truncated === "bytes") {
+				text += `\nStopped early at the limit of ${maxBytes} bytes`;
+			}
+			const times = recording.keyframes.map((k) => `+${(k.time / 1000).toFixed(1)}s`);
+			text += `\nContact sheet keyframes: ${times.join(", ")}`;
+
+			const sheet = contactSheet(recording.keyframes);
 			return {
 				content: [
+					{ type: "text", text },
 					{
 						type: "image",
-						data: outputPng.toString("base64"),
+						data: (raw ? encodePng(sheet) : optimizeScreenshot(sheet, { scale: 1 })).toString(
+							"base64",
+						),
 						mimeType: "image/png",
 					},
+					{
+						type: "resource",
+						resource: {
+							uri: `ikvm://${provider.name}/${serverId}/recording.${format === "gif" ? "gif" : "png"}`,
+							mimeType: format === "gif" ? "image/gif" : "image/apng",
+							blob: recording.animation.toString("base64"),
+						},
+					},
 				],
 			};
 		},
@@ -61,3 +758,192 @@ export function createMcpServer(provider: Provider): McpServer {
 
 	return server;
 }
+
+/**
+ * Publish each server's console as resources — the latest frame as PNG, and its
+ * text — and notify subscribed clients when a console changes.
+ */
+function registerConsoleResources(
+	server: McpServer,
+	provider: Provider,
+	options: McpServerOptions,
+): void {
+	const watcher = new ScreenWatcher(
+		async (serverId) => decodePng(await provider.getScreenshot(serverId)),
+		{ interval: options.watchInterval, idleTimeout: options.watchIdleTimeout },
+	);
+	/** Subscribed URI → function that stops its watch */
+	const subscriptions = new Map<string, () => void>();
+	/** OCR result of each watched frame, read once for change checks and resource reads alike */
+	const screenTexts = new WeakMap<RgbaImage, TextScreen | null>();
+
+	const readText = (image: RgbaImage): TextScreen | null => {
+		let screen = screenTexts.get(image);
+		if (screen === undefined) {
+			screen = extractText(image);
+			screenTexts.set(image, screen);
+		}
+		return screen;
+	};
+
+	/**
+	 * The watcher's latest frame while the console is watched, a new capture otherwise.
+	 * Reading an idle watched console makes the watcher capture it again.
+	 */
+	const currentFrame = async (
+		serverId: string,
+	): Promise<{ png: Buffer; image: RgbaImage; capturedAt: number }> => {
+		const watched = watcher.latest(serverId);
+		watcher.resume(serverId);
+		if (watched) {
+			return { png: encodePng(watched.image), ...watched };
+		}
+		const png = await provider.getScreenshot(serverId);
+		return { png, image: decodePng(png), capturedAt: Date.now() };
+	};
+
+	const serverIdOf = (variables: Variables): string => {
+		if (variables.provider !== provider.name) {
+			throw new Error(`Unknown provider "${variables.provider}", expected "${provider.name}"`);
+		}
+		return decodeURIComponent(String(variables.serverId));
+	};
+
+	const listConsoles = (kind: "screen" | "text", mimeType: string) => async () => {
+		const servers = await provider.listServers();
+		return {
+			resources: servers.map((s) => ({
+				uri: `ikvm://${provider.name}/${encodeURIComponent(s.id)}/${kind}`,
+				name: `${s.name} console ${kind}`,
+				mimeType,
+			})),
+		};
+	};
+
+	server.registerResource(
+		"console-screen",
+		new ResourceTemplate("ikvm://{provider}/{serverId}/screen", {
+			list: listConsoles("screen", "image/png"),
+		}),
+		{
+			title: "Console screen",
+			description:
+				"Latest frame of a server's iKVM/IPMI console as an unprocessed PNG, followed by JSON metadata (size, capture time). Subscribe to be notified when the screen changes; after 5 minutes without a change the console is no longer watched until the resource is read again.",
+			mimeType: "image/png",
+		},
+		async (uri, variables): Promise<ReadResourceResult> => {
+			const serverId = serverIdOf(variables);
+			const frame = await currentFrame(serverId);
+			const metadata = {
+				provider: provider.name,
+				serverId,
+				width: frame.image.width,
+				height: frame.image.height,
+				capturedAt: new Date(frame.capturedAt).toISOString(),
+			};
+			return {
+				contents: [
+					{ uri: uri.href, mimeType: "image/png", blob: frame.png.toString("base64") },
+					{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(metadata) },
+				],
+			};
+		},
+	);
+
+	server.registerResource(
+		"console-text",
+		new ResourceTemplate("ikvm://{provider}/{serverId}/text", {
+			list: listConsoles("text", "text/plain"),
+		}),
+		{
+			title: "Console text",
+			description:
+				"Text of a server's iKVM/IPMI console, read with local text-mode OCR, followed by JSON metadata (grid size, font, capture time). Empty on graphical screens. Subscribe to be notified when the text changes; after 5 minutes without a change the console is no longer watched until the resource is read again.",
+			mimeType: "text/plain",
+		},
+		async (uri, variables): Promise<ReadResourceResult> => {
+			const serverId = serverIdOf(variables);
+			const frame = await currentFrame(serverId);
+			const screen = readText(frame.image);
+			const metadata = {
+				provider: provider.name,
+				serverId,
+				textMode: screen !== null,
+				...(screen && { columns: screen.columns, rows: screen.rows, font: screen.font }),
+				capturedAt: new Date(frame.capturedAt).toISOString(),
+			};
+			return {
+				contents: [
+					{ uri: uri.href, mimeType: "text/plain", text: screen?.text ?? "" },
+					{ uri: uri.href, mimeType: "application/json", text: JSON.stringify(metadata) },
+				],
+			};
+		},
+	);
+
+	server.server.registerCapabilities({ resources: { subscribe: true } });
+
+	server.server.setRequestHandler(SubscribeRequestSchema, async ({ params }) => {
+		const match = CONSOLE_URI.exec(params.uri);
+		if (!match) {
+			throw new Error(`Cannot subscribe to ${params.uri}: not a console resource`);
+		}
+		const [, providerName, encodedId, kind] = match;
+		const serverId = serverIdOf({ provider: providerName, serverId: encodedId });
+		if (subscriptions.has(params.uri)) {
+			watcher.resume(serverId);
+			return {};
+		}
+
+		const notify = () => {
+			server.server.sendResourceUpdated({ uri: params.uri }).catch(() => {
+				// The client went away; its subscriptions end with the session
+			});
+		};
+		const unwatch = watcher.watch(serverId, (frame, previous) => {
+			// Text subscribers only care when the text itself changed
+			if (kind === "text" && readText(frame.image)?.text === readText(previous.image)?.text) {
+				return;
+			}
+			notify();
+		});
+		subscriptions.set(params.uri, unwatch);
+		return {};
+	});
+
+	server.server.setRequestHandler(UnsubscribeRequestSchema, async ({ params }) => {
+		subscriptions.get(params.uri)?.();
+		subscriptions.delete(params.uri);
+		return {};
+	});
+
+	server.server.onclose = () => {
+		subscriptions.clear();
+		watcher.close();
+	};
+}
+
+/**
+ * Optimize a screenshot for LLM vision like get_screenshot does by default:
+ * 2x upscale and automatic exposure, so every tool shows a screen the same way.
+ */
+function optimizeScreenshot(image: RgbaImage, options?: OptimizeOptions): Buffer {
+	return encodePng(optimizeImage(image, { brightness: "auto", ...options }));
+}
+
+/** Report an encoded screenshot, e.g. "Image: 1280x800 JPEG (quality 80), 95.2 KB, downscaled from 1600x1000". */
+function describeEncoding(encoded: EncodedImage, source: RgbaImage, maxBytes?: number): string {
+	const quality = encoded.quality !== undefined ? ` (quality ${encoded.quality})` : "";
+	const size =
+		encoded.data.length < 1024
+			? `${encoded.data.length} bytes`
+			: `${(encoded.data.length / 1024).toFixed(1)} KB`;
+	let text = `Image: ${encoded.width}x${encoded.height} ${encoded.format.toUpperCase()}${quality}, ${size}`;
+	if (encoded.width !== source.width || encoded.height !== source.height) {
+		text += `, downscaled from ${source.width}x${source.height}`;
+	}
+	if (!encoded.withinBudget) {
+		text += `; could not get below maxBytes=${maxBytes} without making the image unreadable`;
+	}
+	return text;
+}
@@ -61,6 +61,12 @@ export class OvhApiClient {
 		return this.request<T>("POST", url, bodyStr);
 	}
 
+	async put<T>(path: string, body?: unknown): Promise<T> {
+		const url = `${this.baseUrl}${path}`;
+		const bodyStr = body ? JSON.stringify(body) : "";
+		return this.request<T>("PUT", url, bodyStr);
+	}
+
 	private async request<T>(method: string, url: string, body: string): Promise<T> {
 		const timestamp = Math.floor(Date.now() / 1000) + this.timeDelta;
 		const signature = this.sign(method, url, body, timestamp);
@@ -5,13 +5,50 @@
  * OVH provider — implements the Provider interface for OVH dedicated servers.
  */
 
-import { captureKvmScreenshot } from "../../kvm/screenshot.js";
-import type { Provider, Server } from "../types.js";
+import type { KeyStroke, PointerAction } from "../../input/types.js";
+import { sendClientKeys, sendClientPointer } from "../../kvm/input.js";
+import type { KvmClient } from "../../kvm/kvm-client.js";
+import { captureClientImage, captureClientScreenshot } from "../../kvm/screenshot.js";
+import { KvmSessionPool, type ViewerUrlResolver } from "../../kvm/session-pool.js";
+import { encodeFramePng } from "../../screen/image.js";
+import { recordScreen } from "../../screen/record.js";
+import type { Recording, RecordOptions, WaitForChangeOptions } from "../../screen/types.js";
+import { waitForChange } from "../../screen/wait.js";
+import type {
+	BootChange,
+	BootConfig,
+	BootOption,
+	InputOptions,
+	IpmiStatus,
+	PowerAction,
+	PowerResult,
+	Provider,
+	RescueBootOptions,
+	ScreenChangeResult,
+	Server,
+} from "../types.js";
 import { OvhApiClient } from "./api.js";
-import type { OvhConfig, OvhDedicatedServer, OvhIpmiAccess, OvhTask } from "./types.js";
+import type {
+	OvhBoot,
+	OvhConfig,
+	OvhDedicatedServer,
+	OvhIpmiAccess,
+	OvhIpmiStatus,
+	OvhTask,
+} from "./types.js";
 
 const DEFAULT_POLL_INTERVAL = 3_000;
 const DEFAULT_POLL_MAX_ATTEMPTS = 40; // 40 * 3s = 2 minutes max
+const IPMI_ACCESS_TTL_MINUTES = 15;
+const IPMI_ACCESS_EXPIRY_MARGIN = 60_000; // stop reusing a grant 1 minute before it expires
+/** OVH's standard rescue system, whose root password is emailed to the account */
+const RESCUE_KERNEL = "rescue-customer";
+
+/** A granted iKVM viewer URL and when OVH revokes it. */
+interface ViewerGrant {
+	readonly url: string;
+	readonly expiresAt: number;
+}
 
 export interface OvhProviderOptions {
 	/** Override poll interval in ms (for testing) */
@@ -20,14 +57,25 @@ export interface OvhProviderOptions {
 	pollMaxAttempts?: number;
 	/** Override public IP detection */
 	publicIp?: string;
+	/** Close a server's KVM session after this long without use, in ms (default: 5 minutes) */
+	sessionIdleTimeout?: number;
+	/** Interval between keep-alives on idle KVM sessions, in ms (default: 30 seconds) */
+	keepAliveInterval?: number;
 }
 
 export class OvhProvider implements Provider {
 	readonly name = "ovh";
+	/** The dedicated server API only offers a hard reboot; there is no power on/off. */
+	readonly powerActions: readonly PowerAction[] = ["reboot"];
 	private readonly api: OvhApiClient;
 	private readonly pollInterval: number;
 	private readonly pollMaxAttempts: number;
 	private readonly publicIp?: string;
+	private readonly sessions: KvmSessionPool;
+	/** Viewer URL grants keyed by server and allowed IP. */
+	private readonly viewerGrants = new Map<string, ViewerGrant>();
+	/** Boot each server used before bootRescue switched it, for restoreBoot. */
+	private readonly previousBoots = new Map<string, number>();
 	private initialized = false;
 
 	constructor(config: OvhConfig, options?: OvhProviderOptions) {
@@ -35,6 +83,10 @@ export class OvhProvider implements Provider {
 		this.pollInterval = options?.pollInterval ?? DEFAULT_POLL_INTERVAL;
 		this.pollMaxAttempts = options?.pollMaxAttempts ?? DEFAULT_POLL_MAX_ATTEMPTS;
 		this.publicIp = options?.publicIp;
+		this.sessions = new KvmSessionPool({
+			idleTimeout: options?.sessionIdleTimeout,
+			keepAliveInterval: options?.keepAliveInterval,
+		});
 	}
 
 	private async ensureInit(): Promise<void> {
@@ -64,16 +116,221 @@ export class OvhProvider implements Provider {
 		return servers;
 	}
 
+	async getIpmiStatus(serverId: string): Promise<IpmiStatus> {
+		await this.ensureInit();
+
+		const status = await this.api.get<OvhIpmiStatus>(`/dedicated/server/${serverId}/features/ipmi`);
+		const features = Object.entries(status.supportedFeatures ?? {})
+			.filter(([, supported]) => supported)
+			.map(([feature]) => feature);
+
+		return { activated: status.activated, features };
+	}
+
 	async getScreenshot(serverId: string): Promise<Buffer> {
+		// Capture screenshot via the pooled AMI KVM WebSocket
+		const result = await this.withKvm(serverId, (client) => captureClientScreenshot(client));
+
+		return result.png;
+	}
+
+	async sendKeys(
+		serverId: string,
+		keys: readonly KeyStroke[],
+		options?: InputOptions,
+	): Promise<Buffer | undefined> {
+		// Send keyboard input via the pooled AMI KVM WebSocket
+		const result = await this.withKvm(serverId, (client) => sendClientKeys(client, keys, options));
+
+		return result?.png;
+	}
+
+	async sendPointer(
+		serverId: string,
+		action: PointerAction,
+		options?: InputOptions,
+	): Promise<Buffer | undefined> {
+		// Send mouse input via the pooled AMI KVM WebSocket
+		const result = await this.withKvm(serverId, (client) =>
+			sendClientPointer(client, action, options),
+		);
+
+		return result?.png;
+	}
+
+	async waitForChange(
+		serverId: string,
+		options?: WaitForChangeOptions,
+	): Promise<ScreenChangeResult> {
+		// Each poll is its own pooled operation, so input can still reach the server while waiting
+		const { changed, image, diff, elapsed } = await waitForChange(
+			() => this.withKvm(serverId, (client) => captureClientImage(client)),
+			options,
+		);
+
+		return {
+			changed,
+			png: encodeFramePng(image),
+			width: image.width,
+			height: image.height,
+			diff,
+			elapsed,
+		};
+	}
+
+	recordConsole(serverId: string, options?: RecordOptions): Promise<Recording> {
+		// Like waitForChange, each frame is its own pooled operation
+		return recordScreen(
+			() => this.withKvm(serverId, (client) => captureClientImage(client)),
+			options,
+		);
+	}
+
+	async power(serverId: string, action: PowerAction): Promise<PowerResult> {
+		if (!this.powerActions.includes(action)) {
+			throw new Error(`OVH dedicated servers only support a hard reboot, not power "${action}"`);
+		}
+		await this.ensureInit();
+
+		return this.reboot(serverId);
+	}
+
+	async getBootConfig(serverId: string): Promise<BootConfig> {
+		await this.ensureInit();
+
+		const details = await this.api.get<OvhDedicatedServer>(`/dedicated/server/${serverId}`);
+		const bootIds = await this.api.get<number[]>(`/dedicated/server/${serverId}/boot`);
+		const options: BootOption[] = [];
+		for (const bootId of bootIds) {
+			const boot = await this.api.get<OvhBoot>(`/dedicated/server/${serverId}/boot/${bootId}`);
+			options.push({
+				id: boot.bootId,
+				type: boot.bootType,
+				name: boot.kernel,
+				description: boot.description,
+			});
+		}
+
+		const current = options.find((option) => option.id === details.bootId);
+		if (!current) {
+			throw new Error(`Server ${serverId} boots from unknown boot ${details.bootId}`);
+		}
+		return { current, options };
+	}
+
+	async bootRescue(serverId: string, options?: RescueBootOptions): Promise<BootChange> {
+		const config = await this.getBootConfig(serverId);
+		const target =
+			options?.bootId !== undefined
+				? config.options.find((option) => option.id === options.bootId)
+				: (config.options.find((option) => option.name === RESCUE_KERNEL) ??
+					config.options.find((option) => option.type === "rescue"));
+		if (!target) {
+			throw new Error(
+				options?.bootId !== undefined
+					? `Server ${serverId} has no boot ${options.bootId}`
+					: `Server ${serverId} has no rescue boot`,
+			);
+		}
+		if (target.type !== "rescue") {
+			throw new Error(
+				`Boot ${target.id} of server ${serverId} is a ${target.type} boot, not a rescue boot`,
+			);
+		}
+
+		await this.setBoot(serverId, config.current, target);
+		// A rescue boot is never one to return to: switching between rescue
+		// systems keeps the boot remembered before
+		if (config.current.type !== "rescue") {
+			this.previousBoots.set(serverId, config.current.id);
+		}
+		return this.finishBootChange(serverId, { previous: config.current, current: target }, options);
+	}
+
+	async restoreBoot(serverId: string, options?: { reboot?: boolean }): Promise<BootChange> {
+		const config = await this.getBootConfig(serverId);
+		const previous = this.previousBoots.get(serverId);
+		const remembered = config.options.find((option) => option.id === previous);
+		const target = remembered ?? config.options.find((option) => option.type === "harddisk");
+		if (!target) {
+			throw new Error(`Server ${serverId} has no boot to restore`);
+		}
+
+		await this.setBoot(serverId, config.current, target);
+		this.previousBoots.delete(serverId);
+		const change = {
+			previous: config.current,
+			current: target,
+			...(remembered ? {} : { fallback: true }),
+		};
+		// Nothing to restore: the server already runs the boot it would be rebooted into
+		if (target.id === config.current.id) return change;
+		return this.finishBootChange(serverId, change, options);
+	}
+
+	/** Close all open KVM sessions. */
+	close(): void {
+		this.sessions.closeAll();
+	}
+
+	/** Set the server's boot for its next start. */
+	private async setBoot(serverId: string, previous: BootOption, boot: BootOption): Promise<void> {
+		if (boot.id !== previous.id) {
+			await this.api.put(`/dedicated/server/${serverId}`, { bootId: boot.id });
+		}
+	}
+
+	/** Reboot into a boot that was just set, unless `reboot` is false. */
+	private async finishBootChange(
+		serverId: string,
+		change: BootChange,
+		options?: { reboot?: boolean },
+	): Promise<BootChange> {
+		if (options?.reboot === false) return change;
+		return { ...change, reboot: await this.reboot(serverId) };
+	}
+
+	/** Hard reboot the server and wait for OVH's reboot task. */
+	private async reboot(serverId: string): Promise<PowerResult> {
+		const started = Date.now();
+		const task = await this.api.post<OvhTask>(`/dedicated/server/${serverId}/reboot`);
+		await this.waitForTask(serverId, task.taskId);
+
+		return { action: "reboot", taskId: task.taskId, elapsed: Date.now() - started };
+	}
+
+	/** Run a KVM operation on the server's pooled session, requesting IPMI access only when needed. */
+	private withKvm<T>(serverId: string, operation: (client: KvmClient) => Promise<T>): Promise<T> {
+		const resolve: ViewerUrlResolver = (rejectedUrl) => this.getViewerUrl(serverId, rejectedUrl);
+		return this.sessions.run(serverId, resolve, operation);
+	}
+
+	/**
+	 * Return the iKVM HTML5 viewer URL for this machine's IP.
+	 * A granted URL is reused until shortly before it expires, unless the BMC rejected it.
+	 */
+	private async getViewerUrl(serverId: string, rejectedUrl?: string): Promise<string> {
 		await this.ensureInit();
 
-		// 1. Request iKVM HTML5 access
 		const myIp = this.publicIp ?? (await this.getPublicIp());
+		const grantKey = `${serverId}/${myIp}`;
+		const cached = this.viewerGrants.get(grantKey);
+		if (
+			cached &&
+			cached.url !== rejectedUrl &&
+			Date.now() < cached.expiresAt - IPMI_ACCESS_EXPIRY_MARGIN
+		) {
+			return cached.url;
+		}
+		this.viewerGrants.delete(grantKey);
+
+		// 1. Request iKVM HTML5 access
+		const requestedAt = Date.now();
 		const task = await this.api.post<OvhTask>(
 			`/dedicated/server/${serverId}/features/ipmi/access`,
 			{
 				type: "kvmipHtml5URL",
-				ttl: 15,
+				ttl: IPMI_ACCESS_TTL_MINUTES,
 				ipToAllow: myIp,
 			},
 		);
@@ -87,10 +344,12 @@ export class OvhProvider implements Provider {
 			{ type: "kvmipHtml5URL" },
 		);
 
-		// 4. Capture screenshot via AMI KVM WebSocket
-		const result = await captureKvmScreenshot(access.value);
+		const expiresAt = access.expiration
+			? Date.parse(access.expiration)
+			: requestedAt + IPMI_ACCESS_TTL_MINUTES * 60_000;
+		this.viewerGrants.set(grantKey, { url: access.value, expiresAt });
 
-		return result.png;
+		return access.value;
 	}
 
 	/** Wait for an OVH async task to complete. */
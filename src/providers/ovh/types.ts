@@ -23,6 +23,22 @@ export interface OvhDedicatedServer {
 	readonly ip?: string;
 	readonly os?: string;
 	readonly state?: string;
+	/** Boot the server uses on its next start */
+	readonly bootId?: number;
+}
+
+/** Boot option (netboot) of a dedicated server */
+export interface OvhBoot {
+	readonly bootId: number;
+	readonly bootType:
+		| "harddisk"
+		| "internal"
+		| "ipxeCustomerScript"
+		| "network"
+		| "power"
+		| "rescue";
+	readonly description: string;
+	readonly kernel: string;
 }
 
 /** IPMI access response */
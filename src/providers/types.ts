@@ -6,6 +6,9 @@
  * Each provider (OVH, Hetzner, etc.) implements this interface.
  */
 
+import type { KeyStroke, PointerAction } from "../input/types.js";
+import type { FrameDiff, Recording, RecordOptions, WaitForChangeOptions } from "../screen/types.js";
+
 export interface Server {
 	/** Provider-specific server identifier */
 	readonly id: string;
@@ -19,6 +22,98 @@ export interface Server {
 	readonly ip?: string;
 }
 
+/** Remote console (IPMI) status of a server. */
+export interface IpmiStatus {
+	/** Whether IPMI is enabled on the server */
+	readonly activated: boolean;
+	/** Console features the BMC supports, in the provider's terms (e.g. "kvmipHtml5URL") */
+	readonly features: readonly string[];
+}
+
+/** Options for console input. */
+export interface InputOptions {
+	/** Delay between keystrokes in ms */
+	readonly keyDelay?: number;
+	/** Delay between pointer movements in ms */
+	readonly pointerDelay?: number;
+	/** Capture a screenshot once the input has been sent */
+	readonly screenshot?: boolean;
+	/** Time to let the screen settle before the screenshot in ms */
+	readonly settleDelay?: number;
+}
+
+/** Result of waiting for a console screen to change. */
+export interface ScreenChangeResult {
+	/** Whether the screen changed before the timeout */
+	readonly changed: boolean;
+	/** PNG image data of the latest frame */
+	readonly png: Buffer;
+	/** Console screen width in pixels */
+	readonly width: number;
+	/** Console screen height in pixels */
+	readonly height: number;
+	/** Difference between the first and the latest frame */
+	readonly diff: FrameDiff;
+	/** Time spent waiting in ms */
+	readonly elapsed: number;
+}
+
+/**
+ * Power actions on a server: a hard reboot (reset), power on, power off, or
+ * power off followed by power on.
+ */
+export type PowerAction = "reboot" | "on" | "off" | "cycle";
+
+/** Result of a power action. */
+export interface PowerResult {
+	readonly action: PowerAction;
+	/** Provider task that carried out the action, when the provider works with tasks */
+	readonly taskId?: number;
+	/** Time until the provider reported the action done, in ms */
+	readonly elapsed: number;
+}
+
+/** A way a server can boot: from its disks, or over the network into a rescue or install system. */
+export interface BootOption {
+	/** Provider-specific boot identifier */
+	readonly id: number;
+	/** Kind of boot in the provider's terms (e.g. "harddisk", "rescue", "network") */
+	readonly type: string;
+	/** Short name of the boot image (e.g. "rescue-customer") */
+	readonly name: string;
+	readonly description: string;
+}
+
+/** Boot options of a server. */
+export interface BootConfig {
+	/** Boot the server uses on its next start */
+	readonly current: BootOption;
+	readonly options: readonly BootOption[];
+}
+
+/** Options for switching a server to a rescue boot. */
+export interface RescueBootOptions {
+	/** Rescue boot to switch to (default: the provider's standard rescue system) */
+	readonly bootId?: number;
+	/** Reboot into it right away (default: true) */
+	readonly reboot?: boolean;
+}
+
+/** Result of switching a server's boot. */
+export interface BootChange {
+	/** Boot the server used before the switch */
+	readonly previous: BootOption;
+	/** Boot the server uses now */
+	readonly current: BootOption;
+	/** Reboot task, when the server was rebooted into the new boot */
+	readonly reboot?: PowerResult;
+	/**
+	 * Set by `restoreBoot` when no boot was remembered for the server (e.g. the
+	 * MCP server restarted since `bootRescue`) and its disks were chosen instead
+	 */
+	readonly fallback?: boolean;
+}
+
 export interface Provider {
 	/** Provider name */
 	readonly name: string;
@@ -26,9 +121,83 @@ export interface Provider {
 	/** List all servers accessible with the configured credentials. */
 	listServers(): Promise<Server[]>;
 
+	/**
+	 * Report whether IPMI is enabled on the server and which console features it supports.
+	 * Optional — providers without such an API leave it undefined.
+	 */
+	getIpmiStatus?(serverId: string): Promise<IpmiStatus>;
+
 	/**
 	 * Capture a screenshot of the server's iKVM/IPMI console.
 	 * Returns PNG image data.
 	 */
 	getScreenshot(serverId: string): Promise<Buffer>;
+
+	/**
+	 * Send key strokes to the server's iKVM/IPMI console.
+	 * Returns PNG image data of the screen after the input when `options.screenshot` is set.
+	 * Optional — providers without console input leave it undefined.
+	 */
+	sendKeys?(
+		serverId: string,
+		keys: readonly KeyStroke[],
+		options?: InputOptions,
+	): Promise<Buffer | undefined>;
+
+	/**
+	 * Perform a mouse action on the server's iKVM/IPMI console.
+	 * Coordinates are console screen pixels.
+	 * Returns PNG image data of the screen after the input when `options.screenshot` is set.
+	 * Optional — providers without pointer input leave it undefined.
+	 */
+	sendPointer?(
+		serverId: string,
+		action: PointerAction,
+		options?: InputOptions,
+	): Promise<Buffer | undefined>;
+
+	/**
+	 * Wait until the server's console screen differs from how it looks now, or the timeout expires.
+	 * Regions are in console screen pixels.
+	 * Optional — providers that cannot watch the screen leave it undefined.
+	 */
+	waitForChange?(serverId: string, options?: WaitForChangeOptions): Promise<ScreenChangeResult>;
+
+	/**
+	 * Record the server's console screen for a while as an animation of its distinct frames.
+	 * Optional — providers that cannot watch the screen leave it undefined.
+	 */
+	recordConsole?(serverId: string, options?: RecordOptions): Promise<Recording>;
+
+	/** Power actions `power` supports, e.g. only "reboot". Optional, like `power`. */
+	readonly powerActions?: readonly PowerAction[];
+
+	/**
+	 * Reboot, power on, power off or power cycle the server, and wait until the provider
+	 * reports the action done. Actions not in `powerActions` are rejected.
+	 * Optional — providers without power control leave it undefined.
+	 */
+	power?(serverId: string, action: PowerAction): Promise<PowerResult>;
+
+	/**
+	 * List the ways the server can boot, and the one it boots next.
+	 * Optional — providers without network boot control leave it undefined, with the two below.
+	 */
+	getBootConfig?(serverId: string): Promise<BootConfig>;
+
+	/**
+	 * Switch the server to a rescue boot and reboot it, waiting until the provider reports the
+	 * reboot done. Once switched, the boot it used before is remembered for `restoreBoot`,
+	 * unless that was a rescue boot too. Other kinds of boot are rejected.
+	 */
+	bootRescue?(serverId: string, options?: RescueBootOptions): Promise<BootChange>;
+
+	/**
+	 * Switch the server back to the boot it used before `bootRescue` (or to its disks when
+	 * nothing was remembered), rebooting it unless `reboot` is false or it already uses that boot.
+	 */
+	restoreBoot?(serverId: string, options?: { readonly reboot?: boolean }): Promise<BootChange>;
+
+	/** Release long-lived resources such as open console sessions. Optional. */
+	close?(): void;
 }
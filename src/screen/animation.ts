@@ -0,0 +1,346 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Animated PNG (APNG) and GIF encoding for screen recordings.
+ *
+ * Console screens mostly stay put between frames, so each frame after the
+ * first only stores the rectangle that changed and is drawn over the
+ * previous one. APNG keeps the exact colors; GIF maps them to a fixed
+ * 256-color palette, which keeps text readable but shifts shades.
+ */
+
+import { deflateSync } from "node:zlib";
+import { PNG_SIGNATURE, pngChunk } from "./image.js";
+import type { AnimationFormat, Region, RgbaImage } from "./types.js";
+
+/** Upper bound of the per-frame headers around the image data (fcTL + fdAT, or GIF blocks). */
+const FRAME_OVERHEAD = 64;
+/** Upper bound of the file header and trailer. */
+const FILE_OVERHEAD = 1024;
+/** Shortest frame delay in ms; browsers show shorter GIF delays at 100 ms. */
+const MIN_DELAY = 20;
+const MAX_DELAY = 65_535;
+const GIF_MAX_CODE = 4096;
+
+/** An encoded frame, waiting for its delay until the next frame arrives. */
+interface EncodedFrame {
+	readonly time: number;
+	readonly bounds: Region;
+	readonly data: Buffer;
+}
+
+/**
+ * Builds an animation frame by frame, keeping only the previous frame in memory.
+ * Frames of another size than the first are cropped or padded to it.
+ */
+export class AnimationEncoder {
+	readonly format: AnimationFormat;
+	readonly width: number;
+	readonly height: number;
+	private readonly maxBytes: number;
+	private readonly frames: EncodedFrame[] = [];
+	private canvas: Uint8Array | null = null;
+	private size = FILE_OVERHEAD;
+	private full = false;
+
+	constructor(format: AnimationFormat, width: number, height: number, maxBytes = Infinity) {
+		this.format = format;
+		this.width = width;
+		this.height = height;
+		this.maxBytes = maxBytes;
+	}
+
+	/** Number of frames in the animation so far. */
+	get frameCount(): number {
+		return this.frames.length;
+	}
+
+	/**
+	 * Add a frame shown from `time` (ms) until the next frame's time.
+	 * A frame identical to the previous one only extends it.
+	 *
+	 * @returns false when the frame would push the animation past `maxBytes`;
+	 *          it is left out and so is every later frame
+	 */
+	add(image: RgbaImage, time: number): boolean {
+		if (this.full) return false;
+
+		const pixels = fitToCanvas(image, this.width, this.height);
+		const bounds = this.canvas
+			? changedBounds(this.canvas, pixels, this.width, this.height)
+			: { x: 0, y: 0, width: this.width, height: this.height };
+		if (!bounds) return true;
+
+		const data =
+			this.format === "gif"
+				? encodeGifImage(pixels, this.width, bounds)
+				: deflateSync(filterRows(pixels, this.width, bounds));
+
+		if (this.size + data.length + FRAME_OVERHEAD > this.maxBytes) {
+			this.full = true;
+			return false;
+		}
+
+		this.frames.push({ time, bounds, data });
+		this.size += data.length + FRAME_OVERHEAD;
+		this.canvas = pixels;
+		return true;
+	}
+
+	/**
+	 * Write out the animation.
+	 *
+	 * @param endTime - When the last frame stops showing, in ms on the same clock as the frame times
+	 */
+	finish(endTime: number): Buffer {
+		if (this.frames.length === 0) {
+			throw new Error(`No frame fits in ${this.maxBytes} bytes`);
+		}
+
+		const delays = this.frames.map((frame, i) => {
+			const next = i + 1 < this.frames.length ? this.frames[i + 1].time : endTime;
+			return Math.min(Math.max(Math.round(next - frame.time), MIN_DELAY), MAX_DELAY);
+		});
+
+		return this.format === "gif" ? this.writeGif(delays) : this.writeApng(delays);
+	}
+
+	private writeApng(delays: number[]): Buffer {
+		const ihdr = Buffer.alloc(13);
+		ihdr.writeUInt32BE(this.width, 0);
+		ihdr.writeUInt32BE(this.height, 4);
+		ihdr[8] = 8; // bit depth
+		ihdr[9] = 2; // truecolor RGB
+
+		const actl = Buffer.alloc(8);
+		actl.writeUInt32BE(this.frames.length, 0);
+		actl.writeUInt32BE(0, 4); // loop forever
+
+		const chunks = [PNG_SIGNATURE, pngChunk("IHDR", ihdr), pngChunk("acTL", actl)];
+		let sequence = 0;
+
+		this.frames.forEach(({ bounds, data }, i) => {
+			const fctl = Buffer.alloc(26);
+			fctl.writeUInt32BE(sequence++, 0);
+			fctl.writeUInt32BE(bounds.width, 4);
+			fctl.writeUInt32BE(bounds.height, 8);
+			fctl.writeUInt32BE(bounds.x, 12);
+			fctl.writeUInt32BE(bounds.y, 16);
+			fctl.writeUInt16BE(delays[i], 20);
+			fctl.writeUInt16BE(1000, 22); // delay in ms
+			fctl[24] = 0; // dispose: keep the frame on the canvas
+			fctl[25] = 0; // blend: replace the rectangle
+			chunks.push(pngChunk("fcTL", fctl));
+
+			// The first frame is also the still image shown by viewers without APNG support
+			if (i === 0) {
+				chunks.push(pngChunk("IDAT", data));
+			} else {
+				const seq = Buffer.alloc(4);
+				seq.writeUInt32BE(sequence++, 0);
+				chunks.push(pngChunk("fdAT", Buffer.concat([seq, data])));
+			}
+		});
+
+		chunks.push(pngChunk("IEND", Buffer.alloc(0)));
+		return Buffer.concat(chunks);
+	}
+
+	private writeGif(delays: number[]): Buffer {
+		const header = Buffer.alloc(13);
+		header.write("GIF89a", 0, "latin1");
+		header.writeUInt16LE(this.width, 6);
+		header.writeUInt16LE(this.height, 8);
+		header[10] = 0xf7; // global color table of 256 entries
+		header[11] = 0; // background color index
+		header[12] = 0; // pixel aspect ratio
+
+		// NETSCAPE2.0 application extension: loop forever
+		const loop = Buffer.concat([
+			Buffer.from([0x21, 0xff, 0x0b]),
+			Buffer.from("NETSCAPE2.0", "latin1"),
+			Buffer.from([0x03, 0x01, 0x00, 0x00, 0x00]),
+		]);
+
+		const chunks = [header, gifPalette(), loop];
+
+		this.frames.forEach(({ bounds, data }, i) => {
+			const control = Buffer.alloc(8);
+			control[0] = 0x21; // extension
+			control[1] = 0xf9; // graphic control
+			control[2] = 4;
+			control[3] = 0x04; // dispose: keep the frame on the canvas
+			control.writeUInt16LE(Math.round(delays[i] / 10), 4); // delay in 1/100 s
+			chunks.push(control);
+
+			const descriptor = Buffer.alloc(10);
+			descriptor[0] = 0x2c;
+			descriptor.writeUInt16LE(bounds.x, 1);
+			descriptor.writeUInt16LE(bounds.y, 3);
+			descriptor.writeUInt16LE(bounds.width, 5);
+			descriptor.writeUInt16LE(bounds.height, 7);
+			chunks.push(descriptor, data);
+		});
+
+		chunks.push(Buffer.from([0x3b]));
+		return Buffer.concat(chunks);
+	}
+}
+
+/** Copy of the frame's pixels at the canvas size: cropped, or padded with black. */
+function fitToCanvas(image: RgbaImage, width: number, height: number): Uint8Array {
+	if (image.width === width && image.height === height) {
+		return image.pixels.slice(0, width * height * 4);
+	}
+
+	const pixels = new Uint8Array(width * height * 4);
+	for (let i = 3; i < pixels.length; i += 4) pixels[i] = 255;
+	const rowBytes = Math.min(image.width, width) * 4;
+	for (let y = 0; y < Math.min(image.height, height); y++) {
+		const start = y * image.width * 4;
+		pixels.set(image.pixels.subarray(start, start + rowBytes), y * width * 4);
+	}
+	return pixels;
+}
+
+/** Bounding box of the pixels that differ at all, or null when the frames are identical. */
+function changedBounds(
+	before: Uint8Array,
+	after: Uint8Array,
+	width: number,
+	height: number,
+): Region | null {
+	let minX = width;
+	let minY = height;
+	let maxX = -1;
+	let maxY = -1;
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const i = (y * width + x) * 4;
+			if (
+				before[i] !== after[i] ||
+				before[i + 1] !== after[i + 1] ||
+				before[i + 2] !== after[i + 2]
+			) {
+				if (x < minX) minX = x;
+				if (x > maxX) maxX = x;
+				if (y < minY) minY = y;
+				maxY = y;
+			}
+		}
+	}
+
+	if (maxX < 0) return null;
+	return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+/** PNG scanlines of the rectangle as RGB, each with filter type 0 (none). */
+function filterRows(pixels: Uint8Array, width: number, bounds: Region): Buffer {
+	const rowLength = 1 + bounds.width * 3;
+	const out = Buffer.alloc(rowLength * bounds.height);
+
+	for (let y = 0; y < bounds.height; y++) {
+		let o = y * rowLength + 1;
+		for (let x = 0; x < bounds.width; x++) {
+			const i = ((bounds.y + y) * width + bounds.x + x) * 4;
+			out[o++] = pixels[i];
+			out[o++] = pixels[i + 1];
+			out[o++] = pixels[i + 2];
+		}
+	}
+	return out;
+}
+
+/** The fixed 3-3-2 palette: 8 levels of red and green, 4 of blue. */
+function gifPalette(): Buffer {
+	const palette = Buffer.alloc(256 * 3);
+	for (let i = 0; i < 256; i++) {
+		palette[i * 3] = Math.round((((i >> 5) & 7) * 255) / 7);
+		palette[i * 3 + 1] = Math.round((((i >> 2) & 7) * 255) / 7);
+		palette[i * 3 + 2] = Math.round(((i & 3) * 255) / 3);
+	}
+	return palette;
+}
+
+/** LZW-compressed GIF image data of the rectangle, in sub-blocks, palette-mapped. */
+function encodeGifImage(pixels: Uint8Array, width: number, bounds: Region): Buffer {
+	const indices = new Uint8Array(bounds.width * bounds.height);
+	let n = 0;
+	for (let y = 0; y < bounds.height; y++) {
+		for (let x = 0; x < bounds.width; x++) {
+			const i = ((bounds.y + y) * width + bounds.x + x) * 4;
+			// Nearest palette level per channel
+			const r = Math.round((pixels[i] * 7) / 255);
+			const g = Math.round((pixels[i + 1] * 7) / 255);
+			const b = Math.round((pixels[i + 2] * 3) / 255);
+			indices[n++] = (r << 5) | (g << 2) | b;
+		}
+	}
+	return lzwEncode(indices);
+}
+
+/** GIF LZW with 8-bit codes: minimum code size byte, data sub-blocks, block terminator. */
+function lzwEncode(indices: Uint8Array): Buffer {
+	const minCodeSize = 8;
+	const clearCode = 1 << minCodeSize;
+	const endCode = clearCode + 1;
+
+	const bytes: number[] = [];
+	let bitBuffer = 0;
+	let bitCount = 0;
+	let codeSize = minCodeSize + 1;
+	const emit = (code: number): void => {
+		bitBuffer |= code << bitCount;
+		bitCount += codeSize;
+		while (bitCount >= 8) {
+			bytes.push(bitBuffer & 0xff);
+			bitBuffer >>>= 8;
+			bitCount -= 8;
+		}
+	};
+
+	// Codes for (prefix code, next index) pairs
+	let table = new Map<number, number>();
+	let nextCode = endCode + 1;
+	emit(clearCode);
+
+	let prefix = indices[0];
+	for (let i = 1; i < indices.length; i++) {
+		const index = indices[i];
+		const key = (prefix << 8) | index;
+		const code = table.get(key);
+		if (code !== undefined) {
+			prefix = code;
+			continue;
+		}
+
+		emit(prefix);
+		if (nextCode === GIF_MAX_CODE) {
+			emit(clearCode);
+			table = new Map();
+			nextCode = endCode + 1;
+			codeSize = minCodeSize + 1;
+		} else {
+			// The decoder adds each code one step later, so it widens codes right as this one is used
+			if (nextCode >= 1 << codeSize) codeSize++;
+			table.set(key, nextCode++);
+		}
+		prefix = index;
+	}
+	emit(prefix);
+	emit(endCode);
+	if (bitCount > 0) bytes.push(bitBuffer & 0xff);
+
+	const out = Buffer.alloc(1 + bytes.length + Math.ceil(bytes.length / 255) + 1);
+	let o = 0;
+	out[o++] = minCodeSize;
+	for (let i = 0; i < bytes.length; i += 255) {
+		const block = bytes.slice(i, i + 255);
+		out[o++] = block.length;
+		for (const b of block) out[o++] = b;
+	}
+	out[o] = 0;
+	return out;
+}
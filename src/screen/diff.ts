@@ -0,0 +1,265 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Frame comparison for detecting console screen changes.
+ *
+ * KVM frames are JPEG-like and carry compression noise, so pixels only
+ * count as changed when a channel moves by more than a tolerance.
+ */
+
+import { clipRegion } from "./image.js";
+import type {
+	ChangedRegion,
+	CompareOptions,
+	DiffOptions,
+	FrameDiff,
+	ImageComparison,
+	Region,
+	RgbaImage,
+} from "./types.js";
+
+const DEFAULT_TOLERANCE = 16;
+const DEFAULT_GAP = 16;
+const CHANGED_COLOR = [255, 0, 0, 255];
+const OUTLINE_COLOR = [255, 255, 0, 255];
+
+/** Changed pixels and their bounds within one grid cell or region. */
+interface ChangeBox {
+	minX: number;
+	minY: number;
+	maxX: number;
+	maxY: number;
+	changedPixels: number;
+}
+
+/**
+ * Compare two frames pixel by pixel.
+ * A resolution change (mode switch, reboot into a new video mode) counts as a full-screen change.
+ */
+export function diffImages(before: RgbaImage, after: RgbaImage, options?: DiffOptions): FrameDiff {
+	const area = clipRegion(options?.region ?? fullScreen(after), after);
+	const comparedPixels = area.width * area.height;
+
+	if (before.width !== after.width || before.height !== after.height) {
+		return { changedPixels: comparedPixels, comparedPixels, bounds: comparedPixels ? area : null };
+	}
+
+	const tolerance = options?.tolerance ?? DEFAULT_TOLERANCE;
+	let changedPixels = 0;
+	let minX = Number.POSITIVE_INFINITY;
+	let minY = Number.POSITIVE_INFINITY;
+	let maxX = -1;
+	let maxY = -1;
+
+	for (let y = area.y; y < area.y + area.height; y++) {
+		for (let x = area.x; x < area.x + area.width; x++) {
+			const i = (y * after.width + x) * 4;
+			if (
+				Math.abs(before.pixels[i] - after.pixels[i]) > tolerance ||
+				Math.abs(before.pixels[i + 1] - after.pixels[i + 1]) > tolerance ||
+				Math.abs(before.pixels[i + 2] - after.pixels[i + 2]) > tolerance
+			) {
+				changedPixels++;
+				if (x < minX) minX = x;
+				if (x > maxX) maxX = x;
+				if (y < minY) minY = y;
+				if (y > maxY) maxY = y;
+			}
+		}
+	}
+
+	return {
+		changedPixels,
+		comparedPixels,
+		bounds: changedPixels
+			? { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 }
+			: null,
+	};
+}
+
+/**
+ * Compare two screenshots, box the changes and draw them.
+ * Changed pixels are grouped on a grid of `gap`-sized cells, and touching cells form one region.
+ * A resolution change marks the whole newer screenshot as changed.
+ */
+export function compareImages(
+	before: RgbaImage,
+	after: RgbaImage,
+	options?: CompareOptions,
+): ImageComparison {
+	const { width, height } = after;
+	const tolerance = options?.tolerance ?? DEFAULT_TOLERANCE;
+	const gap = Math.max(options?.gap ?? DEFAULT_GAP, 1);
+	const sameSize = before.width === width && before.height === height;
+	const columns = Math.ceil(width / gap);
+	const cells = new Map<number, ChangeBox>();
+	const pixels = new Uint8Array(width * height * 4);
+	let changedPixels = 0;
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const i = (y * width + x) * 4;
+			const changed =
+				!sameSize ||
+				Math.abs(before.pixels[i] - after.pixels[i]) > tolerance ||
+				Math.abs(before.pixels[i + 1] - after.pixels[i + 1]) > tolerance ||
+				Math.abs(before.pixels[i + 2] - after.pixels[i + 2]) > tolerance;
+
+			if (!changed) {
+				// Dimmed gray keeps the screen recognizable without competing with the highlights
+				const gray = Math.round(
+					(after.pixels[i] * 299 + after.pixels[i + 1] * 587 + after.pixels[i + 2] * 114) / 2000,
+				);
+				pixels.set([gray, gray, gray, 255], i);
+				continue;
+			}
+
+			changedPixels++;
+			pixels.set(CHANGED_COLOR, i);
+			const cell = Math.floor(y / gap) * columns + Math.floor(x / gap);
+			const box = cells.get(cell);
+			if (box) {
+				extendBox(box, x, y, x, y, 1);
+			} else {
+				cells.set(cell, { minX: x, minY: y, maxX: x, maxY: y, changedPixels: 1 });
+			}
+		}
+	}
+
+	const regions = groupCells(cells, columns).sort((a, b) => b.changedPixels - a.changedPixels);
+	const image: RgbaImage = { width, height, pixels };
+	for (const region of regions) {
+		outline(image, region);
+	}
+
+	return {
+		diff: {
+			changedPixels,
+			comparedPixels: width * height,
+			bounds: regions.length > 0 ? unionBounds(regions) : null,
+		},
+		regions,
+		image,
+	};
+}
+
+/**
+ * Describe a frame difference in words, e.g.
+ * "4200 pixels changed (1.4% of the watched area) in a 320x40 box at (0, 440), bottom left of the screen".
+ *
+ * @param diff - Difference to describe
+ * @param screen - Size of the screen the diff was computed on
+ */
+export function describeChange(
+	diff: FrameDiff,
+	screen: { readonly width: number; readonly height: number },
+): string {
+	if (!diff.bounds) {
+		return "No change in the watched area";
+	}
+
+	const { x, y, width, height } = diff.bounds;
+	const percent = ((diff.changedPixels / diff.comparedPixels) * 100).toFixed(1);
+	const vertical = position(y + height / 2, screen.height, ["top", "middle", "bottom"]);
+	const horizontal = position(x + width / 2, screen.width, ["left", "center", "right"]);
+	const where =
+		vertical === "middle" && horizontal === "center" ? "center" : `${vertical} ${horizontal}`;
+
+	return (
+		`${diff.changedPixels} pixels changed (${percent}% of the watched area) ` +
+		`in a ${width}x${height} box at (${x}, ${y}), ${where} of the screen`
+	);
+}
+
+/** Merge 8-connected changed cells into regions. */
+function groupCells(cells: Map<number, ChangeBox>, columns: number): ChangedRegion[] {
+	const regions: ChangedRegion[] = [];
+	const visited = new Set<number>();
+
+	for (const [start, first] of cells) {
+		if (visited.has(start)) continue;
+		visited.add(start);
+		const box = { ...first };
+		const stack = [start];
+
+		while (stack.length > 0) {
+			const cell = stack.pop() as number;
+			const column = cell % columns;
+			for (let dy = -1; dy <= 1; dy++) {
+				for (let dx = -1; dx <= 1; dx++) {
+					if (column + dx < 0 || column + dx >= columns) continue;
+					const neighbour = cell + dy * columns + dx;
+					const next = cells.get(neighbour);
+					if (!next || visited.has(neighbour)) continue;
+					visited.add(neighbour);
+					extendBox(box, next.minX, next.minY, next.maxX, next.maxY, next.changedPixels);
+					stack.push(neighbour);
+				}
+			}
+		}
+
+		regions.push({
+			x: box.minX,
+			y: box.minY,
+			width: box.maxX - box.minX + 1,
+			height: box.maxY - box.minY + 1,
+			changedPixels: box.changedPixels,
+		});
+	}
+	return regions;
+}
+
+function extendBox(
+	box: ChangeBox,
+	minX: number,
+	minY: number,
+	maxX: number,
+	maxY: number,
+	changedPixels: number,
+): void {
+	box.minX = Math.min(box.minX, minX);
+	box.minY = Math.min(box.minY, minY);
+	box.maxX = Math.max(box.maxX, maxX);
+	box.maxY = Math.max(box.maxY, maxY);
+	box.changedPixels += changedPixels;
+}
+
+function unionBounds(regions: readonly Region[]): Region {
+	const x = Math.min(...regions.map((r) => r.x));
+	const y = Math.min(...regions.map((r) => r.y));
+	const right = Math.max(...regions.map((r) => r.x + r.width));
+	const bottom = Math.max(...regions.map((r) => r.y + r.height));
+	return { x, y, width: right - x, height: bottom - y };
+}
+
+/** Draw a one-pixel frame just outside a region, clipped to the image. */
+function outline(image: RgbaImage, region: Region): void {
+	const left = region.x - 1;
+	const top = region.y - 1;
+	const right = region.x + region.width;
+	const bottom = region.y + region.height;
+	const plot = (x: number, y: number) => {
+		if (x >= 0 && y >= 0 && x < image.width && y < image.height) {
+			image.pixels.set(OUTLINE_COLOR, (y * image.width + x) * 4);
+		}
+	};
+
+	for (let x = left; x <= right; x++) {
+		plot(x, top);
+		plot(x, bottom);
+	}
+	for (let y = top + 1; y < bottom; y++) {
+		plot(left, y);
+		plot(right, y);
+	}
+}
+
+function fullScreen(image: RgbaImage): Region {
+	return { x: 0, y: 0, width: image.width, height: image.height };
+}
+
+/** Name the third of `size` that `center` falls in. */
+function position(center: number, size: number, names: readonly [string, string, string]): string {
+	return names[Math.min(Math.floor((center / size) * 3), 2)];
+}
@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Screenshot encoding within size budgets.
+ *
+ * Screenshots travel base64-encoded in tool results and stay in the model's
+ * context, so long sessions benefit from smaller images: JPEG for photos of
+ * graphical screens, lossless WebP for text screens (usually well below
+ * PNG), and limits on dimensions and bytes.
+ */
+
+import jpeg from "jpeg-js";
+import { downscaleImage, encodePng } from "./image.js";
+import type { EncodedImage, EncodeOptions, ImageFormat, RgbaImage } from "./types.js";
+import { encodeWebp } from "./webp.js";
+
+const DEFAULT_QUALITY = 80;
+/** JPEG quality is not lowered below this to meet a byte budget; the image shrinks instead */
+const MIN_BUDGET_QUALITY = 40;
+const QUALITY_STEP = 15;
+/** Downscaling for a byte budget stops at this many pixels per side */
+const MIN_BUDGET_DIMENSION = 64;
+
+const MIME_TYPES: Record<ImageFormat, string> = {
+	png: "image/png",
+	jpeg: "image/jpeg",
+	webp: "image/webp",
+};
+
+/** Encode an image in one format. */
+export function encodeImage(
+	image: RgbaImage,
+	format: ImageFormat,
+	quality = DEFAULT_QUALITY,
+): Buffer {
+	switch (format) {
+		case "png":
+			return encodePng(image);
+		case "jpeg":
+			return jpeg.encode({ data: image.pixels, width: image.width, height: image.height }, quality)
+				.data;
+		case "webp":
+			return encodeWebp(image);
+	}
+}
+
+/**
+ * Encode an image, downscaling it to `maxDimension` first. When the result
+ * is over `maxBytes`, JPEG quality goes down to 40, then the image is
+ * downscaled step by step until it fits or gets too small to read.
+ */
+export function encodeScreenshot(image: RgbaImage, options?: EncodeOptions): EncodedImage {
+	const format = options?.format ?? "png";
+	let quality = options?.quality ?? DEFAULT_QUALITY;
+	const maxBytes = options?.maxBytes ?? Number.POSITIVE_INFINITY;
+
+	let [width, height] = fit(image, options?.maxDimension ?? Number.POSITIVE_INFINITY);
+	let current = downscaleImage(image, width, height);
+	let data = encodeImage(current, format, quality);
+
+	while (data.length > maxBytes) {
+		if (format === "jpeg" && quality > MIN_BUDGET_QUALITY) {
+			quality = Math.max(quality - QUALITY_STEP, MIN_BUDGET_QUALITY);
+		} else {
+			// Encoded size roughly follows the pixel count; shrink by at least 10% per step
+			const factor = Math.min(Math.sqrt(maxBytes / data.length), 0.9);
+			const side = Math.floor(Math.max(width, height) * factor);
+			if (side < MIN_BUDGET_DIMENSION) break;
+			[width, height] = fit(image, side);
+			current = downscaleImage(image, width, height);
+		}
+		data = encodeImage(current, format, quality);
+	}
+
+	return {
+		data,
+		format,
+		mimeType: MIME_TYPES[format],
+		width,
+		height,
+		...(format === "jpeg" ? { quality } : {}),
+		withinBudget: data.length <= maxBytes,
+	};
+}
+
+/** Dimensions of the image shrunk to at most `maxDimension` per side, keeping its aspect ratio. */
+function fit(image: RgbaImage, maxDimension: number): [number, number] {
+	const factor = Math.min(maxDimension / Math.max(image.width, image.height), 1);
+	return [
+		Math.max(Math.round(image.width * factor), 1),
+		Math.max(Math.round(image.height * factor), 1),
+	];
+}
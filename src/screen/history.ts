@@ -0,0 +1,64 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Recent screenshots of each server, addressable by capture id, so a screen
+ * can be compared with how it looked before an action.
+ */
+
+import type { StoredScreenshot } from "./types.js";
+
+const DEFAULT_LIMIT = 20;
+
+export class ScreenshotHistory {
+	private readonly limit: number;
+	private readonly byServer = new Map<string, StoredScreenshot[]>();
+	private readonly byId = new Map<number, StoredScreenshot>();
+	private nextId = 1;
+
+	/**
+	 * @param limit - Screenshots kept per server; older ones are dropped (default: 20)
+	 */
+	constructor(limit = DEFAULT_LIMIT) {
+		this.limit = limit;
+	}
+
+	/** Number of screenshots kept per server. */
+	get capacity(): number {
+		return this.limit;
+	}
+
+	/** Store a screenshot and return it with its new capture id. */
+	add(serverId: string, png: Buffer): StoredScreenshot {
+		const screenshot: StoredScreenshot = {
+			id: this.nextId++,
+			serverId,
+			png,
+			capturedAt: Date.now(),
+		};
+
+		let screenshots = this.byServer.get(serverId);
+		if (!screenshots) {
+			screenshots = [];
+			this.byServer.set(serverId, screenshots);
+		}
+		screenshots.push(screenshot);
+		this.byId.set(screenshot.id, screenshot);
+
+		while (screenshots.length > this.limit) {
+			const dropped = screenshots.shift();
+			if (dropped) this.byId.delete(dropped.id);
+		}
+		return screenshot;
+	}
+
+	/** Look up a screenshot by capture id; undefined once it was dropped. */
+	get(id: number): StoredScreenshot | undefined {
+		return this.byId.get(id);
+	}
+
+	/** Screenshots kept for a server, oldest first. */
+	list(serverId: string): readonly StoredScreenshot[] {
+		return this.byServer.get(serverId) ?? [];
+	}
+}
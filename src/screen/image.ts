@@ -0,0 +1,271 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Conversions between RGBA screen images and PNG, cropping and downscaling.
+ *
+ * Images with at most 256 colors, which covers text-mode consoles, are
+ * written as palette-indexed PNGs: 4 bits per pixel up to 16 colors, 8 bits
+ * up to 256. That is several times smaller than 32-bit RGBA, and faster,
+ * since there are fewer bytes to filter and compress. Other images are
+ * written as RGBA with a fixed, cheap choice of row filters.
+ */
+
+import { crc32, deflateSync } from "node:zlib";
+import { PNG } from "pngjs";
+import { snapToPalette } from "./palette.js";
+import type { Region, RgbaImage } from "./types.js";
+
+export const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+const MAX_PALETTE_SIZE = 256;
+/**
+ * Indexed image data up to this size (a 16-color text screen upscaled 2x)
+ * gets the best compression level; on larger images it takes several times
+ * longer than the default for a few percent.
+ */
+const BEST_COMPRESSION_LIMIT = 1024 * 1024;
+
+/** Encode an RGBA image as PNG, palette-indexed when it has at most 256 colors. */
+export function encodePng(image: RgbaImage): Buffer {
+	return writePng(image, findColors(image));
+}
+
+/**
+ * Encode a captured console frame as PNG. Colors within a few levels of the
+ * VGA palette are snapped to it when that brings the frame down to 256
+ * colors, so compression noise does not force a text screen into RGBA.
+ */
+export function encodeFramePng(image: RgbaImage): Buffer {
+	const colors = findColors(image);
+	if (colors) {
+		return writePng(image, colors);
+	}
+	const snapped = snapToPalette(image);
+	const snappedColors = findColors(snapped);
+	return snappedColors ? writePng(snapped, snappedColors) : writePng(image, null);
+}
+
+/** A PNG chunk: length, type, data and CRC. */
+export function pngChunk(type: string, data: Buffer): Buffer {
+	const chunk = Buffer.alloc(12 + data.length);
+	chunk.writeUInt32BE(data.length, 0);
+	chunk.write(type, 4, "latin1");
+	data.copy(chunk, 8);
+	chunk.writeUInt32BE(crc32(chunk.subarray(4, 8 + data.length)), 8 + data.length);
+	return chunk;
+}
+
+function writePng(image: RgbaImage, colors: Map<number, number> | null): Buffer {
+	if (colors) {
+		return encodeIndexedPng(image, colors);
+	}
+	return encodeRgbaPng(image);
+}
+
+/** The pixels as 32-bit words, red in the low byte (little-endian), copied only if misaligned. */
+export function pixelWords(pixels: Uint8Array): Uint32Array {
+	const aligned = pixels.byteOffset % 4 === 0 ? pixels : pixels.slice();
+	return new Uint32Array(aligned.buffer, aligned.byteOffset, aligned.length >> 2);
+}
+
+/** Palette index of each RGBA color (as a pixel word), or null when there are more than 256. */
+function findColors(image: RgbaImage): Map<number, number> | null {
+	const colors = new Map<number, number>();
+	let last = -1;
+	for (const color of pixelWords(image.pixels)) {
+		if (color === last || colors.has(color)) {
+			last = color;
+			continue;
+		}
+		if (colors.size === MAX_PALETTE_SIZE) return null;
+		colors.set(color, colors.size);
+		last = color;
+	}
+	return colors;
+}
+
+/**
+ * Write a color type 6 (RGBA) PNG. Rows repeating the previous one, as in
+ * upscaled screenshots, use the Up filter and compress to almost nothing;
+ * the others use Sub, which suits flat areas and horizontal runs. This is
+ * much faster than trying every filter on every row.
+ */
+function encodeRgbaPng(image: RgbaImage): Buffer {
+	const { width, height, pixels } = image;
+	const stride = width * 4;
+	const raw = Buffer.alloc((stride + 1) * height);
+
+	for (let y = 0; y < height; y++) {
+		const row = y * (stride + 1);
+		const start = y * stride;
+		const current = pixels.subarray(start, start + stride);
+		if (y > 0 && Buffer.compare(current, pixels.subarray(start - stride, start)) === 0) {
+			raw[row] = 2; // Up: all differences are zero
+			continue;
+		}
+		raw[row] = 1; // Sub
+		raw.set(current.subarray(0, 4), row + 1);
+		for (let i = 4; i < stride; i++) {
+			raw[row + 1 + i] = current[i] - current[i - 4];
+		}
+	}
+
+	const ihdr = Buffer.alloc(13);
+	ihdr.writeUInt32BE(width, 0);
+	ihdr.writeUInt32BE(height, 4);
+	ihdr[8] = 8; // bit depth
+	ihdr[9] = 6; // truecolor with alpha
+
+	return Buffer.concat([
+		PNG_SIGNATURE,
+		pngChunk("IHDR", ihdr),
+		// Beyond level 3, zlib takes several times longer on noisy graphical screens for ~15% less
+		pngChunk("IDAT", deflateSync(raw, { level: 3 })),
+		pngChunk("IEND", Buffer.alloc(0)),
+	]);
+}
+
+/** Write a color type 3 PNG, with a tRNS chunk only when some colors are not opaque. */
+function encodeIndexedPng(image: RgbaImage, colors: Map<number, number>): Buffer {
+	const { width, height } = image;
+	const bitDepth = colors.size <= 16 ? 4 : 8;
+
+	const plte = Buffer.alloc(colors.size * 3);
+	const trns = Buffer.alloc(colors.size);
+	let opaque = true;
+	for (const [color, index] of colors) {
+		plte[index * 3] = color & 0xff;
+		plte[index * 3 + 1] = (color >>> 8) & 0xff;
+		plte[index * 3 + 2] = (color >>> 16) & 0xff;
+		trns[index] = color >>> 24;
+		if (color >>> 24 !== 255) opaque = false;
+	}
+
+	// Scanlines with filter type 0 (none), as recommended for indexed images
+	const words = pixelWords(image.pixels);
+	const rowLength = 1 + Math.ceil((width * bitDepth) / 8);
+	const raw = Buffer.alloc(rowLength * height);
+	let lastColor = -1;
+	let index = 0;
+	for (let y = 0; y < height; y++) {
+		const row = y * rowLength + 1;
+		for (let x = 0; x < width; x++) {
+			const color = words[y * width + x];
+			if (color !== lastColor) {
+				lastColor = color;
+				index = colors.get(color) ?? 0;
+			}
+			if (bitDepth === 8) {
+				raw[row + x] = index;
+			} else {
+				raw[row + (x >> 1)] |= x & 1 ? index : index << 4;
+			}
+		}
+	}
+
+	const ihdr = Buffer.alloc(13);
+	ihdr.writeUInt32BE(width, 0);
+	ihdr.writeUInt32BE(height, 4);
+	ihdr[8] = bitDepth;
+	ihdr[9] = 3; // indexed color
+
+	return Buffer.concat([
+		PNG_SIGNATURE,
+		pngChunk("IHDR", ihdr),
+		pngChunk("PLTE", plte),
+		...(opaque ? [] : [pngChunk("tRNS", trns)]),
+		pngChunk("IDAT", deflateSync(raw, { level: raw.length <= BEST_COMPRESSION_LIMIT ? 9 : 6 })),
+		pngChunk("IEND", Buffer.alloc(0)),
+	]);
+}
+
+/** Decode a PNG into an RGBA image. */
+export function decodePng(pngBuffer: Buffer): RgbaImage {
+	const png = PNG.sync.read(pngBuffer);
+	return { width: png.width, height: png.height, pixels: new Uint8Array(png.data) };
+}
+
+/** Intersect a region with the image bounds. */
+export function clipRegion(region: Region, image: RgbaImage): Region {
+	const x = Math.min(Math.max(region.x, 0), image.width);
+	const y = Math.min(Math.max(region.y, 0), image.height);
+	return {
+		x,
+		y,
+		width: Math.max(Math.min(region.x + region.width, image.width) - x, 0),
+		height: Math.max(Math.min(region.y + region.height, image.height) - y, 0),
+	};
+}
+
+/** Copy a region out of an image; the region must lie within it (see `clipRegion`). */
+export function cropImage(image: RgbaImage, region: Region): RgbaImage {
+	const pixels = new Uint8Array(region.width * region.height * 4);
+	for (let y = 0; y < region.height; y++) {
+		const start = ((region.y + y) * image.width + region.x) * 4;
+		pixels.set(image.pixels.subarray(start, start + region.width * 4), y * region.width * 4);
+	}
+	return { width: region.width, height: region.height, pixels };
+}
+
+/**
+ * Shrink an image by area averaging: each output pixel is the mean of the
+ * source pixels it covers, weighted by how much of each it covers. Unlike
+ * nearest-neighbor sampling this keeps thin strokes of console text visible.
+ * The target must not be larger than the image.
+ */
+export function downscaleImage(image: RgbaImage, width: number, height: number): RgbaImage {
+	if (width > image.width || height > image.height || width < 1 || height < 1) {
+		throw new Error(
+			`Cannot downscale a ${image.width}x${image.height} image to ${width}x${height}`,
+		);
+	}
+	if (width === image.width && height === image.height) {
+		return { width, height, pixels: image.pixels.slice() };
+	}
+
+	const columns = coverage(image.width, width);
+	const rows = coverage(image.height, height);
+
+	// Horizontal pass into a float buffer, then the vertical pass
+	const horizontal = new Float32Array(width * image.height * 4);
+	for (let y = 0; y < image.height; y++) {
+		for (let x = 0; x < width; x++) {
+			const out = (y * width + x) * 4;
+			for (const [source, weight] of columns[x]) {
+				const i = (y * image.width + source) * 4;
+				for (let c = 0; c < 4; c++) horizontal[out + c] += image.pixels[i + c] * weight;
+			}
+		}
+	}
+
+	const pixels = new Uint8Array(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const out = (y * width + x) * 4;
+			for (let c = 0; c < 4; c++) {
+				let sum = 0;
+				for (const [source, weight] of rows[y])
+					sum += horizontal[(source * width + x) * 4 + c] * weight;
+				pixels[out + c] = Math.min(Math.round(sum), 255);
+			}
+		}
+	}
+	return { width, height, pixels };
+}
+
+/** For each of `size` output pixels, the source pixels it covers and their weights (summing to 1). */
+function coverage(sourceSize: number, size: number): Array<Array<[number, number]>> {
+	const step = sourceSize / size;
+	const result: Array<Array<[number, number]>> = [];
+	for (let i = 0; i < size; i++) {
+		const start = i * step;
+		const end = start + step;
+		const weights: Array<[number, number]> = [];
+		for (let source = Math.floor(start); source < end && source < sourceSize; source++) {
+			const covered = Math.min(end, source + 1) - Math.max(start, source);
+			if (covered > 1e-9) weights.push([source, covered / step]);
+		}
+		result.push(weights);
+	}
+	return result;
+}
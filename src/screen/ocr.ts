@@ -0,0 +1,298 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Offline text extraction for text-mode console screens.
+ *
+ * BIOS screens, boot loaders, kernel panics and rescue shells draw text
+ * with fixed bitmap fonts on a character grid, so no general-purpose OCR
+ * is needed:
+ * 1. Find the grid: for each bundled font and cell width (8, or 9 as in VGA
+ *    text mode), try every origin offset and keep the one where most sampled
+ *    cells are exactly a glyph
+ * 2. Split each cell into background (its most common color) and foreground,
+ *    which also handles highlight bars and colored text; glyphs denser than
+ *    their background come out inverted and are matched that way too
+ * 3. Look the foreground bitmap up among the glyphs, falling back to the
+ *    closest glyph when compression noise flipped a few pixels
+ */
+
+import { CP437, FONTS } from "./fonts.js";
+import type { BitmapFont, OcrOptions, RgbaImage, TextScreen } from "./types.js";
+
+/** Cell widths to try: 8 (framebuffer consoles) and 9 (VGA text mode, 720 pixels for 80 columns). */
+const CELL_WIDTHS = [8, 9] as const;
+/** Channel difference from the cell background that makes a pixel foreground. */
+const FOREGROUND_THRESHOLD = 64;
+/** Non-blank cells sampled per grid candidate. */
+const SAMPLE_CELLS = 40;
+/** Share of sampled cells that must be exact glyphs for a grid to count as text. */
+const MIN_MATCH_RATIO = 0.5;
+/** Share of cell pixels that may differ from the closest glyph. */
+const MAX_DISTANCE_RATIO = 0.08;
+/** Half blocks: the edges of any colored rectangle match them on a misaligned grid. */
+const EDGE_GLYPHS = new Set(["▄", "▀", "▌", "▐"]);
+/** Code page 437 codes in lookup preference order, for glyphs that look alike. */
+const CODE_ORDER = [...range(0x20, 0x7f), ...range(0x80, 0x100), ...range(0x01, 0x20), 0x7f];
+
+/** Glyph lookup tables for one font. */
+interface GlyphIndex {
+	/** Glyph rows (as a Latin-1 string) → character */
+	readonly exact: Map<string, string>;
+	readonly glyphs: ReadonlyArray<{ readonly rows: Uint8Array; readonly char: string }>;
+}
+
+/** A character grid on the screen. */
+interface Grid {
+	readonly font: BitmapFont;
+	readonly index: GlyphIndex;
+	readonly cellWidth: number;
+	readonly x: number;
+	readonly y: number;
+	readonly columns: number;
+	readonly rows: number;
+}
+
+const indexes = new WeakMap<BitmapFont, GlyphIndex>();
+const BIT_COUNT = Uint8Array.from({ length: 256 }, (_, n) => {
+	let count = 0;
+	for (let v = n; v; v >>= 1) count += v & 1;
+	return count;
+});
+
+/**
+ * Read the text on a text-mode screen.
+ *
+ * @param image - Decoded console frame
+ * @param options - Fonts to try and the placeholder for unrecognized cells
+ * @returns The text and grid geometry, or null when no character grid was found
+ *          (graphical screens, unknown fonts)
+ */
+export function extractText(image: RgbaImage, options?: OcrOptions): TextScreen | null {
+	const grid = findGrid(image, options?.fonts ?? FONTS);
+	if (!grid) return null;
+
+	const unknownChar = options?.unknownChar ?? "?";
+	const cell = new Uint8Array(grid.font.height);
+	const lines: string[] = [];
+	let unrecognized = 0;
+
+	for (let row = 0; row < grid.rows; row++) {
+		let line = "";
+		for (let col = 0; col < grid.columns; col++) {
+			const x = grid.x + col * grid.cellWidth;
+			const y = grid.y + row * grid.font.height;
+			if (!readCell(image, x, y, cell)) {
+				line += " ";
+				continue;
+			}
+
+			const char = matchGlyph(grid.index, cell);
+			if (char === undefined) unrecognized++;
+			line += char ?? unknownChar;
+		}
+		lines.push(line.trimEnd());
+	}
+
+	while (lines.length > 0 && lines[lines.length - 1] === "") {
+		lines.pop();
+	}
+
+	return {
+		text: lines.join("\n"),
+		columns: grid.columns,
+		rows: grid.rows,
+		font: grid.font.name,
+		cellWidth: grid.cellWidth,
+		cellHeight: grid.font.height,
+		originX: grid.x,
+		originY: grid.y,
+		unrecognized,
+	};
+}
+
+/** Find the font, cell width and origin whose cells best match glyphs exactly. */
+function findGrid(image: RgbaImage, fonts: readonly BitmapFont[]): Grid | null {
+	let best: Grid | null = null;
+	let bestMatches = 0;
+
+	for (const font of fonts) {
+		const index = indexFont(font);
+		const cell = new Uint8Array(font.height);
+
+		for (const cellWidth of CELL_WIDTHS) {
+			// Sample cells with content on the unshifted grid; shifted grids overlap the same text
+			const samples = sampleCells(image, cellWidth, font.height, cell);
+
+			for (let oy = 0; oy < font.height; oy++) {
+				for (let ox = 0; ox < cellWidth; ox++) {
+					const columns = Math.floor((image.width - ox) / cellWidth);
+					const rows = Math.floor((image.height - oy) / font.height);
+					let sampled = 0;
+					let matches = 0;
+
+					for (const [col, row] of samples) {
+						if (col >= columns || row >= rows) continue;
+						if (!readCell(image, ox + col * cellWidth, oy + row * font.height, cell)) continue;
+						sampled++;
+						const char = index.exact.get(rowsKey(cell));
+						if (char !== undefined && !EDGE_GLYPHS.has(char)) matches++;
+					}
+
+					if (matches > bestMatches && matches >= sampled * MIN_MATCH_RATIO) {
+						best = { font, index, cellWidth, x: ox, y: oy, columns, rows };
+						bestMatches = matches;
+					}
+				}
+			}
+		}
+	}
+
+	return best;
+}
+
+/** Up to SAMPLE_CELLS non-blank cells of the grid at the origin, spread over the screen. */
+function sampleCells(
+	image: RgbaImage,
+	cellWidth: number,
+	cellHeight: number,
+	cell: Uint8Array,
+): Array<[number, number]> {
+	const columns = Math.floor(image.width / cellWidth);
+	const rows = Math.floor(image.height / cellHeight);
+	const total = columns * rows;
+	const samples: Array<[number, number]> = [];
+
+	// Step through the cells with a stride coprime to the count to visit them all in a scattered order
+	let stride = Math.max(Math.floor(total * 0.618), 1);
+	while (gcd(stride, total) !== 1) stride++;
+
+	for (
+		let i = 0, n = 0;
+		i < total && samples.length < SAMPLE_CELLS;
+		i++, n = (n + stride) % total
+	) {
+		const col = n % columns;
+		const row = Math.floor(n / columns);
+		if (readCell(image, col * cellWidth, row * cellHeight, cell)) {
+			samples.push([col, row]);
+		}
+	}
+
+	return samples;
+}
+
+/**
+ * Binarize the 8-pixel-wide cell at (x, y) into `out`, one byte per row.
+ * The most common color is the background. Returns false for blank cells.
+ */
+function readCell(image: RgbaImage, x: number, y: number, out: Uint8Array): boolean {
+	const { width, pixels } = image;
+	const height = out.length;
+
+	// Background: average of the pixels in the most common coarse color bin
+	const bins = new Map<number, { count: number; r: number; g: number; b: number }>();
+	let background = { count: 0, r: 0, g: 0, b: 0 };
+	for (let row = 0; row < height; row++) {
+		for (let col = 0; col < 8; col++) {
+			const i = ((y + row) * width + x + col) * 4;
+			const key = ((pixels[i] >> 5) << 6) | ((pixels[i + 1] >> 5) << 3) | (pixels[i + 2] >> 5);
+			let bin = bins.get(key);
+			if (!bin) {
+				bin = { count: 0, r: 0, g: 0, b: 0 };
+				bins.set(key, bin);
+			}
+			bin.count++;
+			bin.r += pixels[i];
+			bin.g += pixels[i + 1];
+			bin.b += pixels[i + 2];
+			if (bin.count > background.count) background = bin;
+		}
+	}
+	const bgR = background.r / background.count;
+	const bgG = background.g / background.count;
+	const bgB = background.b / background.count;
+
+	let blank = true;
+	for (let row = 0; row < height; row++) {
+		let bits = 0;
+		for (let col = 0; col < 8; col++) {
+			const i = ((y + row) * width + x + col) * 4;
+			if (
+				Math.abs(pixels[i] - bgR) > FOREGROUND_THRESHOLD ||
+				Math.abs(pixels[i + 1] - bgG) > FOREGROUND_THRESHOLD ||
+				Math.abs(pixels[i + 2] - bgB) > FOREGROUND_THRESHOLD
+			) {
+				bits |= 0x80 >> col;
+			}
+		}
+		out[row] = bits;
+		if (bits) blank = false;
+	}
+
+	return !blank;
+}
+
+/** The character whose glyph matches the cell, allowing a few flipped pixels. */
+function matchGlyph(index: GlyphIndex, cell: Uint8Array): string | undefined {
+	const exact = index.exact.get(rowsKey(cell));
+	if (exact !== undefined) return exact;
+
+	const area = cell.length * 8;
+	let bestChar: string | undefined;
+	let bestDistance = Math.floor(area * MAX_DISTANCE_RATIO) + 1;
+	for (const { rows, char } of index.glyphs) {
+		let distance = 0;
+		for (let r = 0; r < rows.length; r++) {
+			distance += BIT_COUNT[rows[r] ^ cell[r]];
+		}
+		// A far-off distance is a close match in inverted polarity
+		distance = Math.min(distance, area - distance);
+		if (distance < bestDistance) {
+			bestDistance = distance;
+			bestChar = char;
+		}
+	}
+	return bestChar;
+}
+
+function indexFont(font: BitmapFont): GlyphIndex {
+	const cached = indexes.get(font);
+	if (cached) return cached;
+
+	const exact = new Map<string, string>();
+	const glyphs: Array<{ rows: Uint8Array; char: string }> = [];
+	for (const code of CODE_ORDER) {
+		const rows = font.glyphs.subarray(code * font.height, (code + 1) * font.height);
+		// Blank and solid glyphs binarize to an empty cell — they can't be told apart from spaces
+		if (rows.every((r) => r === 0) || rows.every((r) => r === 0xff)) continue;
+
+		const key = rowsKey(rows);
+		if (exact.has(key)) continue;
+		exact.set(key, CP437[code]);
+		glyphs.push({ rows, char: CP437[code] });
+	}
+
+	// Dense glyphs (mostly in the 8x8 font) have more foreground than background
+	// pixels, so their cells binarize inverted; normal glyphs take precedence
+	for (const { rows, char } of glyphs) {
+		const key = rowsKey(rows.map((r) => ~r & 0xff));
+		if (!exact.has(key)) exact.set(key, char);
+	}
+
+	const index = { exact, glyphs };
+	indexes.set(font, index);
+	return index;
+}
+
+function rowsKey(rows: Uint8Array): string {
+	return String.fromCharCode(...rows);
+}
+
+function range(start: number, end: number): number[] {
+	return Array.from({ length: end - start }, (_, i) => start + i);
+}
+
+function gcd(a: number, b: number): number {
+	return b === 0 ? a : gcd(b, a % b);
+}
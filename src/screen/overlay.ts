@@ -0,0 +1,107 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Coordinate grid overlay for screenshots.
+ *
+ * A model asked to click something or point at part of the screen has no
+ * reference frame in a bare screenshot. Gridlines labelled with source
+ * coordinates give it one, whatever zoom or crop the image went through.
+ */
+
+import { VGA_8X8 } from "./fonts.js";
+import type { GridOptions, RgbaImage } from "./types.js";
+
+const DEFAULT_SPACING = 100;
+/** VGA yellow, so low-color screens stay palette-indexed */
+const LINE_COLOR = [0xff, 0xff, 0x55, 255];
+const LABEL_BACKGROUND = [0, 0, 0, 255];
+const LABEL_PADDING = 1;
+const LABEL_HEIGHT = VGA_8X8.height + 2 * LABEL_PADDING;
+
+/**
+ * Draw dotted gridlines every `spacing` source pixels, each labelled with
+ * its source coordinate: x along the top edge, y along the left edge.
+ * Labels that would overlap a previous one are left out.
+ */
+export function drawGrid(image: RgbaImage, options?: GridOptions): RgbaImage {
+	const spacing = options?.spacing ?? DEFAULT_SPACING;
+	const scale = options?.scale ?? 1;
+	const origin = options?.origin ?? { x: 0, y: 0 };
+	if (!Number.isInteger(spacing) || spacing < 1) {
+		throw new Error(`Grid spacing must be a positive integer, not ${spacing}`);
+	}
+
+	const grid = { width: image.width, height: image.height, pixels: image.pixels.slice() };
+	const columns = gridlines(origin.x, spacing, scale, image.width);
+	const rows = gridlines(origin.y, spacing, scale, image.height);
+
+	// Every other pixel, so the screen stays readable under the lines
+	for (const [x] of columns) {
+		for (let y = 0; y < grid.height; y += 2) plot(grid, x, y, LINE_COLOR);
+	}
+	for (const [y] of rows) {
+		for (let x = 0; x < grid.width; x += 2) plot(grid, x, y, LINE_COLOR);
+	}
+
+	let free = 0;
+	for (const [x, value] of columns) {
+		if (x + 1 < free) continue;
+		free = drawLabel(grid, x + 1, 0, String(value)) + 1;
+	}
+	// Below the x labels, so the top-left corner stays clear
+	free = LABEL_HEIGHT;
+	for (const [y, value] of rows) {
+		if (y + 1 < free) continue;
+		drawLabel(grid, 0, y + 1, String(value));
+		free = y + 1 + LABEL_HEIGHT + 1;
+	}
+	return grid;
+}
+
+/** Image positions and source coordinates of the gridlines along one axis. */
+function gridlines(
+	origin: number,
+	spacing: number,
+	scale: number,
+	size: number,
+): Array<[number, number]> {
+	const lines: Array<[number, number]> = [];
+	for (let value = Math.ceil(origin / spacing) * spacing; ; value += spacing) {
+		const position = Math.round((value - origin) * scale);
+		if (position >= size) return lines;
+		lines.push([position, value]);
+	}
+}
+
+/** Draw text in the 8x8 VGA font on a black box; returns the box's right edge. */
+function drawLabel(image: RgbaImage, left: number, top: number, text: string): number {
+	const right = left + text.length * VGA_8X8.width + 2 * LABEL_PADDING;
+	for (let y = top; y < top + LABEL_HEIGHT; y++) {
+		for (let x = left; x < right; x++) plot(image, x, y, LABEL_BACKGROUND);
+	}
+	for (let c = 0; c < text.length; c++) {
+		const code = text.charCodeAt(c);
+		for (let gy = 0; gy < VGA_8X8.height; gy++) {
+			const bits = VGA_8X8.glyphs[code * VGA_8X8.height + gy];
+			for (let gx = 0; gx < VGA_8X8.width; gx++) {
+				if (bits & (0x80 >> gx)) {
+					plot(
+						image,
+						left + LABEL_PADDING + c * VGA_8X8.width + gx,
+						top + LABEL_PADDING + gy,
+						LINE_COLOR,
+					);
+				}
+			}
+		}
+	}
+	return right;
+}
+
+/** Set one pixel, clipped to the image. */
+function plot(image: RgbaImage, x: number, y: number, color: readonly number[]): void {
+	if (x >= 0 && y >= 0 && x < image.width && y < image.height) {
+		image.pixels.set(color, (y * image.width + x) * 4);
+	}
+}
@@ -0,0 +1,74 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * The 16-color VGA text-mode palette, and snapping of captured frames to it.
+ *
+ * BIOS screens, boot loaders and the Linux console draw with these 16
+ * colors, but KVM video compression leaves the pixels a few levels off, so
+ * a text screen arrives with hundreds of shades. Snapping the near misses
+ * back restores the handful of colors the screen actually has.
+ */
+
+import type { RgbaImage } from "./types.js";
+
+/** RGB color */
+export type Rgb = readonly [number, number, number];
+
+/** Default VGA text-mode colors, in attribute order (black, blue, green, … white). */
+export const VGA_PALETTE: readonly Rgb[] = [
+	[0x00, 0x00, 0x00],
+	[0x00, 0x00, 0xaa],
+	[0x00, 0xaa, 0x00],
+	[0x00, 0xaa, 0xaa],
+	[0xaa, 0x00, 0x00],
+	[0xaa, 0x00, 0xaa],
+	[0xaa, 0x55, 0x00],
+	[0xaa, 0xaa, 0xaa],
+	[0x55, 0x55, 0x55],
+	[0x55, 0x55, 0xff],
+	[0x55, 0xff, 0x55],
+	[0x55, 0xff, 0xff],
+	[0xff, 0x55, 0x55],
+	[0xff, 0x55, 0xff],
+	[0xff, 0xff, 0x55],
+	[0xff, 0xff, 0xff],
+];
+
+/** Largest per-channel difference from a palette color that still counts as that color */
+const DEFAULT_SNAP_TOLERANCE = 8;
+
+/**
+ * Replace every pixel within `tolerance` levels (on each channel) of a
+ * palette color by that color. Other pixels are left alone, so graphical
+ * screens only lose noise around the palette colors.
+ */
+export function snapToPalette(
+	image: RgbaImage,
+	palette: readonly Rgb[] = VGA_PALETTE,
+	tolerance = DEFAULT_SNAP_TOLERANCE,
+): RgbaImage {
+	const pixels = image.pixels.slice();
+	// Most pixels repeat a color seen just before, so remember the last lookup
+	let lastKey = -1;
+	let lastMatch: Rgb | undefined;
+
+	for (let i = 0; i < pixels.length; i += 4) {
+		const key = (pixels[i] << 16) | (pixels[i + 1] << 8) | pixels[i + 2];
+		if (key !== lastKey) {
+			lastKey = key;
+			lastMatch = palette.find(
+				([r, g, b]) =>
+					Math.abs(pixels[i] - r) <= tolerance &&
+					Math.abs(pixels[i + 1] - g) <= tolerance &&
+					Math.abs(pixels[i + 2] - b) <= tolerance,
+			);
+		}
+		if (lastMatch) {
+			pixels[i] = lastMatch[0];
+			pixels[i + 1] = lastMatch[1];
+			pixels[i + 2] = lastMatch[2];
+		}
+	}
+	return { width: image.width, height: image.height, pixels };
+}
@@ -0,0 +1,213 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Record a console screen into an animation, for boot messages that flash past
+ * faster than anyone can take a screenshot.
+ */
+
+import { AnimationEncoder } from "./animation.js";
+import { diffImages } from "./diff.js";
+import { VGA_8X8 } from "./fonts.js";
+import type { KeyFrame, Recording, RecordOptions, RgbaImage } from "./types.js";
+
+const DEFAULT_DURATION = 10_000;
+const DEFAULT_FPS = 4;
+const DEFAULT_MIN_CHANGED_PIXELS = 1;
+const DEFAULT_MAX_FRAMES = 150;
+const DEFAULT_MAX_BYTES = 4 * 1024 * 1024;
+const MAX_KEYFRAMES = 12;
+/** Contact sheets stay within what vision models take in without downscaling. */
+const MAX_SHEET_SIZE = 1568;
+const SHEET_GAP = 4;
+const SHEET_BACKGROUND = [32, 32, 32] as const;
+const LABEL_HEIGHT = VGA_8X8.height + 4;
+
+/**
+ * Capture frames at a fixed rate for a while and encode the distinct ones as an animation.
+ * A frame that differs from the last distinct one by fewer than `minChangedPixels`
+ * pixels (beyond the tolerance) is a duplicate: the previous frame just shows longer.
+ *
+ * @param capture - Captures the current screen; called once per frame
+ * @param options - Duration, frame rate, format and caps
+ * @returns The animation with its keyframes
+ */
+export async function recordScreen(
+	capture: () => Promise<RgbaImage>,
+	options?: RecordOptions,
+): Promise<Recording> {
+	const duration = options?.duration ?? DEFAULT_DURATION;
+	const interval = 1000 / (options?.fps ?? DEFAULT_FPS);
+	const format = options?.format ?? "apng";
+	const minChangedPixels = options?.minChangedPixels ?? DEFAULT_MIN_CHANGED_PIXELS;
+	const maxFrames = options?.maxFrames ?? DEFAULT_MAX_FRAMES;
+	const maxBytes = options?.maxBytes ?? DEFAULT_MAX_BYTES;
+
+	const start = Date.now();
+	let encoder: AnimationEncoder | null = null;
+	let previous: RgbaImage | null = null;
+	let captured = 0;
+	let truncated: Recording["truncated"];
+
+	// The first and the latest distinct frame, and the biggest changes in between
+	let first: KeyFrame | null = null;
+	let latest: KeyFrame | null = null;
+	const middle: KeyFrame[] = [];
+
+	for (;;) {
+		const time = Date.now() - start;
+		const image = await capture();
+		captured++;
+
+		const changedPixels = previous
+			? diffImages(previous, image, options).changedPixels
+			: image.width * image.height;
+
+		if (!previous || changedPixels >= minChangedPixels) {
+			if (encoder && encoder.frameCount >= maxFrames) {
+				truncated = "frames";
+				break;
+			}
+			encoder ??= new AnimationEncoder(format, image.width, image.height, maxBytes);
+			const frames = encoder.frameCount;
+			if (!encoder.add(image, time)) {
+				truncated = "bytes";
+				break;
+			}
+			// A frame identical to the last one only extends it and is no keyframe
+			if (encoder.frameCount > frames) {
+				// Clients may reuse their framebuffer between captures — keep our own copy
+				previous = { ...image, pixels: image.pixels.slice() };
+				const keyframe = { image: previous, time, changedPixels };
+				if (!first) {
+					first = keyframe;
+				} else {
+					if (latest) middle.push(latest);
+					latest = keyframe;
+					if (middle.length > MAX_KEYFRAMES - 2) {
+						const smallest = middle.reduce((a, b) => (b.changedPixels < a.changedPixels ? b : a));
+						middle.splice(middle.indexOf(smallest), 1);
+					}
+				}
+			}
+		}
+
+		const next = captured * interval;
+		if (next >= duration) break;
+		await sleep(next - (Date.now() - start));
+	}
+
+	const elapsed = Date.now() - start;
+	if (!encoder || !first) {
+		throw new Error(`The first frame does not fit in ${maxBytes} bytes`);
+	}
+
+	// The last frame shows at least as long as one capture interval
+	const lastTime = (latest ?? first).time;
+	const animation = encoder.finish(Math.max(elapsed, lastTime + interval));
+
+	return {
+		format,
+		animation,
+		width: encoder.width,
+		height: encoder.height,
+		captured,
+		frames: encoder.frameCount,
+		elapsed,
+		truncated,
+		keyframes: latest ? [first, ...middle, latest] : [first],
+	};
+}
+
+/**
+ * Lay keyframes out on a grid as thumbnails, each labeled with its time ("+1.5s").
+ * Thumbnails shrink by a whole factor until the sheet fits in 1568x1568 pixels.
+ */
+export function contactSheet(keyframes: readonly KeyFrame[]): RgbaImage {
+	if (keyframes.length === 0) {
+		throw new Error("A contact sheet needs at least one frame");
+	}
+
+	const columns = Math.ceil(Math.sqrt(keyframes.length));
+	const rows = Math.ceil(keyframes.length / columns);
+	const frameWidth = Math.max(...keyframes.map((k) => k.image.width));
+	const frameHeight = Math.max(...keyframes.map((k) => k.image.height));
+	const factor = Math.max(
+		1,
+		Math.ceil((columns * frameWidth) / (MAX_SHEET_SIZE - (columns + 1) * SHEET_GAP)),
+		Math.ceil((rows * frameHeight) / (MAX_SHEET_SIZE - rows * (LABEL_HEIGHT + SHEET_GAP))),
+	);
+	const cellWidth = Math.ceil(frameWidth / factor);
+	const cellHeight = Math.ceil(frameHeight / factor);
+
+	const width = columns * (cellWidth + SHEET_GAP) + SHEET_GAP;
+	const height = rows * (LABEL_HEIGHT + cellHeight + SHEET_GAP);
+	const pixels = new Uint8Array(width * height * 4);
+	for (let i = 0; i < pixels.length; i += 4) {
+		pixels.set([...SHEET_BACKGROUND, 255], i);
+	}
+	const sheet = { width, height, pixels };
+
+	keyframes.forEach((keyframe, i) => {
+		const x = SHEET_GAP + (i % columns) * (cellWidth + SHEET_GAP);
+		const y = Math.floor(i / columns) * (LABEL_HEIGHT + cellHeight + SHEET_GAP);
+		drawLabel(sheet, x, y + 2, `+${(keyframe.time / 1000).toFixed(1)}s`);
+		drawThumbnail(sheet, x, y + LABEL_HEIGHT, keyframe.image, factor);
+	});
+
+	return sheet;
+}
+
+/** Draw the image shrunk by `factor`, averaging each factor x factor block. */
+function drawThumbnail(
+	sheet: RgbaImage,
+	left: number,
+	top: number,
+	image: RgbaImage,
+	factor: number,
+): void {
+	const thumbWidth = Math.ceil(image.width / factor);
+	const thumbHeight = Math.ceil(image.height / factor);
+
+	for (let ty = 0; ty < thumbHeight; ty++) {
+		for (let tx = 0; tx < thumbWidth; tx++) {
+			let r = 0;
+			let g = 0;
+			let b = 0;
+			let count = 0;
+			for (let y = ty * factor; y < Math.min((ty + 1) * factor, image.height); y++) {
+				for (let x = tx * factor; x < Math.min((tx + 1) * factor, image.width); x++) {
+					const i = (y * image.width + x) * 4;
+					r += image.pixels[i];
+					g += image.pixels[i + 1];
+					b += image.pixels[i + 2];
+					count++;
+				}
+			}
+			const o = ((top + ty) * sheet.width + left + tx) * 4;
+			sheet.pixels.set([r / count, g / count, b / count, 255], o);
+		}
+	}
+}
+
+/** Draw white text in the 8x8 VGA font. */
+function drawLabel(sheet: RgbaImage, left: number, top: number, text: string): void {
+	for (let c = 0; c < text.length && left + (c + 1) * 8 <= sheet.width; c++) {
+		const code = text.charCodeAt(c);
+		for (let gy = 0; gy < VGA_8X8.height; gy++) {
+			const bits = VGA_8X8.glyphs[code * VGA_8X8.height + gy];
+			for (let gx = 0; gx < 8; gx++) {
+				if (bits & (0x80 >> gx)) {
+					sheet.pixels.set(
+						[255, 255, 255, 255],
+						((top + gy) * sheet.width + left + c * 8 + gx) * 4,
+					);
+				}
+			}
+		}
+	}
+}
+
+function sleep(ms: number): Promise<void> {
+	return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
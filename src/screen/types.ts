@@ -0,0 +1,266 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Provider-neutral screen image types, shared by the KVM and VNC backends.
+ */
+
+/** Decoded screen image: RGBA, 4 bytes per pixel, rows from top to bottom. */
+export interface RgbaImage {
+	readonly width: number;
+	readonly height: number;
+	readonly pixels: Uint8Array;
+}
+
+/** Rectangle on the screen, in pixels from the top-left corner. */
+export interface Region {
+	readonly x: number;
+	readonly y: number;
+	readonly width: number;
+	readonly height: number;
+}
+
+/** Options for comparing two frames. */
+export interface DiffOptions {
+	/** Only compare pixels inside this region (default: whole screen) */
+	readonly region?: Region;
+	/** Largest per-channel difference still treated as unchanged (default: 16) */
+	readonly tolerance?: number;
+}
+
+/** Options for waiting until the screen changes. */
+export interface WaitForChangeOptions extends DiffOptions {
+	/** Give up after this long, in ms (default: 30000) */
+	readonly timeout?: number;
+	/** Time between captures, in ms (default: 1000) */
+	readonly interval?: number;
+	/** Changed pixels needed to count as a change (default: 50, ignores a blinking cursor) */
+	readonly minChangedPixels?: number;
+}
+
+/** Difference between two frames. */
+export interface FrameDiff {
+	/** Pixels that differ by more than the tolerance */
+	readonly changedPixels: number;
+	/** Pixels compared (the region's area) */
+	readonly comparedPixels: number;
+	/** Bounding box of the changed pixels, or null when nothing changed */
+	readonly bounds: Region | null;
+}
+
+/** Outcome of waiting for a screen change. */
+export interface ScreenChange {
+	/** Whether the screen changed before the timeout */
+	readonly changed: boolean;
+	/** Latest captured frame */
+	readonly image: RgbaImage;
+	/** Difference between the first and the latest frame */
+	readonly diff: FrameDiff;
+	/** Time spent waiting in ms */
+	readonly elapsed: number;
+}
+
+/** A bitmap font: `height` bytes per glyph, 256 glyphs in code page 437 order. */
+export interface BitmapFont {
+	readonly name: string;
+	/** Glyph width in pixels (always 8 for VGA fonts) */
+	readonly width: number;
+	/** Glyph height in pixels */
+	readonly height: number;
+	/** Glyph rows, `height` bytes per character, most significant bit leftmost */
+	readonly glyphs: Uint8Array;
+}
+
+/** Options for reading text off a screen. */
+export interface OcrOptions {
+	/** Fonts to try (default: the bundled VGA 8x16, 8x14 and 8x8 fonts) */
+	readonly fonts?: readonly BitmapFont[];
+	/** Character put in place of cells that match no glyph (default: "?") */
+	readonly unknownChar?: string;
+}
+
+/** Text read off a text-mode screen. */
+export interface TextScreen {
+	/** Screen rows joined with newlines; trailing spaces and blank rows removed */
+	readonly text: string;
+	/** Character grid size */
+	readonly columns: number;
+	readonly rows: number;
+	/** Font the glyphs matched */
+	readonly font: string;
+	/** Character cell size in pixels (VGA text mode uses 9-pixel-wide cells) */
+	readonly cellWidth: number;
+	readonly cellHeight: number;
+	/** Top-left corner of the grid in pixels */
+	readonly originX: number;
+	readonly originY: number;
+	/** Non-blank cells that matched no glyph */
+	readonly unrecognized: number;
+}
+
+/** Options for waiting until text appears on the screen. */
+export interface WaitForTextOptions extends OcrOptions {
+	/** Give up after this long, in ms (default: 60000) */
+	readonly timeout?: number;
+	/** Time between captures, in ms (default: 1000) */
+	readonly interval?: number;
+}
+
+/** A pattern found in the screen text. */
+export interface TextMatch {
+	/** Index of the pattern that matched */
+	readonly pattern: number;
+	/** The matched text */
+	readonly text: string;
+	/** Screen row of the match, counting from 1 */
+	readonly row: number;
+}
+
+/** Outcome of waiting for text to appear. */
+export interface TextWait {
+	/** The first pattern found, or null when the timeout expired */
+	readonly match: TextMatch | null;
+	/** Text of the latest frame, or null when it had no text grid */
+	readonly screen: TextScreen | null;
+	/** Latest captured frame */
+	readonly image: RgbaImage;
+	/** Time spent waiting in ms */
+	readonly elapsed: number;
+}
+
+/** Animation container for screen recordings. */
+export type AnimationFormat = "apng" | "gif";
+
+/** Options for recording the screen. */
+export interface RecordOptions extends DiffOptions {
+	/** Recording length in ms (default: 10000) */
+	readonly duration?: number;
+	/** Captures per second (default: 4) */
+	readonly fps?: number;
+	/** Animation container (default: "apng") */
+	readonly format?: AnimationFormat;
+	/** Changed pixels for a frame to count as new rather than a duplicate (default: 1) */
+	readonly minChangedPixels?: number;
+	/** Stop after this many distinct frames (default: 150) */
+	readonly maxFrames?: number;
+	/** Stop before the animation grows past this many bytes (default: 4 MiB) */
+	readonly maxBytes?: number;
+}
+
+/** A frame picked to summarize a recording. */
+export interface KeyFrame {
+	readonly image: RgbaImage;
+	/** Capture time in ms from the start of the recording */
+	readonly time: number;
+	/** Pixels that changed since the previous distinct frame (all of them for the first) */
+	readonly changedPixels: number;
+}
+
+/** A finished screen recording. */
+export interface Recording {
+	readonly format: AnimationFormat;
+	/** Encoded animation, looping forever */
+	readonly animation: Buffer;
+	/** Animation size in pixels (the first frame's size) */
+	readonly width: number;
+	readonly height: number;
+	/** Frames captured */
+	readonly captured: number;
+	/** Distinct frames in the animation */
+	readonly frames: number;
+	/** Time spent recording in ms */
+	readonly elapsed: number;
+	/** Which cap stopped the recording early, if any */
+	readonly truncated?: "frames" | "bytes";
+	/** The first and last frames and the biggest changes in between, in time order */
+	readonly keyframes: readonly KeyFrame[];
+}
+
+/** Options for watching screens in the background. */
+export interface WatchOptions extends DiffOptions {
+	/** Time between captures of a watched screen, in ms (default: 2000) */
+	readonly interval?: number;
+	/** Changed pixels that count as a change (default: 50, ignores a blinking cursor) */
+	readonly minChangedPixels?: number;
+	/** Stop capturing a screen after this long without a change, in ms (default: 300000) */
+	readonly idleTimeout?: number;
+}
+
+/** A frame captured by a screen watcher. */
+export interface WatchedFrame {
+	readonly image: RgbaImage;
+	/** Capture time (ms since the epoch) */
+	readonly capturedAt: number;
+}
+
+/** A screenshot kept in the history so later ones can be compared with it. */
+export interface StoredScreenshot {
+	/** Capture id, unique within the history */
+	readonly id: number;
+	readonly serverId: string;
+	/** Unprocessed PNG as the provider returned it */
+	readonly png: Buffer;
+	/** Capture time (ms since the epoch) */
+	readonly capturedAt: number;
+}
+
+/** Options for comparing two screenshots. */
+export interface CompareOptions {
+	/** Largest per-channel difference still treated as unchanged (default: 16) */
+	readonly tolerance?: number;
+	/** Changes up to this many pixels apart are boxed together (default: 16) */
+	readonly gap?: number;
+}
+
+/** A box around changes close to each other. */
+export interface ChangedRegion extends Region {
+	/** Changed pixels inside the box */
+	readonly changedPixels: number;
+}
+
+/** Result of comparing two screenshots. */
+export interface ImageComparison {
+	readonly diff: FrameDiff;
+	/** Boxes around the changes, largest change first */
+	readonly regions: readonly ChangedRegion[];
+	/** The newer screenshot dimmed to gray, with changed pixels in red and regions outlined in yellow */
+	readonly image: RgbaImage;
+}
+
+/** Image format of screenshots returned to clients. */
+export type ImageFormat = "png" | "jpeg" | "webp";
+
+/** Options for encoding a screenshot within a size budget. */
+export interface EncodeOptions {
+	/** Output format (default: "png") */
+	readonly format?: ImageFormat;
+	/** JPEG quality, 1-100 (default: 80); PNG and WebP are lossless */
+	readonly quality?: number;
+	/** Largest width or height; bigger images are downscaled to fit */
+	readonly maxDimension?: number;
+	/** Largest encoded size in bytes; JPEG quality is lowered, then the image downscaled, to fit */
+	readonly maxBytes?: number;
+}
+
+/** A screenshot encoded for a client. */
+export interface EncodedImage {
+	readonly data: Buffer;
+	readonly format: ImageFormat;
+	readonly mimeType: string;
+	readonly width: number;
+	readonly height: number;
+	/** JPEG quality used, after any lowering for the size budget */
+	readonly quality?: number;
+	/** Whether the data fits in `maxBytes` (always true without a byte budget) */
+	readonly withinBudget: boolean;
+}
+
+/** Options for drawing a coordinate grid over a screenshot. */
+export interface GridOptions {
+	/** Distance between gridlines, in source pixels (default: 100) */
+	readonly spacing?: number;
+	/** Image pixels per source pixel, e.g. the zoom of an upscaled screenshot (default: 1) */
+	readonly scale?: number;
+	/** Source coordinates of the image's top-left pixel, e.g. of a cropped region (default: 0, 0) */
+	readonly origin?: { readonly x: number; readonly y: number };
+}
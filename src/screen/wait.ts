@@ -0,0 +1,148 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Block until a console screen changes or shows some text, by polling frame captures.
+ */
+
+import { diffImages } from "./diff.js";
+import { extractText } from "./ocr.js";
+import type {
+	RgbaImage,
+	ScreenChange,
+	TextMatch,
+	TextWait,
+	WaitForChangeOptions,
+	WaitForTextOptions,
+} from "./types.js";
+
+const DEFAULT_TIMEOUT = 30_000;
+const DEFAULT_TEXT_TIMEOUT = 60_000;
+const DEFAULT_INTERVAL = 1_000;
+const DEFAULT_MIN_CHANGED_PIXELS = 50;
+
+/**
+ * Capture a baseline frame, then keep capturing until a frame differs from it
+ * by at least `minChangedPixels` or the timeout runs out.
+ *
+ * @param capture - Captures the current screen; called once per poll
+ * @param options - Timeout, polling interval, region and thresholds
+ * @returns The latest frame and how it differs from the baseline
+ */
+export async function waitForChange(
+	capture: () => Promise<RgbaImage>,
+	options?: WaitForChangeOptions,
+): Promise<ScreenChange> {
+	const timeout = options?.timeout ?? DEFAULT_TIMEOUT;
+	const interval = options?.interval ?? DEFAULT_INTERVAL;
+	const minChangedPixels = options?.minChangedPixels ?? DEFAULT_MIN_CHANGED_PIXELS;
+
+	const start = Date.now();
+	const first = await capture();
+	// Clients may reuse their framebuffer between captures — keep our own copy
+	const baseline: RgbaImage = { ...first, pixels: first.pixels.slice() };
+
+	for (;;) {
+		const remaining = start + timeout - Date.now();
+		await sleep(Math.min(interval, Math.max(remaining, 0)));
+
+		const image = await capture();
+		const diff = diffImages(baseline, image, options);
+		const changed = diff.changedPixels >= minChangedPixels && diff.changedPixels > 0;
+		const elapsed = Date.now() - start;
+
+		if (changed || elapsed >= timeout) {
+			return { changed, image, diff, elapsed };
+		}
+	}
+}
+
+/**
+ * Capture and read the screen until one of the patterns appears in its text or the timeout runs out.
+ * The first frame is checked right away, so text that is already shown matches immediately.
+ *
+ * @param capture - Captures the current screen; called once per poll
+ * @param patterns - Substrings or regular expressions; the earliest in the list wins
+ * @param options - Timeout, polling interval and OCR options
+ * @returns The match (or null), with the latest frame and its text
+ */
+export async function waitForText(
+	capture: () => Promise<RgbaImage>,
+	patterns: ReadonlyArray<string | RegExp>,
+	options?: WaitForTextOptions,
+): Promise<TextWait> {
+	const timeout = options?.timeout ?? DEFAULT_TEXT_TIMEOUT;
+	const interval = options?.interval ?? DEFAULT_INTERVAL;
+	const start = Date.now();
+
+	for (;;) {
+		const image = await capture();
+		const screen = extractText(image, options);
+		const match = screen ? findPattern(screen.text, patterns) : null;
+		const elapsed = Date.now() - start;
+
+		if (match || elapsed >= timeout) {
+			return { match, screen, image, elapsed };
+		}
+		await sleep(Math.min(interval, timeout - elapsed));
+	}
+}
+
+/**
+ * Parse a text pattern: `/source/flags` is a regular expression, anything else a plain substring.
+ * Like in a regex literal, the source has no unescaped `/` and the flags are JS flag letters, so
+ * paths such as "/dev/sda" or "/mnt/sysimage/" stay text. A single-segment path such as "/boot/"
+ * reads as the regular expression `boot`; match the path with `/\/boot\//` instead.
+ *
+ * @throws If the pattern has the `/source/flags` form but is not a valid regular expression
+ */
+export function parsePattern(pattern: string): string | RegExp {
+	const regex = /^\/(.+)\/([dgimsuvy]*)$/s.exec(pattern);
+	if (!regex || hasUnescapedSlash(regex[1])) return pattern;
+
+	try {
+		// Global and sticky flags would make matching depend on earlier calls
+		return new RegExp(regex[1], regex[2].replace(/[gy]/g, ""));
+	} catch (err) {
+		const message = err instanceof Error ? err.message : String(err);
+		throw new Error(`Invalid pattern ${pattern}: ${message}`);
+	}
+}
+
+/** Whether a regex source has a `/` outside character classes that is not escaped. */
+function hasUnescapedSlash(source: string): boolean {
+	let inClass = false;
+	for (let i = 0; i < source.length; i++) {
+		const char = source[i];
+		if (char === "\\") i++;
+		else if (char === "[") inClass = true;
+		else if (char === "]") inClass = false;
+		else if (char === "/" && !inClass) return true;
+	}
+	return false;
+}
+
+function findPattern(text: string, patterns: ReadonlyArray<string | RegExp>): TextMatch | null {
+	for (let i = 0; i < patterns.length; i++) {
+		const pattern = patterns[i];
+		let index: number;
+		let matched: string;
+		if (typeof pattern === "string") {
+			index = text.indexOf(pattern);
+			matched = pattern;
+		} else {
+			const m = pattern.exec(text);
+			index = m ? m.index : -1;
+			matched = m ? m[0] : "";
+		}
+
+		if (index >= 0) {
+			return { pattern: i, text: matched, row: text.slice(0, index).split("\n").length };
+		}
+	}
+	return null;
+}
+
+function sleep(ms: number): Promise<void> {
+	return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
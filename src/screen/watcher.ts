@@ -0,0 +1,169 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Background watcher that keeps capturing screens while someone listens,
+ * and reports when they change. A screen that stays the same for
+ * `idleTimeout` goes idle: it is no longer captured, so its KVM session can
+ * close, until `resume` is called.
+ */
+
+import { diffImages } from "./diff.js";
+import type { RgbaImage, WatchedFrame, WatchOptions } from "./types.js";
+
+const DEFAULT_INTERVAL = 2_000;
+const DEFAULT_MIN_CHANGED_PIXELS = 50;
+const DEFAULT_IDLE_TIMEOUT = 5 * 60_000;
+
+/**
+ * Called when a watched screen changed.
+ *
+ * @param frame - The new frame
+ * @param previous - The frame it changed from (the one the previous call reported, or the first capture)
+ */
+export type ScreenListener = (frame: WatchedFrame, previous: WatchedFrame) => void;
+
+/** A watched screen and its polling state. */
+interface WatchTarget {
+	readonly listeners: Set<ScreenListener>;
+	timer: ReturnType<typeof setTimeout> | null;
+	/** Frame that later captures are compared against */
+	reference: WatchedFrame | null;
+	latest: WatchedFrame | null;
+	/** Last change, watch or resume; captures stop `idleTimeout` after it */
+	lastActivity: number;
+	idle: boolean;
+}
+
+export class ScreenWatcher {
+	private readonly capture: (key: string) => Promise<RgbaImage>;
+	private readonly options: WatchOptions;
+	private readonly targets = new Map<string, WatchTarget>();
+
+	/**
+	 * @param capture - Captures the screen identified by `key` (e.g. a server id)
+	 * @param options - Polling interval and change thresholds
+	 */
+	constructor(capture: (key: string) => Promise<RgbaImage>, options: WatchOptions = {}) {
+		this.capture = capture;
+		this.options = options;
+	}
+
+	/** Number of screens being watched. */
+	get size(): number {
+		return this.targets.size;
+	}
+
+	/**
+	 * Start calling `listener` whenever the screen changes. The first capture
+	 * happens right away and is the baseline, so it is not reported.
+	 *
+	 * @returns A function that removes the listener; the screen stops being
+	 *          captured once it has no listeners left
+	 */
+	watch(key: string, listener: ScreenListener): () => void {
+		let target = this.targets.get(key);
+		if (!target) {
+			target = {
+				listeners: new Set(),
+				timer: null,
+				reference: null,
+				latest: null,
+				lastActivity: Date.now(),
+				idle: false,
+			};
+			this.targets.set(key, target);
+			this.schedule(key, target, 0);
+		} else {
+			this.resume(key);
+		}
+		target.listeners.add(listener);
+
+		const watched = target;
+		return () => {
+			watched.listeners.delete(listener);
+			if (watched.listeners.size === 0 && this.targets.get(key) === watched) {
+				this.unwatch(key);
+			}
+		};
+	}
+
+	/** The most recent capture of a watched screen that is not idle, if there is one yet. */
+	latest(key: string): WatchedFrame | undefined {
+		const target = this.targets.get(key);
+		return target && !target.idle ? (target.latest ?? undefined) : undefined;
+	}
+
+	/**
+	 * Restart the idle period of a watched screen, and capture it again right away
+	 * if it was idle. Changes made while it was idle are reported on that capture.
+	 */
+	resume(key: string): void {
+		const target = this.targets.get(key);
+		if (!target) return;
+
+		target.lastActivity = Date.now();
+		if (target.idle) {
+			target.idle = false;
+			this.schedule(key, target, 0);
+		}
+	}
+
+	/** Stop watching every screen. */
+	close(): void {
+		for (const key of [...this.targets.keys()]) {
+			this.unwatch(key);
+		}
+	}
+
+	// --- Internals ---
+
+	private unwatch(key: string): void {
+		const target = this.targets.get(key);
+		if (!target) return;
+
+		this.targets.delete(key);
+		if (target.timer) clearTimeout(target.timer);
+		target.listeners.clear();
+	}
+
+	private schedule(key: string, target: WatchTarget, delay: number): void {
+		target.timer = setTimeout(() => this.poll(key, target), delay);
+		target.timer.unref();
+	}
+
+	private async poll(key: string, target: WatchTarget): Promise<void> {
+		target.timer = null;
+		const minChangedPixels = this.options.minChangedPixels ?? DEFAULT_MIN_CHANGED_PIXELS;
+
+		try {
+			const image = await this.capture(key);
+			if (this.targets.get(key) !== target) return;
+
+			// Capture functions may reuse their framebuffer — keep our own copy
+			const frame = { image: { ...image, pixels: image.pixels.slice() }, capturedAt: Date.now() };
+			target.latest = frame;
+
+			const previous = target.reference;
+			if (!previous) {
+				target.reference = frame;
+			} else if (
+				diffImages(previous.image, frame.image, this.options).changedPixels >= minChangedPixels
+			) {
+				target.reference = frame;
+				target.lastActivity = frame.capturedAt;
+				for (const listener of [...target.listeners]) listener(frame, previous);
+			}
+		} catch {
+			// Keep watching — the console may be rebooting or the BMC busy
+		}
+
+		if (this.targets.get(key) !== target) return;
+		const idleTimeout = this.options.idleTimeout ?? DEFAULT_IDLE_TIMEOUT;
+		if (Date.now() - target.lastActivity >= idleTimeout) {
+			target.idle = true;
+		} else {
+			this.schedule(key, target, this.options.interval ?? DEFAULT_INTERVAL);
+		}
+	}
+}
@@ -0,0 +1,503 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Lossless WebP (VP8L) encoder.
+ *
+ * Console screens are mostly flat colors and repeated rows, so the encoder
+ * sticks to what VP8L does well for them: a palette when a screen has at
+ * most 256 colors (packing 2, 4 or 8 pixels per code for 16, 4 or 2 colors),
+ * the subtract-green transform otherwise, and LZ77 back-references to the
+ * pixel on the left, the one above, or hash-chain matches. There is no color
+ * cache and one set of prefix codes covers the whole image.
+ */
+
+import type { RgbaImage } from "./types.js";
+
+/** Order in which code length code lengths are stored */
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+const MAX_CODE_LENGTH = 15;
+const MAX_CODE_LENGTH_CODE_LENGTH = 7;
+/** Literal green values plus the 24 length prefix codes */
+const GREEN_ALPHABET = 256 + 24;
+const DISTANCE_ALPHABET = 40;
+const MIN_MATCH = 3;
+const MAX_MATCH = 4096;
+const WINDOW = 1 << 18;
+const HASH_BITS = 16;
+const MAX_CHAIN = 16;
+/** Distance codes 1-120 name nearby pixels by plane position; larger ones are the distance + 120 */
+const PLANE_CODES = 120;
+
+/** Encode an image as a lossless WebP file. */
+export function encodeWebp(image: RgbaImage): Buffer {
+	const { width, height } = image;
+	if (width < 1 || height < 1 || width > 16384 || height > 16384) {
+		throw new Error(`WebP images must be 1-16384 pixels per side, not ${width}x${height}`);
+	}
+
+	const argb = new Uint32Array(width * height);
+	let opaque = true;
+	for (let i = 0; i < argb.length; i++) {
+		const o = i * 4;
+		const alpha = image.pixels[o + 3];
+		if (alpha !== 255) opaque = false;
+		argb[i] =
+			((alpha << 24) |
+				(image.pixels[o] << 16) |
+				(image.pixels[o + 1] << 8) |
+				image.pixels[o + 2]) >>>
+			0;
+	}
+
+	const writer = new BitWriter();
+	writer.write(0x2f, 8);
+	writer.write(width - 1, 14);
+	writer.write(height - 1, 14);
+	writer.write(opaque ? 0 : 1, 1);
+	writer.write(0, 3);
+
+	const palette = findPalette(argb);
+	if (palette) {
+		// Color indexing transform, with the palette delta-coded as a one-row image
+		writer.write(1, 1);
+		writer.write(3, 2);
+		writer.write(palette.length - 1, 8);
+		const deltas = new Uint32Array(palette.length);
+		for (let i = 0; i < palette.length; i++) {
+			deltas[i] = i === 0 ? palette[0] : subtractPixels(palette[i], palette[i - 1]);
+		}
+		writeImage(writer, deltas, palette.length, false);
+		writer.write(0, 1);
+
+		const bits = palette.length <= 2 ? 3 : palette.length <= 4 ? 2 : palette.length <= 16 ? 1 : 0;
+		const packed = bundlePixels(argb, width, height, palette, bits);
+		writeImage(writer, packed, Math.ceil(width / (1 << bits)), true);
+	} else {
+		// Subtract-green transform: gray pixels end up with zero red and blue
+		writer.write(1, 1);
+		writer.write(2, 2);
+		writer.write(0, 1);
+		for (let i = 0; i < argb.length; i++) {
+			const green = (argb[i] >>> 8) & 0xff;
+			const red = (((argb[i] >>> 16) & 0xff) - green) & 0xff;
+			const blue = ((argb[i] & 0xff) - green) & 0xff;
+			argb[i] = ((argb[i] & 0xff00ff00) | (red << 16) | blue) >>> 0;
+		}
+		writeImage(writer, argb, width, true);
+	}
+
+	const data = writer.finish();
+	const padding = data.length % 2;
+	const file = Buffer.alloc(20 + data.length + padding);
+	file.write("RIFF", 0, "latin1");
+	file.writeUInt32LE(12 + data.length + padding, 4);
+	file.write("WEBPVP8L", 8, "latin1");
+	file.writeUInt32LE(data.length, 16);
+	data.copy(file, 20);
+	return file;
+}
+
+/** Collects bits least significant first, as VP8L reads them. */
+class BitWriter {
+	private readonly chunks: Buffer[] = [];
+	private chunk = Buffer.alloc(1 << 16);
+	private length = 0;
+	private buffer = 0;
+	private bitCount = 0;
+
+	/** Append the low `bits` bits of `value` (at most 24). */
+	write(value: number, bits: number): void {
+		this.buffer |= value << this.bitCount;
+		this.bitCount += bits;
+		while (this.bitCount >= 8) {
+			if (this.length === this.chunk.length) {
+				this.chunks.push(this.chunk);
+				this.chunk = Buffer.alloc(this.chunk.length);
+				this.length = 0;
+			}
+			this.chunk[this.length++] = this.buffer & 0xff;
+			this.buffer >>>= 8;
+			this.bitCount -= 8;
+		}
+	}
+
+	finish(): Buffer {
+		if (this.bitCount > 0) this.write(0, 8 - this.bitCount);
+		return Buffer.concat([...this.chunks, this.chunk.subarray(0, this.length)]);
+	}
+}
+
+/** The distinct colors in order of appearance, or null when there are more than 256. */
+function findPalette(argb: Uint32Array): Uint32Array | null {
+	const colors = new Map<number, number>();
+	for (const color of argb) {
+		if (!colors.has(color)) {
+			if (colors.size === 256) return null;
+			colors.set(color, colors.size);
+		}
+	}
+	return Uint32Array.from(colors.keys());
+}
+
+/** Replace colors by palette indices, packing 2^bits indices into the green channel of each pixel. */
+function bundlePixels(
+	argb: Uint32Array,
+	width: number,
+	height: number,
+	palette: Uint32Array,
+	bits: number,
+): Uint32Array {
+	const indices = new Map<number, number>();
+	for (let i = 0; i < palette.length; i++) indices.set(palette[i], i);
+
+	const perCode = 1 << bits;
+	const bitsPerIndex = 8 >> bits;
+	const packedWidth = Math.ceil(width / perCode);
+	const packed = new Uint32Array(packedWidth * height);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const index = indices.get(argb[y * width + x]) ?? 0;
+			const p = y * packedWidth + (x >> bits);
+			packed[p] =
+				(packed[p] | 0xff000000 | (index << (8 + bitsPerIndex * (x & (perCode - 1))))) >>> 0;
+		}
+	}
+	return packed;
+}
+
+/** Channel-wise difference of two ARGB pixels, modulo 256. */
+function subtractPixels(a: number, b: number): number {
+	let result = 0;
+	for (let shift = 0; shift < 32; shift += 8) {
+		result |= ((((a >>> shift) & 0xff) - ((b >>> shift) & 0xff)) & 0xff) << shift;
+	}
+	return result >>> 0;
+}
+
+/**
+ * Write an entropy-coded image: color cache flag, the meta prefix code flag
+ * for the main image, five prefix codes, then the LZ77-coded pixels.
+ */
+function writeImage(writer: BitWriter, argb: Uint32Array, width: number, main: boolean): void {
+	writer.write(0, 1);
+	if (main) writer.write(0, 1);
+
+	const tokens = main ? findMatches(argb, width) : literalTokens(argb);
+
+	const green = new Uint32Array(GREEN_ALPHABET);
+	const red = new Uint32Array(256);
+	const blue = new Uint32Array(256);
+	const alpha = new Uint32Array(256);
+	const distance = new Uint32Array(DISTANCE_ALPHABET);
+	for (let t = 0; t < tokens.count; t++) {
+		const length = tokens.lengths[t];
+		const value = tokens.values[t];
+		if (length === 0) {
+			green[(value >>> 8) & 0xff]++;
+			red[(value >>> 16) & 0xff]++;
+			blue[value & 0xff]++;
+			alpha[value >>> 24]++;
+		} else {
+			green[256 + prefixCode(length)[0]]++;
+			distance[prefixCode(value)[0]]++;
+		}
+	}
+
+	const codes = [green, red, blue, alpha, distance].map((counts) => {
+		const lengths = codeLengths(counts, MAX_CODE_LENGTH);
+		writePrefixCode(writer, lengths);
+		return new PrefixCode(lengths);
+	});
+	const [greenCode, redCode, blueCode, alphaCode, distanceCode] = codes;
+
+	for (let t = 0; t < tokens.count; t++) {
+		const length = tokens.lengths[t];
+		const value = tokens.values[t];
+		if (length === 0) {
+			greenCode.write(writer, (value >>> 8) & 0xff);
+			redCode.write(writer, (value >>> 16) & 0xff);
+			blueCode.write(writer, value & 0xff);
+			alphaCode.write(writer, value >>> 24);
+		} else {
+			const [lengthCode, lengthBits, lengthExtra] = prefixCode(length);
+			greenCode.write(writer, 256 + lengthCode);
+			writer.write(lengthExtra, lengthBits);
+			const [distanceSymbol, distanceBits, distanceExtra] = prefixCode(value);
+			distanceCode.write(writer, distanceSymbol);
+			writer.write(distanceExtra, distanceBits);
+		}
+	}
+}
+
+/** LZ77 output: a literal pixel (length 0, value = ARGB) or a copy (length, value = distance code). */
+interface Tokens {
+	readonly lengths: Uint16Array;
+	readonly values: Uint32Array;
+	readonly count: number;
+}
+
+function literalTokens(argb: Uint32Array): Tokens {
+	return { lengths: new Uint16Array(argb.length), values: argb.slice(), count: argb.length };
+}
+
+/** Greedy LZ77 over pixels: the left and upper neighbors, then a hash chain of earlier pixel pairs. */
+function findMatches(argb: Uint32Array, width: number): Tokens {
+	const n = argb.length;
+	const lengths = new Uint16Array(n);
+	const values = new Uint32Array(n);
+	const head = new Int32Array(1 << HASH_BITS).fill(-1);
+	const chain = new Int32Array(n);
+	let count = 0;
+
+	const hash = (i: number) =>
+		(Math.imul(argb[i], 0x1e35a7bd) ^ Math.imul(argb[i + 1], 0x9e3779b1)) >>> (32 - HASH_BITS);
+	const insert = (i: number) => {
+		if (i + 1 < n) {
+			const h = hash(i);
+			chain[i] = head[h];
+			head[h] = i;
+		}
+	};
+	const matchLength = (from: number, at: number) => {
+		const limit = Math.min(MAX_MATCH, n - at);
+		let length = 0;
+		while (length < limit && argb[from + length] === argb[at + length]) length++;
+		return length;
+	};
+
+	let i = 0;
+	while (i < n) {
+		let bestLength = 0;
+		let bestDistance = 0;
+		if (i + MIN_MATCH <= n) {
+			// The plane codes for "above" and "left" are the cheapest, so they win ties
+			for (const distance of [width, 1]) {
+				if (distance <= i) {
+					const length = matchLength(i - distance, i);
+					if (length > bestLength) {
+						bestLength = length;
+						bestDistance = distance;
+					}
+				}
+			}
+			let candidate = head[hash(i)];
+			for (let steps = 0; candidate >= 0 && steps < MAX_CHAIN; steps++) {
+				if (i - candidate > WINDOW) break;
+				const length = matchLength(candidate, i);
+				if (length > bestLength) {
+					bestLength = length;
+					bestDistance = i - candidate;
+				}
+				candidate = chain[candidate];
+			}
+		}
+
+		if (bestLength >= MIN_MATCH) {
+			lengths[count] = bestLength;
+			values[count++] =
+				bestDistance === width ? 1 : bestDistance === 1 ? 2 : bestDistance + PLANE_CODES;
+			for (let k = 0; k < bestLength; k++) insert(i + k);
+			i += bestLength;
+		} else {
+			values[count++] = argb[i];
+			insert(i);
+			i++;
+		}
+	}
+
+	return { lengths, values, count };
+}
+
+/** Split a length or distance code (1 and up) into prefix symbol, extra bit count and extra bits. */
+function prefixCode(value: number): [symbol: number, bits: number, extra: number] {
+	const d = value - 1;
+	if (d < 4) return [d, 0, 0];
+	const highest = 31 - Math.clz32(d);
+	const second = (d >>> (highest - 1)) & 1;
+	const bits = highest - 1;
+	return [2 * highest + second, bits, d & ((1 << bits) - 1)];
+}
+
+/** Canonical prefix code, with codes bit-reversed for the LSB-first writer. */
+class PrefixCode {
+	private readonly lengths: Uint8Array;
+	private readonly codes: Uint32Array;
+
+	constructor(lengths: Uint8Array) {
+		// A code with a single symbol takes no bits at all
+		const used = lengths.reduce((sum, length) => sum + (length > 0 ? 1 : 0), 0);
+		this.lengths = used > 1 ? lengths : new Uint8Array(lengths.length);
+		this.codes = new Uint32Array(lengths.length);
+
+		const counts = new Uint32Array(MAX_CODE_LENGTH + 1);
+		for (const length of this.lengths) if (length > 0) counts[length]++;
+		const next = new Uint32Array(MAX_CODE_LENGTH + 1);
+		let code = 0;
+		for (let length = 1; length <= MAX_CODE_LENGTH; length++) {
+			next[length] = code;
+			code = (code + counts[length]) << 1;
+		}
+		for (let symbol = 0; symbol < this.lengths.length; symbol++) {
+			const length = this.lengths[symbol];
+			if (length > 0) this.codes[symbol] = reverseBits(next[length]++, length);
+		}
+	}
+
+	write(writer: BitWriter, symbol: number): void {
+		writer.write(this.codes[symbol], this.lengths[symbol]);
+	}
+}
+
+function reverseBits(code: number, length: number): number {
+	let reversed = 0;
+	for (let i = 0; i < length; i++) {
+		reversed = (reversed << 1) | ((code >>> i) & 1);
+	}
+	return reversed;
+}
+
+/**
+ * Huffman code lengths for symbol counts, at most `maxLength` bits. When the
+ * tree gets too deep, the counts are flattened and the tree rebuilt.
+ */
+function codeLengths(counts: Uint32Array, maxLength: number): Uint8Array {
+	const lengths = new Uint8Array(counts.length);
+	const symbols: number[] = [];
+	for (let s = 0; s < counts.length; s++) if (counts[s] > 0) symbols.push(s);
+	if (symbols.length === 1) {
+		lengths[symbols[0]] = 1;
+		return lengths;
+	}
+	if (symbols.length === 0) return lengths;
+
+	let weights = symbols.map((s) => counts[s]);
+	for (;;) {
+		const depths = huffmanDepths(weights);
+		if (Math.max(...depths) <= maxLength) {
+			for (let i = 0; i < symbols.length; i++) lengths[symbols[i]] = depths[i];
+			return lengths;
+		}
+		weights = weights.map((w) => Math.max(1, w >>> 1));
+	}
+}
+
+/** Depth of each leaf in a Huffman tree over the weights (two-queue construction). */
+function huffmanDepths(weights: readonly number[]): number[] {
+	const leaves = weights.map((weight, i) => ({ weight, i })).sort((a, b) => a.weight - b.weight);
+	// Nodes: leaves first, then internal nodes in creation order
+	const parent = new Int32Array(weights.length * 2).fill(-1);
+	const nodeWeights = leaves.map((l) => l.weight);
+	let leaf = 0;
+	const internal: number[] = [];
+	let nextInternal = 0;
+
+	const take = (): number => {
+		if (
+			leaf < leaves.length &&
+			(nextInternal >= internal.length || nodeWeights[leaf] <= nodeWeights[internal[nextInternal]])
+		) {
+			return leaf++;
+		}
+		return internal[nextInternal++];
+	};
+
+	for (let merges = 0; merges < leaves.length - 1; merges++) {
+		const a = take();
+		const b = take();
+		const node = nodeWeights.length;
+		nodeWeights.push(nodeWeights[a] + nodeWeights[b]);
+		parent[a] = node;
+		parent[b] = node;
+		internal.push(node);
+	}
+
+	const depths = new Array<number>(weights.length);
+	for (let l = 0; l < leaves.length; l++) {
+		let depth = 0;
+		for (let node = l; parent[node] >= 0; node = parent[node]) depth++;
+		depths[leaves[l].i] = depth;
+	}
+	return depths;
+}
+
+/** Write a prefix code's lengths: the simple form for up to two small symbols, else run-length coded. */
+function writePrefixCode(writer: BitWriter, lengths: Uint8Array): void {
+	const used: number[] = [];
+	for (let s = 0; s < lengths.length; s++) if (lengths[s] > 0) used.push(s);
+
+	if (used.length <= 2 && used.every((s) => s < 256)) {
+		const [first = 0, second] = used;
+		writer.write(1, 1);
+		writer.write(used.length === 2 ? 1 : 0, 1);
+		if (first < 2) {
+			writer.write(0, 1);
+			writer.write(first, 1);
+		} else {
+			writer.write(1, 1);
+			writer.write(first, 8);
+		}
+		if (second !== undefined) writer.write(second, 8);
+		return;
+	}
+
+	writer.write(0, 1);
+	const tokens = runLengths(lengths);
+	const counts = new Uint32Array(19);
+	for (const [symbol] of tokens) counts[symbol]++;
+	const codeLengthLengths = codeLengths(counts, MAX_CODE_LENGTH_CODE_LENGTH);
+
+	let stored = CODE_LENGTH_ORDER.length;
+	while (stored > 4 && codeLengthLengths[CODE_LENGTH_ORDER[stored - 1]] === 0) stored--;
+	writer.write(stored - 4, 4);
+	for (let i = 0; i < stored; i++) writer.write(codeLengthLengths[CODE_LENGTH_ORDER[i]], 3);
+	// No max_symbol: the lengths cover the whole alphabet
+	writer.write(0, 1);
+
+	const code = new PrefixCode(codeLengthLengths);
+	for (const [symbol, bits, extra] of tokens) {
+		code.write(writer, symbol);
+		writer.write(extra, bits);
+	}
+}
+
+/**
+ * Code lengths as code length symbols: 0-15 are lengths, 16 repeats the
+ * previous non-zero length 3-6 times, 17 and 18 write 3-10 and 11-138 zeros.
+ */
+function runLengths(lengths: Uint8Array): Array<[symbol: number, bits: number, extra: number]> {
+	const tokens: Array<[number, number, number]> = [];
+	let previous = 8;
+	let i = 0;
+	while (i < lengths.length) {
+		const value = lengths[i];
+		let run = 1;
+		while (i + run < lengths.length && lengths[i + run] === value) run++;
+		i += run;
+
+		if (value === 0) {
+			while (run >= 11) {
+				const repeat = Math.min(run, 138);
+				tokens.push([18, 7, repeat - 11]);
+				run -= repeat;
+			}
+			if (run >= 3) {
+				tokens.push([17, 3, run - 3]);
+				run = 0;
+			}
+		} else {
+			if (value !== previous) {
+				tokens.push([value, 0, 0]);
+				previous = value;
+				run--;
+			}
+			while (run >= 3) {
+				const repeat = Math.min(run, 6);
+				tokens.push([16, 2, repeat - 3]);
+				run -= repeat;
+			}
+		}
+		for (; run > 0; run--) tokens.push([value, 0, 0]);
+	}
+	return tokens;
+}
@@ -0,0 +1,652 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * VT100/ANSI terminal emulator for serial console streams.
+ *
+ * Installers, systemd and full-screen tools draw on the serial line as on a
+ * terminal: they move the cursor, clear the screen, scroll regions and set
+ * colors. Replaying the byte stream into a screen buffer gives what a
+ * terminal would show right now; lines scrolled off the top, and screens
+ * cleared as a whole, go into a rolling scrollback so the output also reads
+ * as a log. The emulation covers what these programs send to a VT100 or
+ * xterm (cursor movement, erasing, insert/delete, scroll regions, SGR colors,
+ * the alternate screen); replies to terminal queries are never sent.
+ */
+
+import { CP437, VGA_8X16 } from "../screen/fonts.js";
+import { VGA_PALETTE } from "../screen/palette.js";
+import type { BitmapFont, RgbaImage } from "../screen/types.js";
+import type { TerminalCursor, TerminalOptions } from "./types.js";
+
+const DEFAULT_COLUMNS = 80;
+const DEFAULT_ROWS = 24;
+const DEFAULT_SCROLLBACK_LINES = 5000;
+const TAB_WIDTH = 8;
+/** Default colors, as VGA palette indexes: light gray on black */
+const DEFAULT_FG = 7;
+const DEFAULT_BG = 0;
+/** Glyph rows the cursor covers at the bottom of its cell, like the VGA underline cursor */
+const CURSOR_HEIGHT = 2;
+/** ANSI color numbers (red = 1, blue = 4) → VGA palette indexes (blue = 1, red = 4) */
+const ANSI_TO_VGA = [0, 4, 2, 6, 1, 5, 3, 7, 8, 12, 10, 14, 9, 13, 11, 15];
+
+const ESC = 0x1b;
+const BEL = 0x07;
+
+/** Unicode character → code page 437 code; the first code wins for repeated characters. */
+const CP437_CODES = new Map<string, number>();
+for (const [code, char] of [...CP437].entries()) {
+	if (!CP437_CODES.has(char)) CP437_CODES.set(char, code);
+}
+const UNKNOWN_CODE = CP437_CODES.get("?") ?? 0;
+
+/** One character cell, with its colors as VGA palette indexes. */
+interface Cell {
+	readonly char: string;
+	readonly fg: number;
+	readonly bg: number;
+}
+
+/** Where the escape sequence parser is between chunks. */
+type ParserState = "text" | "escape" | "escapeIntermediate" | "csi" | "osc" | "oscEscape";
+
+/** Cursor position and attributes saved by ESC 7 / CSI s. */
+interface SavedCursor {
+	readonly row: number;
+	readonly column: number;
+	readonly fg: number;
+	readonly bg: number;
+	readonly bold: boolean;
+	readonly reverse: boolean;
+}
+
+export class Terminal {
+	readonly columns: number;
+	readonly rows: number;
+
+	private readonly maxHistory: number;
+	private readonly history: string[] = [];
+	private historyTotal = 0;
+	private readonly decoder = new TextDecoder("utf-8");
+
+	private screen: Cell[][];
+	/** The main screen while the alternate screen is shown */
+	private mainScreen: Cell[][] | null = null;
+	private row = 0;
+	private column = 0;
+	/** Set after writing the last column; the next character wraps to a new line first */
+	private wrapPending = false;
+	private scrollTop = 0;
+	private scrollBottom: number;
+	private autowrap = true;
+	private cursorVisible = true;
+	private saved: SavedCursor | null = null;
+
+	private fg = DEFAULT_FG;
+	private bg = DEFAULT_BG;
+	private bold = false;
+	private reverse = false;
+
+	private state: ParserState = "text";
+	private params = "";
+
+	constructor(options: TerminalOptions = {}) {
+		this.columns = options.columns ?? DEFAULT_COLUMNS;
+		this.rows = options.rows ?? DEFAULT_ROWS;
+		this.maxHistory = options.scrollbackLines ?? DEFAULT_SCROLLBACK_LINES;
+		this.scrollBottom = this.rows - 1;
+		this.screen = Array.from({ length: this.rows }, () => this.blankRow());
+	}
+
+	/** Cursor position, 0-based. */
+	get cursor(): TerminalCursor {
+		return { row: this.row, column: this.column, visible: this.cursorVisible };
+	}
+
+	/**
+	 * Lines written since the terminal started: those in (or dropped from)
+	 * the scrollback, and the screen rows in use.
+	 */
+	get totalLines(): number {
+		return this.historyTotal + this.lastUsedRow() + 1;
+	}
+
+	/** Replay serial output; multi-byte characters and escape sequences may be split across writes. */
+	write(data: Uint8Array | string): void {
+		const text = typeof data === "string" ? data : this.decoder.decode(data, { stream: true });
+		for (const char of text) {
+			this.put(char);
+		}
+	}
+
+	/** Screen rows as text, trailing spaces removed. */
+	screenText(): string[] {
+		return this.screen.map((row) => rowText(row));
+	}
+
+	/**
+	 * The last `count` lines of the output read as a log, oldest first: the
+	 * scrollback, then the screen down to the cursor or the last row with text.
+	 */
+	tail(count: number): string[] {
+		const screen = this.screenText().slice(0, this.lastUsedRow() + 1);
+		const lines = [...this.history, ...screen];
+		return lines.slice(Math.max(lines.length - count, 0));
+	}
+
+	/** Draw the screen with a VGA font and palette, with an underline cursor when it is visible. */
+	render(font: BitmapFont = VGA_8X16): RgbaImage {
+		const width = this.columns * font.width;
+		const height = this.rows * font.height;
+		const pixels = new Uint8Array(width * height * 4);
+
+		for (let row = 0; row < this.rows; row++) {
+			for (let column = 0; column < this.columns; column++) {
+				const cell = this.screen[row][column];
+				const code = CP437_CODES.get(cell.char) ?? UNKNOWN_CODE;
+				const isCursor = this.cursorVisible && row === this.row && column === this.column;
+				const fg = VGA_PALETTE[cell.fg];
+				const bg = VGA_PALETTE[cell.bg];
+
+				for (let gy = 0; gy < font.height; gy++) {
+					const bits =
+						isCursor && gy >= font.height - CURSOR_HEIGHT
+							? 0xff
+							: font.glyphs[code * font.height + gy];
+					let offset = ((row * font.height + gy) * width + column * font.width) * 4;
+					for (let gx = 0; gx < font.width; gx++, offset += 4) {
+						const [r, g, b] = bits & (0x80 >> gx) ? fg : bg;
+						pixels[offset] = r;
+						pixels[offset + 1] = g;
+						pixels[offset + 2] = b;
+						pixels[offset + 3] = 255;
+					}
+				}
+			}
+		}
+		return { width, height, pixels };
+	}
+
+	// --- Parser ---
+
+	private put(char: string): void {
+		const code = char.codePointAt(0) ?? 0;
+		switch (this.state) {
+			case "escape":
+				this.escape(char, code);
+				return;
+			case "escapeIntermediate":
+				// Character set designations and the like (ESC ( B): nothing to do
+				if (code < 0x20 || code > 0x2f) this.state = "text";
+				return;
+			case "csi":
+				if (code >= 0x40 && code <= 0x7e) {
+					this.state = "text";
+					this.controlSequence(this.params, char);
+				} else if (code === ESC) {
+					this.state = "escape";
+				} else if (code < 0x20) {
+					this.control(char);
+				} else {
+					this.params += char;
+				}
+				return;
+			case "osc":
+				// Window titles and the like: ignored up to BEL or ESC \
+				if (code === BEL) this.state = "text";
+				else if (code === ESC) this.state = "oscEscape";
+				return;
+			case "oscEscape":
+				this.state = char === "\\" ? "text" : "osc";
+				return;
+		}
+
+		if (code === ESC) {
+			this.state = "escape";
+		} else if (code < 0x20) {
+			this.control(char);
+		} else if (code !== 0x7f && (code < 0x80 || code > 0x9f)) {
+			this.print(char);
+		}
+	}
+
+	private control(char: string): void {
+		switch (char) {
+			case "\n":
+			case "\v":
+			case "\f":
+				this.lineFeed();
+				break;
+			case "\r":
+				this.moveTo(this.row, 0);
+				break;
+			case "\b":
+				this.moveTo(this.row, this.column - 1);
+				break;
+			case "\t":
+				this.moveTo(this.row, (Math.floor(this.column / TAB_WIDTH) + 1) * TAB_WIDTH);
+				break;
+		}
+	}
+
+	private escape(char: string, code: number): void {
+		this.state = "text";
+		switch (char) {
+			case "\x1b":
+				this.state = "escape";
+				return;
+			case "[":
+				this.state = "csi";
+				this.params = "";
+				return;
+			case "]":
+				this.state = "osc";
+				return;
+			case "7":
+				this.saveCursor();
+				return;
+			case "8":
+				this.restoreCursor();
+				return;
+			case "D":
+				this.lineFeed();
+				return;
+			case "E":
+				this.lineFeed();
+				this.moveTo(this.row, 0);
+				return;
+			case "M":
+				this.reverseLineFeed();
+				return;
+			case "c":
+				this.reset();
+				return;
+		}
+		if (code >= 0x20 && code <= 0x2f) this.state = "escapeIntermediate";
+	}
+
+	private controlSequence(params: string, final: string): void {
+		const isPrivate = params.startsWith("?");
+		const args = params
+			.replace(/^[?>=]/, "")
+			.split(";")
+			.map((arg) => Number.parseInt(arg, 10) || 0);
+		/** Argument `i`, with 0 and missing meaning `fallback` */
+		const arg = (i: number, fallback = 1) => args[i] || fallback;
+
+		switch (final) {
+			case "A":
+				this.moveTo(this.row - arg(0), this.column);
+				break;
+			case "B":
+			case "e":
+				this.moveTo(this.row + arg(0), this.column);
+				break;
+			case "C":
+			case "a":
+				this.moveTo(this.row, this.column + arg(0));
+				break;
+			case "D":
+				this.moveTo(this.row, this.column - arg(0));
+				break;
+			case "E":
+				this.moveTo(this.row + arg(0), 0);
+				break;
+			case "F":
+				this.moveTo(this.row - arg(0), 0);
+				break;
+			case "G":
+			case "`":
+				this.moveTo(this.row, arg(0) - 1);
+				break;
+			case "d":
+				this.moveTo(arg(0) - 1, this.column);
+				break;
+			case "H":
+			case "f":
+				this.moveTo(arg(0) - 1, arg(1) - 1);
+				break;
+			case "J":
+				this.eraseInDisplay(args[0]);
+				break;
+			case "K":
+				this.eraseInLine(args[0]);
+				break;
+			case "L":
+				if (this.inScrollRegion()) this.scrollDown(arg(0), this.row);
+				break;
+			case "M":
+				if (this.inScrollRegion()) this.scrollUp(arg(0), this.row);
+				break;
+			case "P":
+				this.deleteChars(arg(0));
+				break;
+			case "@":
+				this.insertChars(arg(0));
+				break;
+			case "X":
+				this.fill(this.row, this.column, this.column + arg(0));
+				break;
+			case "S":
+				this.scrollUp(arg(0), this.scrollTop);
+				break;
+			case "T":
+				this.scrollDown(arg(0), this.scrollTop);
+				break;
+			case "m":
+				this.selectGraphicRendition(args);
+				break;
+			case "r":
+				this.setScrollRegion(arg(0) - 1, arg(1, this.rows) - 1);
+				break;
+			case "s":
+				this.saveCursor();
+				break;
+			case "u":
+				this.restoreCursor();
+				break;
+			case "h":
+			case "l":
+				if (isPrivate) {
+					for (const mode of args) this.setMode(mode, final === "h");
+				}
+				break;
+		}
+	}
+
+	private setMode(mode: number, enabled: boolean): void {
+		switch (mode) {
+			case 7:
+				this.autowrap = enabled;
+				break;
+			case 25:
+				this.cursorVisible = enabled;
+				break;
+			case 47:
+			case 1047:
+			case 1049:
+				this.useAlternateScreen(enabled);
+				break;
+		}
+	}
+
+	private selectGraphicRendition(args: number[]): void {
+		for (let i = 0; i < args.length; i++) {
+			const code = args[i];
+			if (code === 0) {
+				this.fg = DEFAULT_FG;
+				this.bg = DEFAULT_BG;
+				this.bold = false;
+				this.reverse = false;
+			} else if (code === 1) {
+				this.bold = true;
+			} else if (code === 22) {
+				this.bold = false;
+			} else if (code === 7) {
+				this.reverse = true;
+			} else if (code === 27) {
+				this.reverse = false;
+			} else if (code >= 30 && code <= 37) {
+				this.fg = ANSI_TO_VGA[code - 30];
+			} else if (code >= 90 && code <= 97) {
+				this.fg = ANSI_TO_VGA[code - 90 + 8];
+			} else if (code === 39) {
+				this.fg = DEFAULT_FG;
+			} else if (code >= 40 && code <= 47) {
+				this.bg = ANSI_TO_VGA[code - 40];
+			} else if (code >= 100 && code <= 107) {
+				this.bg = ANSI_TO_VGA[code - 100 + 8];
+			} else if (code === 49) {
+				this.bg = DEFAULT_BG;
+			} else if (code === 38 || code === 48) {
+				// 256-color (5;n) and true color (2;r;g;b) are mapped to the nearest VGA color
+				let color: number | undefined;
+				if (args[i + 1] === 5) {
+					color = indexedColor(args[i + 2] ?? 0);
+					i += 2;
+				} else if (args[i + 1] === 2) {
+					color = nearestVgaColor(args[i + 2] ?? 0, args[i + 3] ?? 0, args[i + 4] ?? 0);
+					i += 4;
+				}
+				if (color !== undefined && code === 38) this.fg = color;
+				else if (color !== undefined) this.bg = color;
+			}
+		}
+	}
+
+	// --- Screen operations ---
+
+	private print(char: string): void {
+		if (this.wrapPending) {
+			this.wrapPending = false;
+			this.column = 0;
+			this.lineFeed();
+		}
+		this.screen[this.row][this.column] = this.cell(char);
+		if (this.column < this.columns - 1) {
+			this.column++;
+		} else if (this.autowrap) {
+			this.wrapPending = true;
+		}
+	}
+
+	private cell(char: string): Cell {
+		const fg = this.bold && this.fg < 8 ? this.fg + 8 : this.fg;
+		return this.reverse ? { char, fg: this.bg, bg: fg } : { char, fg, bg: this.bg };
+	}
+
+	private blank(): Cell {
+		return { char: " ", fg: DEFAULT_FG, bg: this.reverse ? this.fg : this.bg };
+	}
+
+	private blankRow(): Cell[] {
+		const blank = this.blank();
+		return Array.from({ length: this.columns }, () => blank);
+	}
+
+	private moveTo(row: number, column: number): void {
+		this.row = Math.min(Math.max(row, 0), this.rows - 1);
+		this.column = Math.min(Math.max(column, 0), this.columns - 1);
+		this.wrapPending = false;
+	}
+
+	private lineFeed(): void {
+		this.wrapPending = false;
+		if (this.row === this.scrollBottom) {
+			this.scrollUp(1, this.scrollTop);
+		} else if (this.row < this.rows - 1) {
+			this.row++;
+		}
+	}
+
+	private reverseLineFeed(): void {
+		this.wrapPending = false;
+		if (this.row === this.scrollTop) {
+			this.scrollDown(1, this.scrollTop);
+		} else if (this.row > 0) {
+			this.row--;
+		}
+	}
+
+	private inScrollRegion(): boolean {
+		return this.row >= this.scrollTop && this.row <= this.scrollBottom;
+	}
+
+	/** Scroll rows `top`..scrollBottom up by `count`; rows leaving the top of the main screen go to the scrollback. */
+	private scrollUp(count: number, top: number): void {
+		const n = Math.min(count, this.scrollBottom - top + 1);
+		const removed = this.screen.splice(top, n);
+		if (top === 0 && !this.mainScreen) {
+			for (const row of removed) this.addHistory(rowText(row));
+		}
+		const blanks = Array.from({ length: n }, () => this.blankRow());
+		this.screen.splice(this.scrollBottom - n + 1, 0, ...blanks);
+	}
+
+	/** Scroll rows `top`..scrollBottom down by `count`, dropping the bottom rows. */
+	private scrollDown(count: number, top: number): void {
+		const n = Math.min(count, this.scrollBottom - top + 1);
+		this.screen.splice(this.scrollBottom - n + 1, n);
+		const blanks = Array.from({ length: n }, () => this.blankRow());
+		this.screen.splice(top, 0, ...blanks);
+	}
+
+	private eraseInDisplay(mode: number): void {
+		if (mode === 0) {
+			this.fill(this.row, this.column, this.columns);
+			for (let row = this.row + 1; row < this.rows; row++) this.fill(row, 0, this.columns);
+		} else if (mode === 1) {
+			for (let row = 0; row < this.row; row++) this.fill(row, 0, this.columns);
+			this.fill(this.row, 0, this.column + 1);
+		} else if (mode === 2) {
+			// Keep a cleared main screen in the scrollback, so redraws do not lose the log
+			if (!this.mainScreen) {
+				for (const line of this.screenText().slice(0, this.lastUsedRow() + 1)) {
+					this.addHistory(line);
+				}
+			}
+			for (let row = 0; row < this.rows; row++) this.fill(row, 0, this.columns);
+		} else if (mode === 3) {
+			this.history.length = 0;
+		}
+	}
+
+	private eraseInLine(mode: number): void {
+		if (mode === 0) this.fill(this.row, this.column, this.columns);
+		else if (mode === 1) this.fill(this.row, 0, this.column + 1);
+		else if (mode === 2) this.fill(this.row, 0, this.columns);
+	}
+
+	/** Blank columns `from` (inclusive) to `to` (exclusive) of a row. */
+	private fill(row: number, from: number, to: number): void {
+		const blank = this.blank();
+		for (let column = from; column < Math.min(to, this.columns); column++) {
+			this.screen[row][column] = blank;
+		}
+	}
+
+	private deleteChars(count: number): void {
+		const line = this.screen[this.row];
+		const n = Math.min(count, this.columns - this.column);
+		line.splice(this.column, n);
+		const blank = this.blank();
+		for (let i = 0; i < n; i++) line.push(blank);
+	}
+
+	private insertChars(count: number): void {
+		const line = this.screen[this.row];
+		const n = Math.min(count, this.columns - this.column);
+		const blank = this.blank();
+		line.splice(this.column, 0, ...Array.from({ length: n }, () => blank));
+		line.length = this.columns;
+	}
+
+	private setScrollRegion(top: number, bottom: number): void {
+		const clampedBottom = Math.min(bottom, this.rows - 1);
+		if (top < 0 || top >= clampedBottom) return;
+		this.scrollTop = top;
+		this.scrollBottom = clampedBottom;
+		this.moveTo(0, 0);
+	}
+
+	private useAlternateScreen(enabled: boolean): void {
+		if (enabled && !this.mainScreen) {
+			this.saveCursor();
+			this.mainScreen = this.screen;
+			this.screen = Array.from({ length: this.rows }, () => this.blankRow());
+		} else if (!enabled && this.mainScreen) {
+			this.screen = this.mainScreen;
+			this.mainScreen = null;
+			this.restoreCursor();
+		}
+	}
+
+	private saveCursor(): void {
+		const { row, column, fg, bg, bold, reverse } = this;
+		this.saved = { row, column, fg, bg, bold, reverse };
+	}
+
+	private restoreCursor(): void {
+		const saved = this.saved ?? {
+			row: 0,
+			column: 0,
+			fg: DEFAULT_FG,
+			bg: DEFAULT_BG,
+			bold: false,
+			reverse: false,
+		};
+		this.fg = saved.fg;
+		this.bg = saved.bg;
+		this.bold = saved.bold;
+		this.reverse = saved.reverse;
+		this.moveTo(saved.row, saved.column);
+	}
+
+	/** ESC c: back to the initial state; the screen is cleared into the scrollback. */
+	private reset(): void {
+		this.fg = DEFAULT_FG;
+		this.bg = DEFAULT_BG;
+		this.bold = false;
+		this.reverse = false;
+		this.useAlternateScreen(false);
+		this.eraseInDisplay(2);
+		this.scrollTop = 0;
+		this.scrollBottom = this.rows - 1;
+		this.autowrap = true;
+		this.cursorVisible = true;
+		this.saved = null;
+		this.moveTo(0, 0);
+	}
+
+	private addHistory(line: string): void {
+		this.history.push(line);
+		if (this.history.length > this.maxHistory) this.history.shift();
+		this.historyTotal++;
+	}
+
+	/** Last screen row that belongs to the log: rows above the cursor, and any row with text. */
+	private lastUsedRow(): number {
+		const last = this.row - 1;
+		for (let row = this.rows - 1; row > last; row--) {
+			if (this.screen[row].some((cell) => cell.char !== " ")) return row;
+		}
+		return last;
+	}
+}
+
+function rowText(row: readonly Cell[]): string {
+	return row
+		.map((cell) => cell.char)
+		.join("")
+		.trimEnd();
+}
+
+/** A 256-color palette index as the nearest of the 16 VGA colors. */
+function indexedColor(index: number): number {
+	if (index < 16) return ANSI_TO_VGA[index];
+	if (index < 232) {
+		const levels = [0, 95, 135, 175, 215, 255];
+		const i = index - 16;
+		return nearestVgaColor(
+			levels[Math.floor(i / 36)],
+			levels[Math.floor(i / 6) % 6],
+			levels[i % 6],
+		);
+	}
+	const gray = 8 + (index - 232) * 10;
+	return nearestVgaColor(gray, gray, gray);
+}
+
+function nearestVgaColor(r: number, g: number, b: number): number {
+	let best = 0;
+	let bestDistance = Number.POSITIVE_INFINITY;
+	for (const [i, [pr, pg, pb]] of VGA_PALETTE.entries()) {
+		const distance = (r - pr) ** 2 + (g - pg) ** 2 + (b - pb) ** 2;
+		if (distance < bestDistance) {
+			best = i;
+			bestDistance = distance;
+		}
+	}
+	return best;
+}
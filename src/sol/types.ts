@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Types for serial console terminals.
+ */
+
+/** Options for a terminal emulator. */
+export interface TerminalOptions {
+	/** Screen size in characters (default: 80x24) */
+	readonly columns?: number;
+	readonly rows?: number;
+	/** Lines kept in the scrollback (default: 5000) */
+	readonly scrollbackLines?: number;
+}
+
+/** Cursor position on a terminal screen, 0-based. */
+export interface TerminalCursor {
+	readonly row: number;
+	readonly column: number;
+	readonly visible: boolean;
+}
@@ -0,0 +1,142 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Keyboard and pointer input for VNC/RFB servers over WebSocket.
+ */
+
+import { pointerActionToStates } from "../input/pointer.js";
+import type { KeyStroke, PointerAction, PointerButton } from "../input/types.js";
+import { charToKeysym, keyStrokeToKeysyms } from "./keysyms.js";
+import { RfbClient } from "./rfb-client.js";
+import { framebufferToPng, type ScreenshotResult } from "./screenshot.js";
+import type { Framebuffer, ServerInit, VncInputOptions } from "./types.js";
+
+const DEFAULT_KEY_DELAY = 50;
+const DEFAULT_POINTER_DELAY = 20;
+const DEFAULT_SETTLE_DELAY = 500;
+
+/** Button bits in the PointerEvent button mask (RFC 6143 §7.5.5). */
+const BUTTON_MASK: Record<PointerButton, number> = {
+	left: 0x01,
+	middle: 0x02,
+	right: 0x04,
+};
+
+/**
+ * Connect to a VNC server via WebSocket and press and release key strokes in order.
+ *
+ * @param wsUrl - WebSocket URL of the VNC server
+ * @param keys - Key strokes; modifiers are held while the key is pressed
+ * @param options - Connection, pacing and post-input screenshot options
+ * @returns The post-input screenshot when `options.screenshot` is set
+ */
+export async function sendVncKeys(
+	wsUrl: string,
+	keys: readonly KeyStroke[],
+	options?: VncInputOptions,
+): Promise<ScreenshotResult | undefined> {
+	const chords = keys.map(keyStrokeToKeysyms);
+	const delay = options?.keyDelay ?? DEFAULT_KEY_DELAY;
+
+	return withVncClient(wsUrl, options, async (client) => {
+		for (let i = 0; i < chords.length; i++) {
+			if (i > 0) await sleep(delay);
+			const { modifiers, key } = chords[i];
+			for (const sym of modifiers) client.sendKey(sym, true);
+			client.sendKey(key, true);
+			client.sendKey(key, false);
+			for (const sym of [...modifiers].reverse()) client.sendKey(sym, false);
+		}
+	});
+}
+
+/**
+ * Connect to a VNC server via WebSocket and type text as keysyms.
+ * The server maps symbols through its own keymap, so no layout is needed.
+ *
+ * @param wsUrl - WebSocket URL of the VNC server
+ * @param text - Text to type; newlines press Return
+ * @param options - Connection, pacing and post-input screenshot options
+ * @returns The post-input screenshot when `options.screenshot` is set
+ */
+export async function typeVncText(
+	wsUrl: string,
+	text: string,
+	options?: VncInputOptions,
+): Promise<ScreenshotResult | undefined> {
+	const keysyms = Array.from(text.replace(/\r\n?/g, "\n"), charToKeysym);
+	const delay = options?.keyDelay ?? DEFAULT_KEY_DELAY;
+
+	return withVncClient(wsUrl, options, async (client) => {
+		for (let i = 0; i < keysyms.length; i++) {
+			if (i > 0) await sleep(delay);
+			client.sendKey(keysyms[i], true);
+			client.sendKey(keysyms[i], false);
+		}
+	});
+}
+
+/**
+ * Connect to a VNC server via WebSocket and perform a mouse action.
+ * Positions are clamped to the framebuffer.
+ *
+ * @param wsUrl - WebSocket URL of the VNC server
+ * @param action - Pointer action in framebuffer pixel coordinates
+ * @param options - Connection, pacing and post-input screenshot options
+ * @returns The post-input screenshot when `options.screenshot` is set
+ */
+export async function sendVncPointer(
+	wsUrl: string,
+	action: PointerAction,
+	options?: VncInputOptions,
+): Promise<ScreenshotResult | undefined> {
+	const states = pointerActionToStates(action);
+	const delay = options?.pointerDelay ?? DEFAULT_POINTER_DELAY;
+
+	return withVncClient(wsUrl, options, async (client, { width, height }) => {
+		for (let i = 0; i < states.length; i++) {
+			if (i > 0) await sleep(delay);
+			const { x, y, buttons } = states[i];
+			let mask = 0;
+			for (const button of buttons) {
+				mask |= BUTTON_MASK[button];
+			}
+			client.sendPointer(
+				Math.min(Math.max(x, 0), width - 1),
+				Math.min(Math.max(y, 0), height - 1),
+				mask,
+			);
+		}
+	});
+}
+
+/** Connect, run `send`, optionally capture the screen afterwards, and disconnect. */
+async function withVncClient(
+	wsUrl: string,
+	options: VncInputOptions | undefined,
+	send: (client: RfbClient, serverInit: ServerInit) => Promise<void>,
+): Promise<ScreenshotResult | undefined> {
+	const client = new RfbClient(wsUrl, options);
+
+	let framebuffer: Framebuffer | undefined;
+	try {
+		const serverInit = await client.connect();
+		await send(client, serverInit);
+
+		if (options?.screenshot) {
+			await sleep(options.settleDelay ?? DEFAULT_SETTLE_DELAY);
+			framebuffer = await client.capture();
+		}
+	} finally {
+		client.disconnect();
+	}
+
+	return framebuffer
+		? { png: framebufferToPng(framebuffer), width: framebuffer.width, height: framebuffer.height }
+		: undefined;
+}
+
+function sleep(ms: number): Promise<void> {
+	return ms > 0 ? new Promise((resolve) => setTimeout(resolve, ms)) : Promise.resolve();
+}
@@ -0,0 +1,112 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * X11 keysyms for RFB KeyEvent messages.
+ *
+ * RFB sends symbols rather than key positions: the server (QEMU, libvirt)
+ * maps each keysym back to a scancode through its own keymap. Named keys
+ * use the X11 function keysyms (0xff00 range), Latin-1 characters are
+ * their own keysym, and any other Unicode character is 0x01000000 + code point.
+ */
+
+import type { KeyStroke, Modifier } from "../input/types.js";
+
+/** Keysyms for modifiers held during a chord. */
+export const MODIFIER_KEYSYMS: Record<Modifier, number> = {
+	ctrl: 0xffe3, // Control_L
+	shift: 0xffe1, // Shift_L
+	alt: 0xffe9, // Alt_L
+	meta: 0xffeb, // Super_L
+	altgr: 0xfe03, // ISO_Level3_Shift
+};
+
+/** `KeyboardEvent.code` → [keysym, keysym with Shift] on a US keyboard. */
+const CODE_KEYSYMS: Record<string, readonly [number, number?]> = {
+	Enter: [0xff0d],
+	Escape: [0xff1b],
+	Backspace: [0xff08],
+	Tab: [0xff09],
+	Space: [0x20],
+	Minus: [0x2d, 0x5f],
+	Equal: [0x3d, 0x2b],
+	BracketLeft: [0x5b, 0x7b],
+	BracketRight: [0x5d, 0x7d],
+	Backslash: [0x5c, 0x7c],
+	IntlBackslash: [0x3c, 0x3e],
+	Semicolon: [0x3b, 0x3a],
+	Quote: [0x27, 0x22],
+	Backquote: [0x60, 0x7e],
+	Comma: [0x2c, 0x3c],
+	Period: [0x2e, 0x3e],
+	Slash: [0x2f, 0x3f],
+	CapsLock: [0xffe5],
+	PrintScreen: [0xff61],
+	ScrollLock: [0xff14],
+	Pause: [0xff13],
+	Insert: [0xff63],
+	Home: [0xff50],
+	PageUp: [0xff55],
+	Delete: [0xffff],
+	End: [0xff57],
+	PageDown: [0xff56],
+	ArrowRight: [0xff53],
+	ArrowLeft: [0xff51],
+	ArrowDown: [0xff54],
+	ArrowUp: [0xff52],
+	NumLock: [0xff7f],
+	NumpadDivide: [0xffaf],
+	NumpadMultiply: [0xffaa],
+	NumpadSubtract: [0xffad],
+	NumpadAdd: [0xffab],
+	NumpadEnter: [0xff8d],
+	NumpadDecimal: [0xffae],
+	ContextMenu: [0xff67],
+	ControlLeft: [0xffe3],
+	ShiftLeft: [0xffe1],
+	AltLeft: [0xffe9],
+	MetaLeft: [0xffeb],
+	ControlRight: [0xffe4],
+	ShiftRight: [0xffe2],
+	AltRight: [0xffea],
+	MetaRight: [0xffec],
+};
+for (const c of "ABCDEFGHIJKLMNOPQRSTUVWXYZ") {
+	CODE_KEYSYMS[`Key${c}`] = [c.toLowerCase().charCodeAt(0), c.charCodeAt(0)];
+}
+")!@#$%^&*(".split("").forEach((shifted, d) => {
+	CODE_KEYSYMS[`Digit${d}`] = [0x30 + d, shifted.charCodeAt(0)];
+	CODE_KEYSYMS[`Numpad${d}`] = [0xffb0 + d];
+});
+for (let i = 1; i <= 12; i++) {
+	CODE_KEYSYMS[`F${i}`] = [0xffbd + i];
+}
+
+/**
+ * Resolve a key stroke to the keysyms to hold (modifiers, in order) and the key itself.
+ * With Shift held, printable keys send their shifted symbol as an X11 client would.
+ */
+export function keyStrokeToKeysyms(stroke: KeyStroke): { modifiers: number[]; key: number } {
+	const syms = CODE_KEYSYMS[stroke.code];
+	if (!syms) {
+		throw new Error(`Key "${stroke.code}" has no keysym`);
+	}
+
+	const shifted = stroke.modifiers.includes("shift") ? syms[1] : undefined;
+	return {
+		modifiers: stroke.modifiers.map((m) => MODIFIER_KEYSYMS[m]),
+		key: shifted ?? syms[0],
+	};
+}
+
+/** Keysym that types a single character (code point) of text. */
+export function charToKeysym(char: string): number {
+	if (char === "\n") return 0xff0d; // Return
+	if (char === "\t") return 0xff09; // Tab
+
+	const cp = char.codePointAt(0) ?? 0;
+	if ((cp >= 0x20 && cp <= 0x7e) || (cp >= 0xa0 && cp <= 0xff)) return cp;
+	if (cp > 0xff) return 0x01000000 + cp;
+
+	throw new Error(`Character U+${cp.toString(16).toUpperCase().padStart(4, "0")} has no keysym`);
+}
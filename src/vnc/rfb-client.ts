@@ -2,8 +2,9 @@
 // SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
 
 /**
- * Minimal RFB (VNC) protocol client for screenshot capture.
- * Connects via WebSocket, performs handshake, and captures framebuffer.
+ * Minimal RFB (VNC) protocol client for screenshot capture and input.
+ * Connects via WebSocket, performs handshake, captures framebuffer,
+ * and sends key, pointer and clipboard events.
  */
 
 import { decodeCopyRect, decodeRaw } from "./encodings.js";
@@ -68,6 +69,63 @@ export class RfbClient {
 		};
 	}
 
+	/** Press (`down`) or release a key, identified by its X11 keysym. */
+	sendKey(keysym: number, down: boolean): void {
+		this.ensureConnected();
+
+		const buf = new Uint8Array(8);
+		const view = new DataView(buf.buffer);
+
+		buf[0] = ClientMessageType.KeyEvent;
+		buf[1] = down ? 1 : 0;
+		// bytes 2-3: padding
+		view.setUint32(4, keysym);
+
+		this.send(buf);
+	}
+
+	/**
+	 * Move the pointer to (x, y) with the buttons in `buttonMask` held
+	 * (bit 0 = left, 1 = middle, 2 = right, 3/4 = wheel up/down).
+	 */
+	sendPointer(x: number, y: number, buttonMask: number): void {
+		this.ensureConnected();
+
+		const buf = new Uint8Array(6);
+		const view = new DataView(buf.buffer);
+
+		buf[0] = ClientMessageType.PointerEvent;
+		buf[1] = buttonMask;
+		view.setUint16(2, x);
+		view.setUint16(4, y);
+
+		this.send(buf);
+	}
+
+	/** Set the server's clipboard. RFB cut text is Latin-1 only. */
+	sendClipboard(text: string): void {
+		this.ensureConnected();
+
+		const bytes = new Uint8Array(text.length);
+		for (let i = 0; i < text.length; i++) {
+			const code = text.charCodeAt(i);
+			if (code > 0xff) {
+				throw new Error(`Clipboard text contains a character outside Latin-1 at index ${i}`);
+			}
+			bytes[i] = code;
+		}
+
+		const buf = new Uint8Array(8 + bytes.length);
+		const view = new DataView(buf.buffer);
+
+		buf[0] = ClientMessageType.ClientCutText;
+		// bytes 1-3: padding
+		view.setUint32(4, bytes.length);
+		buf.set(bytes, 8);
+
+		this.send(buf);
+	}
+
 	/** Disconnect from the server. */
 	disconnect(): void {
 		if (this.ws) {
@@ -154,6 +212,12 @@ export class RfbClient {
 		return result;
 	}
 
+	private ensureConnected(): void {
+		if (!this.serverInit) {
+			throw new Error("Not connected — call connect() first");
+		}
+	}
+
 	private send(data: Uint8Array | ArrayBuffer): void {
 		if (!this.ws) throw new Error("WebSocket not connected");
 		this.ws.send(data);
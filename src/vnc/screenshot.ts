@@ -5,7 +5,7 @@
  * High-level screenshot capture from a VNC/RFB server over WebSocket.
  */
 
-import { PNG } from "pngjs";
+import { encodeFramePng } from "../screen/image.js";
 import { RfbClient } from "./rfb-client.js";
 import type { Framebuffer, RfbClientOptions } from "./types.js";
 
@@ -41,9 +41,7 @@ export async function captureScreenshot(
 	}
 }
 
-/** Encode raw RGBA pixel data as PNG. */
+/** Encode raw RGBA pixel data as PNG, indexed for low-color (text-mode) frames. */
 export function framebufferToPng(fb: Framebuffer): Buffer {
-	const png = new PNG({ width: fb.width, height: fb.height });
-	png.data = Buffer.from(fb.pixels);
-	return PNG.sync.write(png);
+	return encodeFramePng(fb);
 }
@@ -89,6 +89,18 @@ export interface RfbClientOptions {
 	readonly readTimeout?: number;
 }
 
+/** Options for sending input to a VNC server */
+export interface VncInputOptions extends RfbClientOptions {
+	/** Delay between keystrokes in ms (default: 50) */
+	readonly keyDelay?: number;
+	/** Delay between pointer movements in ms (default: 20) */
+	readonly pointerDelay?: number;
+	/** Capture a screenshot after the input has been sent (default: false) */
+	readonly screenshot?: boolean;
+	/** Time to let the screen settle before the screenshot in ms (default: 500) */
+	readonly settleDelay?: number;
+}
+
 /** Default RGBA pixel format we request from the server */
 export const PIXEL_FORMAT_RGBA: PixelFormat = {
 	bitsPerPixel: 32,
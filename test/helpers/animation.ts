@@ -0,0 +1,185 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Minimal APNG and GIF decoders for checking recordings: they play the
+ * animation frame by frame and return the composited canvas after each one.
+ * Only what the encoder in src/screen/animation.ts writes is supported.
+ */
+
+import { inflateSync } from "node:zlib";
+import type { RgbaImage } from "../../src/screen/types.js";
+
+export interface DecodedFrame {
+	/** The whole canvas once this frame is drawn */
+	image: RgbaImage;
+	/** Rectangle the frame covers */
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+	/** Display time in ms */
+	delay: number;
+}
+
+export interface DecodedAnimation {
+	width: number;
+	height: number;
+	frames: DecodedFrame[];
+}
+
+/** Decode an animated PNG written with RGB color, no interlacing and filter type 0. */
+export function decodeApng(data: Buffer): DecodedAnimation {
+	let offset = 8;
+	let width = 0;
+	let height = 0;
+	let canvas = new Uint8Array(0);
+	const frames: DecodedFrame[] = [];
+	let control: Omit<DecodedFrame, "image"> | null = null;
+
+	while (offset < data.length) {
+		const length = data.readUInt32BE(offset);
+		const type = data.toString("latin1", offset + 4, offset + 8);
+		const body = data.subarray(offset + 8, offset + 8 + length);
+		offset += 12 + length;
+
+		if (type === "IHDR") {
+			width = body.readUInt32BE(0);
+			height = body.readUInt32BE(4);
+			canvas = new Uint8Array(width * height * 4);
+		} else if (type === "fcTL") {
+			control = {
+				width: body.readUInt32BE(4),
+				height: body.readUInt32BE(8),
+				x: body.readUInt32BE(12),
+				y: body.readUInt32BE(16),
+				delay: (body.readUInt16BE(20) * 1000) / body.readUInt16BE(22),
+			};
+		} else if ((type === "IDAT" || type === "fdAT") && control) {
+			const raw = inflateSync(type === "fdAT" ? body.subarray(4) : body);
+			const rowLength = 1 + control.width * 3;
+			for (let y = 0; y < control.height; y++) {
+				if (raw[y * rowLength] !== 0) throw new Error("Unsupported PNG filter");
+				for (let x = 0; x < control.width; x++) {
+					const i = y * rowLength + 1 + x * 3;
+					const o = ((control.y + y) * width + control.x + x) * 4;
+					canvas.set([raw[i], raw[i + 1], raw[i + 2], 255], o);
+				}
+			}
+			frames.push({ ...control, image: { width, height, pixels: canvas.slice() } });
+			control = null;
+		}
+	}
+
+	return { width, height, frames };
+}
+
+/** Decode a GIF with a global color table and no interlacing. */
+export function decodeGif(data: Buffer): DecodedAnimation {
+	const width = data.readUInt16LE(6);
+	const height = data.readUInt16LE(8);
+	const palette = data.subarray(13, 13 + 256 * 3);
+	const canvas = new Uint8Array(width * height * 4);
+	const frames: DecodedFrame[] = [];
+	let delay = 0;
+	let offset = 13 + 256 * 3;
+
+	const readSubBlocks = (): Buffer => {
+		const blocks: Buffer[] = [];
+		while (data[offset] !== 0) {
+			blocks.push(data.subarray(offset + 1, offset + 1 + data[offset]));
+			offset += 1 + data[offset];
+		}
+		offset++;
+		return Buffer.concat(blocks);
+	};
+
+	while (data[offset] !== 0x3b) {
+		if (data[offset] === 0x21) {
+			if (data[offset + 1] === 0xf9) delay = data.readUInt16LE(offset + 4) * 10;
+			offset += 2;
+			readSubBlocks();
+		} else if (data[offset] === 0x2c) {
+			const x = data.readUInt16LE(offset + 1);
+			const y = data.readUInt16LE(offset + 3);
+			const w = data.readUInt16LE(offset + 5);
+			const h = data.readUInt16LE(offset + 7);
+			const minCodeSize = data[offset + 10];
+			offset += 11;
+			const indices = lzwDecode(readSubBlocks(), minCodeSize, w * h);
+			for (let i = 0; i < w * h; i++) {
+				const p = indices[i] * 3;
+				const o = ((y + Math.floor(i / w)) * width + x + (i % w)) * 4;
+				canvas.set([palette[p], palette[p + 1], palette[p + 2], 255], o);
+			}
+			frames.push({
+				x,
+				y,
+				width: w,
+				height: h,
+				delay,
+				image: { width, height, pixels: canvas.slice() },
+			});
+		} else {
+			throw new Error(`Unexpected GIF block 0x${data[offset].toString(16)}`);
+		}
+	}
+
+	return { width, height, frames };
+}
+
+function lzwDecode(data: Buffer, minCodeSize: number, count: number): Uint8Array {
+	const clearCode = 1 << minCodeSize;
+	const endCode = clearCode + 1;
+	const out = new Uint8Array(count);
+	let n = 0;
+
+	let table: number[][] = [];
+	let codeSize = minCodeSize + 1;
+	let previous: number[] | null = null;
+	let bitBuffer = 0;
+	let bitCount = 0;
+	let offset = 0;
+
+	const reset = () => {
+		table = Array.from({ length: clearCode + 2 }, (_, i) => [i]);
+		codeSize = minCodeSize + 1;
+		previous = null;
+	};
+	reset();
+
+	for (;;) {
+		while (bitCount < codeSize) {
+			if (offset >= data.length) throw new Error("LZW data ended without an end code");
+			bitBuffer |= data[offset++] << bitCount;
+			bitCount += 8;
+		}
+		const code = bitBuffer & ((1 << codeSize) - 1);
+		bitBuffer >>>= codeSize;
+		bitCount -= codeSize;
+
+		if (code === clearCode) {
+			reset();
+			continue;
+		}
+		if (code === endCode) break;
+
+		let entry: number[];
+		if (code < table.length) {
+			entry = table[code];
+		} else if (previous && code === table.length) {
+			entry = [...previous, previous[0]];
+		} else {
+			throw new Error(`Invalid LZW code ${code}`);
+		}
+		if (previous && table.length < 4096) {
+			table.push([...previous, entry[0]]);
+			if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+		}
+		for (const index of entry) out[n++] = index;
+		previous = entry;
+	}
+
+	if (n !== count) throw new Error(`Expected ${count} pixels, decoded ${n}`);
+	return out;
+}
@@ -10,6 +10,7 @@
  * 3. /api/kvm/token endpoint (returns KVM auth token)
  * 4. /libs/kvm/ast/decode_worker.js endpoint (AST2500 decoder JS)
  * 5. WebSocket at /kvm with IVTP protocol handshake and AST2500 video frame delivery
+ * 6. USB HID input packets (IUSB-framed keyboard and mouse reports), recorded for assertions
  */
 
 import type { Server as BunServerType, ServerWebSocket } from "bun";
@@ -20,6 +21,7 @@ type BunServer = BunServerType<undefined>;
 const IVTP = {
 	HDR_SIZE: 8,
 	VIDEO_PACKET_SIZE: 373,
+	CMD_HID_PKT: 0x01,
 	CMD_RESUME_REDIRECTION: 0x06,
 	CMD_GET_FULL_SCREEN: 0x0b,
 	CMD_VALIDATE_VIDEO_SESSION: 0x12,
@@ -30,6 +32,31 @@ const IVTP = {
 	CMD_CONNECTION_COMPLETE_PKT: 0x3a,
 } as const;
 
+/** IUSB framing constants matching the real AMI firmware. */
+const IUSB = {
+	HDR_SIZE: 32,
+	DEVICE_KEYBOARD: 0x30,
+	DEVICE_MOUSE: 0x31,
+} as const;
+
+/** A USB boot keyboard report received over the KVM WebSocket. */
+export interface MockKeyboardReport {
+	/** Modifier bitmap (bit 0 = left Ctrl, 1 = left Shift, 2 = left Alt, ...) */
+	modifiers: number;
+	/** Pressed key usage IDs (empty for a release report) */
+	keys: number[];
+}
+
+/** An absolute USB mouse report received over the KVM WebSocket. */
+export interface MockMouseReport {
+	/** Button bitmap (bit 0 = left, 1 = right, 2 = middle) */
+	buttons: number;
+	/** Absolute X position, 0..32767 across the screen */
+	x: number;
+	/** Absolute Y position, 0..32767 down the screen */
+	y: number;
+}
+
 export interface MockBmcServerOptions {
 	port?: number;
 	/** Session cookie value to set */
@@ -53,16 +80,55 @@ export interface MockBmcServerOptions {
 	rejectValidation?: boolean;
 }
 
+/** A filled rectangle drawn by the mock decoder. */
+interface MockPaintOp {
+	color: [number, number, number];
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
 export class MockBmcServer {
 	private server: BunServer | null = null;
 	private readonly options: MockBmcServerOptions;
 	readonly width: number;
 	readonly height: number;
+	/** Keyboard reports received from KVM clients, in arrival order. */
+	readonly keyEvents: MockKeyboardReport[] = [];
+	/** Mouse reports received from KVM clients, in arrival order. */
+	readonly mouseEvents: MockMouseReport[] = [];
+	/** KVM WebSocket connections accepted since start. */
+	connectionCount = 0;
+	/** CMD_POWER_STATUS requests received (handshake and keep-alives). */
+	powerStatusRequests = 0;
+	private readonly sockets = new Set<ServerWebSocket>();
+	private rejectedUpgrades = 0;
+	private stalledFrames = 0;
+	/** Held-back video fragments, sent before the next frame on the same connection. */
+	private readonly lateFragments = new Map<ServerWebSocket, Uint8Array>();
+	/** Rectangles painted by the mock decoder, in order, on every frame. */
+	private paintOps: MockPaintOp[] = [];
 
 	constructor(options: MockBmcServerOptions = {}) {
 		this.options = options;
 		this.width = options.width ?? 320;
 		this.height = options.height ?? 240;
+		if (options.fillColor) this.fill(options.fillColor);
+	}
+
+	/** Paint a rectangle (default: the whole screen) with a color on subsequent frames. */
+	fill(
+		color: [number, number, number],
+		region = { x: 0, y: 0, width: this.width, height: this.height },
+	): void {
+		const op = { color, ...region };
+		const fullScreen =
+			region.x === 0 &&
+			region.y === 0 &&
+			region.width >= this.width &&
+			region.height >= this.height;
+		this.paintOps = fullScreen ? [op] : [...this.paintOps, op];
 	}
 
 	start(): string {
@@ -80,6 +146,10 @@ export class MockBmcServer {
 				open(ws: ServerWebSocket) {
 					self.handleWsOpen(ws);
 				},
+				close(ws: ServerWebSocket) {
+					self.sockets.delete(ws);
+					self.lateFragments.delete(ws);
+				},
 			},
 		});
 
@@ -101,10 +171,46 @@ export class MockBmcServer {
 		return `http://localhost:${this.port}`;
 	}
 
+	/** Number of KVM WebSocket connections currently open. */
+	get openConnections(): number {
+		return this.sockets.size;
+	}
+
+	/** Close every open KVM WebSocket from the server side, as a BMC or network drop would. */
+	dropConnections(): void {
+		for (const ws of this.sockets) {
+			ws.close(1001, "dropped");
+		}
+	}
+
+	/** Refuse the next `count` KVM WebSocket upgrades, as a BMC does for an expired session. */
+	rejectUpgrades(count: number): void {
+		this.rejectedUpgrades = count;
+	}
+
+	/** Clear recorded input events (useful for test isolation between tests). */
+	/**
+	 * Send only the first fragment of the next `count` frames, holding the rest
+	 * back until the next frame request on the same connection, like a BMC
+	 * whose video packets arrive late.
+	 */
+	stallFrames(count: number): void {
+		this.stalledFrames = count;
+	}
+
+	clearInputEvents(): void {
+		this.keyEvents.length = 0;
+		this.mouseEvents.length = 0;
+	}
+
 	private handleRequest(req: Request, server: BunServerType<undefined>): Response | undefined {
 		const url = new URL(req.url);
 
 		if (url.pathname === "/kvm") {
+			if (this.rejectedUpgrades > 0) {
+				this.rejectedUpgrades--;
+				return new Response("Session expired", { status: 401 });
+			}
 			if (server.upgrade(req)) return undefined;
 			return new Response("WebSocket upgrade failed", { status: 400 });
 		}
@@ -179,6 +285,9 @@ window.location.href = "/viewer.html";
 	}
 
 	private handleWsOpen(ws: ServerWebSocket): void {
+		this.connectionCount++;
+		this.sockets.add(ws);
+
 		const buf = new ArrayBuffer(IVTP.HDR_SIZE);
 		const view = new DataView(buf);
 		view.setUint16(0, IVTP.CMD_CONNECTION_ALLOWED, true);
@@ -195,9 +304,13 @@ window.location.href = "/viewer.html";
 			const view = new DataView(data.buffer, data.byteOffset + offset, IVTP.HDR_SIZE);
 			const type = view.getUint16(0, true);
 			const pktsize = view.getUint32(2, true);
+			const payload = data.subarray(offset + IVTP.HDR_SIZE, offset + IVTP.HDR_SIZE + pktsize);
 			offset += IVTP.HDR_SIZE + pktsize;
 
 			switch (type) {
+				case IVTP.CMD_HID_PKT:
+					this.recordHidPacket(payload);
+					break;
 				case IVTP.CMD_CONNECTION_COMPLETE_PKT:
 					break;
 				case IVTP.CMD_VALIDATE_VIDEO_SESSION:
@@ -206,6 +319,7 @@ window.location.href = "/viewer.html";
 				case IVTP.CMD_RESUME_REDIRECTION:
 					break;
 				case IVTP.CMD_POWER_STATUS:
+					this.powerStatusRequests++;
 					this.sendPowerStatus(ws);
 					break;
 				case IVTP.CMD_GET_FULL_SCREEN:
@@ -217,6 +331,33 @@ window.location.href = "/viewer.html";
 		}
 	}
 
+	/** Decode an IUSB-framed HID report and record it. */
+	private recordHidPacket(payload: Buffer): void {
+		if (payload.length < IUSB.HDR_SIZE) return;
+		const signature = payload.subarray(0, 8).toString("latin1");
+		if (signature !== "IUSB    ") return;
+
+		// Real firmware drops packets whose header bytes don't sum to zero
+		let sum = 0;
+		for (let i = 0; i < IUSB.HDR_SIZE; i++) sum += payload[i];
+		if ((sum & 0xff) !== 0) return;
+
+		const deviceType = payload[17];
+		const report = payload.subarray(IUSB.HDR_SIZE);
+		if (deviceType === IUSB.DEVICE_KEYBOARD && report.length >= 8) {
+			this.keyEvents.push({
+				modifiers: report[0],
+				keys: Array.from(report.subarray(2, 8)).filter((k) => k !== 0),
+			});
+		} else if (deviceType === IUSB.DEVICE_MOUSE && report.length >= 5) {
+			this.mouseEvents.push({
+				buttons: report[0],
+				x: report.readUInt16LE(1),
+				y: report.readUInt16LE(3),
+			});
+		}
+	}
+
 	private sendValidationResponse(ws: ServerWebSocket): void {
 		const reject = this.options.rejectValidation ?? false;
 		const buf = new ArrayBuffer(IVTP.HDR_SIZE + 2);
@@ -242,32 +383,44 @@ window.location.href = "/viewer.html";
 		const delay = this.options.frameDelay ?? 10;
 
 		setTimeout(() => {
+			const late = this.lateFragments.get(ws);
+			if (late) {
+				this.lateFragments.delete(ws);
+				ws.send(wrapVideoPacket(late));
+			}
+
 			// Build an AST2500-format video frame
 			const videoPacket = this.buildAst2500VideoPacket();
-
-			// Wrap in CMD_VIDEO_PACKETS IVTP message
-			const buf = new ArrayBuffer(IVTP.HDR_SIZE + videoPacket.length);
-			const view = new DataView(buf);
-			view.setUint16(0, IVTP.CMD_VIDEO_PACKETS, true);
-			view.setUint32(2, videoPacket.length, true);
-			view.setUint16(6, 0, true);
-			new Uint8Array(buf, IVTP.HDR_SIZE).set(videoPacket);
-			ws.send(buf);
+			if (this.stalledFrames > 0) {
+				this.stalledFrames--;
+				// First fragment: fragment number, header and 4 bytes of data; the
+				// second repeats a fragment number (1) before the remaining data
+				const split = 2 + 86 + 4;
+				const rest = new Uint8Array(2 + videoPacket.length - split);
+				new DataView(rest.buffer).setUint16(0, 1, true);
+				rest.set(videoPacket.subarray(split), 2);
+				this.lateFragments.set(ws, rest);
+				ws.send(wrapVideoPacket(videoPacket.subarray(0, split)));
+				return;
+			}
+			ws.send(wrapVideoPacket(videoPacket));
 		}, delay);
 	}
 
 	/**
 	 * Build a minimal AST2500-format video packet:
-	 * fragment(2) + header(86) + compressed_data(8)
+	 * fragment(2) + header(86) + compressed_data(12 + 20 per paint op)
 	 *
 	 * The compressed data is a single FRAME_END tile code (0x09 in top 4 bits),
 	 * which tells the decoder "no tiles to update" — producing a black image.
-	 * This is sufficient for testing the full pipeline.
+	 * After it, the paint ops from `fill()` are appended as Int32s
+	 * (count, then RGB, x, y, width, height per op) for the mock decoder to draw.
 	 */
 	private buildAst2500VideoPacket(): Uint8Array {
 		const { width, height } = this;
 		const HEADER_LEN = 86;
-		const COMPRESSED_SIZE = 8; // 2 x Int32 minimum for bit reader init
+		// 2 x Int32 minimum for bit reader init, then the paint ops
+		const COMPRESSED_SIZE = 8 + 4 + this.paintOps.length * 20;
 		const FRAG_SIZE = 2;
 		const totalSize = FRAG_SIZE + HEADER_LEN + COMPRESSED_SIZE;
 
@@ -310,16 +463,39 @@ window.location.href = "/viewer.html";
 		dv.setInt32(dataOff, -1879048192, true); // 0x90000000 as signed int32 in LE
 		dv.setInt32(dataOff + 4, 0, true); // nextData = 0
 
+		// Paint ops for the mock decoder
+		dv.setInt32(dataOff + 8, this.paintOps.length, true);
+		this.paintOps.forEach((op, i) => {
+			const opOff = dataOff + 12 + i * 20;
+			const [r, g, b] = op.color;
+			dv.setInt32(opOff, (r << 16) | (g << 8) | b, true);
+			dv.setInt32(opOff + 4, op.x, true);
+			dv.setInt32(opOff + 8, op.y, true);
+			dv.setInt32(opOff + 12, op.width, true);
+			dv.setInt32(opOff + 16, op.height, true);
+		});
+
 		return packet;
 	}
 }
 
+/** Wrap a video packet in a CMD_VIDEO_PACKETS IVTP message. */
+function wrapVideoPacket(videoPacket: Uint8Array): ArrayBuffer {
+	const buf = new ArrayBuffer(IVTP.HDR_SIZE + videoPacket.length);
+	const view = new DataView(buf);
+	view.setUint16(0, IVTP.CMD_VIDEO_PACKETS, true);
+	view.setUint32(2, videoPacket.length, true);
+	view.setUint16(6, 0, true);
+	new Uint8Array(buf, IVTP.HDR_SIZE).set(videoPacket);
+	return buf;
+}
+
 /**
  * Minimal mock decoder JS that mimics the AMI AST2500 decoder interface.
  *
  * Uses `delete` on a variable to test non-strict mode compatibility
- * (the real decoder does this). The decode() method is a no-op that
- * produces a black image — sufficient for testing the full pipeline.
+ * (the real decoder does this). The decode() method leaves the image black
+ * apart from the rectangles the mock BMC appends after the frame data.
  */
 const MOCK_DECODER_JS = `
 var temp = 1;
@@ -336,6 +512,21 @@ Decoder.prototype.setImageBuffer = function(imageBuffer) {
 };
 
 Decoder.prototype.decode = function(header, buffer) {
-	// No-op: produces a black image (all zeros in the image buffer)
+	// Black image (all zeros) plus the mock BMC's paint ops: count, then RGB, x, y, w, h
+	var count = buffer[2] | 0;
+	var w = this.imageBuffer.width;
+	for (var i = 0; i < count; i++) {
+		var o = 3 + i * 5;
+		var rgb = buffer[o], x0 = buffer[o + 1], y0 = buffer[o + 2];
+		for (var y = y0; y < y0 + buffer[o + 4]; y++) {
+			for (var x = x0; x < x0 + buffer[o + 3]; x++) {
+				var p = (y * w + x) * 4;
+				this.m_decodeBuf[p] = (rgb >> 16) & 255;
+				this.m_decodeBuf[p + 1] = (rgb >> 8) & 255;
+				this.m_decodeBuf[p + 2] = rgb & 255;
+				this.m_decodeBuf[p + 3] = 255;
+			}
+		}
+	}
 };
 `;
@@ -22,6 +22,10 @@ export interface MockOvhApiOptions {
 	viewerUrls?: Record<string, string>;
 	/** If true, tasks are created as "done" immediately */
 	autoCompleteTasks?: boolean;
+	/** Lifetime of IPMI access grants in ms (default: 15 minutes) */
+	accessTtl?: number;
+	/** Boot options (netboots) per server */
+	boots?: Record<string, MockBoot[]>;
 }
 
 export interface MockServerDetails {
@@ -31,17 +35,30 @@ export interface MockServerDetails {
 	commercialRange?: string;
 	os?: string;
 	state?: string;
+	/** Boot the server uses on its next start; changed by PUT /dedicated/server/{name} */
+	bootId?: number;
+}
+
+export interface MockBoot {
+	bootId: number;
+	bootType: string;
+	description: string;
+	kernel: string;
 }
 
 export interface MockIpmiStatus {
 	activated: boolean;
 	supportedFeatures?: {
 		kvmipHtml5URL?: boolean;
+		kvmipJnlp?: boolean;
+		serialOverLanURL?: boolean;
+		serialOverLanSshKey?: boolean;
 	};
 }
 
 interface TaskState {
 	taskId: number;
+	function: string;
 	status: string;
 	serverId: string;
 	comment?: string;
@@ -52,6 +69,7 @@ export class MockOvhApi {
 	private readonly options: MockOvhApiOptions;
 	private taskCounter = 0;
 	private tasks: Map<number, TaskState> = new Map();
+	private refusedBootChanges = 0;
 	readonly requests: Array<{ method: string; path: string; headers: Record<string, string> }> = [];
 
 	constructor(options: MockOvhApiOptions = {}) {
@@ -94,6 +112,23 @@ export class MockOvhApi {
 		}
 	}
 
+	/** Boot a server uses on its next start */
+	currentBoot(serverId: string): number | undefined {
+		return this.options.serverDetails?.[serverId]?.bootId;
+	}
+
+	/** Servers a hard reboot was requested for, in order (whatever became of the tasks) */
+	get reboots(): string[] {
+		return [...this.tasks.values()]
+			.filter((task) => task.function === "hardReboot")
+			.map((task) => task.serverId);
+	}
+
+	/** Refuse the next `count` boot changes, as OVH does while another task runs on the server. */
+	refuseBootChanges(count: number): void {
+		this.refusedBootChanges = count;
+	}
+
 	/** Fail a specific task with a given status and optional comment. */
 	failTask(taskId: number, status: string, comment?: string): void {
 		const task = this.tasks.get(taskId);
@@ -103,7 +138,7 @@ export class MockOvhApi {
 		}
 	}
 
-	private handleRequest(req: Request): Response {
+	private handleRequest(req: Request): Response | Promise<Response> {
 		const url = new URL(req.url);
 		const path = url.pathname.replace(/^\/1\.0/, "");
 
@@ -124,10 +159,15 @@ export class MockOvhApi {
 			return Response.json({ message: "Invalid credentials" }, { status: 401 });
 		}
 
-		return this.routeRequest(req.method, path, url);
+		return this.routeRequest(req.method, path, url, req);
 	}
 
-	private routeRequest(method: string, path: string, url: URL): Response {
+	private async routeRequest(
+		method: string,
+		path: string,
+		url: URL,
+		req: Request,
+	): Promise<Response> {
 		// GET /dedicated/server
 		if (method === "GET" && path === "/dedicated/server") {
 			return Response.json(this.options.servers ?? []);
@@ -139,17 +179,9 @@ export class MockOvhApi {
 			const serverId = ipmiAccessMatch[1];
 
 			if (method === "POST") {
-				this.taskCounter++;
-				const taskId = this.taskCounter;
-				const status = this.options.autoCompleteTasks ? "done" : "doing";
-				this.tasks.set(taskId, { taskId, status, serverId });
 				// The real OVH API always returns "doing" on POST — the task status is
 				// obtained by polling GET /task/{id}. We mirror that behaviour here.
-				return Response.json({
-					taskId,
-					function: "ipmiAccessSet",
-					status: "doing",
-				});
+				return Response.json(this.createTask(serverId, "ipmiAccessSet"));
 			}
 
 			if (method === "GET") {
@@ -160,11 +192,44 @@ export class MockOvhApi {
 				return Response.json({
 					value: viewerUrl,
 					type: url.searchParams.get("type") ?? "kvmipHtml5URL",
-					expiration: new Date(Date.now() + 15 * 60 * 1000).toISOString(),
+					expiration: new Date(
+						Date.now() + (this.options.accessTtl ?? 15 * 60 * 1000),
+					).toISOString(),
 				});
 			}
 		}
 
+		// POST /dedicated/server/{name}/reboot
+		const rebootMatch = path.match(/^\/dedicated\/server\/([^/]+)\/reboot$/);
+		if (method === "POST" && rebootMatch) {
+			const name = rebootMatch[1];
+			if (this.options.servers && !this.options.servers.includes(name)) {
+				return Response.json({ message: "Server not found" }, { status: 404 });
+			}
+			return Response.json(this.createTask(name, "hardReboot"));
+		}
+
+		// GET /dedicated/server/{name}/boot?bootType=...
+		const bootListMatch = path.match(/^\/dedicated\/server\/([^/]+)\/boot$/);
+		if (method === "GET" && bootListMatch) {
+			const bootType = url.searchParams.get("bootType");
+			const boots = this.options.boots?.[bootListMatch[1]] ?? [];
+			return Response.json(
+				boots.filter((boot) => !bootType || boot.bootType === bootType).map((boot) => boot.bootId),
+			);
+		}
+
+		// GET /dedicated/server/{name}/boot/{bootId}
+		const bootMatch = path.match(/^\/dedicated\/server\/([^/]+)\/boot\/(\d+)$/);
+		if (method === "GET" && bootMatch) {
+			const bootId = Number.parseInt(bootMatch[2], 10);
+			const boot = this.options.boots?.[bootMatch[1]]?.find((b) => b.bootId === bootId);
+			if (!boot) {
+				return Response.json({ message: "Boot not found" }, { status: 404 });
+			}
+			return Response.json(boot);
+		}
+
 		// GET /dedicated/server/{name}/features/ipmi
 		const ipmiStatusMatch = path.match(/^\/dedicated\/server\/([^/]+)\/features\/ipmi$/);
 		if (method === "GET" && ipmiStatusMatch) {
@@ -183,12 +248,34 @@ export class MockOvhApi {
 			}
 			return Response.json({
 				taskId: task.taskId,
-				function: "ipmiAccessSet",
+				function: task.function,
 				status: task.status,
 				comment: task.comment ?? null,
 			});
 		}
 
+		// PUT /dedicated/server/{name} — only bootId is modelled
+		const serverUpdateMatch = path.match(/^\/dedicated\/server\/([^/]+)$/);
+		if (method === "PUT" && serverUpdateMatch) {
+			const name = serverUpdateMatch[1];
+			const details = this.options.serverDetails?.[name];
+			if (!details) {
+				return Response.json({ message: "Server not found" }, { status: 404 });
+			}
+			const { bootId } = (await req.json()) as { bootId?: number };
+			if (bootId !== undefined) {
+				if (this.refusedBootChanges > 0) {
+					this.refusedBootChanges--;
+					return Response.json({ message: "A task is already running" }, { status: 409 });
+				}
+				if (!this.options.boots?.[name]?.some((boot) => boot.bootId === bootId)) {
+					return Response.json({ message: `Invalid bootId ${bootId}` }, { status: 400 });
+				}
+				details.bootId = bootId;
+			}
+			return Response.json(null);
+		}
+
 		// GET /dedicated/server/{name}
 		const serverDetailMatch = path.match(/^\/dedicated\/server\/([^/]+)$/);
 		if (method === "GET" && serverDetailMatch) {
@@ -202,4 +289,16 @@ export class MockOvhApi {
 
 		return Response.json({ message: "Not found" }, { status: 404 });
 	}
+
+	/** Create a task for an async operation; it is "done" right away with autoCompleteTasks. */
+	private createTask(
+		serverId: string,
+		name: string,
+	): { taskId: number; function: string; status: string } {
+		this.taskCounter++;
+		const taskId = this.taskCounter;
+		const status = this.options.autoCompleteTasks ? "done" : "doing";
+		this.tasks.set(taskId, { taskId, function: name, status, serverId });
+		return { taskId, function: name, status: "doing" };
+	}
 }
@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Renders text-mode console frames for OCR tests, the way a VGA adapter or
+ * framebuffer console draws them: one glyph per cell, with the 9th pixel
+ * column of line-drawing characters (0xC0-0xDF) repeated in 9-pixel cells.
+ */
+
+import { CP437, VGA_8X16 } from "../../src/screen/fonts.js";
+import type { BitmapFont, RgbaImage } from "../../src/screen/types.js";
+
+type Rgb = [number, number, number];
+
+export interface TextScreenOptions {
+	font?: BitmapFont;
+	/** Cell width: 8, or 9 for VGA text mode (default: 8) */
+	cellWidth?: number;
+	/** Frame size in pixels (default: exactly the grid) */
+	width?: number;
+	height?: number;
+	columns?: number;
+	rows?: number;
+	/** Grid offset from the top-left corner in pixels */
+	originX?: number;
+	originY?: number;
+	/** Text and background colors (default: light gray on black) */
+	fg?: Rgb;
+	bg?: Rgb;
+	/** Recolored spans, e.g. a highlight bar or a title line */
+	spans?: Array<{ row: number; column?: number; length?: number; fg: Rgb; bg: Rgb }>;
+	/** Add up to ± this much deterministic noise per channel, like lossy video compression */
+	noise?: number;
+}
+
+/** Render lines of text (Unicode, code page 437 characters only) into an RGBA frame. */
+export function renderTextScreen(
+	lines: readonly string[],
+	options: TextScreenOptions = {},
+): RgbaImage {
+	const font = options.font ?? VGA_8X16;
+	const cellWidth = options.cellWidth ?? 8;
+	const columns = options.columns ?? 80;
+	const rows = options.rows ?? 25;
+	const originX = options.originX ?? 0;
+	const originY = options.originY ?? 0;
+	const width = options.width ?? originX + columns * cellWidth;
+	const height = options.height ?? originY + rows * font.height;
+	const pixels = new Uint8Array(width * height * 4);
+
+	const paint = (x: number, y: number, [r, g, b]: Rgb) => {
+		pixels.set([r, g, b, 255], (y * width + x) * 4);
+	};
+
+	const defaultBg = options.bg ?? [0, 0, 0];
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) paint(x, y, defaultBg);
+	}
+
+	for (let row = 0; row < rows; row++) {
+		const chars = [...(lines[row] ?? "")];
+		for (let col = 0; col < columns; col++) {
+			const span = options.spans?.find(
+				(s) =>
+					s.row === row && col >= (s.column ?? 0) && col < (s.column ?? 0) + (s.length ?? columns),
+			);
+			const fg = span?.fg ?? options.fg ?? [170, 170, 170];
+			const bg = span?.bg ?? defaultBg;
+			const code = CP437.indexOf(chars[col] ?? " ");
+			if (code < 0) throw new Error(`"${chars[col]}" is not in code page 437`);
+
+			for (let gy = 0; gy < font.height; gy++) {
+				const bits = font.glyphs[code * font.height + gy];
+				for (let gx = 0; gx < cellWidth; gx++) {
+					const lit = gx < 8 ? bits & (0x80 >> gx) : code >= 0xc0 && code <= 0xdf && bits & 0x01;
+					paint(originX + col * cellWidth + gx, originY + row * font.height + gy, lit ? fg : bg);
+				}
+			}
+		}
+	}
+
+	if (options.noise) {
+		// Linear congruential generator — the same noise on every run
+		let seed = 12345;
+		for (let i = 0; i < pixels.length; i++) {
+			if (i % 4 === 3) continue;
+			seed = (seed * 1103515245 + 12345) >>> 0;
+			const delta = (seed % (options.noise * 2 + 1)) - options.noise;
+			pixels[i] = Math.min(Math.max(pixels[i] + delta, 0), 255);
+		}
+	}
+
+	return { width, height, pixels };
+}
@@ -4,6 +4,8 @@
 /**
  * Minimal VNC/RFB server for testing.
  * Serves a known test image over WebSocket using the RFB protocol.
+ * Input messages (KeyEvent, PointerEvent, ClientCutText) are validated
+ * byte for byte against RFC 6143 and recorded for assertions.
  */
 
 import type { ServerWebSocket } from "bun";
@@ -39,10 +41,33 @@ export interface TestVncServerOptions {
 	rfbVersion?: string;
 }
 
+/** A KeyEvent message received from a client. */
+export interface TestKeyEvent {
+	down: boolean;
+	keysym: number;
+}
+
+/** A PointerEvent message received from a client. */
+export interface TestPointerEvent {
+	buttonMask: number;
+	x: number;
+	y: number;
+}
+
 export class TestVncServer {
 	private server: ReturnType<typeof Bun.serve<WsData>> | null = null;
 	readonly width: number;
 	readonly height: number;
+	/** KeyEvent messages received from clients, in arrival order. */
+	readonly keyEvents: TestKeyEvent[] = [];
+	/** PointerEvent messages received from clients, in arrival order. */
+	readonly pointerEvents: TestPointerEvent[] = [];
+	/** ClientCutText payloads received from clients, decoded as Latin-1. */
+	readonly clipboard: string[] = [];
+	/** Raw bytes of every input message, in arrival order. */
+	readonly inputMessages: Uint8Array[] = [];
+	/** Malformed client messages (wrong length, non-zero padding). */
+	readonly protocolErrors: string[] = [];
 	private readonly options: TestVncServerOptions;
 	private readonly pixelData: Uint8Array;
 
@@ -62,6 +87,19 @@ export class TestVncServer {
 		}
 	}
 
+	/** Paint a rectangle (default: the whole screen) with a color; later captures see it. */
+	fill(
+		color: [number, number, number],
+		region = { x: 0, y: 0, width: this.width, height: this.height },
+	): void {
+		for (let y = region.y; y < region.y + region.height; y++) {
+			for (let x = region.x; x < region.x + region.width; x++) {
+				const i = (y * this.width + x) * 4;
+				this.pixelData.set([...color, 255], i);
+			}
+		}
+	}
+
 	/** Start the server and return the WebSocket URL. */
 	start(): string {
 		const self = this;
@@ -105,6 +143,15 @@ export class TestVncServer {
 		return this.server?.port ?? 0;
 	}
 
+	/** Clear recorded input events (useful for test isolation between tests). */
+	clearInputEvents(): void {
+		this.keyEvents.length = 0;
+		this.pointerEvents.length = 0;
+		this.clipboard.length = 0;
+		this.inputMessages.length = 0;
+		this.protocolErrors.length = 0;
+	}
+
 	// --- Protocol handling ---
 
 	private handleOpen(ws: Ws): void {
@@ -246,6 +293,58 @@ export class TestVncServer {
 			const h = view.getUint16(8);
 
 			this.sendFramebufferUpdate(ws, x, y, w, h);
+			return;
+		}
+
+		// KeyEvent (type 4), PointerEvent (type 5), ClientCutText (type 6)
+		if (msgType >= 4 && msgType <= 6) {
+			this.recordInput(data);
+		}
+	}
+
+	/** Validate an input message byte for byte and record it. */
+	private recordInput(data: Uint8Array): void {
+		const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+		this.inputMessages.push(data.slice());
+
+		switch (data[0]) {
+			case 4: {
+				// down-flag(1) + padding(2) + key(4)
+				if (data.length !== 8) {
+					this.protocolErrors.push(`KeyEvent has ${data.length} bytes, expected 8`);
+				} else if (data[1] > 1 || data[2] !== 0 || data[3] !== 0) {
+					this.protocolErrors.push("KeyEvent has an invalid down-flag or non-zero padding");
+				} else {
+					this.keyEvents.push({ down: data[1] === 1, keysym: view.getUint32(4) });
+				}
+				break;
+			}
+			case 5: {
+				// button-mask(1) + x(2) + y(2)
+				if (data.length !== 6) {
+					this.protocolErrors.push(`PointerEvent has ${data.length} bytes, expected 6`);
+				} else if (view.getUint16(2) >= this.width || view.getUint16(4) >= this.height) {
+					this.protocolErrors.push("PointerEvent position is outside the framebuffer");
+				} else {
+					this.pointerEvents.push({
+						buttonMask: data[1],
+						x: view.getUint16(2),
+						y: view.getUint16(4),
+					});
+				}
+				break;
+			}
+			case 6: {
+				// padding(3) + length(4) + text
+				if (data.length < 8 || data.length !== 8 + view.getUint32(4)) {
+					this.protocolErrors.push("ClientCutText length does not match its payload");
+				} else if (data[1] !== 0 || data[2] !== 0 || data[3] !== 0) {
+					this.protocolErrors.push("ClientCutText has non-zero padding");
+				} else {
+					this.clipboard.push(new TextDecoder("latin1").decode(data.subarray(8)));
+				}
+				break;
+			}
 		}
 	}
 
@@ -0,0 +1,201 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+/**
+ * Minimal lossless WebP (VP8L) decoder for checking the encoder output.
+ * Only what src/screen/webp.ts writes is supported: subtract-green and
+ * color indexing transforms, no color cache, no meta prefix codes.
+ */
+
+import type { RgbaImage } from "../../src/screen/types.js";
+
+const CODE_LENGTH_ORDER = [17, 18, 0, 1, 2, 3, 4, 5, 16, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15];
+
+class BitReader {
+	private position = 0;
+
+	constructor(private readonly data: Buffer) {}
+
+	read(bits: number): number {
+		let value = 0;
+		for (let i = 0; i < bits; i++) {
+			const byte = this.data[this.position >> 3];
+			if (byte === undefined) throw new Error("VP8L data ended early");
+			value |= ((byte >> (this.position & 7)) & 1) << i;
+			this.position++;
+		}
+		return value >>> 0;
+	}
+}
+
+/** Canonical prefix code, decoded one bit at a time. */
+class PrefixCode {
+	private readonly symbols = new Map<number, number>();
+	private readonly single: number | null = null;
+
+	constructor(lengths: readonly number[]) {
+		const used = lengths.flatMap((length, symbol) => (length > 0 ? [symbol] : []));
+		if (used.length === 1) {
+			this.single = used[0];
+			return;
+		}
+		let code = 0;
+		for (let length = 1; length <= 15; length++) {
+			for (let symbol = 0; symbol < lengths.length; symbol++) {
+				if (lengths[symbol] === length) this.symbols.set((length << 16) | code++, symbol);
+			}
+			code <<= 1;
+		}
+	}
+
+	read(reader: BitReader): number {
+		if (this.single !== null) return this.single;
+		let code = 0;
+		for (let length = 1; length <= 15; length++) {
+			code = (code << 1) | reader.read(1);
+			const symbol = this.symbols.get((length << 16) | code);
+			if (symbol !== undefined) return symbol;
+		}
+		throw new Error("Invalid prefix code");
+	}
+}
+
+function readPrefixCode(reader: BitReader, alphabet: number): PrefixCode {
+	const lengths = new Array<number>(alphabet).fill(0);
+	if (reader.read(1) === 1) {
+		const count = reader.read(1) + 1;
+		lengths[reader.read(reader.read(1) === 1 ? 8 : 1)] = 1;
+		if (count === 2) lengths[reader.read(8)] = 1;
+		return new PrefixCode(lengths);
+	}
+
+	const codeLengthLengths = new Array<number>(19).fill(0);
+	const stored = reader.read(4) + 4;
+	for (let i = 0; i < stored; i++) codeLengthLengths[CODE_LENGTH_ORDER[i]] = reader.read(3);
+	if (reader.read(1) === 1) throw new Error("max_symbol is not supported");
+	const codeLengthCode = new PrefixCode(codeLengthLengths);
+
+	let previous = 8;
+	let i = 0;
+	while (i < alphabet) {
+		const symbol = codeLengthCode.read(reader);
+		if (symbol < 16) {
+			lengths[i++] = symbol;
+			if (symbol !== 0) previous = symbol;
+		} else if (symbol === 16) {
+			for (let n = reader.read(2) + 3; n > 0; n--) lengths[i++] = previous;
+		} else {
+			i += symbol === 17 ? reader.read(3) + 3 : reader.read(7) + 11;
+		}
+	}
+	return new PrefixCode(lengths);
+}
+
+function readPrefixed(reader: BitReader, symbol: number): number {
+	if (symbol < 4) return symbol + 1;
+	const bits = (symbol - 2) >> 1;
+	return ((2 + (symbol & 1)) << bits) + reader.read(bits) + 1;
+}
+
+function readImage(reader: BitReader, width: number, height: number, main: boolean): Uint32Array {
+	if (reader.read(1) === 1) throw new Error("Color cache is not supported");
+	if (main && reader.read(1) === 1) throw new Error("Meta prefix codes are not supported");
+	const green = readPrefixCode(reader, 256 + 24);
+	const red = readPrefixCode(reader, 256);
+	const blue = readPrefixCode(reader, 256);
+	const alpha = readPrefixCode(reader, 256);
+	const distance = readPrefixCode(reader, 40);
+
+	const pixels = new Uint32Array(width * height);
+	let i = 0;
+	while (i < pixels.length) {
+		const g = green.read(reader);
+		if (g < 256) {
+			const r = red.read(reader);
+			const b = blue.read(reader);
+			const a = alpha.read(reader);
+			pixels[i++] = ((a << 24) | (r << 16) | (g << 8) | b) >>> 0;
+			continue;
+		}
+		const length = readPrefixed(reader, g - 256);
+		const code = readPrefixed(reader, distance.read(reader));
+		let offset: number;
+		if (code === 1) offset = width;
+		else if (code === 2) offset = 1;
+		else if (code > 120) offset = code - 120;
+		else throw new Error(`Distance code ${code} is not supported`);
+		if (offset > i || i + length > pixels.length) throw new Error("Invalid back-reference");
+		for (let k = 0; k < length; k++, i++) pixels[i] = pixels[i - offset];
+	}
+	return pixels;
+}
+
+/** log2 of the palette indices packed into one pixel. */
+function bundleBits(colors: number): number {
+	if (colors <= 2) return 3;
+	if (colors <= 4) return 2;
+	return colors <= 16 ? 1 : 0;
+}
+
+/** Decode a lossless WebP file into an RGBA image. */
+export function decodeWebp(file: Buffer): RgbaImage {
+	if (file.toString("latin1", 0, 4) !== "RIFF" || file.toString("latin1", 8, 16) !== "WEBPVP8L") {
+		throw new Error("Not a lossless WebP file");
+	}
+	if (file.readUInt32LE(4) !== file.length - 8) throw new Error("RIFF size mismatch");
+	const reader = new BitReader(file.subarray(20, 20 + file.readUInt32LE(16)));
+	if (reader.read(8) !== 0x2f) throw new Error("Bad VP8L signature");
+	const width = reader.read(14) + 1;
+	const height = reader.read(14) + 1;
+	reader.read(1);
+	if (reader.read(3) !== 0) throw new Error("Bad VP8L version");
+
+	let palette: Uint32Array | null = null;
+	let subtractGreen = false;
+	while (reader.read(1) === 1) {
+		const type = reader.read(2);
+		if (type === 2) {
+			subtractGreen = true;
+		} else if (type === 3) {
+			const size = reader.read(8) + 1;
+			palette = readImage(reader, size, 1, false);
+			for (let i = 1; i < size; i++) {
+				let color = 0;
+				for (let shift = 0; shift < 32; shift += 8) {
+					color |=
+						((((palette[i] >>> shift) & 0xff) + ((palette[i - 1] >>> shift) & 0xff)) & 0xff) <<
+						shift;
+				}
+				palette[i] = color >>> 0;
+			}
+		} else {
+			throw new Error(`Transform ${type} is not supported`);
+		}
+	}
+
+	const bits = palette ? bundleBits(palette.length) : 0;
+	const codedWidth = Math.ceil(width / (1 << bits));
+	const coded = readImage(reader, codedWidth, height, true);
+
+	const pixels = new Uint8Array(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			let argb = coded[y * codedWidth + (x >> bits)];
+			if (palette) {
+				const bitsPerIndex = 8 >> bits;
+				const index =
+					(argb >>> (8 + bitsPerIndex * (x & ((1 << bits) - 1)))) & ((1 << bitsPerIndex) - 1);
+				argb = palette[index] ?? 0;
+			}
+			let red = (argb >>> 16) & 0xff;
+			const green = (argb >>> 8) & 0xff;
+			let blue = argb & 0xff;
+			if (subtractGreen) {
+				red = (red + green) & 0xff;
+				blue = (blue + green) & 0xff;
+			}
+			pixels.set([red, green, blue, argb >>> 24], (y * width + x) * 4);
+		}
+	}
+	return { width, height, pixels };
+}
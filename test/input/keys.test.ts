@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { parseKeyChord, parseKeys } from "../../src/input/keys.js";
+
+describe("parseKeyChord", () => {
+	it("should resolve named keys case-insensitively", () => {
+		expect(parseKeyChord("Enter")).toEqual({ code: "Enter", modifiers: [] });
+		expect(parseKeyChord("esc")).toEqual({ code: "Escape", modifiers: [] });
+		expect(parseKeyChord("UP")).toEqual({ code: "ArrowUp", modifiers: [] });
+		expect(parseKeyChord("PgDn")).toEqual({ code: "PageDown", modifiers: [] });
+	});
+
+	it("should resolve function keys", () => {
+		expect(parseKeyChord("F2").code).toBe("F2");
+		expect(parseKeyChord("f12").code).toBe("F12");
+	});
+
+	it("should resolve single characters to US keyboard keys", () => {
+		expect(parseKeyChord("a").code).toBe("KeyA");
+		expect(parseKeyChord("Z").code).toBe("KeyZ");
+		expect(parseKeyChord("7").code).toBe("Digit7");
+		expect(parseKeyChord("/").code).toBe("Slash");
+	});
+
+	it("should accept KeyboardEvent.code names directly", () => {
+		expect(parseKeyChord("Numpad5").code).toBe("Numpad5");
+		expect(parseKeyChord("IntlBackslash").code).toBe("IntlBackslash");
+	});
+
+	it("should parse chords with modifiers", () => {
+		expect(parseKeyChord("Ctrl+Alt+Del")).toEqual({
+			code: "Delete",
+			modifiers: ["ctrl", "alt"],
+		});
+		expect(parseKeyChord("shift + tab")).toEqual({ code: "Tab", modifiers: ["shift"] });
+		expect(parseKeyChord("Win+R")).toEqual({ code: "KeyR", modifiers: ["meta"] });
+	});
+
+	it("should treat a lone modifier as a key", () => {
+		expect(parseKeyChord("Shift")).toEqual({ code: "ShiftLeft", modifiers: [] });
+		expect(parseKeyChord("AltGr")).toEqual({ code: "AltRight", modifiers: [] });
+	});
+
+	it("should reject unknown keys and modifiers", () => {
+		expect(() => parseKeyChord("Hyper+A")).toThrow('Unknown modifier "Hyper"');
+		expect(() => parseKeyChord("Ctrl+Foo")).toThrow('Unknown key "Foo"');
+		expect(() => parseKeyChord("Ctrl+")).toThrow("missing key name");
+	});
+});
+
+describe("parseKeys", () => {
+	it("should parse every entry in order", () => {
+		const strokes = parseKeys(["Down", "Down", "Enter"]);
+		expect(strokes.map((s) => s.code)).toEqual(["ArrowDown", "ArrowDown", "Enter"]);
+	});
+
+	it("should fail on the first invalid entry", () => {
+		expect(() => parseKeys(["Enter", "Bogus"])).toThrow('Unknown key "Bogus"');
+	});
+});
@@ -0,0 +1,114 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { KEY_CODES } from "../../src/input/keys.js";
+import {
+	KEYBOARD_LAYOUTS,
+	textToKeyStrokes,
+	unsupportedCharacters,
+} from "../../src/input/layouts.js";
+
+const ASCII_PRINTABLE = Array.from({ length: 95 }, (_, i) => String.fromCharCode(32 + i)).join("");
+
+describe("textToKeyStrokes", () => {
+	it("should type every printable ASCII character on each layout", () => {
+		for (const layout of KEYBOARD_LAYOUTS) {
+			expect(unsupportedCharacters(ASCII_PRINTABLE, layout)).toEqual([]);
+		}
+	});
+
+	it("should only produce supported key codes", () => {
+		for (const layout of KEYBOARD_LAYOUTS) {
+			for (const stroke of textToKeyStrokes(ASCII_PRINTABLE, layout)) {
+				expect(KEY_CODES.has(stroke.code)).toBe(true);
+			}
+		}
+	});
+
+	it("should map US characters to their keys", () => {
+		expect(textToKeyStrokes("a|B", "us")).toEqual([
+			{ code: "KeyA", modifiers: [] },
+			{ code: "Backslash", modifiers: ["shift"] },
+			{ code: "KeyB", modifiers: ["shift"] },
+		]);
+	});
+
+	it("should follow the UK layout", () => {
+		expect(textToKeyStrokes('@"#\\', "uk")).toEqual([
+			{ code: "Quote", modifiers: ["shift"] },
+			{ code: "Digit2", modifiers: ["shift"] },
+			{ code: "Backslash", modifiers: [] },
+			{ code: "IntlBackslash", modifiers: [] },
+		]);
+		expect(textToKeyStrokes("£", "uk")).toEqual([{ code: "Digit3", modifiers: ["shift"] }]);
+	});
+
+	it("should follow the French AZERTY layout", () => {
+		expect(textToKeyStrokes("aqzw", "fr").map((s) => s.code)).toEqual([
+			"KeyQ",
+			"KeyA",
+			"KeyW",
+			"KeyZ",
+		]);
+		expect(textToKeyStrokes("1m@", "fr")).toEqual([
+			{ code: "Digit1", modifiers: ["shift"] },
+			{ code: "Semicolon", modifiers: [] },
+			{ code: "Digit0", modifiers: ["altgr"] },
+		]);
+	});
+
+	it("should follow the German QWERTZ layout", () => {
+		expect(textToKeyStrokes("zy", "de").map((s) => s.code)).toEqual(["KeyY", "KeyZ"]);
+		expect(textToKeyStrokes("/|ß", "de")).toEqual([
+			{ code: "Digit7", modifiers: ["shift"] },
+			{ code: "IntlBackslash", modifiers: ["altgr"] },
+			{ code: "Minus", modifiers: [] },
+		]);
+	});
+
+	it("should follow dead keys with a space to type the accent itself", () => {
+		expect(textToKeyStrokes("^", "fr")).toEqual([
+			{ code: "BracketLeft", modifiers: [] },
+			{ code: "Space", modifiers: [] },
+		]);
+		expect(textToKeyStrokes("`", "de")).toEqual([
+			{ code: "Equal", modifiers: ["shift"] },
+			{ code: "Space", modifiers: [] },
+		]);
+	});
+
+	it("should compose accented letters with dead keys", () => {
+		expect(textToKeyStrokes("ê", "fr")).toEqual([
+			{ code: "BracketLeft", modifiers: [] },
+			{ code: "KeyE", modifiers: [] },
+		]);
+		expect(textToKeyStrokes("é", "de")).toEqual([
+			{ code: "Equal", modifiers: [] },
+			{ code: "KeyE", modifiers: [] },
+		]);
+	});
+
+	it("should prefer a dedicated key over composition", () => {
+		expect(textToKeyStrokes("é", "fr")).toEqual([{ code: "Digit2", modifiers: [] }]);
+		expect(textToKeyStrokes("ü", "de")).toEqual([{ code: "BracketLeft", modifiers: [] }]);
+	});
+
+	it("should normalize line endings and decomposed characters", () => {
+		expect(textToKeyStrokes("a\r\nb\rc", "us").map((s) => s.code)).toEqual([
+			"KeyA",
+			"Enter",
+			"KeyB",
+			"Enter",
+			"KeyC",
+		]);
+		expect(textToKeyStrokes("e\u0301", "fr")).toEqual([{ code: "Digit2", modifiers: [] }]);
+	});
+
+	it("should reject characters the layout cannot type", () => {
+		expect(() => textToKeyStrokes("5€ ü€", "us")).toThrow(
+			'Cannot type "€", "ü" with the "us" keyboard layout',
+		);
+		expect(() => textToKeyStrokes("ñ", "fr")).toThrow('Cannot type "ñ"');
+	});
+});
@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { pointerActionToStates } from "../../src/input/pointer.js";
+
+describe("pointerActionToStates", () => {
+	it("should move without pressing buttons", () => {
+		expect(pointerActionToStates({ type: "move", x: 10, y: 20 })).toEqual([
+			{ x: 10, y: 20, buttons: [] },
+		]);
+	});
+
+	it("should move, press and release for a click", () => {
+		expect(pointerActionToStates({ type: "click", x: 5, y: 6, button: "right" })).toEqual([
+			{ x: 5, y: 6, buttons: [] },
+			{ x: 5, y: 6, buttons: ["right"] },
+			{ x: 5, y: 6, buttons: [] },
+		]);
+	});
+
+	it("should press twice for a double click", () => {
+		const states = pointerActionToStates({ type: "double_click", x: 1, y: 1, button: "left" });
+		expect(states.map((s) => s.buttons.length)).toEqual([0, 1, 0, 1, 0]);
+	});
+
+	it("should hold the button while dragging to the target", () => {
+		const states = pointerActionToStates({
+			type: "drag",
+			x: 0,
+			y: 0,
+			toX: 80,
+			toY: 40,
+			button: "left",
+		});
+
+		expect(states[0]).toEqual({ x: 0, y: 0, buttons: [] });
+		expect(states[1]).toEqual({ x: 0, y: 0, buttons: ["left"] });
+		expect(states.at(-2)).toEqual({ x: 80, y: 40, buttons: ["left"] });
+		expect(states.at(-1)).toEqual({ x: 80, y: 40, buttons: [] });
+		expect(states.slice(1, -1).every((s) => s.buttons[0] === "left")).toBe(true);
+		expect(states.length).toBeGreaterThan(4);
+	});
+});
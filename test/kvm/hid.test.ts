@@ -0,0 +1,101 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { KEY_CODES } from "../../src/input/keys.js";
+import {
+	buildIusbPacket,
+	HID_USAGE,
+	IUSB,
+	keyStrokeToReports,
+	pointerStateToReport,
+} from "../../src/kvm/hid.js";
+
+describe("HID_USAGE", () => {
+	it("should map every supported key code", () => {
+		for (const code of KEY_CODES) {
+			expect(HID_USAGE[code]).toBeNumber();
+		}
+	});
+
+	it("should use standard USB HID usage IDs", () => {
+		expect(HID_USAGE.KeyA).toBe(0x04);
+		expect(HID_USAGE.KeyZ).toBe(0x1d);
+		expect(HID_USAGE.Digit1).toBe(0x1e);
+		expect(HID_USAGE.Digit0).toBe(0x27);
+		expect(HID_USAGE.Enter).toBe(0x28);
+		expect(HID_USAGE.F1).toBe(0x3a);
+		expect(HID_USAGE.F12).toBe(0x45);
+		expect(HID_USAGE.ArrowUp).toBe(0x52);
+		expect(HID_USAGE.Numpad1).toBe(0x59);
+		expect(HID_USAGE.Numpad0).toBe(0x62);
+	});
+});
+
+describe("keyStrokeToReports", () => {
+	it("should build press and release reports", () => {
+		const [press, release] = keyStrokeToReports({ code: "Enter", modifiers: [] });
+		expect(Array.from(press)).toEqual([0, 0, 0x28, 0, 0, 0, 0, 0]);
+		expect(Array.from(release)).toEqual([0, 0, 0, 0, 0, 0, 0, 0]);
+	});
+
+	it("should set modifier bits for chords", () => {
+		const [press] = keyStrokeToReports({ code: "Delete", modifiers: ["ctrl", "alt"] });
+		expect(press[0]).toBe(0x05);
+		expect(press[2]).toBe(0x4c);
+	});
+
+	it("should report a lone modifier key through the modifier bitmap", () => {
+		const [press] = keyStrokeToReports({ code: "ShiftRight", modifiers: [] });
+		expect(press[0]).toBe(0x20);
+		expect(press[2]).toBe(0);
+	});
+
+	it("should throw for keys without a usage", () => {
+		expect(() => keyStrokeToReports({ code: "Hyper", modifiers: [] })).toThrow("no USB HID usage");
+	});
+});
+
+describe("pointerStateToReport", () => {
+	it("should scale positions to the absolute range", () => {
+		const report = pointerStateToReport({ x: 799, y: 0, buttons: [] }, 800, 600);
+		const view = new DataView(report.buffer);
+
+		expect(report.length).toBe(IUSB.MOUSE_REPORT_SIZE);
+		expect(view.getUint16(1, true)).toBe(32767);
+		expect(view.getUint16(3, true)).toBe(0);
+	});
+
+	it("should set button bits", () => {
+		expect(pointerStateToReport({ x: 0, y: 0, buttons: ["left"] }, 800, 600)[0]).toBe(0x01);
+		expect(pointerStateToReport({ x: 0, y: 0, buttons: ["right"] }, 800, 600)[0]).toBe(0x02);
+		expect(pointerStateToReport({ x: 0, y: 0, buttons: ["middle"] }, 800, 600)[0]).toBe(0x04);
+	});
+
+	it("should clamp positions outside the screen", () => {
+		const report = pointerStateToReport({ x: -5, y: 10_000, buttons: [] }, 800, 600);
+		const view = new DataView(report.buffer);
+
+		expect(view.getUint16(1, true)).toBe(0);
+		expect(view.getUint16(3, true)).toBe(32767);
+	});
+});
+
+describe("buildIusbPacket", () => {
+	it("should frame a report with a zero-sum header", () => {
+		const report = new Uint8Array([0x02, 0, 0x04, 0, 0, 0, 0, 0]);
+		const packet = buildIusbPacket(IUSB.DEVICE_KEYBOARD, IUSB.PROTO_KEYBOARD_DATA, report, 7);
+
+		expect(packet.length).toBe(IUSB.HDR_SIZE + 8);
+		expect(new TextDecoder().decode(packet.subarray(0, 8))).toBe("IUSB    ");
+		const view = new DataView(packet.buffer);
+		expect(view.getUint32(12, true)).toBe(8); // data length
+		expect(packet[17]).toBe(IUSB.DEVICE_KEYBOARD);
+		expect(packet[18]).toBe(IUSB.PROTO_KEYBOARD_DATA);
+		expect(view.getUint32(24, true)).toBe(7); // sequence number
+
+		const sum = packet.subarray(0, IUSB.HDR_SIZE).reduce((a, b) => a + b, 0);
+		expect(sum & 0xff).toBe(0);
+		expect(Array.from(packet.subarray(IUSB.HDR_SIZE))).toEqual(Array.from(report));
+	});
+});
@@ -0,0 +1,142 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "bun:test";
+import { parseKeys } from "../../src/input/keys.js";
+import { clearDecoderCache } from "../../src/kvm/decoder-fetcher.js";
+import { sendKvmKeys, sendKvmPointer } from "../../src/kvm/input.js";
+import { MockBmcServer } from "../helpers/mock-bmc-server.js";
+
+/** Wait until `predicate` holds, polling every 5ms (server-side handlers run asynchronously). */
+async function waitFor(predicate: () => boolean, timeout = 2000): Promise<void> {
+	const deadline = Date.now() + timeout;
+	while (!predicate()) {
+		if (Date.now() > deadline) throw new Error("Condition not met in time");
+		await new Promise((resolve) => setTimeout(resolve, 5));
+	}
+}
+
+describe("sendKvmKeys", () => {
+	let bmc: MockBmcServer;
+	let viewerUrl: string;
+
+	beforeAll(() => {
+		bmc = new MockBmcServer({
+			width: 320,
+			height: 240,
+			sessionCookie: "input-session",
+			csrfToken: "input-csrf",
+			kvmToken: "input-token",
+		});
+		viewerUrl = `${bmc.start()}/viewer`;
+	});
+
+	afterEach(() => {
+		bmc.clearInputEvents();
+		clearDecoderCache();
+	});
+
+	afterAll(() => {
+		bmc.stop();
+	});
+
+	it("should send a press and a release report per key", async () => {
+		await sendKvmKeys(viewerUrl, parseKeys(["Enter", "Esc"]), { keyDelay: 0 });
+		await waitFor(() => bmc.keyEvents.length === 4);
+
+		expect(bmc.keyEvents).toEqual([
+			{ modifiers: 0, keys: [0x28] },
+			{ modifiers: 0, keys: [] },
+			{ modifiers: 0, keys: [0x29] },
+			{ modifiers: 0, keys: [] },
+		]);
+	});
+
+	it("should hold modifiers for chords", async () => {
+		await sendKvmKeys(viewerUrl, parseKeys(["Ctrl+Alt+Del"]), { keyDelay: 0 });
+		await waitFor(() => bmc.keyEvents.length === 2);
+
+		expect(bmc.keyEvents[0]).toEqual({ modifiers: 0x05, keys: [0x4c] });
+		expect(bmc.keyEvents[1]).toEqual({ modifiers: 0, keys: [] });
+	});
+
+	it("should return no screenshot by default", async () => {
+		const result = await sendKvmKeys(viewerUrl, parseKeys(["F2"]), { keyDelay: 0 });
+		expect(result).toBeUndefined();
+		await waitFor(() => bmc.keyEvents.length === 2);
+	});
+
+	it("should capture a screenshot after the keys when requested", async () => {
+		const result = await sendKvmKeys(viewerUrl, parseKeys(["Down", "Enter"]), {
+			keyDelay: 0,
+			screenshot: true,
+			settleDelay: 0,
+		});
+
+		// The frame is requested on the same WebSocket after the keys, so they arrived first
+		expect(bmc.keyEvents).toHaveLength(4);
+		expect(result?.width).toBe(320);
+		expect(result?.height).toBe(240);
+		expect(result?.png[0]).toBe(0x89); // PNG magic
+	});
+
+	it("should reject when KVM session validation fails", async () => {
+		const rejecting = new MockBmcServer({ rejectValidation: true });
+		const url = `${rejecting.start()}/viewer`;
+
+		await expect(sendKvmKeys(url, parseKeys(["Enter"]))).rejects.toThrow(
+			"KVM session validation failed",
+		);
+		expect(rejecting.keyEvents).toHaveLength(0);
+
+		rejecting.stop();
+	});
+});
+
+describe("sendKvmPointer", () => {
+	let bmc: MockBmcServer;
+	let viewerUrl: string;
+
+	beforeAll(() => {
+		bmc = new MockBmcServer({ width: 800, height: 600 });
+		viewerUrl = `${bmc.start()}/viewer`;
+	});
+
+	afterEach(() => {
+		bmc.clearInputEvents();
+		clearDecoderCache();
+	});
+
+	afterAll(() => {
+		bmc.stop();
+	});
+
+	it("should send absolute mouse reports scaled to the frame resolution", async () => {
+		await sendKvmPointer(
+			viewerUrl,
+			{ type: "click", x: 799, y: 0, button: "left" },
+			{ pointerDelay: 0 },
+		);
+		await waitFor(() => bmc.mouseEvents.length === 3);
+
+		expect(bmc.mouseEvents).toEqual([
+			{ buttons: 0, x: 32767, y: 0 },
+			{ buttons: 0x01, x: 32767, y: 0 },
+			{ buttons: 0, x: 32767, y: 0 },
+		]);
+		expect(bmc.keyEvents).toHaveLength(0);
+	});
+
+	it("should capture a screenshot after the action when requested", async () => {
+		const result = await sendKvmPointer(
+			viewerUrl,
+			{ type: "move", x: 400, y: 300 },
+			{ pointerDelay: 0, screenshot: true, settleDelay: 0 },
+		);
+
+		expect(bmc.mouseEvents).toHaveLength(1);
+		expect(bmc.mouseEvents[0].buttons).toBe(0);
+		expect(result?.width).toBe(800);
+		expect(result?.png[0]).toBe(0x89); // PNG magic
+	});
+});
@@ -2,8 +2,25 @@
 // SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
 
 import { describe, expect, it } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
 import { PNG } from "pngjs";
-import { optimizeForLlm } from "../../src/kvm/optimize.js";
+import {
+	applyFilters,
+	autoExposure,
+	brightness,
+	buildPipeline,
+	contrastStretch,
+	gamma,
+	grayscale,
+	invert,
+	optimizeForLlm,
+	threshold,
+	upscale,
+} from "../../src/kvm/optimize.js";
+import { extractText } from "../../src/screen/ocr.js";
+import type { RgbaImage } from "../../src/screen/types.js";
+import { renderTextScreen } from "../helpers/text-screen.js";
 
 /** Create a PNG buffer from raw RGBA pixel data. */
 function makePng(width: number, height: number, pixels: number[][]): Buffer {
@@ -18,6 +35,20 @@ function makePng(width: number, height: number, pixels: number[][]): Buffer {
 	return PNG.sync.write(png);
 }
 
+/** Image with one pixel per [r, g, b] entry, in a single row. */
+function row(...colors: number[][]): RgbaImage {
+	const pixels = new Uint8Array(colors.length * 4);
+	for (const [i, [r, g, b]] of colors.entries()) pixels.set([r, g, b, 255], i * 4);
+	return { width: colors.length, height: 1, pixels };
+}
+
+/** The [r, g, b] values of each pixel. */
+function colors(image: RgbaImage): number[][] {
+	return Array.from({ length: image.width * image.height }, (_, i) =>
+		Array.from(image.pixels.subarray(i * 4, i * 4 + 3)),
+	);
+}
+
 describe("optimizeForLlm", () => {
 	it("should upscale dimensions by 2x", () => {
 		// 4x3 image → 8x6
@@ -104,3 +135,239 @@ describe("optimizeForLlm", () => {
 		expect(result.data[2]).toBe(99);
 	});
 });
+
+describe("filter steps", () => {
+	it("should multiply and cap channels with brightness", () => {
+		expect(colors(brightness(2)(row([10, 100, 200])))).toEqual([[20, 200, 255]]);
+	});
+
+	it("should brighten dark tones with a gamma above 1", () => {
+		const [[dark, mid, white]] = colors(gamma(2)(row([64, 128, 255])));
+
+		expect(dark).toBe(128);
+		expect(mid).toBe(181);
+		expect(white).toBe(255);
+	});
+
+	it("should invert colors", () => {
+		expect(colors(invert()(row([0, 100, 255])))).toEqual([[255, 155, 0]]);
+	});
+
+	it("should convert to gray by luminance", () => {
+		expect(colors(grayscale()(row([255, 0, 0], [0, 255, 0])))).toEqual([
+			[76, 76, 76],
+			[150, 150, 150],
+		]);
+	});
+
+	it("should binarize on luminance", () => {
+		const image = row([200, 200, 200], [90, 90, 90], [255, 0, 0]);
+
+		expect(colors(threshold(100)(image))).toEqual([
+			[255, 255, 255],
+			[0, 0, 0],
+			[0, 0, 0],
+		]);
+	});
+
+	it("should stretch the luminance range to black and white", () => {
+		const image = row([40, 40, 40], [80, 80, 80], [120, 120, 120]);
+
+		expect(colors(contrastStretch()(image))).toEqual([
+			[0, 0, 0],
+			[128, 128, 128],
+			[255, 255, 255],
+		]);
+	});
+
+	it("should ignore the extreme 1% when stretching contrast", () => {
+		// 198 mid-gray pixels, one black and one white outlier
+		const image = row(
+			[0, 0, 0],
+			...Array(99).fill([100, 100, 100]),
+			...Array(99).fill([150, 150, 150]),
+			[255, 255, 255],
+		);
+
+		const [first, low, high] = colors(contrastStretch()(image)).filter((_, i) =>
+			[0, 1, 100].includes(i),
+		);
+
+		expect(first).toEqual([0, 0, 0]);
+		expect(low).toEqual([0, 0, 0]);
+		expect(high).toEqual([255, 255, 255]);
+	});
+
+	it("should leave a flat image alone when stretching contrast", () => {
+		const image = row([70, 70, 70], [70, 70, 70]);
+
+		expect(contrastStretch()(image)).toBe(image);
+	});
+
+	it("should upscale with nearest neighbor", () => {
+		const result = upscale(2)(row([1, 2, 3], [4, 5, 6]));
+
+		expect(result.width).toBe(4);
+		expect(result.height).toBe(2);
+		expect(colors(result)).toEqual([
+			[1, 2, 3],
+			[1, 2, 3],
+			[4, 5, 6],
+			[4, 5, 6],
+			[1, 2, 3],
+			[1, 2, 3],
+			[4, 5, 6],
+			[4, 5, 6],
+		]);
+	});
+
+	it("should upscale pixels that are not 4-byte aligned", () => {
+		const buffer = new Uint8Array(9);
+		buffer.set([1, 2, 3, 255, 4, 5, 6, 255], 1);
+		const image: RgbaImage = { width: 2, height: 1, pixels: buffer.subarray(1) };
+
+		const scaledRow = [
+			[1, 2, 3],
+			[1, 2, 3],
+			[1, 2, 3],
+			[4, 5, 6],
+			[4, 5, 6],
+			[4, 5, 6],
+		];
+
+		expect(colors(upscale(3)(image))).toEqual([...scaledRow, ...scaledRow, ...scaledRow]);
+	});
+});
+
+describe("buildPipeline", () => {
+	it("should default to brightness and upscale", () => {
+		expect(buildPipeline()).toHaveLength(2);
+	});
+
+	it("should skip steps that would not change the image", () => {
+		expect(buildPipeline({ scale: 1, brightness: 1, gamma: 1 })).toHaveLength(0);
+	});
+
+	it("should run the steps in a fixed order", () => {
+		// Invert comes before threshold: dark pixels end up white
+		const steps = buildPipeline({ scale: 1, brightness: 1, invert: true, threshold: 128 });
+
+		expect(colors(applyFilters(row([20, 20, 20], [230, 230, 230]), steps))).toEqual([
+			[255, 255, 255],
+			[0, 0, 0],
+		]);
+	});
+
+	it("should merge fixed brightness, gamma and invert into one step", () => {
+		const image = row([10, 60, 120], [200, 90, 30]);
+		const steps = buildPipeline({ scale: 1, brightness: 1.5, gamma: 2, invert: true });
+
+		expect(steps).toHaveLength(1);
+		expect(applyFilters(image, steps)).toEqual(
+			applyFilters(image, [brightness(1.5), gamma(2), invert()]),
+		);
+	});
+
+	it("should return an opaque copy without steps", () => {
+		const image: RgbaImage = { width: 1, height: 1, pixels: new Uint8Array([1, 2, 3, 4]) };
+
+		const result = applyFilters(image, []);
+
+		expect(Array.from(result.pixels)).toEqual([1, 2, 3, 255]);
+		expect(image.pixels[3]).toBe(4);
+	});
+});
+
+describe("autoExposure fixtures", () => {
+	type Rgb = [number, number, number];
+
+	function fixture(name: string): string {
+		return readFileSync(join(import.meta.dir, "../fixtures/ocr", `${name}.txt`), "utf8").trimEnd();
+	}
+
+	/** Mean luminance after processing of the pixels that had `color` before. */
+	function meanLuminance(before: RgbaImage, after: RgbaImage, [r, g, b]: Rgb): number {
+		let sum = 0;
+		let count = 0;
+		for (let i = 0; i < before.pixels.length; i += 4) {
+			if (before.pixels[i] === r && before.pixels[i + 1] === g && before.pixels[i + 2] === b) {
+				sum += after.pixels[i] * 0.299 + after.pixels[i + 1] * 0.587 + after.pixels[i + 2] * 0.114;
+				count++;
+			}
+		}
+		return sum / count;
+	}
+
+	it("should brighten dim text on a dark text-mode console", () => {
+		const text = fixture("kernel-panic");
+		const fg: Rgb = [56, 56, 56];
+		const bg: Rgb = [0, 0, 0];
+		const frame = renderTextScreen(text.split("\n"), { cellWidth: 9, fg, bg });
+
+		const result = autoExposure()(frame);
+
+		expect(meanLuminance(frame, result, fg)).toBeGreaterThan(200);
+		expect(meanLuminance(frame, result, bg)).toBeLessThan(10);
+		expect(extractText(result)?.text).toBe(text);
+	});
+
+	it("should keep a bright installer screen from clipping to white", () => {
+		const text = fixture("fsck-prompt");
+		const fg: Rgb = [48, 48, 64];
+		const bg: Rgb = [224, 224, 224];
+		const frame = renderTextScreen(text.split("\n"), {
+			columns: 100,
+			rows: 37,
+			width: 800,
+			height: 600,
+			fg,
+			bg,
+		});
+
+		const result = autoExposure()(frame);
+		const fixed = brightness(3)(frame);
+
+		const contrast = meanLuminance(frame, result, bg) - meanLuminance(frame, result, fg);
+		const fixedContrast = meanLuminance(frame, fixed, bg) - meanLuminance(frame, fixed, fg);
+		expect(meanLuminance(frame, result, fg)).toBeLessThan(40);
+		expect(contrast).toBeGreaterThan(200);
+		expect(fixedContrast).toBeLessThan(110);
+		expect(extractText(result)?.text).toBe(text);
+	});
+
+	it("should treat a bright dialog and dim text on one screen separately", () => {
+		const text = fixture("bios-setup");
+		const dim: Rgb = [64, 64, 64];
+		const dialogFg: Rgb = [16, 16, 96];
+		const dialogBg: Rgb = [208, 208, 208];
+		// The title bars are a bright dialog; the rest is dim text on black
+		const frame = renderTextScreen(text.split("\n"), {
+			fg: dim,
+			spans: [0, 1, 2].map((row) => ({ row, fg: dialogFg, bg: dialogBg })),
+		});
+
+		const result = autoExposure()(frame);
+
+		expect(meanLuminance(frame, result, dim)).toBeGreaterThan(150);
+		expect(meanLuminance(frame, result, dialogFg)).toBeLessThan(60);
+		expect(meanLuminance(frame, result, dialogBg)).toBeGreaterThan(200);
+		expect(extractText(result)?.text).toBe(text);
+	});
+
+	it("should leave a blank screen black", () => {
+		const frame = renderTextScreen([], { noise: 4 });
+
+		const result = autoExposure()(frame);
+
+		expect(result.pixels.every((v, i) => i % 4 === 3 || v <= 20)).toBe(true);
+	});
+
+	it("should be selected with brightness auto", () => {
+		const frame = renderTextScreen(["login:"], { fg: [60, 60, 60] });
+
+		const steps = buildPipeline({ brightness: "auto", scale: 1 });
+
+		expect(steps).toHaveLength(1);
+		expect(applyFilters(frame, steps).pixels).toEqual(applyFilters(frame, [autoExposure()]).pixels);
+	});
+});
@@ -4,6 +4,7 @@
 import { afterAll, afterEach, beforeAll, describe, expect, it } from "bun:test";
 import { clearDecoderCache } from "../../src/kvm/decoder-fetcher.js";
 import { captureKvmScreenshot } from "../../src/kvm/screenshot.js";
+import { decodePng } from "../../src/screen/image.js";
 import { MockBmcServer } from "../helpers/mock-bmc-server.js";
 
 describe("captureKvmScreenshot", () => {
@@ -55,6 +56,13 @@ describe("captureKvmScreenshot", () => {
 		expect(result.width).toBe(320);
 		expect(result.height).toBe(240);
 	});
+
+	it("should decode the frame contents", async () => {
+		const result = await captureKvmScreenshot(viewerUrl);
+		const image = decodePng(result.png);
+
+		expect(Array.from(image.pixels.subarray(0, 4))).toEqual([255, 0, 0, 255]);
+	});
 });
 
 describe("captureKvmScreenshot error handling", () => {
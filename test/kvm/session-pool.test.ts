@@ -0,0 +1,179 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { afterEach, beforeEach, describe, expect, it } from "bun:test";
+import { clearDecoderCache } from "../../src/kvm/decoder-fetcher.js";
+import { captureClientScreenshot } from "../../src/kvm/screenshot.js";
+import { KvmSessionPool } from "../../src/kvm/session-pool.js";
+import { MockBmcServer } from "../helpers/mock-bmc-server.js";
+
+/** Wait until `predicate` holds, polling every 5ms (server-side handlers run asynchronously). */
+async function waitFor(predicate: () => boolean, timeout = 2000): Promise<void> {
+	const deadline = Date.now() + timeout;
+	while (!predicate()) {
+		if (Date.now() > deadline) throw new Error("Condition not met in time");
+		await new Promise((resolve) => setTimeout(resolve, 5));
+	}
+}
+
+describe("KvmSessionPool", () => {
+	let bmc: MockBmcServer;
+	let pool: KvmSessionPool;
+	let viewerUrl: string;
+	let resolveCount: number;
+
+	const resolveViewerUrl = async (): Promise<string> => {
+		resolveCount++;
+		return viewerUrl;
+	};
+
+	beforeEach(() => {
+		bmc = new MockBmcServer({ width: 640, height: 480 });
+		viewerUrl = `${bmc.start()}/viewer`;
+		resolveCount = 0;
+	});
+
+	afterEach(() => {
+		pool.closeAll();
+		bmc.stop();
+		clearDecoderCache();
+	});
+
+	it("should reuse one connection for consecutive operations", async () => {
+		pool = new KvmSessionPool();
+
+		const first = await pool.run("srv", resolveViewerUrl, captureClientScreenshot);
+		const second = await pool.run("srv", resolveViewerUrl, captureClientScreenshot);
+
+		expect(first.width).toBe(640);
+		expect(second.png[0]).toBe(0x89); // PNG magic
+		expect(resolveCount).toBe(1);
+		expect(bmc.connectionCount).toBe(1);
+		expect(pool.size).toBe(1);
+	});
+
+	it("should serialize concurrent operations on the same server", async () => {
+		pool = new KvmSessionPool();
+
+		const results = await Promise.all([
+			pool.run("srv", resolveViewerUrl, (client) => client.captureFrame()),
+			pool.run("srv", resolveViewerUrl, (client) => client.captureFrame()),
+			pool.run("srv", resolveViewerUrl, (client) => client.captureFrame()),
+		]);
+
+		expect(results.map((f) => f.width)).toEqual([640, 640, 640]);
+		expect(bmc.connectionCount).toBe(1);
+	});
+
+	it("should keep one session per server", async () => {
+		pool = new KvmSessionPool();
+
+		await pool.run("a", resolveViewerUrl, (client) => client.captureFrame());
+		await pool.run("b", resolveViewerUrl, (client) => client.captureFrame());
+
+		expect(pool.size).toBe(2);
+		expect(bmc.connectionCount).toBe(2);
+	});
+
+	it("should reconnect with the same BMC session after a drop", async () => {
+		pool = new KvmSessionPool();
+		await pool.run("srv", resolveViewerUrl, (client) => client.captureFrame());
+
+		bmc.dropConnections();
+		await waitFor(() => bmc.openConnections === 0);
+		await new Promise((resolve) => setTimeout(resolve, 50)); // let the client see the close
+
+		const frame = await pool.run("srv", resolveViewerUrl, (client) => client.captureFrame());
+		expect(frame.width).toBe(640);
+		expect(bmc.connectionCount).toBe(2);
+		expect(resolveCount).toBe(1);
+	});
+
+	it("should reconnect after a frame capture times out, dropping its late fragments", async () => {
+		pool = new KvmSessionPool({ frameTimeout: 200 });
+		await pool.run("srv", resolveViewerUrl, (client) => client.captureFrame());
+
+		bmc.stallFrames(1);
+		await expect(
+			pool.run("srv", resolveViewerUrl, (client) => client.captureFrame()),
+		).rejects.toThrow("No complete video frame received within 200ms");
+
+		const frame = await pool.run("srv", resolveViewerUrl, (client) => client.captureFrame());
+		expect([frame.width, frame.height]).toEqual([640, 480]);
+		expect(bmc.connectionCount).toBe(2);
+		expect(resolveCount).toBe(1);
+	});
+
+	it("should open a new session when the BMC refuses the old one", async () => {
+		pool = new KvmSessionPool();
+		await pool.run("srv", resolveViewerUrl, (client) => client.captureFrame());
+
+		bmc.dropConnections();
+		await waitFor(() => bmc.openConnections === 0);
+		await new Promise((resolve) => setTimeout(resolve, 50)); // let the client see the close
+		bmc.rejectUpgrades(1);
+
+		const frame = await pool.run("srv", resolveViewerUrl, (client) => client.captureFrame());
+		expect(frame.width).toBe(640);
+		expect(resolveCount).toBe(2);
+	});
+
+	it("should ask for a new viewer URL when the BMC refuses one", async () => {
+		pool = new KvmSessionPool();
+		const rejected: Array<string | undefined> = [];
+		bmc.rejectUpgrades(1);
+
+		const frame = await pool.run(
+			"srv",
+			async (rejectedUrl) => {
+				rejected.push(rejectedUrl);
+				return viewerUrl;
+			},
+			(client) => client.captureFrame(),
+		);
+
+		expect(frame.width).toBe(640);
+		expect(rejected).toEqual([undefined, viewerUrl]);
+	});
+
+	it("should send keep-alives on idle sessions", async () => {
+		pool = new KvmSessionPool({ keepAliveInterval: 20 });
+		await pool.run("srv", resolveViewerUrl, (client) => client.captureFrame());
+		const afterHandshake = bmc.powerStatusRequests;
+
+		await waitFor(() => bmc.powerStatusRequests >= afterHandshake + 2);
+		expect(bmc.connectionCount).toBe(1);
+	});
+
+	it("should close sessions after the idle timeout", async () => {
+		pool = new KvmSessionPool({ idleTimeout: 50 });
+		await pool.run("srv", resolveViewerUrl, (client) => client.captureFrame());
+		expect(bmc.openConnections).toBe(1);
+
+		await waitFor(() => pool.size === 0 && bmc.openConnections === 0);
+	});
+
+	it("should propagate operation errors and keep the session usable", async () => {
+		pool = new KvmSessionPool();
+
+		await expect(
+			pool.run("srv", resolveViewerUrl, async () => {
+				throw new Error("boom");
+			}),
+		).rejects.toThrow("boom");
+
+		const frame = await pool.run("srv", resolveViewerUrl, (client) => client.captureFrame());
+		expect(frame.width).toBe(640);
+		expect(bmc.connectionCount).toBe(1);
+	});
+
+	it("should close all sessions on closeAll", async () => {
+		pool = new KvmSessionPool();
+		await pool.run("srv", resolveViewerUrl, (client) => client.captureFrame());
+
+		pool.closeAll();
+
+		expect(pool.size).toBe(0);
+		await waitFor(() => bmc.openConnections === 0);
+	});
+});
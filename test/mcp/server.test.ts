@@ -4,10 +4,27 @@
 import { afterAll, beforeAll, describe, expect, it } from "bun:test";
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import type { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
-import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+import {
+	ElicitRequestSchema,
+	type JSONRPCMessage,
+	ResourceUpdatedNotificationSchema,
+} from "@modelcontextprotocol/sdk/types.js";
 import { PNG } from "pngjs";
+import type { KeyStroke, PointerAction } from "../../src/input/types.js";
+import type { PowerToolOptions } from "../../src/mcp/power.js";
 import { createMcpServer } from "../../src/mcp/server.js";
-import type { Provider, Server } from "../../src/providers/types.js";
+import type {
+	BootOption,
+	InputOptions,
+	IpmiStatus,
+	PowerAction,
+	Provider,
+	ScreenChangeResult,
+	Server,
+} from "../../src/providers/types.js";
+import { decodePng, encodePng } from "../../src/screen/image.js";
+import type { Recording, RecordOptions, WaitForChangeOptions } from "../../src/screen/types.js";
+import { renderTextScreen } from "../helpers/text-screen.js";
 
 /** Create a pair of in-memory transports connected to each other. */
 function createTransportPair(): [Transport, Transport] {
@@ -76,6 +93,29 @@ const TEST_PNG = Buffer.from(
 class MockProvider implements Provider {
 	readonly name = "mock";
 	screenshotError: Error | null = null;
+	screenshot: Buffer = TEST_PNG;
+	readonly sentKeys: Array<{
+		serverId: string;
+		keys: readonly KeyStroke[];
+		options?: InputOptions;
+	}> = [];
+	readonly sentPointer: Array<{
+		serverId: string;
+		action: PointerAction;
+		options?: InputOptions;
+	}> = [];
+	readonly waits: Array<{ serverId: string; options?: WaitForChangeOptions }> = [];
+	nextChange: Pick<ScreenChangeResult, "changed" | "diff"> = {
+		changed: true,
+		diff: {
+			changedPixels: 640,
+			comparedPixels: 307200,
+			bounds: { x: 0, y: 464, width: 320, height: 16 },
+		},
+	};
+
+	readonly recordings: Array<{ serverId: string; options?: RecordOptions }> = [];
+	recordingTruncated: Recording["truncated"];
 
 	async listServers(): Promise<Server[]> {
 		return [
@@ -84,11 +124,61 @@ class MockProvider implements Provider {
 		];
 	}
 
+	async getIpmiStatus(_serverId: string): Promise<IpmiStatus> {
+		return { activated: true, features: ["kvmipHtml5URL", "serialOverLanURL"] };
+	}
+
 	async getScreenshot(_serverId: string): Promise<Buffer> {
 		if (this.screenshotError) {
 			throw this.screenshotError;
 		}
-		return TEST_PNG;
+		return this.screenshot;
+	}
+
+	async sendKeys(
+		serverId: string,
+		keys: readonly KeyStroke[],
+		options?: InputOptions,
+	): Promise<Buffer | undefined> {
+		this.sentKeys.push({ serverId, keys, options });
+		return options?.screenshot ? this.screenshot : undefined;
+	}
+
+	async sendPointer(
+		serverId: string,
+		action: PointerAction,
+		options?: InputOptions,
+	): Promise<Buffer | undefined> {
+		this.sentPointer.push({ serverId, action, options });
+		return options?.screenshot ? TEST_PNG : undefined;
+	}
+
+	async waitForChange(
+		serverId: string,
+		options?: WaitForChangeOptions,
+	): Promise<ScreenChangeResult> {
+		this.waits.push({ serverId, options });
+		return { png: TEST_PNG, width: 640, height: 480, elapsed: 2500, ...this.nextChange };
+	}
+
+	async recordConsole(serverId: string, options?: RecordOptions): Promise<Recording> {
+		this.recordings.push({ serverId, options });
+		const image = decodePng(TEST_PNG);
+		return {
+			format: options?.format ?? "apng",
+			animation: TEST_PNG,
+			width: 1,
+			height: 1,
+			captured: 40,
+			frames: 3,
+			elapsed: 10_000,
+			truncated: this.recordingTruncated,
+			keyframes: [
+				{ image, time: 0, changedPixels: 1 },
+				{ image, time: 2500, changedPixels: 1 },
+				{ image, time: 7750, changedPixels: 1 },
+			],
+		};
 	}
 }
 
@@ -160,7 +250,7 @@ describe("MCP Server", () => {
 			mimeType?: string;
 		}>;
 
-		expect(content).toHaveLength(1);
+		expect(content).toHaveLength(2);
 		expect(content[0].type).toBe("image");
 		expect(content[0].mimeType).toBe("image/png");
 		expect(content[0].data).toBeDefined();
@@ -205,6 +295,351 @@ describe("MCP Server", () => {
 		expect(png.height).toBe(1);
 	});
 
+	it("should encode JPEG within a dimension budget and report the result", async () => {
+		mockProvider.screenshot = encodePng(renderTextScreen(["Booting from Hard Disk..."]));
+		const result = await client.callTool({
+			name: "get_screenshot",
+			arguments: { serverId: "server-1", imageFormat: "jpeg", quality: 60, maxDimension: 400 },
+		});
+		mockProvider.screenshot = TEST_PNG;
+		const content = result.content as Array<{
+			type: string;
+			text?: string;
+			data?: string;
+			mimeType?: string;
+		}>;
+
+		expect(content.map((c) => c.type)).toEqual(["image", "text"]);
+		expect(content[0].mimeType).toBe("image/jpeg");
+		const size = Buffer.from(content[0].data ?? "", "base64").length;
+		expect(content[1].text).toBe(
+			`Image: 400x250 JPEG (quality 60), ${(size / 1024).toFixed(1)} KB, downscaled from 1280x800\nCapture id: ${content[1].text?.match(/Capture id: (\d+)/)?.[1]}`,
+		);
+	});
+
+	it("should report the size of small WebP screenshots", async () => {
+		const result = await client.callTool({
+			name: "get_screenshot",
+			arguments: { serverId: "server-1", imageFormat: "webp" },
+		});
+		const content = result.content as Array<{ type: string; text?: string; mimeType?: string }>;
+
+		expect(content[0].mimeType).toBe("image/webp");
+		expect(content[1].text).toMatch(/^Image: 2x2 WEBP, \d+ bytes\nCapture id: \d+$/);
+	});
+
+	it("should return the screen text instead of the image", async () => {
+		mockProvider.screenshot = encodePng(
+			renderTextScreen(["GNU GRUB  version 2.06", "", "*Ubuntu"]),
+		);
+		const result = await client.callTool({
+			name: "get_screenshot",
+			arguments: { serverId: "server-1", format: "text" },
+		});
+		mockProvider.screenshot = TEST_PNG;
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(content).toHaveLength(2);
+		expect(content[0].text).toBe("Screen text (80x25):\nGNU GRUB  version 2.06\n\n*Ubuntu");
+		expect(content[1].text).toMatch(/^Capture id: \d+$/);
+	});
+
+	it("should return the screen text followed by the image", async () => {
+		mockProvider.screenshot = encodePng(renderTextScreen(["login:"]));
+		const result = await client.callTool({
+			name: "get_screenshot",
+			arguments: { serverId: "server-1", format: "both" },
+		});
+		mockProvider.screenshot = TEST_PNG;
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(content.map((c) => c.type)).toEqual(["text", "image", "text"]);
+		expect(content[0].text).toBe("Screen text (80x25):\nlogin:");
+	});
+
+	it("should fall back to the image when the screen has no text grid", async () => {
+		const result = await client.callTool({
+			name: "get_screenshot",
+			arguments: { serverId: "server-1", format: "text" },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(content.map((c) => c.type)).toEqual(["text", "image", "text"]);
+		expect(content[0].text).toBe("No text-mode screen detected");
+	});
+
+	it("should crop to a region in console pixels and zoom into it", async () => {
+		mockProvider.screenshot = encodePng(renderTextScreen(["BIOS Version 2.17"]));
+		const result = await client.callTool({
+			name: "get_screenshot",
+			arguments: { serverId: "server-1", region: { x: 0, y: 0, width: 160, height: 16 }, zoom: 5 },
+		});
+		mockProvider.screenshot = TEST_PNG;
+		const content = result.content as Array<{ type: string; text?: string; data?: string }>;
+
+		expect(content.map((c) => c.type)).toEqual(["text", "image", "text"]);
+		expect(content[0].text).toBe("Region 160x16 at (0, 0) of the 640x400 console, zoomed 5x");
+		const png = PNG.sync.read(Buffer.from(content[1].data ?? "", "base64"));
+		expect(png.width).toBe(800);
+		expect(png.height).toBe(80);
+	});
+
+	it("should clip the region to the screen and limit the zoom", async () => {
+		mockProvider.screenshot = encodePng(renderTextScreen([]));
+		const result = await client.callTool({
+			name: "get_screenshot",
+			arguments: {
+				serverId: "server-1",
+				region: { x: 0, y: 300, width: 700, height: 200 },
+				zoom: 8,
+			},
+		});
+		mockProvider.screenshot = TEST_PNG;
+		const content = result.content as Array<{ type: string; text?: string; data?: string }>;
+
+		expect(content[0].text).toBe("Region 640x100 at (0, 300) of the 640x400 console, zoomed 6x");
+		expect(PNG.sync.read(Buffer.from(content[1].data ?? "", "base64")).width).toBe(3840);
+	});
+
+	it("should read the text of the region only", async () => {
+		mockProvider.screenshot = encodePng(
+			renderTextScreen(["Booting", "", "RIP: ext4_fill_super+0x1a/0x2b", "Call Trace:"]),
+		);
+		const result = await client.callTool({
+			name: "get_screenshot",
+			arguments: {
+				serverId: "server-1",
+				format: "text",
+				region: { x: 0, y: 32, width: 640, height: 32 },
+			},
+		});
+		mockProvider.screenshot = TEST_PNG;
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(content.map((c) => c.type)).toEqual(["text", "text", "text"]);
+		expect(content[1].text).toBe(
+			"Screen text (80x2):\nRIP: ext4_fill_super+0x1a/0x2b\nCall Trace:",
+		);
+	});
+
+	it("should label the grid overlay in console pixels of the region", async () => {
+		mockProvider.screenshot = encodePng(renderTextScreen([]));
+		const image = async (args: Record<string, unknown>) => {
+			const result = await client.callTool({
+				name: "get_screenshot",
+				arguments: {
+					serverId: "server-1",
+					region: { x: 150, y: 0, width: 200, height: 100 },
+					...args,
+				},
+			});
+			const content = result.content as Array<{ data?: string }>;
+			return PNG.sync.read(Buffer.from(content[1].data ?? "", "base64"));
+		};
+
+		const plain = await image({});
+		const grid = await image({ overlay: "grid" });
+		mockProvider.screenshot = TEST_PNG;
+
+		expect([grid.width, grid.height]).toEqual([plain.width, plain.height]);
+		// Console x 200 and 300 are 50 and 150 pixels into the region, zoomed 2x
+		const at = (x: number, y: number) =>
+			Array.from(grid.data.subarray((y * grid.width + x) * 4, (y * grid.width + x) * 4 + 4));
+		expect(at(100, 50)).toEqual([0xff, 0xff, 0x55, 255]);
+		expect(at(300, 50)).toEqual([0xff, 0xff, 0x55, 255]);
+		expect(at(200, 50)).toEqual(
+			Array.from(
+				plain.data.subarray((50 * plain.width + 200) * 4, (50 * plain.width + 200) * 4 + 4),
+			),
+		);
+	});
+
+	it("should reject a region outside the screen", async () => {
+		const result = await client.callTool({
+			name: "get_screenshot",
+			arguments: { serverId: "server-1", region: { x: 5, y: 5, width: 10, height: 10 } },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBe(true);
+		expect(content[0].text).toContain("Region at (5, 5) is outside the 1x1 console");
+	});
+
+	it("should apply the requested filters before zooming", async () => {
+		const result = await client.callTool({
+			name: "get_screenshot",
+			arguments: { serverId: "server-1", brightness: 1, invert: true, threshold: 128, zoom: 3 },
+		});
+		const content = result.content as Array<{ type: string; text?: string; data?: string }>;
+
+		const png = PNG.sync.read(Buffer.from(content[1].data ?? "", "base64"));
+		expect(png.width).toBe(3);
+		// The yellow test pixel inverts to blue, which is too dark to turn white
+		expect(Array.from(png.data.subarray(0, 4))).toEqual([0, 0, 0, 255]);
+	});
+
+	it("should adapt the exposure by default", async () => {
+		mockProvider.screenshot = encodePng(
+			renderTextScreen(["Press F2 to enter setup"], { fg: [60, 60, 60] }),
+		);
+		const image = async (args: Record<string, unknown>) => {
+			const result = await client.callTool({
+				name: "get_screenshot",
+				arguments: { serverId: "server-1", ...args },
+			});
+			return (result.content as Array<{ data?: string }>)[0].data;
+		};
+
+		const byDefault = await image({});
+		const auto = await image({ brightness: "auto" });
+		const fixed = await image({ brightness: 3 });
+		mockProvider.screenshot = TEST_PNG;
+
+		expect(byDefault).toBe(auto);
+		expect(byDefault).not.toBe(fixed);
+	});
+
+	it("should reject out-of-range filter values", async () => {
+		const result = await client.callTool({
+			name: "get_screenshot",
+			arguments: { serverId: "server-1", gamma: 0 },
+		});
+
+		expect(result.isError).toBe(true);
+	});
+
+	it("should compare two captures and box the changed regions", async () => {
+		const captureId = async () => {
+			const result = await client.callTool({
+				name: "get_screenshot",
+				arguments: { serverId: "server-1" },
+			});
+			const content = result.content as Array<{ type: string; text?: string }>;
+			return Number(content[1].text?.match(/Capture id: (\d+)/)?.[1]);
+		};
+		mockProvider.screenshot = encodePng(renderTextScreen(["Fix<y>? yes"]));
+		const before = await captureId();
+		mockProvider.screenshot = encodePng(renderTextScreen(["Fix<y>? yes", "", "/dev/sda2: clean"]));
+		const after = await captureId();
+		mockProvider.screenshot = TEST_PNG;
+
+		const result = await client.callTool({
+			name: "compare_screenshots",
+			arguments: { before, after },
+		});
+		const content = result.content as Array<{ type: string; text?: string; data?: string }>;
+
+		expect(content.map((c) => c.type)).toEqual(["text", "image"]);
+		expect(content[0].text).toMatch(
+			new RegExp(
+				`^Capture ${before} → capture ${after} of server-1 \\(\\d+\\.\\ds apart\\): 381 pixels changed \\(0\\.15% of the screen\\) in 1 region\\(s\\):`,
+			),
+		);
+		// "/dev/sda2: clean" on the third text row, in console pixels
+		expect(content[0].text).toEndWith("\n1. 127x10 at (0, 34), 381 pixels");
+		const diff = PNG.sync.read(Buffer.from(content[1].data ?? "", "base64"));
+		expect(diff.width).toBe(640 * 2);
+		// The unchanged "Fix<y>? yes" row keeps its half-luminance gray instead of turning white
+		let brightest = 0;
+		for (let i = 0; i < diff.width * 32 * 4; i += 4) brightest = Math.max(brightest, diff.data[i]);
+		expect(brightest).toBe(85);
+		const first = diff.data.findIndex((v, i) => i % 4 === 0 && v === 85);
+		expect([...diff.data.subarray(first, first + 3)]).toEqual([85, 85, 85]);
+	});
+
+	it("should say when two captures are identical", async () => {
+		const capture = async () => {
+			const result = await client.callTool({
+				name: "get_screenshot",
+				arguments: { serverId: "server-2", raw: true },
+			});
+			const content = result.content as Array<{ type: string; text?: string }>;
+			return Number(content[1].text?.match(/Capture id: (\d+)/)?.[1]);
+		};
+		const before = await capture();
+		const after = await capture();
+
+		const result = await client.callTool({
+			name: "compare_screenshots",
+			arguments: { before, after, raw: true },
+		});
+		const content = result.content as Array<{ type: string; text?: string; data?: string }>;
+
+		expect(content[0].text).toContain("no pixels changed");
+		expect(PNG.sync.read(Buffer.from(content[1].data ?? "", "base64")).width).toBe(1);
+	});
+
+	it("should reject unknown capture ids", async () => {
+		const result = await client.callTool({
+			name: "compare_screenshots",
+			arguments: { before: 1, after: 9999 },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBe(true);
+		expect(content[0].text).toContain("Unknown capture id 9999");
+	});
+
+	it("should wait for text and report the matching pattern", async () => {
+		mockProvider.screenshot = encodePng(
+			renderTextScreen(["[  OK  ] Reached target Multi-User System.", "", "host login:"]),
+		);
+		const result = await client.callTool({
+			name: "wait_for_text",
+			arguments: { serverId: "server-1", patterns: ["Kernel panic", "/Reached target [\\w-]+/"] },
+		});
+		mockProvider.screenshot = TEST_PNG;
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBeFalsy();
+		expect(content.map((c) => c.type)).toEqual(["text", "image"]);
+		expect(content[0].text).toMatch(
+			/^Found "Reached target Multi-User" \(pattern \/Reached target \[\\w-\]\+\/\) on row 1 of server-1 after \d+\.\ds\n\nScreen text \(80x25\):\n\[ {2}OK {2}\] Reached target/,
+		);
+	});
+
+	it("should say when no pattern appeared before the timeout", async () => {
+		mockProvider.screenshot = encodePng(renderTextScreen(["Loading Linux 6.1.0 ..."]));
+		const result = await client.callTool({
+			name: "wait_for_text",
+			arguments: { serverId: "server-1", patterns: ["login:"], timeout: 1000, interval: 100 },
+		});
+		mockProvider.screenshot = TEST_PNG;
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(content[0].text).toMatch(/^None of the patterns appeared on server-1 within 1\.\ds/);
+		expect(content[0].text).toContain("Loading Linux 6.1.0 ...");
+		expect(content[1].type).toBe("image");
+	});
+
+	it("should match paths as plain text", async () => {
+		mockProvider.screenshot = encodePng(
+			renderTextScreen(["Mounting /dev/sda2 on /mnt/sysimage/ ...", "[/] 42%"]),
+		);
+		const result = await client.callTool({
+			name: "wait_for_text",
+			arguments: { serverId: "server-1", patterns: ["/mnt/sysimage/"] },
+		});
+		mockProvider.screenshot = TEST_PNG;
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBeFalsy();
+		expect(content[0].text).toMatch(/^Found "\/mnt\/sysimage\/" on row 1 of server-1/);
+	});
+
+	it("should report invalid regular expressions instead of waiting", async () => {
+		const start = Date.now();
+		const result = await client.callTool({
+			name: "wait_for_text",
+			arguments: { serverId: "server-1", patterns: ["/(unclosed/"], timeout: 5000 },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBe(true);
+		expect(content[0].text).toContain("Invalid pattern /(unclosed/");
+		expect(Date.now() - start).toBeLessThan(1000);
+	});
+
 	it("should propagate provider errors as isError response", async () => {
 		mockProvider.screenshotError = new Error("IPMI access denied");
 		try {
@@ -222,4 +657,843 @@ describe("MCP Server", () => {
 			mockProvider.screenshotError = null;
 		}
 	});
+
+	it("should list send_keys tool", async () => {
+		const result = await client.listTools();
+		const tool = result.tools.find((t) => t.name === "send_keys");
+
+		expect(tool).toBeDefined();
+		expect(tool?.description).toContain("Ctrl+Alt+Del");
+	});
+
+	it("should parse keys and pass them to the provider", async () => {
+		mockProvider.sentKeys.length = 0;
+		const result = await client.callTool({
+			name: "send_keys",
+			arguments: { serverId: "server-1", keys: ["Down", "Ctrl+Alt+Del"], screenshot: false },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBeFalsy();
+		expect(content).toHaveLength(1);
+		expect(content[0].text).toContain("Sent 2 key(s)");
+		expect(mockProvider.sentKeys).toHaveLength(1);
+		expect(mockProvider.sentKeys[0].serverId).toBe("server-1");
+		expect(mockProvider.sentKeys[0].keys).toEqual([
+			{ code: "ArrowDown", modifiers: [] },
+			{ code: "Delete", modifiers: ["ctrl", "alt"] },
+		]);
+	});
+
+	it("should return a post-input screenshot by default", async () => {
+		const result = await client.callTool({
+			name: "send_keys",
+			arguments: { serverId: "server-1", keys: ["Enter"] },
+		});
+		const content = result.content as Array<{ type: string; data?: string; mimeType?: string }>;
+
+		expect(content).toHaveLength(2);
+		expect(content[1].type).toBe("image");
+		expect(content[1].mimeType).toBe("image/png");
+		const png = PNG.sync.read(Buffer.from(content[1].data ?? "", "base64"));
+		expect(png.width).toBe(2); // optimized 2x upscale of the 1x1 test image
+	});
+
+	it("should expose the post-input screenshot like get_screenshot", async () => {
+		// Dim gray text, which a fixed brightness boost renders differently from automatic exposure
+		mockProvider.screenshot = encodePng(renderTextScreen(["login:"], { fg: [60, 60, 60] }));
+		const keys = await client.callTool({
+			name: "send_keys",
+			arguments: { serverId: "server-1", keys: ["Enter"] },
+		});
+		const screenshot = await client.callTool({
+			name: "get_screenshot",
+			arguments: { serverId: "server-1" },
+		});
+		mockProvider.screenshot = TEST_PNG;
+		const [, afterKeys] = keys.content as Array<{ data: string }>;
+		const [image] = screenshot.content as Array<{ data: string }>;
+
+		const expected = PNG.sync.read(Buffer.from(image.data, "base64"));
+		const actual = PNG.sync.read(Buffer.from(afterKeys.data, "base64"));
+		expect(actual.width).toBe(expected.width);
+		expect(actual.data.equals(expected.data)).toBe(true);
+		expect(actual.data.some((v, i) => i % 4 === 0 && v > 180)).toBe(true);
+	});
+
+	it("should reject unknown keys without calling the provider", async () => {
+		mockProvider.sentKeys.length = 0;
+		const result = await client.callTool({
+			name: "send_keys",
+			arguments: { serverId: "server-1", keys: ["Enter", "Ctrl+Bogus"] },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBe(true);
+		expect(content[0].text).toContain('Unknown key "Bogus"');
+		expect(mockProvider.sentKeys).toHaveLength(0);
+	});
+
+	it("should type text using the requested layout", async () => {
+		mockProvider.sentKeys.length = 0;
+		const result = await client.callTool({
+			name: "type_text",
+			arguments: {
+				serverId: "server-1",
+				text: "qa",
+				layout: "fr",
+				keyDelay: 10,
+				screenshot: false,
+			},
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBeFalsy();
+		expect(content).toHaveLength(1);
+		expect(content[0].text).toContain("Typed 2 character(s)");
+		expect(mockProvider.sentKeys[0].keys).toEqual([
+			{ code: "KeyA", modifiers: [] },
+			{ code: "KeyQ", modifiers: [] },
+		]);
+		expect(mockProvider.sentKeys[0].options).toEqual({ keyDelay: 10, screenshot: false });
+	});
+
+	it("should default to the US layout with a screenshot", async () => {
+		mockProvider.sentKeys.length = 0;
+		const result = await client.callTool({
+			name: "type_text",
+			arguments: { serverId: "server-1", text: "ls\n" },
+		});
+		const content = result.content as Array<{ type: string }>;
+
+		expect(content).toHaveLength(2);
+		expect(content[1].type).toBe("image");
+		expect(mockProvider.sentKeys[0].keys.map((k) => k.code)).toEqual(["KeyL", "KeyS", "Enter"]);
+		expect(mockProvider.sentKeys[0].options).toEqual({ keyDelay: 50, screenshot: true });
+	});
+
+	it("should reject untypeable text without calling the provider", async () => {
+		mockProvider.sentKeys.length = 0;
+		const result = await client.callTool({
+			name: "type_text",
+			arguments: { serverId: "server-1", text: "prix: 5€", layout: "us" },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBe(true);
+		expect(content[0].text).toContain('Cannot type "€" with the "us" keyboard layout');
+		expect(mockProvider.sentKeys).toHaveLength(0);
+	});
+
+	it("should send pointer coordinates as console pixels", async () => {
+		mockProvider.sentPointer.length = 0;
+		const result = await client.callTool({
+			name: "pointer",
+			arguments: { serverId: "server-1", action: "click", x: 200, y: 101, screenshot: false },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBeFalsy();
+		expect(content).toHaveLength(1);
+		expect(content[0].text).toContain("Pointer click at (200, 101)");
+		expect(mockProvider.sentPointer[0].action).toEqual({
+			type: "click",
+			x: 200,
+			y: 101,
+			button: "left",
+		});
+	});
+
+	it("should perform drags and return a screenshot", async () => {
+		mockProvider.sentPointer.length = 0;
+		const result = await client.callTool({
+			name: "pointer",
+			arguments: { serverId: "server-1", action: "drag", x: 0, y: 0, toX: 40, toY: 20 },
+		});
+		const content = result.content as Array<{ type: string }>;
+
+		expect(content).toHaveLength(2);
+		expect(content[1].type).toBe("image");
+		expect(mockProvider.sentPointer[0].action).toEqual({
+			type: "drag",
+			x: 0,
+			y: 0,
+			toX: 40,
+			toY: 20,
+			button: "left",
+		});
+	});
+
+	it("should require a drag target", async () => {
+		mockProvider.sentPointer.length = 0;
+		const result = await client.callTool({
+			name: "pointer",
+			arguments: { serverId: "server-1", action: "drag", x: 0, y: 0 },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBe(true);
+		expect(content[0].text).toContain("requires toX and toY");
+		expect(mockProvider.sentPointer).toHaveLength(0);
+	});
+
+	it("should wait for a change and describe it in console pixels", async () => {
+		mockProvider.waits.length = 0;
+		const result = await client.callTool({
+			name: "wait_for_change",
+			arguments: { serverId: "server-1", region: { x: 0, y: 450, width: 321, height: 40 } },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBeFalsy();
+		expect(content).toHaveLength(2);
+		expect(content[0].text).toBe(
+			"Screen of server-1 changed after 2.5s: 640 pixels changed (0.2% of the watched area) in a 320x16 box at (0, 464), bottom left of the screen",
+		);
+		expect(content[1].type).toBe("image");
+		expect(mockProvider.waits[0].options).toEqual({
+			timeout: 30_000,
+			interval: 1000,
+			minChangedPixels: 50,
+			region: { x: 0, y: 450, width: 321, height: 40 },
+		});
+	});
+
+	it("should report a timeout without a change", async () => {
+		mockProvider.nextChange = {
+			changed: false,
+			diff: { changedPixels: 0, comparedPixels: 307200, bounds: null },
+		};
+		const result = await client.callTool({
+			name: "wait_for_change",
+			arguments: { serverId: "server-1", timeout: 5000 },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(content[0].text).toBe("Screen of server-1 did not change within 2.5s");
+		expect(content[1].type).toBe("image");
+	});
+
+	it("should record the console and return a contact sheet and the animation", async () => {
+		mockProvider.recordings.length = 0;
+		const result = await client.callTool({
+			name: "record_console",
+			arguments: { serverId: "server-1" },
+		});
+		const content = result.content as Array<{
+			type: string;
+			text?: string;
+			data?: string;
+			resource?: { uri: string; mimeType?: string; blob?: string };
+		}>;
+
+		expect(result.isError).toBeFalsy();
+		expect(content).toHaveLength(3);
+		expect(content[0].text).toBe(
+			"Recorded server-1 for 10.0s: 3 distinct frame(s) out of 40 captured, APNG 1x1, 0 KB\nContact sheet keyframes: +0.0s, +2.5s, +7.8s",
+		);
+		const sheet = PNG.sync.read(Buffer.from(content[1].data ?? "", "base64"));
+		expect(sheet.width).toBe(2 * (1 + 4) + 4);
+		expect(content[2].resource).toEqual({
+			uri: "ikvm://mock/server-1/recording.png",
+			mimeType: "image/apng",
+			blob: TEST_PNG.toString("base64"),
+		});
+		expect(mockProvider.recordings[0].options).toEqual({
+			duration: 10_000,
+			fps: 4,
+			format: "apng",
+			maxFrames: 150,
+			maxBytes: 4 * 1024 * 1024,
+		});
+	});
+
+	it("should say when a recording stopped at a limit", async () => {
+		mockProvider.recordingTruncated = "frames";
+		const result = await client.callTool({
+			name: "record_console",
+			arguments: { serverId: "server-1", format: "gif", maxFrames: 3 },
+		});
+		mockProvider.recordingTruncated = undefined;
+		const content = result.content as Array<{
+			type: string;
+			text?: string;
+			resource?: { uri: string; mimeType?: string };
+		}>;
+
+		expect(content[0].text).toContain("Stopped early at the limit of 3 frames");
+		expect(content[2].resource).toMatchObject({
+			uri: "ikvm://mock/server-1/recording.gif",
+			mimeType: "image/gif",
+		});
+	});
+});
+
+describe("MCP console resources", () => {
+	let client: Client;
+	let mockProvider: MockProvider;
+	const updates: string[] = [];
+
+	beforeAll(async () => {
+		mockProvider = new MockProvider();
+		const mcpServer = createMcpServer(mockProvider, { watchInterval: 20 });
+		const [clientTransport, serverTransport] = createTransportPair();
+		await mcpServer.connect(serverTransport);
+		client = new Client({ name: "test-client", version: "1.0.0" });
+		client.setNotificationHandler(ResourceUpdatedNotificationSchema, (notification) => {
+			updates.push(notification.params.uri);
+		});
+		await client.connect(clientTransport);
+	});
+
+	afterAll(async () => {
+		await client.close();
+	});
+
+	it("should publish screen and text resource templates", async () => {
+		const result = await client.listResourceTemplates();
+
+		expect(result.resourceTemplates.map((t) => t.uriTemplate)).toEqual([
+			"ikvm://{provider}/{serverId}/screen",
+			"ikvm://{provider}/{serverId}/text",
+		]);
+	});
+
+	it("should list both resources for every server", async () => {
+		const result = await client.listResources();
+
+		expect(result.resources.map((r) => r.uri)).toEqual([
+			"ikvm://mock/server-1/screen",
+			"ikvm://mock/server-2/screen",
+			"ikvm://mock/server-1/text",
+			"ikvm://mock/server-2/text",
+		]);
+	});
+
+	it("should read the latest frame as PNG with metadata", async () => {
+		const result = await client.readResource({ uri: "ikvm://mock/server-1/screen" });
+		const [image, metadata] = result.contents as Array<{
+			mimeType: string;
+			blob?: string;
+			text?: string;
+		}>;
+
+		expect(image.mimeType).toBe("image/png");
+		expect(Buffer.from(image.blob ?? "", "base64")).toEqual(TEST_PNG);
+		expect(metadata.mimeType).toBe("application/json");
+		expect(JSON.parse(metadata.text ?? "")).toMatchObject({
+			provider: "mock",
+			serverId: "server-1",
+			width: 1,
+			height: 1,
+		});
+	});
+
+	it("should read the console text with the grid size", async () => {
+		mockProvider.screenshot = encodePng(renderTextScreen(["Press F2 to enter setup"]));
+		const result = await client.readResource({ uri: "ikvm://mock/server-2/text" });
+		mockProvider.screenshot = TEST_PNG;
+		const [text, metadata] = result.contents as Array<{ text: string }>;
+
+		expect(text.text).toBe("Press F2 to enter setup");
+		expect(JSON.parse(metadata.text)).toMatchObject({
+			textMode: true,
+			columns: 80,
+			rows: 25,
+			font: "vga-8x16",
+		});
+	});
+
+	it("should reject resources of another provider", async () => {
+		await expect(client.readResource({ uri: "ikvm://ovh/server-1/screen" })).rejects.toThrow(
+			'Unknown provider "ovh"',
+		);
+		await expect(client.subscribeResource({ uri: "ikvm://mock/server-1/power" })).rejects.toThrow(
+			"not a console resource",
+		);
+	});
+
+	it("should notify screen subscribers when the console changes", async () => {
+		const uri = "ikvm://mock/server-1/screen";
+		mockProvider.screenshot = encodePng(renderTextScreen(["booting"]));
+		updates.length = 0;
+		await client.subscribeResource({ uri });
+		await Bun.sleep(60);
+
+		mockProvider.screenshot = encodePng(renderTextScreen(["booting", "kernel panic"]));
+		await Bun.sleep(100);
+		expect(updates).toEqual([uri]);
+
+		await client.unsubscribeResource({ uri });
+		mockProvider.screenshot = TEST_PNG;
+		await Bun.sleep(100);
+		expect(updates).toEqual([uri]);
+	});
+
+	it("should only notify text subscribers when the text changes", async () => {
+		const uri = "ikvm://mock/server-2/text";
+		mockProvider.screenshot = encodePng(renderTextScreen(["Boot menu", "  Linux"]));
+		updates.length = 0;
+		await client.subscribeResource({ uri });
+		await Bun.sleep(60);
+
+		// Moving the highlight bar changes pixels, not text
+		mockProvider.screenshot = encodePng(
+			renderTextScreen(["Boot menu", "  Linux"], {
+				spans: [{ row: 1, fg: [0, 0, 0], bg: [170, 170, 170] }],
+			}),
+		);
+		await Bun.sleep(100);
+		expect(updates).toEqual([]);
+
+		mockProvider.screenshot = encodePng(renderTextScreen(["Boot menu", "  Linux", "Loading..."]));
+		await Bun.sleep(100);
+		expect(updates).toEqual([uri]);
+
+		await client.unsubscribeResource({ uri });
+		mockProvider.screenshot = TEST_PNG;
+	});
+});
+
+describe("MCP prompts", () => {
+	let client: Client;
+	let mockProvider: MockProvider;
+
+	beforeAll(async () => {
+		mockProvider = new MockProvider();
+		const mcpServer = createMcpServer(mockProvider);
+		const [clientTransport, serverTransport] = createTransportPair();
+		await mcpServer.connect(serverTransport);
+		client = new Client({ name: "test-client", version: "1.0.0" });
+		await client.connect(clientTransport);
+	});
+
+	afterAll(async () => {
+		await client.close();
+	});
+
+	it("should list the triage prompts with a serverId argument", async () => {
+		const result = await client.listPrompts();
+
+		expect(result.prompts.map((p) => p.name)).toEqual([
+			"diagnose_boot",
+			"fsck_walkthrough",
+			"collect_panic_trace",
+		]);
+		for (const prompt of result.prompts) {
+			expect(prompt.arguments).toEqual([
+				expect.objectContaining({ name: "serverId", required: true }),
+			]);
+		}
+	});
+
+	it("should complete server ids", async () => {
+		const result = await client.complete({
+			ref: { type: "ref/prompt", name: "diagnose_boot" },
+			argument: { name: "serverId", value: "server-" },
+		});
+
+		expect(result.completion.values).toEqual(["server-1", "server-2"]);
+	});
+
+	it("should preload server details, IPMI status, console text and a screenshot", async () => {
+		mockProvider.screenshot = encodePng(renderTextScreen(["Kernel panic - not syncing: oops"]));
+		const result = await client.getPrompt({
+			name: "collect_panic_trace",
+			arguments: { serverId: "server-2" },
+		});
+		mockProvider.screenshot = TEST_PNG;
+
+		const [context, image] = result.messages.map((m) => m.content) as Array<{
+			type: string;
+			text?: string;
+			mimeType?: string;
+		}>;
+		expect(context.type).toBe("text");
+		expect(context.text).toContain('"ip": "5.6.7.8"');
+		expect(context.text).toContain(
+			"IPMI: activated; supported features: kvmipHtml5URL, serialOverLanURL",
+		);
+		expect(context.text).toContain("Console text (80x25):\nKernel panic - not syncing: oops");
+		expect(context.text).toContain("`record_console`");
+		expect(context.text).not.toContain("does not support");
+		expect(image).toMatchObject({ type: "image", mimeType: "image/png" });
+	});
+
+	it("should still return the guidance when the screenshot fails", async () => {
+		mockProvider.screenshotError = new Error("BMC unreachable");
+		const result = await client.getPrompt({
+			name: "diagnose_boot",
+			arguments: { serverId: "server-1" },
+		});
+		mockProvider.screenshotError = null;
+
+		expect(result.messages).toHaveLength(1);
+		const content = result.messages[0].content as { text: string };
+		expect(content.text).toContain("screenshot failed (BMC unreachable)");
+		expect(content.text).toContain("Steps:\n1. ");
+	});
+
+	it("should reject unknown servers", async () => {
+		await expect(
+			client.getPrompt({ name: "fsck_walkthrough", arguments: { serverId: "nope" } }),
+		).rejects.toThrow('Unknown server "nope"');
+	});
+
+	it("should name the tools a provider does not support", async () => {
+		const provider: Provider = {
+			name: "readonly",
+			listServers: async () => [
+				{ id: "server-1", name: "server-1", provider: "readonly", datacenter: "dc1", ip: "" },
+			],
+			getScreenshot: async () => TEST_PNG,
+		};
+		const mcpServer = createMcpServer(provider);
+		const [clientTransport, serverTransport] = createTransportPair();
+		await mcpServer.connect(serverTransport);
+		const readonlyClient = new Client({ name: "test-client", version: "1.0.0" });
+		await readonlyClient.connect(clientTransport);
+
+		const result = await readonlyClient.getPrompt({
+			name: "diagnose_boot",
+			arguments: { serverId: "server-1" },
+		});
+		const content = result.messages[0].content as { text: string };
+
+		expect(content.text).toContain("IPMI: status not available from this provider");
+		expect(content.text).toContain(
+			"does not support `send_keys`, `type_text`, `pointer`, `wait_for_change`, `record_console`",
+		);
+		await readonlyClient.close();
+	});
+});
+
+describe("MCP Server without input support", () => {
+	it("should report that the provider cannot send keys", async () => {
+		const provider: Provider = {
+			name: "readonly",
+			listServers: async () => [],
+			getScreenshot: async () => TEST_PNG,
+		};
+		const mcpServer = createMcpServer(provider);
+		const [clientTransport, serverTransport] = createTransportPair();
+		await mcpServer.connect(serverTransport);
+		const client = new Client({ name: "test-client", version: "1.0.0" });
+		await client.connect(clientTransport);
+
+		const result = await client.callTool({
+			name: "send_keys",
+			arguments: { serverId: "server-1", keys: ["Enter"] },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBe(true);
+		expect(content[0].text).toContain("does not support keyboard input");
+		await client.close();
+	});
+
+	it("should report that the provider cannot send pointer input", async () => {
+		const provider: Provider = {
+			name: "readonly",
+			listServers: async () => [],
+			getScreenshot: async () => TEST_PNG,
+		};
+		const mcpServer = createMcpServer(provider);
+		const [clientTransport, serverTransport] = createTransportPair();
+		await mcpServer.connect(serverTransport);
+		const client = new Client({ name: "test-client", version: "1.0.0" });
+		await client.connect(clientTransport);
+
+		const result = await client.callTool({
+			name: "pointer",
+			arguments: { serverId: "server-1", action: "move", x: 1, y: 1 },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBe(true);
+		expect(content[0].text).toContain("does not support pointer input");
+		await client.close();
+	});
+
+	it("should report that the provider cannot watch the screen", async () => {
+		const provider: Provider = {
+			name: "readonly",
+			listServers: async () => [],
+			getScreenshot: async () => TEST_PNG,
+		};
+		const mcpServer = createMcpServer(provider);
+		const [clientTransport, serverTransport] = createTransportPair();
+		await mcpServer.connect(serverTransport);
+		const client = new Client({ name: "test-client", version: "1.0.0" });
+		await client.connect(clientTransport);
+
+		const result = await client.callTool({
+			name: "wait_for_change",
+			arguments: { serverId: "server-1" },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBe(true);
+		expect(content[0].text).toContain("does not support waiting for screen changes");
+		await client.close();
+	});
+
+	it("should report that the provider cannot record the console", async () => {
+		const provider: Provider = {
+			name: "readonly",
+			listServers: async () => [],
+			getScreenshot: async () => TEST_PNG,
+		};
+		const mcpServer = createMcpServer(provider);
+		const [clientTransport, serverTransport] = createTransportPair();
+		await mcpServer.connect(serverTransport);
+		const client = new Client({ name: "test-client", version: "1.0.0" });
+		await client.connect(clientTransport);
+
+		const result = await client.callTool({
+			name: "record_console",
+			arguments: { serverId: "server-1" },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBe(true);
+		expect(content[0].text).toContain("does not support console recording");
+		await client.close();
+	});
+});
+
+describe("MCP power tools", () => {
+	const powered: Array<{ serverId: string; action: PowerAction }> = [];
+	const disk: BootOption = { id: 1, type: "harddisk", name: "hd", description: "Disk" };
+	const rescue: BootOption = {
+		id: 22,
+		type: "rescue",
+		name: "rescue-customer",
+		description: "Rescue",
+	};
+	const provider: Provider = {
+		name: "mock",
+		listServers: async () => [],
+		getScreenshot: async () => TEST_PNG,
+		powerActions: ["reboot", "cycle"],
+		power: async (serverId, action) => {
+			powered.push({ serverId, action });
+			return { action, taskId: 42, elapsed: 1500 };
+		},
+		getBootConfig: async () => ({ current: disk, options: [disk, rescue] }),
+		bootRescue: async (serverId, options) => {
+			const reboot =
+				options?.reboot === false ? undefined : await provider.power?.(serverId, "reboot");
+			return { previous: disk, current: rescue, reboot };
+		},
+		restoreBoot: async () => ({ previous: restoreFrom, current: disk, fallback: restoreFallback }),
+	};
+	let restoreFallback: true | undefined;
+	let restoreFrom = rescue;
+
+	/** Connect a client; with `elicit`, it supports elicitation and answers with that action. */
+	async function connect(
+		options: PowerToolOptions,
+		elicit?: "accept" | "decline",
+	): Promise<{
+		client: Client;
+		call: (args: Record<string, unknown>, tool?: string) => Promise<string>;
+	}> {
+		powered.length = 0;
+		const mcpServer = createMcpServer(provider, { power: options });
+		const [clientTransport, serverTransport] = createTransportPair();
+		await mcpServer.connect(serverTransport);
+		const client = new Client(
+			{ name: "test-client", version: "1.0.0" },
+			elicit ? { capabilities: { elicitation: { form: {} } } } : {},
+		);
+		if (elicit) {
+			client.setRequestHandler(ElicitRequestSchema, async () => ({ action: elicit }));
+		}
+		await client.connect(clientTransport);
+
+		const call = async (args: Record<string, unknown>, tool = "power") => {
+			const result = await client.callTool({
+				name: tool,
+				arguments: { serverId: "server-1", action: "reboot", ...args },
+			});
+			const text = (result.content as Array<{ text?: string }>)[0].text ?? "";
+			return result.isError ? `Error: ${text}` : text;
+		};
+		return { client, call };
+	}
+
+	it("should refuse servers that are not allow-listed", async () => {
+		const { client, call } = await connect({ allowList: ["server-2"] });
+
+		expect(await call({})).toContain("Power control is not allowed for server-1");
+		expect(powered).toEqual([]);
+		await client.close();
+	});
+
+	it("should refuse actions the provider does not support", async () => {
+		const { client, call } = await connect({ allowList: ["*"] });
+
+		expect(await call({ action: "off" })).toContain(
+			'does not support power action "off" (supported: reboot, cycle)',
+		);
+		await client.close();
+	});
+
+	it("should act only when called again with the confirmation token", async () => {
+		const { client, call } = await connect({ allowList: ["server-1"] });
+
+		const first = await call({});
+		expect(first).toStartWith("The hard reboot of server-1 needs confirmation.");
+		expect(powered).toEqual([]);
+
+		const token = first.match(/confirmationToken="([^"]+)"/)?.[1];
+		expect(await call({ confirmationToken: token })).toBe(
+			"The hard reboot of server-1 is done (task 42) after 1.5s. Follow the boot with wait_for_text or get_screenshot.",
+		);
+		expect(powered).toEqual([{ serverId: "server-1", action: "reboot" }]);
+
+		// Tokens are single-use
+		expect(await call({ confirmationToken: token })).toContain(
+			"Invalid or expired confirmation token",
+		);
+		expect(powered).toHaveLength(1);
+		await client.close();
+	});
+
+	it("should reject tokens issued for another action or after they expired", async () => {
+		const { client, call } = await connect({ allowList: ["*"], confirmationTtl: 50 });
+
+		const token = (await call({})).match(/confirmationToken="([^"]+)"/)?.[1];
+		expect(await call({ action: "cycle", confirmationToken: token })).toContain(
+			"Invalid or expired confirmation token for the power cycle of server-1",
+		);
+
+		const late = (await call({})).match(/confirmationToken="([^"]+)"/)?.[1];
+		await Bun.sleep(80);
+		expect(await call({ confirmationToken: late })).toContain("Invalid or expired");
+		expect(powered).toEqual([]);
+		await client.close();
+	});
+
+	it("should ask the user through elicitation when the client supports it", async () => {
+		const accepting = await connect({ allowList: ["*"] }, "accept");
+		expect(await accepting.call({ action: "cycle" })).toStartWith(
+			"The power cycle of server-1 is done",
+		);
+		expect(powered).toEqual([{ serverId: "server-1", action: "cycle" }]);
+		await accepting.client.close();
+
+		const declining = await connect({ allowList: ["*"] }, "decline");
+		expect(await declining.call({})).toBe(
+			"The hard reboot of server-1 was not confirmed; nothing was done",
+		);
+		expect(powered).toEqual([]);
+		await declining.client.close();
+	});
+
+	it("should list boot options without confirmation", async () => {
+		const { client, call } = await connect({});
+
+		expect(await call({ action: "list" }, "boot_rescue")).toBe(
+			"Boot options of server-1 (* = current):\n* 1: hd (harddisk) — Disk\n  22: rescue-customer (rescue) — Rescue",
+		);
+		await client.close();
+	});
+
+	it("should confirm a rescue boot like a power action", async () => {
+		const { client, call } = await connect({ allowList: ["server-1"] });
+		const rescueCall = (args: Record<string, unknown>) =>
+			call({ action: "rescue", ...args }, "boot_rescue");
+
+		const first = await rescueCall({});
+		expect(first).toStartWith(
+			"The switch of server-1 to the rescue boot with a hard reboot needs confirmation.",
+		);
+		const token = first.match(/confirmationToken="([^"]+)"/)?.[1];
+
+		// The token confirms these arguments only
+		expect(await rescueCall({ reboot: false, confirmationToken: token })).toContain(
+			"Invalid or expired confirmation token",
+		);
+		const retry = (await rescueCall({})).match(/confirmationToken="([^"]+)"/)?.[1];
+		expect(await rescueCall({ confirmationToken: retry })).toBe(
+			[
+				"server-1 now boots rescue-customer (rescue) — Rescue, instead of hd (harddisk) — Disk",
+				"Rebooted (task 42) after 1.5s. Follow the boot with wait_for_text or get_screenshot.",
+				"When done, call boot_rescue with action='restore' to boot the server normally again.",
+			].join("\n"),
+		);
+		expect(powered).toEqual([{ serverId: "server-1", action: "reboot" }]);
+		await client.close();
+	});
+
+	it("should restore the previous boot once confirmed", async () => {
+		const { client, call } = await connect({ allowList: ["*"] }, "accept");
+
+		expect(await call({ action: "restore" }, "boot_rescue")).toBe(
+			"server-1 now boots hd (harddisk) — Disk, instead of rescue-customer (rescue) — Rescue\nNot rebooted; the new boot applies from the next restart.",
+		);
+		await client.close();
+	});
+
+	it("should say when the restored boot was not remembered", async () => {
+		const { client, call } = await connect({ allowList: ["*"] }, "accept");
+		restoreFallback = true;
+
+		try {
+			expect(await call({ action: "restore" }, "boot_rescue")).toContain(
+				"No boot was remembered from the switch to rescue (the MCP server may have restarted since), so the disk boot was chosen",
+			);
+		} finally {
+			restoreFallback = undefined;
+		}
+		await client.close();
+	});
+
+	it("should say when the restore left the boot unchanged", async () => {
+		const { client, call } = await connect({ allowList: ["*"] }, "accept");
+		restoreFallback = true;
+		restoreFrom = disk;
+
+		try {
+			const answer = await call({ action: "restore" }, "boot_rescue");
+			expect(answer).toStartWith("server-1 already boots hd (harddisk) — Disk\n");
+			expect(answer).toContain("Not rebooted, since the boot did not change.");
+		} finally {
+			restoreFallback = undefined;
+			restoreFrom = rescue;
+		}
+		await client.close();
+	});
+
+	it("should refuse rescue boots of servers that are not allow-listed", async () => {
+		const { client, call } = await connect({ allowList: ["server-2"] });
+
+		expect(await call({ action: "rescue" }, "boot_rescue")).toContain(
+			"Power control is not allowed for server-1",
+		);
+		await client.close();
+	});
+
+	it("should report that the provider has no power control", async () => {
+		const mcpServer = createMcpServer(
+			{ name: "readonly", listServers: async () => [], getScreenshot: async () => TEST_PNG },
+			{ power: { allowList: ["*"] } },
+		);
+		const [clientTransport, serverTransport] = createTransportPair();
+		await mcpServer.connect(serverTransport);
+		const client = new Client({ name: "test-client", version: "1.0.0" });
+		await client.connect(clientTransport);
+
+		const result = await client.callTool({
+			name: "power",
+			arguments: { serverId: "server-1", action: "reboot" },
+		});
+		const content = result.content as Array<{ type: string; text?: string }>;
+
+		expect(result.isError).toBe(true);
+		expect(content[0].text).toContain("does not support power control");
+		await client.close();
+	});
 });
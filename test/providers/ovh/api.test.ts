@@ -95,6 +95,7 @@ describe("OvhApiClient integration", () => {
 					name: "ns1234.ip-1-2-3.eu",
 					datacenter: "sbg3",
 					ip: "1.2.3.4",
+					bootId: 1,
 				},
 				"ks5678.kimsufi.com": {
 					name: "ks5678.kimsufi.com",
@@ -102,6 +103,12 @@ describe("OvhApiClient integration", () => {
 					ip: "5.6.7.8",
 				},
 			},
+			boots: {
+				"ns1234.ip-1-2-3.eu": [
+					{ bootId: 1, bootType: "harddisk", description: "Boot from disk", kernel: "hd" },
+					{ bootId: 22, bootType: "rescue", description: "Rescue", kernel: "rescue-customer" },
+				],
+			},
 		});
 		baseUrl = mockApi.start();
 		client = new OvhApiClient({
@@ -164,4 +171,12 @@ describe("OvhApiClient integration", () => {
 
 		expect(result.taskId).toBeGreaterThan(0);
 	});
+
+	it("should send PUT with body", async () => {
+		await client.syncTime();
+		await client.put("/dedicated/server/ns1234.ip-1-2-3.eu", { bootId: 22 });
+
+		expect(mockApi.currentBoot("ns1234.ip-1-2-3.eu")).toBe(22);
+		expect(mockApi.requests.at(-1)?.method).toBe("PUT");
+	});
 });
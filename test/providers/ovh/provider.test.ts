@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: Apache-2.0
 // SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
 
-import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "bun:test";
 import { OvhProvider } from "../../../src/providers/ovh/provider.js";
 import { MockBmcServer } from "../../helpers/mock-bmc-server.js";
 import { MockOvhApi } from "../../helpers/mock-ovh-api.js";
@@ -26,6 +26,13 @@ describe("OvhProvider.listServers", () => {
 					ip: "5.6.7.8",
 				},
 			},
+			ipmiStatus: {
+				"ns1234.ip-1-2-3.eu": {
+					activated: true,
+					supportedFeatures: { kvmipHtml5URL: true, kvmipJnlp: false, serialOverLanURL: true },
+				},
+				"ks5678.kimsufi.com": { activated: false },
+			},
 		});
 		baseUrl = mockApi.start();
 		provider = new OvhProvider({
@@ -83,6 +90,17 @@ describe("OvhProvider.listServers", () => {
 			expect(server.provider).toBe("ovh");
 		}
 	});
+
+	it("should report IPMI activation and the supported console features", async () => {
+		expect(await provider.getIpmiStatus("ns1234.ip-1-2-3.eu")).toEqual({
+			activated: true,
+			features: ["kvmipHtml5URL", "serialOverLanURL"],
+		});
+		expect(await provider.getIpmiStatus("ks5678.kimsufi.com")).toEqual({
+			activated: false,
+			features: [],
+		});
+	});
 });
 
 describe("OvhProvider.getScreenshot", () => {
@@ -135,6 +153,7 @@ describe("OvhProvider.getScreenshot", () => {
 	});
 
 	afterAll(() => {
+		provider.close();
 		mockApi.stop();
 		bmcServer.stop();
 	});
@@ -149,6 +168,396 @@ describe("OvhProvider.getScreenshot", () => {
 		expect(png[2]).toBe(0x4e); // N
 		expect(png[3]).toBe(0x47); // G
 	});
+
+	it("should reuse the KVM session for follow-up screenshots", async () => {
+		const postsBefore = mockApi.requests.filter((r) => r.method === "POST").length;
+		const connectionsBefore = bmcServer.connectionCount;
+
+		await provider.getScreenshot("test-server");
+		await provider.getScreenshot("test-server");
+
+		expect(mockApi.requests.filter((r) => r.method === "POST").length).toBe(postsBefore);
+		expect(bmcServer.connectionCount).toBe(connectionsBefore);
+	});
+
+	it("should wait for the console screen to change", async () => {
+		setTimeout(() => bmcServer.fill([0, 0, 255], { x: 0, y: 0, width: 100, height: 10 }), 50);
+
+		const result = await provider.waitForChange("test-server", { interval: 20, timeout: 5000 });
+
+		expect(result.changed).toBe(true);
+		expect(result.diff.changedPixels).toBe(1000);
+		expect(result.png[0]).toBe(0x89); // PNG magic
+		expect(result.width).toBe(bmcServer.width);
+	});
+
+	it("should record the console through the pooled session", async () => {
+		const connectionsBefore = bmcServer.connectionCount;
+		setTimeout(() => bmcServer.fill([255, 0, 255], { x: 0, y: 20, width: 50, height: 10 }), 100);
+
+		const recording = await provider.recordConsole("test-server", { duration: 300, fps: 20 });
+
+		expect(recording.frames).toBe(2);
+		expect(recording.keyframes).toHaveLength(2);
+		expect(recording.animation.subarray(1, 4).toString("latin1")).toBe("PNG");
+		expect(bmcServer.connectionCount).toBe(connectionsBefore);
+	});
+});
+
+describe("OvhProvider console input", () => {
+	let mockApi: MockOvhApi;
+	let bmcServer: MockBmcServer;
+	let provider: OvhProvider;
+
+	beforeAll(() => {
+		bmcServer = new MockBmcServer({ sessionCookie: "keys-session", csrfToken: "keys-csrf" });
+		const bmcUrl = bmcServer.start();
+
+		mockApi = new MockOvhApi({
+			servers: ["test-server"],
+			viewerUrls: { "test-server": `${bmcUrl}/viewer` },
+			autoCompleteTasks: true,
+		});
+		const apiUrl = mockApi.start();
+
+		provider = new OvhProvider(
+			{
+				endpoint: "eu",
+				applicationKey: "test-ak",
+				applicationSecret: "test-as",
+				consumerKey: "test-ck",
+				baseUrl: apiUrl,
+			},
+			{ publicIp: "127.0.0.1", pollInterval: 10, pollMaxAttempts: 5 },
+		);
+	});
+
+	afterAll(() => {
+		provider.close();
+		mockApi.stop();
+		bmcServer.stop();
+	});
+
+	it("should request IPMI access and deliver the keys to the BMC", async () => {
+		const png = await provider.sendKeys("test-server", [{ code: "KeyY", modifiers: ["shift"] }], {
+			keyDelay: 0,
+			screenshot: true,
+			settleDelay: 0,
+		});
+
+		expect(mockApi.requests.some((r) => r.method === "POST")).toBe(true);
+		expect(bmcServer.keyEvents[0]).toEqual({ modifiers: 0x02, keys: [0x1c] });
+		expect(png?.[0]).toBe(0x89); // PNG magic
+	});
+
+	it("should deliver pointer actions to the BMC", async () => {
+		const png = await provider.sendPointer(
+			"test-server",
+			{ type: "click", x: 0, y: 0, button: "right" },
+			{ pointerDelay: 0 },
+		);
+
+		expect(png).toBeUndefined();
+		const deadline = Date.now() + 2000;
+		while (bmcServer.mouseEvents.length < 3 && Date.now() < deadline) {
+			await new Promise((resolve) => setTimeout(resolve, 5));
+		}
+		expect(bmcServer.mouseEvents[1]).toEqual({ buttons: 0x02, x: 0, y: 0 });
+	});
+});
+
+describe("OvhProvider IPMI access reuse", () => {
+	let mockApi: MockOvhApi;
+	let bmcServer: MockBmcServer;
+	let bmcUrl: string;
+	let apiUrl: string;
+	let provider: OvhProvider;
+
+	const accessRequests = () =>
+		mockApi.requests.filter((r) => r.method === "POST" && r.path.endsWith("/ipmi/access")).length;
+
+	function startApi(accessTtl?: number): void {
+		mockApi?.stop();
+		mockApi = new MockOvhApi({
+			viewerUrls: { "test-server": `${bmcUrl}/viewer` },
+			autoCompleteTasks: true,
+			accessTtl,
+		});
+		apiUrl = mockApi.start();
+	}
+
+	function createProvider(): OvhProvider {
+		return new OvhProvider(
+			{
+				endpoint: "eu",
+				applicationKey: "test-ak",
+				applicationSecret: "test-as",
+				consumerKey: "test-ck",
+				baseUrl: apiUrl,
+			},
+			{ publicIp: "127.0.0.1", pollInterval: 10, pollMaxAttempts: 5 },
+		);
+	}
+
+	beforeAll(() => {
+		bmcServer = new MockBmcServer();
+		bmcUrl = bmcServer.start();
+	});
+
+	afterEach(() => {
+		provider.close();
+	});
+
+	afterAll(() => {
+		mockApi.stop();
+		bmcServer.stop();
+	});
+
+	it("should reuse the viewer URL for new KVM sessions until it expires", async () => {
+		startApi();
+		provider = createProvider();
+
+		await provider.getScreenshot("test-server");
+		provider.close(); // force a new BMC session
+		await provider.getScreenshot("test-server");
+
+		expect(accessRequests()).toBe(1);
+		expect(bmcServer.connectionCount).toBe(2);
+	});
+
+	it("should request new access when the grant is about to expire", async () => {
+		startApi(30_000); // inside the expiry margin
+		provider = createProvider();
+
+		await provider.getScreenshot("test-server");
+		provider.close();
+		await provider.getScreenshot("test-server");
+
+		expect(accessRequests()).toBe(2);
+	});
+
+	it("should request new access when the BMC rejects the viewer URL", async () => {
+		startApi();
+		provider = createProvider();
+
+		await provider.getScreenshot("test-server");
+		provider.close();
+		bmcServer.rejectUpgrades(1);
+		await provider.getScreenshot("test-server");
+
+		expect(accessRequests()).toBe(2);
+	});
+});
+
+describe("OvhProvider.power", () => {
+	let mockApi: MockOvhApi;
+	let provider: OvhProvider;
+
+	beforeAll(() => {
+		mockApi = new MockOvhApi({ servers: ["ns1234.ip-1-2-3.eu"], autoCompleteTasks: false });
+		const baseUrl = mockApi.start();
+		provider = new OvhProvider(
+			{
+				endpoint: "eu",
+				applicationKey: "test-ak",
+				applicationSecret: "test-as",
+				consumerKey: "test-ck",
+				baseUrl,
+			},
+			{ pollInterval: 10, pollMaxAttempts: 10 },
+		);
+	});
+
+	afterAll(() => {
+		mockApi.stop();
+	});
+
+	it("should only offer a hard reboot", () => {
+		expect(provider.powerActions).toEqual(["reboot"]);
+	});
+
+	it("should request a hard reboot and wait for its task", async () => {
+		const promise = provider.power("ns1234.ip-1-2-3.eu", "reboot");
+		await new Promise((resolve) => setTimeout(resolve, 30));
+		expect(mockApi.reboots).toEqual(["ns1234.ip-1-2-3.eu"]);
+		mockApi.completeTasks();
+
+		const result = await promise;
+		expect(result.action).toBe("reboot");
+		expect(result.taskId).toBe(1);
+		const reboot = mockApi.requests.find((r) => r.path.endsWith("/reboot"));
+		expect(reboot?.method).toBe("POST");
+		expect(reboot?.path).toBe("/dedicated/server/ns1234.ip-1-2-3.eu/reboot");
+	});
+
+	it("should report a failed reboot task", async () => {
+		const promise = provider.power("ns1234.ip-1-2-3.eu", "reboot");
+		await new Promise((resolve) => setTimeout(resolve, 30));
+		mockApi.failTask(2, "ovhError", "Reboot failed");
+
+		await expect(promise).rejects.toThrow("OVH task 2 failed: ovhError — Reboot failed");
+	});
+
+	it("should reject unknown servers and unsupported actions", async () => {
+		await expect(provider.power("unknown", "reboot")).rejects.toThrow("404");
+		await expect(provider.power("ns1234.ip-1-2-3.eu", "off")).rejects.toThrow(
+			'only support a hard reboot, not power "off"',
+		);
+	});
+});
+
+describe("OvhProvider rescue boot", () => {
+	const serverId = "ns1234.ip-1-2-3.eu";
+	let mockApi: MockOvhApi;
+	let provider: OvhProvider;
+
+	beforeAll(() => {
+		mockApi = new MockOvhApi({
+			servers: [serverId],
+			serverDetails: { [serverId]: { name: serverId, bootId: 1 } },
+			boots: {
+				[serverId]: [
+					{ bootId: 1, bootType: "harddisk", description: "Boot from the hard disk", kernel: "hd" },
+					{ bootId: 21, bootType: "rescue", description: "Rescue pro", kernel: "rescue64-pro" },
+					{ bootId: 22, bootType: "rescue", description: "Rescue", kernel: "rescue-customer" },
+					{ bootId: 30, bootType: "network", description: "Memtest", kernel: "memtest" },
+				],
+			},
+			autoCompleteTasks: true,
+		});
+		const baseUrl = mockApi.start();
+		provider = new OvhProvider(
+			{
+				endpoint: "eu",
+				applicationKey: "test-ak",
+				applicationSecret: "test-as",
+				consumerKey: "test-ck",
+				baseUrl,
+			},
+			{ pollInterval: 10, pollMaxAttempts: 10 },
+		);
+	});
+
+	afterAll(() => {
+		mockApi.stop();
+	});
+
+	it("should list the netboots and the current one", async () => {
+		const config = await provider.getBootConfig(serverId);
+
+		expect(config.current).toEqual({
+			id: 1,
+			type: "harddisk",
+			name: "hd",
+			description: "Boot from the hard disk",
+		});
+		expect(config.options.map((o) => o.name)).toEqual([
+			"hd",
+			"rescue64-pro",
+			"rescue-customer",
+			"memtest",
+		]);
+	});
+
+	it("should switch to rescue-customer, reboot, and restore the previous boot", async () => {
+		const rescue = await provider.bootRescue(serverId);
+
+		expect(rescue.previous.id).toBe(1);
+		expect(rescue.current.name).toBe("rescue-customer");
+		expect(rescue.reboot?.taskId).toBeGreaterThan(0);
+		expect(mockApi.currentBoot(serverId)).toBe(22);
+		expect(mockApi.reboots).toEqual([serverId]);
+
+		// Another rescue system still returns to the disk afterwards
+		const other = await provider.bootRescue(serverId, { bootId: 21, reboot: false });
+		expect(other.reboot).toBeUndefined();
+		expect(mockApi.currentBoot(serverId)).toBe(21);
+
+		const restored = await provider.restoreBoot(serverId);
+		expect(restored.previous.id).toBe(21);
+		expect(restored.current.id).toBe(1);
+		expect(mockApi.currentBoot(serverId)).toBe(1);
+		expect(mockApi.reboots).toEqual([serverId, serverId]);
+	});
+
+	it("should restore the disk boot when nothing was remembered, and say so", async () => {
+		await new OvhProvider(
+			{
+				endpoint: "eu",
+				applicationKey: "test-ak",
+				applicationSecret: "test-as",
+				consumerKey: "test-ck",
+				baseUrl: `http://localhost:${mockApi.port}`,
+			},
+			{ pollInterval: 10 },
+		).bootRescue(serverId, { bootId: 21, reboot: false });
+
+		const restored = await provider.restoreBoot(serverId, { reboot: false });
+		expect(restored.previous.id).toBe(21);
+		expect(restored.current.type).toBe("harddisk");
+		expect(restored.fallback).toBe(true);
+		expect(mockApi.currentBoot(serverId)).toBe(1);
+	});
+
+	it("should not reboot when the restored boot is already the current one", async () => {
+		const reboots = mockApi.reboots.length;
+
+		const restored = await provider.restoreBoot(serverId);
+
+		expect(restored.previous.id).toBe(1);
+		expect(restored.current.id).toBe(1);
+		expect(restored.fallback).toBe(true);
+		expect(restored.reboot).toBeUndefined();
+		expect(mockApi.reboots).toHaveLength(reboots);
+	});
+
+	it("should not remember a rescue boot the server already used", async () => {
+		const restarted = new OvhProvider(
+			{
+				endpoint: "eu",
+				applicationKey: "test-ak",
+				applicationSecret: "test-as",
+				consumerKey: "test-ck",
+				baseUrl: `http://localhost:${mockApi.port}`,
+			},
+			{ pollInterval: 10 },
+		);
+		await provider.bootRescue(serverId, { bootId: 21, reboot: false });
+
+		const rescue = await restarted.bootRescue(serverId, { reboot: false });
+		expect(rescue.previous.id).toBe(21);
+
+		const restored = await restarted.restoreBoot(serverId, { reboot: false });
+		expect(restored.current.id).toBe(1);
+		expect(restored.fallback).toBe(true);
+		// The first provider still remembers the disk
+		await provider.bootRescue(serverId, { reboot: false });
+		expect((await provider.restoreBoot(serverId, { reboot: false })).fallback).toBeUndefined();
+	});
+
+	it("should not remember anything when the switch fails", async () => {
+		mockApi.refuseBootChanges(1);
+		await expect(provider.bootRescue(serverId, { reboot: false })).rejects.toThrow(
+			"A task is already running",
+		);
+		expect(mockApi.currentBoot(serverId)).toBe(1);
+
+		const restored = await provider.restoreBoot(serverId, { reboot: false });
+		expect(restored.current.id).toBe(1);
+		expect(restored.fallback).toBe(true);
+	});
+
+	it("should reject boots the server does not have, and boots that are not rescue boots", async () => {
+		const reboots = mockApi.reboots.length;
+		await expect(provider.bootRescue(serverId, { bootId: 99 })).rejects.toThrow(
+			`Server ${serverId} has no boot 99`,
+		);
+		await expect(provider.bootRescue(serverId, { bootId: 30 })).rejects.toThrow(
+			`Boot 30 of server ${serverId} is a network boot, not a rescue boot`,
+		);
+		expect(mockApi.currentBoot(serverId)).toBe(1);
+		expect(mockApi.reboots).toHaveLength(reboots);
+	});
 });
 
 describe("OvhProvider.waitForTask edge cases", () => {
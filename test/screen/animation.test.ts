@@ -0,0 +1,170 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { PNG } from "pngjs";
+import { AnimationEncoder } from "../../src/screen/animation.js";
+import type { RgbaImage } from "../../src/screen/types.js";
+import { decodeApng, decodeGif } from "../helpers/animation.js";
+
+type Rgb = [number, number, number];
+
+function solid(width: number, height: number, color: Rgb): RgbaImage {
+	const pixels = new Uint8Array(width * height * 4);
+	for (let i = 0; i < pixels.length; i += 4) pixels.set([...color, 255], i);
+	return { width, height, pixels };
+}
+
+function paint(
+	image: RgbaImage,
+	x: number,
+	y: number,
+	w: number,
+	h: number,
+	color: Rgb,
+): RgbaImage {
+	const pixels = image.pixels.slice();
+	for (let row = y; row < y + h; row++) {
+		for (let col = x; col < x + w; col++)
+			pixels.set([...color, 255], (row * image.width + col) * 4);
+	}
+	return { ...image, pixels };
+}
+
+/** Pseudo-random pixels in palette colors (from the high LCG bits, the low ones repeat quickly). */
+function noise(width: number, height: number): RgbaImage {
+	const pixels = new Uint8Array(width * height * 4);
+	let seed = 42;
+	for (let i = 0; i < pixels.length; i += 4) {
+		seed = (seed * 1103515245 + 12345) >>> 0;
+		pixels.set(
+			[seed & 0x1000000 ? 255 : 0, seed & 0x2000000 ? 255 : 0, seed & 0x4000000 ? 255 : 0, 255],
+			i,
+		);
+	}
+	return { width, height, pixels };
+}
+
+describe("AnimationEncoder APNG", () => {
+	it("should play back every frame exactly with its delay", () => {
+		const first = solid(40, 30, [0, 0, 170]);
+		const second = paint(first, 5, 10, 8, 4, [170, 170, 170]);
+		const third = paint(second, 0, 0, 40, 2, [12, 34, 56]);
+		const encoder = new AnimationEncoder("apng", 40, 30);
+		encoder.add(first, 0);
+		encoder.add(second, 250);
+		encoder.add(third, 1000);
+
+		const animation = decodeApng(encoder.finish(1500));
+
+		expect(animation.frames.map((f) => f.delay)).toEqual([250, 750, 500]);
+		expect(animation.frames.map((f) => f.image.pixels)).toEqual([
+			first.pixels,
+			second.pixels,
+			third.pixels,
+		]);
+	});
+
+	it("should only store the changed rectangle of later frames", () => {
+		const first = solid(40, 30, [0, 0, 0]);
+		const encoder = new AnimationEncoder("apng", 40, 30);
+		encoder.add(first, 0);
+		encoder.add(paint(first, 5, 10, 8, 4, [255, 255, 255]), 100);
+
+		const [, second] = decodeApng(encoder.finish(200)).frames;
+
+		expect(second).toMatchObject({ x: 5, y: 10, width: 8, height: 4 });
+	});
+
+	it("should decode as the first frame in viewers without APNG support", () => {
+		const first = solid(16, 8, [255, 0, 0]);
+		const encoder = new AnimationEncoder("apng", 16, 8);
+		encoder.add(first, 0);
+		encoder.add(solid(16, 8, [0, 255, 0]), 100);
+
+		const still = PNG.sync.read(encoder.finish(200));
+
+		expect(Array.from(still.data)).toEqual(Array.from(first.pixels));
+	});
+
+	it("should extend the previous frame instead of adding an identical one", () => {
+		const frame = solid(8, 8, [1, 2, 3]);
+		const encoder = new AnimationEncoder("apng", 8, 8);
+		encoder.add(frame, 0);
+		encoder.add(solid(8, 8, [1, 2, 3]), 100);
+
+		const animation = decodeApng(encoder.finish(300));
+
+		expect(encoder.frameCount).toBe(1);
+		expect(animation.frames.map((f) => f.delay)).toEqual([300]);
+	});
+
+	it("should crop and pad frames of another size to the first frame's", () => {
+		const encoder = new AnimationEncoder("apng", 4, 4);
+		encoder.add(solid(4, 4, [0, 0, 0]), 0);
+		encoder.add(solid(2, 6, [255, 255, 255]), 100);
+
+		const [, second] = decodeApng(encoder.finish(200)).frames;
+
+		expect(second.image.width).toBe(4);
+		expect(Array.from(second.image.pixels.subarray(0, 16))).toEqual([
+			255, 255, 255, 255, 255, 255, 255, 255, 0, 0, 0, 255, 0, 0, 0, 255,
+		]);
+	});
+
+	it("should refuse frames once the size limit is reached", () => {
+		const encoder = new AnimationEncoder("apng", 64, 64, 5000);
+
+		expect(encoder.add(noise(64, 64), 0)).toBe(true);
+		expect(encoder.add(solid(64, 64, [0, 0, 0]), 100)).toBe(true);
+		expect(encoder.add(noise(64, 64), 200)).toBe(false);
+		expect(encoder.add(solid(64, 64, [9, 9, 9]), 300)).toBe(false);
+
+		const animation = encoder.finish(400);
+		expect(animation.length).toBeLessThanOrEqual(5000);
+		expect(decodeApng(animation).frames).toHaveLength(2);
+	});
+
+	it("should throw when not even the first frame fits", () => {
+		const encoder = new AnimationEncoder("apng", 64, 64, 2000);
+
+		expect(encoder.add(noise(64, 64), 0)).toBe(false);
+		expect(() => encoder.finish(100)).toThrow("No frame fits in 2000 bytes");
+	});
+});
+
+describe("AnimationEncoder GIF", () => {
+	it("should play back frames in palette colors with their delays", () => {
+		const first = noise(50, 20);
+		const second = paint(first, 10, 5, 20, 10, [255, 255, 0]);
+		const encoder = new AnimationEncoder("gif", 50, 20);
+		encoder.add(first, 0);
+		encoder.add(second, 300);
+
+		const animation = decodeGif(encoder.finish(1000));
+
+		expect(animation).toMatchObject({ width: 50, height: 20 });
+		expect(animation.frames.map((f) => f.delay)).toEqual([300, 700]);
+		expect(animation.frames[1]).toMatchObject({ x: 10, y: 5, width: 20, height: 10 });
+		expect(animation.frames.map((f) => f.image.pixels)).toEqual([first.pixels, second.pixels]);
+	});
+
+	it("should reset the LZW code table on frames with more than 4096 codes", () => {
+		const frame = noise(200, 150);
+		const encoder = new AnimationEncoder("gif", 200, 150);
+		encoder.add(frame, 0);
+
+		const [decoded] = decodeGif(encoder.finish(100)).frames;
+
+		expect(decoded.image.pixels).toEqual(frame.pixels);
+	});
+
+	it("should map other colors to the nearest palette color", () => {
+		const encoder = new AnimationEncoder("gif", 2, 1);
+		encoder.add(solid(2, 1, [170, 170, 170]), 0);
+
+		const [decoded] = decodeGif(encoder.finish(100)).frames;
+
+		expect(Array.from(decoded.image.pixels.subarray(0, 3))).toEqual([182, 182, 170]);
+	});
+});
@@ -0,0 +1,194 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { compareImages, describeChange, diffImages } from "../../src/screen/diff.js";
+import type { Region, RgbaImage } from "../../src/screen/types.js";
+
+/** Solid image, optionally with one rectangle in another color. */
+function makeImage(
+	width: number,
+	height: number,
+	color: number,
+	rect?: Region & { color: number },
+): RgbaImage {
+	const pixels = new Uint8Array(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const inRect =
+				rect && x >= rect.x && x < rect.x + rect.width && y >= rect.y && y < rect.y + rect.height;
+			const c = inRect ? rect.color : color;
+			pixels.set([c, c, c, 255], (y * width + x) * 4);
+		}
+	}
+	return { width, height, pixels };
+}
+
+describe("diffImages", () => {
+	it("should find no change between identical frames", () => {
+		const diff = diffImages(makeImage(40, 30, 0), makeImage(40, 30, 0));
+
+		expect(diff).toEqual({ changedPixels: 0, comparedPixels: 1200, bounds: null });
+	});
+
+	it("should report the bounding box of changed pixels", () => {
+		const after = makeImage(40, 30, 0, { x: 5, y: 10, width: 8, height: 4, color: 200 });
+
+		const diff = diffImages(makeImage(40, 30, 0), after);
+
+		expect(diff.changedPixels).toBe(32);
+		expect(diff.bounds).toEqual({ x: 5, y: 10, width: 8, height: 4 });
+	});
+
+	it("should ignore differences within the tolerance", () => {
+		const after = makeImage(40, 30, 10, { x: 0, y: 0, width: 2, height: 2, color: 100 });
+
+		expect(diffImages(makeImage(40, 30, 0), after).changedPixels).toBe(4);
+		expect(diffImages(makeImage(40, 30, 0), after, { tolerance: 100 }).changedPixels).toBe(0);
+	});
+
+	it("should only compare pixels inside the region", () => {
+		const after = makeImage(40, 30, 0, { x: 0, y: 0, width: 10, height: 10, color: 255 });
+
+		const outside = diffImages(makeImage(40, 30, 0), after, {
+			region: { x: 20, y: 0, width: 20, height: 30 },
+		});
+		const overlapping = diffImages(makeImage(40, 30, 0), after, {
+			region: { x: 5, y: 5, width: 100, height: 100 },
+		});
+
+		expect(outside).toEqual({ changedPixels: 0, comparedPixels: 600, bounds: null });
+		expect(overlapping.changedPixels).toBe(25);
+		expect(overlapping.comparedPixels).toBe(35 * 25); // clipped to the screen
+	});
+
+	it("should treat a resolution change as a full-screen change", () => {
+		const diff = diffImages(makeImage(40, 30, 0), makeImage(80, 60, 0));
+
+		expect(diff).toEqual({
+			changedPixels: 4800,
+			comparedPixels: 4800,
+			bounds: { x: 0, y: 0, width: 80, height: 60 },
+		});
+	});
+});
+
+/** Copy of an image with another rectangle painted in. */
+function paintRect(image: RgbaImage, rect: Region & { color: number }): RgbaImage {
+	const pixels = image.pixels.slice();
+	for (let y = rect.y; y < rect.y + rect.height; y++) {
+		for (let x = rect.x; x < rect.x + rect.width; x++) {
+			pixels.set([rect.color, rect.color, rect.color, 255], (y * image.width + x) * 4);
+		}
+	}
+	return { ...image, pixels };
+}
+
+function pixelAt(image: RgbaImage, x: number, y: number): number[] {
+	const i = (y * image.width + x) * 4;
+	return Array.from(image.pixels.subarray(i, i + 4));
+}
+
+describe("compareImages", () => {
+	it("should box separate changes as separate regions, largest first", () => {
+		const before = makeImage(100, 60, 100);
+		const after = paintRect(
+			makeImage(100, 60, 100, { x: 2, y: 2, width: 4, height: 3, color: 255 }),
+			{ x: 60, y: 40, width: 20, height: 10, color: 0 },
+		);
+
+		const { diff, regions } = compareImages(before, after);
+
+		expect(diff).toEqual({
+			changedPixels: 212,
+			comparedPixels: 6000,
+			bounds: { x: 2, y: 2, width: 78, height: 48 },
+		});
+		expect(regions).toEqual([
+			{ x: 60, y: 40, width: 20, height: 10, changedPixels: 200 },
+			{ x: 2, y: 2, width: 4, height: 3, changedPixels: 12 },
+		]);
+	});
+
+	it("should merge changes closer than the gap into one region", () => {
+		const before = makeImage(100, 20, 0);
+		const after = paintRect(
+			makeImage(100, 20, 0, { x: 10, y: 5, width: 8, height: 8, color: 200 }),
+			{
+				x: 30,
+				y: 5,
+				width: 8,
+				height: 8,
+				color: 200,
+			},
+		);
+
+		expect(compareImages(before, after).regions).toHaveLength(1);
+		expect(compareImages(before, after, { gap: 4 }).regions).toHaveLength(2);
+	});
+
+	it("should draw changes in red, outlines in yellow and the rest dimmed", () => {
+		const before = makeImage(40, 30, 200);
+		const after = makeImage(40, 30, 200, { x: 10, y: 10, width: 5, height: 5, color: 0 });
+
+		const { image } = compareImages(before, after);
+
+		expect(pixelAt(image, 12, 12)).toEqual([255, 0, 0, 255]);
+		expect(pixelAt(image, 9, 9)).toEqual([255, 255, 0, 255]);
+		expect(pixelAt(image, 15, 12)).toEqual([255, 255, 0, 255]);
+		expect(pixelAt(image, 30, 20)).toEqual([100, 100, 100, 255]);
+	});
+
+	it("should ignore differences within the tolerance", () => {
+		const before = makeImage(40, 30, 100);
+		const after = makeImage(40, 30, 100, { x: 0, y: 0, width: 10, height: 10, color: 110 });
+
+		expect(compareImages(before, after).diff.changedPixels).toBe(0);
+		expect(compareImages(before, after, { tolerance: 5 }).diff.changedPixels).toBe(100);
+	});
+
+	it("should mark everything as changed after a resolution change", () => {
+		const { diff, regions } = compareImages(makeImage(40, 30, 0), makeImage(20, 10, 0));
+
+		expect(diff.changedPixels).toBe(200);
+		expect(regions).toEqual([{ x: 0, y: 0, width: 20, height: 10, changedPixels: 200 }]);
+	});
+});
+
+describe("describeChange", () => {
+	const screen = { width: 640, height: 480 };
+
+	it("should say when nothing changed", () => {
+		const text = describeChange({ changedPixels: 0, comparedPixels: 100, bounds: null }, screen);
+
+		expect(text).toBe("No change in the watched area");
+	});
+
+	it("should give the size, position and screen area of the change", () => {
+		const text = describeChange(
+			{
+				changedPixels: 3072,
+				comparedPixels: 307200,
+				bounds: { x: 0, y: 0, width: 640, height: 16 },
+			},
+			screen,
+		);
+
+		expect(text).toBe(
+			"3072 pixels changed (1.0% of the watched area) in a 640x16 box at (0, 0), top center of the screen",
+		);
+	});
+
+	it("should place a change in the middle of the screen at its center", () => {
+		const text = describeChange(
+			{
+				changedPixels: 100,
+				comparedPixels: 307200,
+				bounds: { x: 300, y: 220, width: 10, height: 10 },
+			},
+			screen,
+		);
+
+		expect(text).toContain("in a 10x10 box at (300, 220), center of the screen");
+	});
+});
@@ -0,0 +1,88 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import jpeg from "jpeg-js";
+import { encodeScreenshot } from "../../src/screen/encode.js";
+import { decodePng } from "../../src/screen/image.js";
+import type { RgbaImage } from "../../src/screen/types.js";
+import { renderTextScreen } from "../helpers/text-screen.js";
+import { decodeWebp } from "../helpers/webp.js";
+
+/** A 640x400 screen whose noise makes it expensive to encode. */
+function noisyScreen(): RgbaImage {
+	return renderTextScreen(["Loading Linux 6.8.0 ...", "Loading initial ramdisk ..."], {
+		noise: 40,
+	});
+}
+
+describe("encodeScreenshot", () => {
+	it("should encode PNG by default", () => {
+		const screen = renderTextScreen(["login:"]);
+		const encoded = encodeScreenshot(screen);
+
+		expect(encoded.mimeType).toBe("image/png");
+		expect(encoded.quality).toBeUndefined();
+		expect(encoded.withinBudget).toBe(true);
+		expect(decodePng(encoded.data)).toEqual(screen);
+	});
+
+	it("should encode JPEG at the requested quality", () => {
+		const encoded = encodeScreenshot(noisyScreen(), { format: "jpeg", quality: 50 });
+		const decoded = jpeg.decode(encoded.data);
+
+		expect(encoded.mimeType).toBe("image/jpeg");
+		expect(encoded.quality).toBe(50);
+		expect([decoded.width, decoded.height]).toEqual([640, 400]);
+		expect(encoded.data.length).toBeLessThan(
+			encodeScreenshot(noisyScreen(), { format: "jpeg", quality: 95 }).data.length,
+		);
+	});
+
+	it("should encode lossless WebP", () => {
+		const screen = renderTextScreen(["login:"]);
+		const encoded = encodeScreenshot(screen, { format: "webp" });
+
+		expect(encoded.mimeType).toBe("image/webp");
+		expect(decodeWebp(encoded.data)).toEqual(screen);
+	});
+
+	it("should downscale to the largest dimension, keeping the aspect ratio", () => {
+		const encoded = encodeScreenshot(renderTextScreen(["login:"]), { maxDimension: 320 });
+
+		expect([encoded.width, encoded.height]).toEqual([320, 200]);
+		expect(decodePng(encoded.data).width).toBe(320);
+	});
+
+	it("should lower JPEG quality before shrinking to meet a byte budget", () => {
+		const full = encodeScreenshot(noisyScreen(), { format: "jpeg", quality: 90 });
+		const budget = encodeScreenshot(noisyScreen(), { format: "jpeg", quality: 55 }).data.length;
+		const encoded = encodeScreenshot(noisyScreen(), {
+			format: "jpeg",
+			quality: 90,
+			maxBytes: budget,
+		});
+
+		expect(full.data.length).toBeGreaterThan(budget);
+		expect(encoded.quality).toBeLessThan(90);
+		expect(encoded.width).toBe(640);
+		expect(encoded.data.length).toBeLessThanOrEqual(budget);
+	});
+
+	it("should shrink lossless images to meet a byte budget", () => {
+		const budget = Math.floor(encodeScreenshot(noisyScreen()).data.length / 2);
+		const encoded = encodeScreenshot(noisyScreen(), { maxBytes: budget });
+
+		expect(encoded.withinBudget).toBe(true);
+		expect(encoded.data.length).toBeLessThanOrEqual(budget);
+		expect(encoded.width).toBeLessThan(640);
+		expect(encoded.width / encoded.height).toBeCloseTo(640 / 400, 1);
+	});
+
+	it("should give up on budgets that would make the image unreadable", () => {
+		const encoded = encodeScreenshot(noisyScreen(), { maxBytes: 100 });
+
+		expect(encoded.withinBudget).toBe(false);
+		expect(encoded.width).toBeGreaterThanOrEqual(64);
+	});
+});
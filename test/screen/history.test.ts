@@ -0,0 +1,35 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { ScreenshotHistory } from "../../src/screen/history.js";
+
+const png = (n: number) => Buffer.from([n]);
+
+describe("ScreenshotHistory", () => {
+	it("should hand out increasing capture ids across servers", () => {
+		const history = new ScreenshotHistory();
+
+		const first = history.add("a", png(1));
+		const second = history.add("b", png(2));
+
+		expect(first).toMatchObject({ id: 1, serverId: "a" });
+		expect(second).toMatchObject({ id: 2, serverId: "b" });
+		expect(history.get(1)?.png).toEqual(png(1));
+		expect(history.get(3)).toBeUndefined();
+	});
+
+	it("should drop the oldest screenshots of a server past the limit", () => {
+		const history = new ScreenshotHistory(2);
+
+		history.add("a", png(1));
+		history.add("b", png(2));
+		history.add("a", png(3));
+		history.add("a", png(4));
+
+		expect(history.get(1)).toBeUndefined();
+		expect(history.get(2)?.serverId).toBe("b");
+		expect(history.list("a").map((s) => s.id)).toEqual([3, 4]);
+		expect(history.list("c")).toEqual([]);
+	});
+});
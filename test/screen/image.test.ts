@@ -0,0 +1,150 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { PNG } from "pngjs";
+import {
+	clipRegion,
+	cropImage,
+	decodePng,
+	downscaleImage,
+	encodeFramePng,
+	encodePng,
+} from "../../src/screen/image.js";
+import type { RgbaImage } from "../../src/screen/types.js";
+import { renderTextScreen } from "../helpers/text-screen.js";
+
+const FIXTURES = join(import.meta.dir, "../fixtures/ocr");
+
+function fixture(name: string): string[] {
+	return readFileSync(join(FIXTURES, `${name}.txt`), "utf8")
+		.trimEnd()
+		.split("\n");
+}
+
+/** PNG header fields: bit depth and color type. */
+function pngFormat(png: Buffer): { bitDepth: number; colorType: number } {
+	return { bitDepth: png[24], colorType: png[25] };
+}
+
+/** The image as a 32-bit RGBA PNG, as written before indexed encoding. */
+function rgbaPng(image: RgbaImage): Buffer {
+	const png = new PNG({ width: image.width, height: image.height });
+	png.data = Buffer.from(image.pixels);
+	return PNG.sync.write(png);
+}
+
+/** 4x3 image whose red channel is the pixel index. */
+function numbered(): RgbaImage {
+	const pixels = new Uint8Array(4 * 3 * 4);
+	for (let i = 0; i < 12; i++) pixels.set([i, 0, 0, 255], i * 4);
+	return { width: 4, height: 3, pixels };
+}
+
+describe("image", () => {
+	it("should round-trip through PNG", () => {
+		const image = numbered();
+
+		expect(decodePng(encodePng(image))).toEqual(image);
+	});
+
+	it("should write 4-bit indexed PNGs for up to 16 colors", () => {
+		// Odd width, so the last byte of each row holds a single pixel
+		const screen = renderTextScreen(["Press F2 to enter SETUP"], {
+			columns: 25,
+			rows: 3,
+			width: 201,
+			spans: [{ row: 1, column: 0, length: 10, fg: [255, 255, 85], bg: [0, 0, 170] }],
+		});
+		const png = encodePng(screen);
+
+		expect(pngFormat(png)).toEqual({ bitDepth: 4, colorType: 3 });
+		expect(decodePng(png)).toEqual(screen);
+	});
+
+	it("should write 8-bit indexed PNGs with transparency for up to 256 colors", () => {
+		const image: RgbaImage = { width: 20, height: 10, pixels: new Uint8Array(20 * 10 * 4) };
+		for (let i = 0; i < 200; i++) image.pixels.set([i, 255 - i, 7, i % 2 ? 255 : 128], i * 4);
+		const png = encodePng(image);
+
+		expect(pngFormat(png)).toEqual({ bitDepth: 8, colorType: 3 });
+		expect(decodePng(png)).toEqual(image);
+	});
+
+	it("should fall back to RGBA above 256 colors", () => {
+		const image: RgbaImage = { width: 300, height: 1, pixels: new Uint8Array(300 * 4) };
+		for (let i = 0; i < 300; i++) image.pixels.set([i & 0xff, i >> 8, 0, 255], i * 4);
+		const png = encodePng(image);
+
+		expect(pngFormat(png)).toEqual({ bitDepth: 8, colorType: 6 });
+		expect(decodePng(png)).toEqual(image);
+	});
+
+	it("should snap compression noise on captured text screens to the VGA palette", () => {
+		const clean = renderTextScreen(fixture("kernel-panic"));
+		const noisy = renderTextScreen(fixture("kernel-panic"), { noise: 6 });
+		const png = encodeFramePng(noisy);
+
+		expect(pngFormat(png)).toEqual({ bitDepth: 4, colorType: 3 });
+		expect(decodePng(png)).toEqual(clean);
+	});
+
+	it("should keep captured graphical screens unchanged", () => {
+		const image: RgbaImage = { width: 64, height: 64, pixels: new Uint8Array(64 * 64 * 4) };
+		for (let i = 0; i < 64 * 64; i++) image.pixels.set([i & 0xff, (i >> 4) & 0xff, 3, 255], i * 4);
+
+		expect(decodePng(encodeFramePng(image))).toEqual(image);
+	});
+
+	it("should make text screens several times smaller than RGBA PNGs", () => {
+		for (const name of ["kernel-panic", "bios-setup", "dracut-shell"]) {
+			const screen = renderTextScreen(fixture(name));
+
+			expect(encodePng(screen).length * 3).toBeLessThan(rgbaPng(screen).length);
+		}
+	});
+
+	it("should clip regions to the image bounds", () => {
+		const image = numbered();
+
+		expect(clipRegion({ x: 2, y: -1, width: 5, height: 2 }, image)).toEqual({
+			x: 2,
+			y: 0,
+			width: 2,
+			height: 1,
+		});
+		expect(clipRegion({ x: 9, y: 0, width: 1, height: 1 }, image).width).toBe(0);
+	});
+
+	it("should crop a region row by row", () => {
+		const crop = cropImage(numbered(), { x: 1, y: 1, width: 2, height: 2 });
+
+		expect(crop.width).toBe(2);
+		expect(crop.height).toBe(2);
+		expect(Array.from(crop.pixels.filter((_, i) => i % 4 === 0))).toEqual([5, 6, 9, 10]);
+	});
+
+	it("should downscale by averaging the covered pixels", () => {
+		// Halving: each output pixel averages a 2x2 block
+		const even: RgbaImage = { width: 4, height: 2, pixels: new Uint8Array(32) };
+		for (let i = 0; i < 8; i++) even.pixels.set([i * 2, 0, 0, 255], i * 4);
+		const half = downscaleImage(even, 2, 1);
+		expect(Array.from(half.pixels.filter((_, i) => i % 4 === 0))).toEqual([5, 9]);
+		expect(half.pixels[3]).toBe(255);
+
+		// Non-integer factor: 3 columns into 2, the middle column split between both
+		const row: RgbaImage = {
+			width: 3,
+			height: 1,
+			pixels: new Uint8Array([0, 0, 0, 255, 90, 0, 0, 255, 180, 0, 0, 255]),
+		};
+		const shrunk = downscaleImage(row, 2, 1);
+		expect(Array.from(shrunk.pixels.filter((_, i) => i % 4 === 0))).toEqual([30, 150]);
+	});
+
+	it("should refuse to upscale", () => {
+		expect(() => downscaleImage(numbered(), 8, 3)).toThrow("Cannot downscale a 4x3 image to 8x3");
+	});
+});
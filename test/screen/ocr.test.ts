@@ -0,0 +1,139 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { VGA_8X8, VGA_8X14 } from "../../src/screen/fonts.js";
+import { extractText } from "../../src/screen/ocr.js";
+import type { RgbaImage } from "../../src/screen/types.js";
+import { renderTextScreen } from "../helpers/text-screen.js";
+
+/** Golden screen contents: the expected OCR output, rendered into the fixture frame. */
+function fixture(name: string): string {
+	return readFileSync(join(import.meta.dir, "../fixtures/ocr", `${name}.txt`), "utf8").trimEnd();
+}
+
+describe("extractText golden frames", () => {
+	it("should read a kernel panic on an 80x25 VGA text screen (720x400)", () => {
+		const expected = fixture("kernel-panic");
+		const frame = renderTextScreen(expected.split("\n"), { cellWidth: 9 });
+
+		const screen = extractText(frame);
+
+		expect(screen?.text).toBe(expected);
+		expect(screen).toMatchObject({
+			columns: 80,
+			rows: 25,
+			font: "vga-8x16",
+			cellWidth: 9,
+			cellHeight: 16,
+			unrecognized: 0,
+		});
+	});
+
+	it("should read a BIOS setup screen with box drawing and a highlight bar", () => {
+		const expected = fixture("bios-setup");
+		const frame = renderTextScreen(expected.split("\n"), {
+			cellWidth: 9,
+			fg: [170, 170, 170],
+			bg: [0, 0, 170],
+			spans: [
+				{ row: 0, fg: [255, 255, 255], bg: [0, 170, 170] },
+				{ row: 1, fg: [0, 0, 170], bg: [170, 170, 170] },
+				{ row: 6, column: 1, length: 54, fg: [255, 255, 255], bg: [0, 0, 0] },
+				{ row: 6, column: 28, length: 25, fg: [255, 255, 85], bg: [0, 0, 0] },
+			],
+		});
+
+		expect(extractText(frame)?.text).toBe(expected);
+	});
+
+	it("should read a 100x37 framebuffer console at 800x600", () => {
+		const expected = fixture("fsck-prompt");
+		const frame = renderTextScreen(expected.split("\n"), {
+			columns: 100,
+			rows: 37,
+			width: 800,
+			height: 600,
+		});
+
+		const screen = extractText(frame);
+
+		expect(screen?.text).toBe(expected);
+		expect(screen).toMatchObject({ columns: 100, rows: 37, cellWidth: 8 });
+	});
+
+	it("should read an 8x14 font screen with compression noise", () => {
+		const expected = fixture("dracut-shell");
+		const frame = renderTextScreen(expected.split("\n"), { font: VGA_8X14, noise: 30 });
+
+		const screen = extractText(frame);
+
+		expect(screen?.text).toBe(expected);
+		expect(screen?.font).toBe("vga-8x14");
+	});
+
+	it("should find a grid that does not start at the corner", () => {
+		const expected = fixture("dracut-shell");
+		const frame = renderTextScreen(expected.split("\n"), {
+			font: VGA_8X8,
+			rows: 50,
+			originX: 5,
+			originY: 3,
+			width: 648,
+			height: 408,
+		});
+
+		const screen = extractText(frame);
+
+		expect(screen?.text).toBe(expected);
+		expect(screen).toMatchObject({ font: "vga-8x8", originX: 5, originY: 3, rows: 50 });
+	});
+});
+
+describe("extractText", () => {
+	it("should return null for a graphical screen", () => {
+		const width = 320;
+		const height = 200;
+		const pixels = new Uint8Array(width * height * 4);
+		for (let y = 0; y < height; y++) {
+			for (let x = 0; x < width; x++) {
+				// Smooth gradient with a diagonal band
+				const band = Math.abs(x - y * 1.6) < 30 ? 200 : 0;
+				pixels.set([x % 256, (y * 3) % 256, band, 255], (y * width + x) * 4);
+			}
+		}
+		const image: RgbaImage = { width, height, pixels };
+
+		expect(extractText(image)).toBeNull();
+	});
+
+	it("should return null for a blank screen", () => {
+		expect(extractText(renderTextScreen([]))).toBeNull();
+	});
+
+	it("should not mistake the edges of a highlight bar for text", () => {
+		const frame = renderTextScreen(["Boot menu", "  Linux"], {
+			spans: [{ row: 1, fg: [0, 0, 0], bg: [170, 170, 170] }],
+		});
+
+		const screen = extractText(frame);
+
+		expect(screen?.text).toBe("Boot menu\n  Linux");
+		expect(screen?.font).toBe("vga-8x16");
+	});
+
+	it("should mark cells that match no glyph", () => {
+		const frame = renderTextScreen(["login: root", "Password:"]);
+		// Scribble over the "P" cell (row 1, column 0)
+		for (let y = 16; y < 32; y += 2) {
+			for (let x = 0; x < 8; x++) frame.pixels.set([255, 255, 255, 255], (y * frame.width + x) * 4);
+		}
+
+		const screen = extractText(frame, { unknownChar: "�" });
+
+		expect(screen?.text).toBe("login: root\n�assword:");
+		expect(screen?.unrecognized).toBe(1);
+	});
+});
@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { drawGrid } from "../../src/screen/overlay.js";
+import type { RgbaImage } from "../../src/screen/types.js";
+
+const YELLOW = [0xff, 0xff, 0x55, 255];
+
+const GRAY = [128, 128, 128, 255];
+
+function blank(width: number, height: number): RgbaImage {
+	const pixels = new Uint8Array(width * height * 4);
+	for (let i = 0; i < pixels.length; i += 4) pixels.set(GRAY, i);
+	return { width, height, pixels };
+}
+
+function pixel(image: RgbaImage, x: number, y: number): number[] {
+	return Array.from(
+		image.pixels.subarray((y * image.width + x) * 4, (y * image.width + x) * 4 + 4),
+	);
+}
+
+/** Columns where row `y` has line-colored pixels. */
+function yellowColumns(image: RgbaImage, y: number): number[] {
+	const columns: number[] = [];
+	for (let x = 0; x < image.width; x++) {
+		if (pixel(image, x, y).join() === YELLOW.join()) columns.push(x);
+	}
+	return columns;
+}
+
+describe("drawGrid", () => {
+	it("should draw dotted lines every spacing pixels without touching the input", () => {
+		const image = blank(300, 200);
+		const grid = drawGrid(image, { spacing: 100 });
+
+		// Below the labels, only the vertical lines cross a row
+		expect(yellowColumns(grid, 150)).toEqual([0, 100, 200]);
+		expect(pixel(grid, 100, 151)).toEqual(GRAY);
+		expect(pixel(grid, 150, 100)).toEqual(YELLOW);
+		expect(pixel(grid, 151, 100)).toEqual(GRAY);
+		expect(image.pixels.every((v, i) => v === GRAY[i % 4])).toBe(true);
+	});
+
+	it("should place lines at source coordinates of zoomed regions", () => {
+		// A 2x zoom of the console region starting at (130, 40)
+		const grid = drawGrid(blank(400, 300), { spacing: 50, scale: 2, origin: { x: 130, y: 40 } });
+
+		// Source x 150, 200 and 250 are image x 40, 140 and 240
+		expect(yellowColumns(grid, 150)).toEqual([40, 140, 240, 340]);
+		// Source y 50 is image y 20
+		expect(pixel(grid, 2, 20)).toEqual(YELLOW);
+		expect(pixel(grid, 2, 21)).toEqual([0, 0, 0, 255]);
+	});
+
+	it("should label the lines with their source coordinates", () => {
+		const plain = drawGrid(blank(300, 200), { spacing: 100 });
+		const labelled = drawGrid(blank(300, 200), { spacing: 100, origin: { x: 1000, y: 0 } });
+
+		// A black box behind the label, with glyph pixels in it
+		expect(pixel(plain, 101, 0)).toEqual([0, 0, 0, 255]);
+		expect(yellowColumns(plain, 4).some((x) => x > 101 && x < 126)).toBe(true);
+		// "1100" is wider than "100"
+		expect(yellowColumns(labelled, 4).some((x) => x > 126 && x < 134)).toBe(true);
+		expect(yellowColumns(plain, 4).some((x) => x > 126 && x < 134)).toBe(false);
+	});
+
+	it("should leave out labels that would overlap", () => {
+		const grid = drawGrid(blank(200, 100), { spacing: 10 });
+
+		// The "0" label ends at x 11, so 10 gets no label and 20 gets the next one
+		for (let y = 1; y <= 8; y++) {
+			expect(yellowColumns(grid, y).filter((x) => x > 11 && x < 20)).toEqual([]);
+		}
+		expect(pixel(grid, 21, 0)).toEqual([0, 0, 0, 255]);
+	});
+
+	it("should reject spacings that are not positive integers", () => {
+		expect(() => drawGrid(blank(10, 10), { spacing: 0 })).toThrow(
+			"Grid spacing must be a positive integer",
+		);
+	});
+});
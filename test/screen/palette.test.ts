@@ -0,0 +1,43 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { snapToPalette, VGA_PALETTE } from "../../src/screen/palette.js";
+import type { RgbaImage } from "../../src/screen/types.js";
+
+describe("snapToPalette", () => {
+	it("should snap colors within the tolerance and leave the others", () => {
+		const image: RgbaImage = {
+			width: 4,
+			height: 1,
+			pixels: new Uint8Array(
+				[
+					[4, 2, 0, 255],
+					[0xaa - 8, 0xaa + 3, 0xaa, 255],
+					[0xaa - 9, 0xaa, 0xaa, 255],
+					[128, 64, 200, 255],
+				].flat(),
+			),
+		};
+		const snapped = snapToPalette(image);
+
+		expect(Array.from(snapped.pixels)).toEqual(
+			[
+				[0, 0, 0, 255],
+				[0xaa, 0xaa, 0xaa, 255],
+				[0xaa - 9, 0xaa, 0xaa, 255],
+				[128, 64, 200, 255],
+			].flat(),
+		);
+		expect(image.pixels[0]).toBe(4);
+	});
+
+	it("should accept another palette and tolerance", () => {
+		const image: RgbaImage = { width: 1, height: 1, pixels: new Uint8Array([90, 100, 110, 255]) };
+
+		expect(Array.from(snapToPalette(image, [[100, 100, 100]], 10).pixels)).toEqual([
+			100, 100, 100, 255,
+		]);
+		expect(VGA_PALETTE).toHaveLength(16);
+	});
+});
@@ -0,0 +1,169 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { contactSheet, recordScreen } from "../../src/screen/record.js";
+import type { KeyFrame, RgbaImage } from "../../src/screen/types.js";
+import { decodeApng, decodeGif } from "../helpers/animation.js";
+
+/** Capture function over a shared framebuffer; the n-th capture first lights `lit(n)` pixels. */
+function scriptedScreen(width: number, height: number, lit: (capture: number) => number) {
+	const pixels = new Uint8Array(width * height * 4);
+	let captures = 0;
+	return async (): Promise<RgbaImage> => {
+		pixels.fill(0);
+		pixels.fill(255, 0, lit(captures++) * 4);
+		return { width, height, pixels };
+	};
+}
+
+function keyframe(image: RgbaImage, time: number): KeyFrame {
+	return { image, time, changedPixels: image.width * image.height };
+}
+
+describe("recordScreen", () => {
+	it("should capture at the frame rate and keep only distinct frames", async () => {
+		// Captures 0-2 are blank, 3-5 show 40 lit pixels, then 80 from capture 6 on
+		const capture = scriptedScreen(20, 10, (n) => (n < 3 ? 0 : n < 6 ? 40 : 80));
+
+		const recording = await recordScreen(capture, { duration: 200, fps: 50 });
+
+		expect(recording.captured).toBe(10);
+		expect(recording.frames).toBe(3);
+		expect(recording.keyframes).toHaveLength(3);
+		expect(recording.truncated).toBeUndefined();
+		expect(recording).toMatchObject({ format: "apng", width: 20, height: 10 });
+		expect(recording.elapsed).toBeGreaterThanOrEqual(180);
+
+		const animation = decodeApng(recording.animation);
+		expect(animation.frames).toHaveLength(3);
+		expect(animation.frames[2].image.pixels.subarray(0, 80 * 4).every((v) => v === 255)).toBe(true);
+	});
+
+	it("should treat changes below the pixel threshold as duplicates", async () => {
+		const capture = scriptedScreen(20, 10, (n) => n % 3);
+
+		const recording = await recordScreen(capture, {
+			duration: 100,
+			fps: 100,
+			minChangedPixels: 5,
+		});
+
+		expect(recording.frames).toBe(1);
+		expect(recording.keyframes).toHaveLength(1);
+	});
+
+	it("should only keep frames the encoder added as keyframes", async () => {
+		const capture = scriptedScreen(20, 10, (n) => (n < 4 ? 0 : 30));
+
+		const recording = await recordScreen(capture, {
+			duration: 100,
+			fps: 100,
+			minChangedPixels: 0,
+		});
+
+		expect(recording.frames).toBe(2);
+		expect(recording.keyframes.map((k) => k.changedPixels)).toEqual([200, 30]);
+	});
+
+	it("should encode GIF on request", async () => {
+		const capture = scriptedScreen(16, 16, (n) => n * 10);
+
+		const recording = await recordScreen(capture, { duration: 50, fps: 100, format: "gif" });
+
+		expect(recording.format).toBe("gif");
+		expect(decodeGif(recording.animation).frames).toHaveLength(recording.frames);
+	});
+
+	it("should stop at the frame limit", async () => {
+		const capture = scriptedScreen(20, 10, (n) => n);
+
+		const recording = await recordScreen(capture, { duration: 5000, fps: 100, maxFrames: 4 });
+
+		expect(recording.truncated).toBe("frames");
+		expect(recording.frames).toBe(4);
+		expect(recording.elapsed).toBeLessThan(1000);
+	});
+
+	it("should stop at the size limit", async () => {
+		// Every capture lights a new scattered pattern, so each frame costs real bytes
+		const width = 64;
+		const height = 64;
+		let n = 0;
+		const capture = async (): Promise<RgbaImage> => {
+			const pixels = new Uint8Array(width * height * 4);
+			let seed = n++;
+			for (let i = 0; i < pixels.length; i += 4) {
+				seed = (seed * 1103515245 + 12345) >>> 0;
+				pixels[i] = seed >>> 24;
+			}
+			return { width, height, pixels };
+		};
+
+		const recording = await recordScreen(capture, {
+			duration: 5000,
+			fps: 100,
+			maxBytes: 20_000,
+		});
+
+		expect(recording.truncated).toBe("bytes");
+		expect(recording.animation.length).toBeLessThanOrEqual(20_000);
+		expect(recording.frames).toBeGreaterThan(0);
+	});
+
+	it("should keep the first and last frames and the biggest changes as keyframes", async () => {
+		// Capture 5 lights a big block; the others light one more pixel each
+		const capture = scriptedScreen(40, 40, (n) => (n === 5 ? 1000 : n));
+
+		const recording = await recordScreen(capture, { duration: 300, fps: 100 });
+
+		expect(recording.frames).toBe(recording.captured);
+		expect(recording.keyframes).toHaveLength(12);
+		const times = recording.keyframes.map((k) => k.time);
+		expect(times).toEqual([...times].sort((a, b) => a - b));
+		expect(recording.keyframes.map((k) => k.changedPixels)).toContain(996);
+		const last = recording.keyframes[11].image.pixels;
+		expect(last.filter((v, i) => i % 4 === 0 && v === 255)).toHaveLength(recording.captured - 1);
+	});
+});
+
+describe("contactSheet", () => {
+	it("should lay keyframes out on a square grid with time labels", () => {
+		const frame: RgbaImage = {
+			width: 100,
+			height: 60,
+			pixels: new Uint8Array(100 * 60 * 4).fill(200),
+		};
+
+		const sheet = contactSheet([0, 500, 1500, 4000, 7250].map((t) => keyframe(frame, t)));
+
+		// 3 columns, 2 rows of 100x60 thumbnails under 12-pixel labels, 4-pixel gaps
+		expect(sheet.width).toBe(3 * 104 + 4);
+		expect(sheet.height).toBe(2 * (12 + 60 + 4));
+		// A pixel in the middle of the first thumbnail
+		const i = ((12 + 30) * sheet.width + 50) * 4;
+		expect(Array.from(sheet.pixels.subarray(i, i + 4))).toEqual([200, 200, 200, 255]);
+		// Some label pixels are white
+		const label = sheet.pixels.subarray(0, 12 * sheet.width * 4);
+		expect(label.some((v, i) => i % 4 === 0 && v === 255)).toBe(true);
+	});
+
+	it("should shrink thumbnails to fit large frames", () => {
+		const frame: RgbaImage = {
+			width: 1024,
+			height: 768,
+			pixels: new Uint8Array(1024 * 768 * 4),
+		};
+
+		const sheet = contactSheet(Array.from({ length: 12 }, (_, i) => keyframe(frame, i * 100)));
+
+		expect(sheet.width).toBeLessThanOrEqual(1568);
+		expect(sheet.height).toBeLessThanOrEqual(1568);
+		// 4x3 grid of thumbnails at a third of the size
+		expect(sheet.width).toBe(4 * (342 + 4) + 4);
+	});
+
+	it("should reject an empty list", () => {
+		expect(() => contactSheet([])).toThrow("at least one frame");
+	});
+});
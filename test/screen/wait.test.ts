@@ -0,0 +1,167 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import type { RgbaImage } from "../../src/screen/types.js";
+import { parsePattern, waitForChange, waitForText } from "../../src/screen/wait.js";
+import { renderTextScreen } from "../helpers/text-screen.js";
+
+/** Capture function over a shared framebuffer that `paint` mutates in place, like RfbClient. */
+function fakeScreen(width: number, height: number) {
+	const pixels = new Uint8Array(width * height * 4);
+	let captures = 0;
+	return {
+		get captures() {
+			return captures;
+		},
+		capture: async (): Promise<RgbaImage> => {
+			captures++;
+			return { width, height, pixels };
+		},
+		paint(count: number): void {
+			pixels.fill(255, 0, count * 4);
+		},
+	};
+}
+
+describe("waitForChange", () => {
+	it("should return as soon as enough pixels change", async () => {
+		const screen = fakeScreen(20, 20);
+		setTimeout(() => screen.paint(100), 30);
+
+		const result = await waitForChange(screen.capture, { interval: 10, timeout: 2000 });
+
+		expect(result.changed).toBe(true);
+		expect(result.diff.changedPixels).toBe(100);
+		expect(result.elapsed).toBeLessThan(1000);
+	});
+
+	it("should time out when the screen stays the same", async () => {
+		const screen = fakeScreen(20, 20);
+
+		const result = await waitForChange(screen.capture, { interval: 10, timeout: 50 });
+
+		expect(result.changed).toBe(false);
+		expect(result.diff.bounds).toBeNull();
+		expect(result.elapsed).toBeGreaterThanOrEqual(50);
+		expect(screen.captures).toBeGreaterThan(2);
+	});
+
+	it("should ignore changes below the pixel threshold", async () => {
+		const screen = fakeScreen(20, 20);
+		setTimeout(() => screen.paint(10), 10);
+
+		const result = await waitForChange(screen.capture, {
+			interval: 10,
+			timeout: 80,
+			minChangedPixels: 50,
+		});
+
+		expect(result.changed).toBe(false);
+		expect(result.diff.changedPixels).toBe(10);
+	});
+
+	it("should ignore changes outside the watched region", async () => {
+		const screen = fakeScreen(20, 20);
+		setTimeout(() => screen.paint(20), 10); // first row only
+
+		const result = await waitForChange(screen.capture, {
+			interval: 10,
+			timeout: 80,
+			minChangedPixels: 1,
+			region: { x: 0, y: 10, width: 20, height: 10 },
+		});
+
+		expect(result.changed).toBe(false);
+	});
+});
+
+describe("waitForText", () => {
+	/** Capture function that shows each screen in turn, repeating the last one. */
+	function screens(...lines: string[][]) {
+		const frames = lines.map((l) => renderTextScreen(l));
+		let captures = 0;
+		return async (): Promise<RgbaImage> => frames[Math.min(captures++, frames.length - 1)];
+	}
+
+	it("should match text that is already on the screen without waiting", async () => {
+		const result = await waitForText(screens(["Ubuntu 22.04 LTS", "host login:"]), ["login:"]);
+
+		expect(result.match).toEqual({ pattern: 0, text: "login:", row: 2 });
+		expect(result.elapsed).toBeLessThan(500);
+	});
+
+	it("should keep capturing until a pattern appears", async () => {
+		const capture = screens(
+			["Booting..."],
+			["Booting...", "[  OK  ] Reached target Basic System."],
+		);
+
+		const result = await waitForText(capture, ["Kernel panic", /Reached target ([A-Z]\w+ ?)+/], {
+			interval: 10,
+		});
+
+		expect(result.match).toEqual({ pattern: 1, text: "Reached target Basic System", row: 2 });
+		expect(result.screen?.text).toContain("Booting...");
+	});
+
+	it("should prefer earlier patterns when several match", async () => {
+		const result = await waitForText(screens(["Kernel panic - not syncing", "login:"]), [
+			"login:",
+			"Kernel panic",
+		]);
+
+		expect(result.match?.pattern).toBe(0);
+	});
+
+	it("should return the last frame when the timeout expires", async () => {
+		const result = await waitForText(screens(["Loading initial ramdisk ..."]), ["login:"], {
+			interval: 10,
+			timeout: 50,
+		});
+
+		expect(result.match).toBeNull();
+		expect(result.screen?.text).toBe("Loading initial ramdisk ...");
+		expect(result.image.width).toBe(640);
+		expect(result.elapsed).toBeGreaterThanOrEqual(50);
+	});
+});
+
+describe("parsePattern", () => {
+	it("should keep plain text as a substring", () => {
+		expect(parsePattern("login:")).toBe("login:");
+		expect(parsePattern("/dev/sda1")).toBe("/dev/sda1");
+	});
+
+	it("should keep paths as substrings", () => {
+		expect(parsePattern("/dev/sda")).toBe("/dev/sda");
+		expect(parsePattern("/var/log/messages")).toBe("/var/log/messages");
+		expect(parsePattern("/mnt/sysimage/")).toBe("/mnt/sysimage/");
+	});
+
+	it("should read a single-segment path as a regular expression, unless its slashes are escaped", () => {
+		expect((parsePattern("/boot/") as RegExp).test("reboot")).toBe(true);
+		expect((parsePattern("/\\/boot\\//") as RegExp).test("reboot")).toBe(false);
+		expect((parsePattern("/\\/boot\\//") as RegExp).test("mount /boot/efi")).toBe(true);
+	});
+
+	it("should parse /source/flags as a regular expression", () => {
+		const pattern = parsePattern("/reached target/i");
+
+		expect(pattern).toBeInstanceOf(RegExp);
+		expect((pattern as RegExp).test("Reached target")).toBe(true);
+	});
+
+	it("should drop the global and sticky flags", () => {
+		expect((parsePattern("/panic/gy") as RegExp).flags).toBe("");
+	});
+
+	it("should allow escaped slashes and slashes in character classes", () => {
+		expect((parsePattern("/sd[a/]1\\/x/") as RegExp).test("sd/1/x")).toBe(true);
+	});
+
+	it("should reject invalid regular expressions", () => {
+		expect(() => parsePattern("/(unclosed/")).toThrow("Invalid pattern /(unclosed/");
+		expect(() => parsePattern("/panic/ii")).toThrow("Invalid pattern /panic/ii");
+	});
+});
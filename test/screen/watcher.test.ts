@@ -0,0 +1,160 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import type { RgbaImage, WatchedFrame } from "../../src/screen/types.js";
+import { ScreenWatcher } from "../../src/screen/watcher.js";
+
+/** Screens keyed by name over shared framebuffers that `paint` mutates in place. */
+function fakeScreens(width: number, height: number) {
+	const screens = new Map<string, Uint8Array>();
+	const captures = new Map<string, number>();
+	let failing = false;
+	return {
+		captures: (key: string) => captures.get(key) ?? 0,
+		capture: async (key: string): Promise<RgbaImage> => {
+			captures.set(key, (captures.get(key) ?? 0) + 1);
+			if (failing) throw new Error("BMC busy");
+			let pixels = screens.get(key);
+			if (!pixels) {
+				pixels = new Uint8Array(width * height * 4);
+				screens.set(key, pixels);
+			}
+			return { width, height, pixels };
+		},
+		paint(key: string, count: number): void {
+			screens.get(key)?.fill(255, 0, count * 4);
+		},
+		set failing(value: boolean) {
+			failing = value;
+		},
+	};
+}
+
+function sleep(ms: number): Promise<void> {
+	return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("ScreenWatcher", () => {
+	it("should report changes against the previously reported frame", async () => {
+		const screens = fakeScreens(20, 20);
+		const watcher = new ScreenWatcher(screens.capture, { interval: 10 });
+		const changes: Array<[WatchedFrame, WatchedFrame]> = [];
+		watcher.watch("a", (frame, previous) => changes.push([frame, previous]));
+
+		await sleep(40);
+		expect(changes).toHaveLength(0);
+
+		screens.paint("a", 100);
+		await sleep(40);
+		watcher.close();
+
+		expect(changes).toHaveLength(1);
+		const [frame, previous] = changes[0];
+		expect(frame.image.pixels[0]).toBe(255);
+		expect(previous.image.pixels[0]).toBe(0);
+		expect(frame.capturedAt).toBeGreaterThan(previous.capturedAt);
+	});
+
+	it("should ignore changes below the pixel threshold", async () => {
+		const screens = fakeScreens(20, 20);
+		const watcher = new ScreenWatcher(screens.capture, { interval: 10, minChangedPixels: 50 });
+		let changes = 0;
+		watcher.watch("a", () => changes++);
+
+		await sleep(30);
+		screens.paint("a", 10);
+		await sleep(40);
+		watcher.close();
+
+		expect(changes).toBe(0);
+	});
+
+	it("should keep the latest capture of watched screens only", async () => {
+		const screens = fakeScreens(20, 20);
+		const watcher = new ScreenWatcher(screens.capture, { interval: 10 });
+		watcher.watch("a", () => {});
+
+		await sleep(30);
+
+		expect(watcher.latest("a")?.image.width).toBe(20);
+		expect(watcher.latest("b")).toBeUndefined();
+		watcher.close();
+	});
+
+	it("should stop capturing once the last listener is removed", async () => {
+		const screens = fakeScreens(20, 20);
+		const watcher = new ScreenWatcher(screens.capture, { interval: 10 });
+		const stopFirst = watcher.watch("a", () => {});
+		const stopSecond = watcher.watch("a", () => {});
+		watcher.watch("b", () => {});
+		await sleep(30);
+
+		stopFirst();
+		expect(watcher.size).toBe(2);
+		stopSecond();
+		expect(watcher.size).toBe(1);
+
+		const captures = screens.captures("a");
+		await sleep(40);
+		expect(screens.captures("a")).toBe(captures);
+		expect(watcher.latest("a")).toBeUndefined();
+		watcher.close();
+		expect(watcher.size).toBe(0);
+	});
+
+	it("should go idle after the idle timeout without changes", async () => {
+		const screens = fakeScreens(20, 20);
+		const watcher = new ScreenWatcher(screens.capture, { interval: 10, idleTimeout: 60 });
+		let changes = 0;
+		watcher.watch("a", () => changes++);
+		await sleep(30);
+		screens.paint("a", 100);
+		await sleep(40);
+		expect(changes).toBe(1);
+
+		// Idle 60ms after the change
+		await sleep(80);
+		const captures = screens.captures("a");
+		await sleep(40);
+		expect(screens.captures("a")).toBe(captures);
+		expect(watcher.latest("a")).toBeUndefined();
+		expect(watcher.size).toBe(1);
+		watcher.close();
+	});
+
+	it("should report changes made while idle once resumed", async () => {
+		const screens = fakeScreens(20, 20);
+		const watcher = new ScreenWatcher(screens.capture, { interval: 10, idleTimeout: 30 });
+		let changes = 0;
+		watcher.watch("a", () => changes++);
+		await sleep(80);
+
+		screens.paint("a", 100);
+		await sleep(30);
+		expect(changes).toBe(0);
+
+		watcher.resume("a");
+		await sleep(30);
+		watcher.close();
+
+		expect(changes).toBe(1);
+	});
+
+	it("should keep polling through capture errors", async () => {
+		const screens = fakeScreens(20, 20);
+		const watcher = new ScreenWatcher(screens.capture, { interval: 10 });
+		let changes = 0;
+		watcher.watch("a", () => changes++);
+		await sleep(30);
+
+		screens.failing = true;
+		await sleep(30);
+		screens.failing = false;
+		screens.paint("a", 100);
+		await sleep(40);
+		watcher.close();
+
+		expect(changes).toBe(1);
+	});
+});
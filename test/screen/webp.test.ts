@@ -0,0 +1,93 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { readFileSync } from "node:fs";
+import { join } from "node:path";
+import { encodePng } from "../../src/screen/image.js";
+import type { RgbaImage } from "../../src/screen/types.js";
+import { encodeWebp } from "../../src/screen/webp.js";
+import { renderTextScreen } from "../helpers/text-screen.js";
+import { decodeWebp } from "../helpers/webp.js";
+
+const FIXTURES = join(import.meta.dir, "../fixtures/ocr");
+
+function fixture(name: string): string[] {
+	return readFileSync(join(FIXTURES, `${name}.txt`), "utf8")
+		.trimEnd()
+		.split("\n");
+}
+
+/** Deterministic pseudo-random colors, so no palette applies. */
+function noiseImage(width: number, height: number): RgbaImage {
+	const pixels = new Uint8Array(width * height * 4);
+	let seed = 12345;
+	for (let i = 0; i < pixels.length; i++) {
+		seed = (Math.imul(seed, 1103515245) + 12345) >>> 0;
+		pixels[i] = i % 4 === 3 ? 255 : seed >>> 24;
+	}
+	return { width, height, pixels };
+}
+
+describe("encodeWebp", () => {
+	it("should round-trip a two-color text screen through the packed palette", () => {
+		const screen = renderTextScreen(["Kernel panic - not syncing: VFS: Unable to mount root fs"]);
+		const webp = encodeWebp(screen);
+
+		expect(decodeWebp(webp)).toEqual(screen);
+		expect(webp.length).toBeLessThan(encodePng(screen).length);
+	});
+
+	it("should round-trip palettes of every bundling width", () => {
+		for (const colors of [3, 9, 200]) {
+			const pixels = new Uint8Array(37 * 5 * 4);
+			for (let i = 0; i < 37 * 5; i++) {
+				const c = (i * 7) % colors;
+				pixels.set([c, 255 - c, (c * 13) & 0xff, 255], i * 4);
+			}
+			const image = { width: 37, height: 5, pixels };
+
+			expect(decodeWebp(encodeWebp(image))).toEqual(image);
+		}
+	});
+
+	it("should round-trip true-color images with transparency", () => {
+		const image = noiseImage(23, 11);
+		image.pixels[3] = 0;
+
+		expect(decodeWebp(encodeWebp(image))).toEqual(image);
+	});
+
+	it("should round-trip noisy screens", () => {
+		const screen = renderTextScreen(fixture("bios-setup"), {
+			noise: 6,
+			spans: [{ row: 2, column: 10, length: 50, fg: [0, 0, 0], bg: [200, 200, 200] }],
+		});
+
+		expect(decodeWebp(encodeWebp(screen))).toEqual(screen);
+	});
+
+	it("should compress repeated true-color rows with back-references", () => {
+		const image = noiseImage(400, 1);
+		const rows: RgbaImage = { width: 400, height: 50, pixels: new Uint8Array(400 * 50 * 4) };
+		for (let y = 0; y < 50; y++) rows.pixels.set(image.pixels, y * 400 * 4);
+		const webp = encodeWebp(rows);
+
+		expect(decodeWebp(webp)).toEqual(rows);
+		expect(webp.length).toBeLessThan(400 * 4 * 2);
+	});
+
+	it("should round-trip single pixels and single colors", () => {
+		const pixel: RgbaImage = { width: 1, height: 1, pixels: new Uint8Array([255, 255, 0, 127]) };
+		const blank: RgbaImage = { width: 300, height: 2, pixels: new Uint8Array(300 * 2 * 4) };
+
+		expect(decodeWebp(encodeWebp(pixel))).toEqual(pixel);
+		expect(decodeWebp(encodeWebp(blank))).toEqual(blank);
+	});
+
+	it("should reject images too large for WebP", () => {
+		const image = { width: 20000, height: 1, pixels: new Uint8Array(20000 * 4) };
+
+		expect(() => encodeWebp(image)).toThrow("WebP images must be 1-16384 pixels per side");
+	});
+});
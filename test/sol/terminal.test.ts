@@ -0,0 +1,152 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { decodePng, encodeFramePng } from "../../src/screen/image.js";
+import { extractText } from "../../src/screen/ocr.js";
+import { VGA_PALETTE } from "../../src/screen/palette.js";
+import type { RgbaImage } from "../../src/screen/types.js";
+import { Terminal } from "../../src/sol/terminal.js";
+
+function pixelAt(image: RgbaImage, x: number, y: number): number[] {
+	const offset = (y * image.width + x) * 4;
+	return [...image.pixels.subarray(offset, offset + 3)];
+}
+
+describe("Terminal", () => {
+	it("should split output into lines across writes", () => {
+		const terminal = new Terminal();
+		terminal.write("Booting Linux\r\nLoading initial ");
+		terminal.write("ramdisk ...\r\n");
+
+		expect(terminal.tail(10)).toEqual(["Booting Linux", "Loading initial ramdisk ..."]);
+		expect(terminal.totalLines).toBe(2);
+	});
+
+	it("should include the line still being written", () => {
+		const terminal = new Terminal();
+		terminal.write("Ubuntu 24.04 LTS host ttyS0\r\n\r\nhost login: ");
+
+		expect(terminal.tail(2)).toEqual(["", "host login:"]);
+		expect(terminal.cursor).toEqual({ row: 2, column: 12, visible: true });
+	});
+
+	it("should redraw lines on carriage returns and backspaces", () => {
+		const terminal = new Terminal();
+		terminal.write("fsck  10%\rfsck  55%\rfsck 100%\r\n");
+		terminal.write("passwd\b\b\b\b\b\bcat\r\n");
+
+		expect(terminal.tail(2)).toEqual(["fsck 100%", "catswd"]);
+	});
+
+	it("should ignore colors, titles and character sets, including sequences split across writes", () => {
+		const terminal = new Terminal();
+		terminal.write("\x1b[1;31mKernel panic\x1b[0");
+		terminal.write("m - not syncing\x1b]0;title\x07\x1b(B\r\n");
+
+		expect(terminal.tail(1)).toEqual(["Kernel panic - not syncing"]);
+	});
+
+	it("should expand tabs to 8 columns", () => {
+		const terminal = new Terminal();
+		terminal.write("a\tb\tc\n");
+
+		expect(terminal.tail(1)).toEqual(["a       b       c"]);
+	});
+
+	it("should decode UTF-8 characters split across chunks", () => {
+		const terminal = new Terminal();
+		const bytes = new TextEncoder().encode("├─sda1\n");
+		terminal.write(bytes.subarray(0, 2));
+		terminal.write(bytes.subarray(2));
+
+		expect(terminal.tail(1)).toEqual(["├─sda1"]);
+	});
+
+	it("should wrap long lines at the last column", () => {
+		const terminal = new Terminal({ columns: 10, rows: 4 });
+		terminal.write("0123456789abc\r\n");
+		terminal.write("0123456789\r\nnext");
+
+		expect(terminal.screenText()).toEqual(["0123456789", "abc", "0123456789", "next"]);
+	});
+
+	it("should move the cursor and erase parts of the screen", () => {
+		const terminal = new Terminal({ columns: 20, rows: 5 });
+		terminal.write("line one\r\nline two\r\nline three");
+		terminal.write("\x1b[2;6H\x1b[K2\x1b[1;1H\x1b[2P\x1b[3;5H\x1b[1K");
+
+		expect(terminal.screenText()).toEqual(["ne one", "line 2", "     three", "", ""]);
+		expect(terminal.cursor).toMatchObject({ row: 2, column: 4 });
+	});
+
+	it("should scroll lines off the top into the scrollback", () => {
+		const terminal = new Terminal({ columns: 20, rows: 3, scrollbackLines: 2 });
+		for (let i = 1; i <= 6; i++) terminal.write(`line ${i}\r\n`);
+
+		expect(terminal.screenText()).toEqual(["line 5", "line 6", ""]);
+		expect(terminal.tail(10)).toEqual(["line 3", "line 4", "line 5", "line 6"]);
+		expect(terminal.totalLines).toBe(6);
+	});
+
+	it("should keep a cleared screen in the scrollback", () => {
+		const terminal = new Terminal({ columns: 20, rows: 4 });
+		terminal.write("[  OK  ] Started A\r\n[  OK  ] Started B\r\n");
+		terminal.write("\x1b[H\x1b[2JInstaller");
+
+		expect(terminal.screenText()[0]).toBe("Installer");
+		expect(terminal.tail(10)).toEqual(["[  OK  ] Started A", "[  OK  ] Started B", "Installer"]);
+	});
+
+	it("should scroll only inside the scroll region", () => {
+		const terminal = new Terminal({ columns: 20, rows: 4 });
+		terminal.write("title\x1b[2;3r\x1b[2;1Ha\r\nb\r\nc\x1b[4;1Hstatus");
+
+		expect(terminal.screenText()).toEqual(["title", "b", "c", "status"]);
+		expect(terminal.tail(10)).toEqual(["title", "b", "c", "status"]);
+	});
+
+	it("should insert and delete lines", () => {
+		const terminal = new Terminal({ columns: 10, rows: 4 });
+		terminal.write("a\r\nb\r\nc\r\nd\x1b[2;1H\x1b[L\x1b[4;1H\x1b[M");
+
+		expect(terminal.screenText()).toEqual(["a", "", "b", ""]);
+	});
+
+	it("should restore the main screen after the alternate screen", () => {
+		const terminal = new Terminal({ columns: 20, rows: 3 });
+		terminal.write("$ nano notes");
+		terminal.write("\x1b[?1049h\x1b[H\x1b[2J  GNU nano 7.2");
+
+		expect(terminal.screenText()).toEqual(["  GNU nano 7.2", "", ""]);
+
+		terminal.write("\x1b[?1049l\r\n$ ");
+
+		expect(terminal.screenText()).toEqual(["$ nano notes", "$", ""]);
+		expect(terminal.tail(10)).toEqual(["$ nano notes", "$"]);
+	});
+
+	it("should render the screen with the VGA font and colors", () => {
+		const terminal = new Terminal({ columns: 40, rows: 5 });
+		terminal.write("\x1b[?25l\x1b[44m\x1b[2K\x1b[1;33m Debian installer \x1b[0m\r\n");
+		terminal.write("\r\nSelect a language:");
+
+		const image = terminal.render();
+
+		expect([image.width, image.height]).toEqual([320, 80]);
+		expect(pixelAt(image, 319, 0)).toEqual([...VGA_PALETTE[1]]);
+		expect(pixelAt(image, 0, 79)).toEqual([...VGA_PALETTE[0]]);
+		const screen = extractText(decodePng(encodeFramePng(image)));
+		expect(screen?.text).toBe(" Debian installer\n\nSelect a language:");
+	});
+
+	it("should draw the cursor as an underline", () => {
+		const terminal = new Terminal({ columns: 10, rows: 2 });
+		terminal.write("$ ");
+
+		const image = terminal.render();
+
+		expect(pixelAt(image, 16, 15)).toEqual([...VGA_PALETTE[7]]);
+		expect(pixelAt(image, 16, 12)).toEqual([...VGA_PALETTE[0]]);
+	});
+});
@@ -0,0 +1,109 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "bun:test";
+import { parseKeys } from "../../src/input/keys.js";
+import { sendVncKeys, sendVncPointer, typeVncText } from "../../src/vnc/input.js";
+import { TestVncServer } from "../helpers/vnc-server.js";
+
+/** Wait until `predicate` holds, polling every 5ms (server-side handlers run asynchronously). */
+async function waitFor(predicate: () => boolean, timeout = 2000): Promise<void> {
+	const deadline = Date.now() + timeout;
+	while (!predicate()) {
+		if (Date.now() > deadline) throw new Error("Condition not met in time");
+		await new Promise((resolve) => setTimeout(resolve, 5));
+	}
+}
+
+describe("VNC input", () => {
+	let server: TestVncServer;
+	let wsUrl: string;
+
+	beforeAll(() => {
+		server = new TestVncServer({ width: 320, height: 240 });
+		wsUrl = server.start();
+	});
+
+	afterEach(() => {
+		expect(server.protocolErrors).toEqual([]);
+		server.clearInputEvents();
+	});
+
+	afterAll(() => {
+		server.stop();
+	});
+
+	it("should send PointerEvent messages for a click", async () => {
+		const result = await sendVncPointer(
+			wsUrl,
+			{ type: "click", x: 100, y: 50, button: "left" },
+			{ pointerDelay: 0 },
+		);
+		await waitFor(() => server.pointerEvents.length === 3);
+
+		expect(result).toBeUndefined();
+		expect(server.pointerEvents).toEqual([
+			{ buttonMask: 0, x: 100, y: 50 },
+			{ buttonMask: 0x01, x: 100, y: 50 },
+			{ buttonMask: 0, x: 100, y: 50 },
+		]);
+	});
+
+	it("should use the RFB button mask bits", async () => {
+		await sendVncPointer(
+			wsUrl,
+			{ type: "click", x: 1, y: 1, button: "right" },
+			{ pointerDelay: 0 },
+		);
+		await waitFor(() => server.pointerEvents.length === 3);
+
+		expect(server.pointerEvents[1].buttonMask).toBe(0x04);
+	});
+
+	it("should clamp positions to the framebuffer", async () => {
+		await sendVncPointer(wsUrl, { type: "move", x: 5000, y: 5000 }, { pointerDelay: 0 });
+		await waitFor(() => server.pointerEvents.length === 1);
+
+		expect(server.pointerEvents[0]).toEqual({ buttonMask: 0, x: 319, y: 239 });
+	});
+
+	it("should capture a screenshot after the action when requested", async () => {
+		const result = await sendVncPointer(
+			wsUrl,
+			{ type: "move", x: 10, y: 10 },
+			{ pointerDelay: 0, screenshot: true, settleDelay: 0 },
+		);
+
+		expect(server.pointerEvents).toHaveLength(1);
+		expect(result?.width).toBe(320);
+		expect(result?.png[0]).toBe(0x89); // PNG magic
+	});
+
+	it("should hold modifiers around the key for chords", async () => {
+		await sendVncKeys(wsUrl, parseKeys(["Ctrl+Alt+Del"]), { keyDelay: 0 });
+		await waitFor(() => server.keyEvents.length === 6);
+
+		expect(server.keyEvents).toEqual([
+			{ down: true, keysym: 0xffe3 },
+			{ down: true, keysym: 0xffe9 },
+			{ down: true, keysym: 0xffff },
+			{ down: false, keysym: 0xffff },
+			{ down: false, keysym: 0xffe9 },
+			{ down: false, keysym: 0xffe3 },
+		]);
+	});
+
+	it("should type text as keysyms", async () => {
+		await typeVncText(wsUrl, "Aé\n", { keyDelay: 0 });
+		await waitFor(() => server.keyEvents.length === 6);
+
+		expect(server.keyEvents.filter((e) => e.down).map((e) => e.keysym)).toEqual([
+			0x41, 0xe9, 0xff0d,
+		]);
+	});
+
+	it("should reject untypeable text before connecting", async () => {
+		await expect(typeVncText(wsUrl, "a\u0007")).rejects.toThrow("U+0007 has no keysym");
+		expect(server.inputMessages).toHaveLength(0);
+	});
+});
@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: Apache-2.0
+// SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
+
+import { describe, expect, it } from "bun:test";
+import { KEY_CODES, parseKeyChord } from "../../src/input/keys.js";
+import { charToKeysym, keyStrokeToKeysyms } from "../../src/vnc/keysyms.js";
+
+describe("keyStrokeToKeysyms", () => {
+	it("should map every supported key code", () => {
+		for (const code of KEY_CODES) {
+			expect(keyStrokeToKeysyms({ code, modifiers: [] }).key).toBeNumber();
+		}
+	});
+
+	it("should use X11 keysyms for named keys", () => {
+		expect(keyStrokeToKeysyms(parseKeyChord("Enter")).key).toBe(0xff0d);
+		expect(keyStrokeToKeysyms(parseKeyChord("Esc")).key).toBe(0xff1b);
+		expect(keyStrokeToKeysyms(parseKeyChord("F1")).key).toBe(0xffbe);
+		expect(keyStrokeToKeysyms(parseKeyChord("F12")).key).toBe(0xffc9);
+		expect(keyStrokeToKeysyms(parseKeyChord("Up")).key).toBe(0xff52);
+		expect(keyStrokeToKeysyms(parseKeyChord("Numpad7")).key).toBe(0xffb7);
+	});
+
+	it("should resolve modifiers and shifted symbols", () => {
+		expect(keyStrokeToKeysyms(parseKeyChord("Ctrl+Alt+Del"))).toEqual({
+			modifiers: [0xffe3, 0xffe9],
+			key: 0xffff,
+		});
+		expect(keyStrokeToKeysyms(parseKeyChord("Shift+a")).key).toBe(0x41);
+		expect(keyStrokeToKeysyms(parseKeyChord("Shift+1")).key).toBe(0x21);
+		expect(keyStrokeToKeysyms(parseKeyChord("Shift+Tab")).key).toBe(0xff09);
+	});
+
+	it("should throw for keys without a keysym", () => {
+		expect(() => keyStrokeToKeysyms({ code: "Hyper", modifiers: [] })).toThrow("has no keysym");
+	});
+});
+
+describe("charToKeysym", () => {
+	it("should use Latin-1 code points directly", () => {
+		expect(charToKeysym("a")).toBe(0x61);
+		expect(charToKeysym("~")).toBe(0x7e);
+		expect(charToKeysym("é")).toBe(0xe9);
+	});
+
+	it("should map other Unicode characters to the 0x01000000 range", () => {
+		expect(charToKeysym("€")).toBe(0x010020ac);
+	});
+
+	it("should map newline and tab to Return and Tab", () => {
+		expect(charToKeysym("\n")).toBe(0xff0d);
+		expect(charToKeysym("\t")).toBe(0xff09);
+	});
+
+	it("should reject other control characters", () => {
+		expect(() => charToKeysym("\u0007")).toThrow("U+0007 has no keysym");
+	});
+});
@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: Apache-2.0
 // SPDX-FileCopyrightText: 2025 ovh-ikvm-mcp contributors
 
-import { afterAll, beforeAll, describe, expect, it } from "bun:test";
+import { afterAll, afterEach, beforeAll, describe, expect, it } from "bun:test";
 import { RfbClient } from "../../src/vnc/rfb-client.js";
 import { TestVncServer } from "../helpers/vnc-server.js";
 
@@ -76,6 +76,78 @@ describe("RfbClient", () => {
 	});
 });
 
+describe("RfbClient input", () => {
+	let server: TestVncServer;
+	let client: RfbClient;
+
+	/** Wait until the server has received `n` input messages. */
+	async function waitForMessages(n: number): Promise<void> {
+		const deadline = Date.now() + 2000;
+		while (server.inputMessages.length < n) {
+			if (Date.now() > deadline) throw new Error(`Expected ${n} input messages`);
+			await new Promise((resolve) => setTimeout(resolve, 5));
+		}
+	}
+
+	beforeAll(async () => {
+		server = new TestVncServer({ width: 320, height: 240 });
+		client = new RfbClient(server.start());
+		await client.connect();
+	});
+
+	afterEach(() => {
+		expect(server.protocolErrors).toEqual([]);
+		server.clearInputEvents();
+	});
+
+	afterAll(() => {
+		client.disconnect();
+		server.stop();
+	});
+
+	it("should send KeyEvent messages", async () => {
+		client.sendKey(0xff0d, true);
+		client.sendKey(0xff0d, false);
+		await waitForMessages(2);
+
+		expect(Array.from(server.inputMessages[0])).toEqual([4, 1, 0, 0, 0x00, 0x00, 0xff, 0x0d]);
+		expect(Array.from(server.inputMessages[1])).toEqual([4, 0, 0, 0, 0x00, 0x00, 0xff, 0x0d]);
+		expect(server.keyEvents).toEqual([
+			{ down: true, keysym: 0xff0d },
+			{ down: false, keysym: 0xff0d },
+		]);
+	});
+
+	it("should send PointerEvent messages", async () => {
+		client.sendPointer(300, 200, 0x05);
+		await waitForMessages(1);
+
+		expect(Array.from(server.inputMessages[0])).toEqual([5, 0x05, 0x01, 0x2c, 0x00, 0xc8]);
+		expect(server.pointerEvents).toEqual([{ buttonMask: 0x05, x: 300, y: 200 }]);
+	});
+
+	it("should send ClientCutText messages", async () => {
+		client.sendClipboard("héllo");
+		await waitForMessages(1);
+
+		expect(Array.from(server.inputMessages[0])).toEqual([
+			6, 0, 0, 0, 0, 0, 0, 5, 0x68, 0xe9, 0x6c, 0x6c, 0x6f,
+		]);
+		expect(server.clipboard).toEqual(["héllo"]);
+	});
+
+	it("should reject clipboard text outside Latin-1", () => {
+		expect(() => client.sendClipboard("5 €")).toThrow("outside Latin-1 at index 2");
+	});
+
+	it("should require a connection", () => {
+		const idle = new RfbClient("ws://localhost:1");
+		expect(() => idle.sendKey(0x61, true)).toThrow("Not connected");
+		expect(() => idle.sendPointer(0, 0, 0)).toThrow("Not connected");
+		expect(() => idle.sendClipboard("x")).toThrow("Not connected");
+	});
+});
+
 describe("RfbClient with VNC auth", () => {
 	let server: TestVncServer;
 	let wsUrl: string;